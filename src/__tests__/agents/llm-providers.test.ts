@@ -0,0 +1,112 @@
+import { generateObject } from 'ai';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { BaseMemoryAgent } from '../../agents/memory-optimizer/base/base-memory-agent';
+import {
+  getLLMProvider,
+  hasLLMProvider,
+  registerLLMProvider,
+  ReplayLanguageModel,
+} from '../../agents/memory-optimizer/llm-providers';
+import type { AgentRole } from '../../agents/memory-optimizer/prompt-manager';
+
+class TestAgent extends BaseMemoryAgent {
+  model(role: AgentRole) {
+    return this.getLanguageModel(role);
+  }
+}
+
+describe('memory optimizer LLM providers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'llm-providers-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should register the built-in providers', () => {
+    for (const name of ['openai', 'anthropic', 'openai-compatible', 'replay', 'heuristic']) {
+      expect(hasLLMProvider(name)).toBe(true);
+    }
+    expect(getLLMProvider('anthropic').reasoningConfig).toEqual({
+      thinking: { enabled: true, maxTokens: 2048 },
+    });
+    expect(() => getLLMProvider('nope')).toThrow('Unsupported LLM provider: nope');
+    expect(() => new TestAgent({} as any, { llmProvider: 'nope' })).toThrow(
+      'Unsupported LLM provider: nope',
+    );
+  });
+
+  it('should replay recorded responses in order and repeat the last one', async () => {
+    const replayFile = path.join(dir, 'replay.json');
+    writeFileSync(
+      replayFile,
+      JSON.stringify({ analyzer: [{ score: 1 }, { score: 2 }], optimizer: { score: 3 } }),
+    );
+    const agent = new TestAgent({} as any, { llmProvider: 'replay', replayFile });
+    const schema = z.object({ score: z.number() });
+    const scores = [];
+    for (let i = 0; i < 3; i++) {
+      const result = await generateObject({ model: agent.model('analyzer'), schema, prompt: 'x' });
+      scores.push(result.object.score);
+    }
+    const optimizer = await generateObject({
+      model: agent.model('optimizer'),
+      schema,
+      prompt: 'x',
+    });
+
+    expect(scores).toEqual([1, 2, 2]);
+    expect(optimizer.object).toEqual({ score: 3 });
+    expect(() => agent.model('safety')).toThrow('has no responses for the safety role');
+    expect(() => new ReplayLanguageModel('empty', [])).toThrow('No recorded responses');
+  });
+
+  it('should pick models per role from a registered provider', () => {
+    const createModel = jest.fn(
+      ({ role, modelId }) => new ReplayLanguageModel(modelId ?? role, ['{}']),
+    );
+    registerLLMProvider('test-provider', { createModel });
+    const agent = new TestAgent({} as any, {
+      llmProvider: 'test-provider',
+      model: 'base-model',
+      models: { optimizer: 'plan-model' },
+      replayFile: 'recording.json',
+    });
+
+    expect(agent.model('analyzer').modelId).toBe('base-model');
+    expect(agent.model('optimizer').modelId).toBe('plan-model');
+    expect(agent.model('optimizer')).toBe(agent.model('optimizer'));
+    expect(createModel).toHaveBeenCalledTimes(2);
+    expect(createModel).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'analyzer', replayFile: 'recording.json' }),
+    );
+  });
+
+  it('should create OpenAI-compatible models for the configured base URL only', () => {
+    const provider = getLLMProvider('openai-compatible');
+    const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    try {
+      delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+      expect(() => provider.createModel({ role: 'analyzer', modelId: 'qwen2.5-coder' })).toThrow(
+        'needs OPENAI_COMPATIBLE_BASE_URL',
+      );
+
+      process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+      const model = provider.createModel({ role: 'analyzer', modelId: 'qwen2.5-coder' });
+      expect(model.modelId).toBe('qwen2.5-coder');
+      expect(model.provider).toBe('openai-compatible.chat');
+    } finally {
+      if (baseURL === undefined) {
+        delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+      } else {
+        process.env.OPENAI_COMPATIBLE_BASE_URL = baseURL;
+      }
+    }
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  analyzeBranchState,
+  nameSimilarity,
+  normalizeName,
+  planOptimization,
+} from '../../agents/memory-optimizer/heuristics';
+import { AnalysisResultSchema, OptimizationPlanSchema } from '../../schemas/optimization/types';
+import { type BranchEntity, type BranchState } from '../../utils/branch-diff.utils';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function component(id: string, name: string, age: number, status = 'active'): BranchEntity {
+  return {
+    entityType: 'component',
+    id,
+    name,
+    properties: { id, name, status, created_at: daysAgo(age), updated_at: daysAgo(age) },
+  };
+}
+
+const STATE: BranchState = {
+  entities: [
+    component('comp-auth', 'Auth Service', 400),
+    component('comp-auth-2', 'auth-service', 300),
+    component('comp-payments', 'Payment Service', 200),
+    component('comp-payment', 'Payments Service', 200),
+    component('comp-legacy', 'Legacy Gateway', 200, 'deprecated'),
+    component('comp-old', 'Old Worker', 200),
+    component('comp-new', 'New Worker', 5),
+    component('comp-used', 'Used Library', 200, 'deprecated'),
+    {
+      entityType: 'tag',
+      id: 'tag-db',
+      name: 'Database',
+      properties: { id: 'tag-db', name: 'Database', created_at: daysAgo(10) },
+    },
+    {
+      entityType: 'tag',
+      id: 'tag-database',
+      name: 'database',
+      properties: { id: 'tag-database', name: 'database', created_at: daysAgo(10) },
+    },
+  ],
+  relationships: [
+    {
+      type: 'DEPENDS_ON',
+      fromType: 'component',
+      fromId: 'comp-auth',
+      toType: 'component',
+      toId: 'comp-payments',
+    },
+    {
+      type: 'DEPENDS_ON',
+      fromType: 'component',
+      fromId: 'comp-payments',
+      toType: 'component',
+      toId: 'comp-auth',
+    },
+    {
+      type: 'DEPENDS_ON',
+      fromType: 'component',
+      fromId: 'comp-payments',
+      toType: 'component',
+      toId: 'comp-used',
+    },
+  ],
+};
+
+describe('memory optimizer heuristics', () => {
+  it('should compare normalized names by edit distance', () => {
+    expect(normalizeName('  Auth_Service! ')).toBe('auth service');
+    expect(nameSimilarity('kitten', 'sitting')).toBeCloseTo(1 - 3 / 7);
+    expect(nameSimilarity('', '')).toBe(1);
+  });
+
+  it('should find stale entities, redundancies and dependency cycles', () => {
+    const analysis = analyzeBranchState(STATE, {
+      strategy: 'balanced',
+      staleDays: 90,
+      averageEntityAge: 170,
+      now: NOW,
+    });
+
+    expect(AnalysisResultSchema.parse(analysis)).toEqual(analysis);
+    expect(analysis.staleEntities.map((entity) => [entity.id, entity.staleness])).toEqual([
+      ['comp-legacy', 1],
+      ['comp-used', 0.7],
+      ['comp-auth-2', 0.5],
+      ['comp-old', 0.5],
+      ['comp-payment', 0.5],
+    ]);
+    expect(analysis.staleEntities[1]).toMatchObject({
+      safeToDelete: false,
+      reason: 'status is deprecated, unchanged for 200 days; still used by comp-payments',
+      dependencies: ['comp-payments'],
+      lastAccessed: daysAgo(200).toISOString(),
+    });
+    expect(analysis.redundancies).toEqual([
+      {
+        entities: ['comp-auth', 'comp-auth-2'],
+        similarity: 1,
+        type: 'duplicate',
+        mergeRecommendation: 'Merge comp-auth-2 into comp-auth',
+        primaryEntity: 'comp-auth',
+      },
+      expect.objectContaining({ entities: ['tag-database', 'tag-db'], type: 'duplicate' }),
+      expect.objectContaining({
+        entities: ['comp-payment', 'comp-payments'],
+        similarity: 0.94,
+        type: 'near-duplicate',
+        primaryEntity: 'comp-payments',
+      }),
+    ]);
+    expect(analysis.optimizationOpportunities.map((opportunity) => opportunity.type)).toEqual([
+      'orphan-removal',
+      'tag-consolidation',
+      'circular-dependency-fix',
+    ]);
+    expect(analysis.optimizationOpportunities[2].entities).toEqual(['comp-auth', 'comp-payments']);
+    expect(analysis.recommendations[0]).toBe('Average entity age is 170 days');
+    expect(analysis.riskAssessment).toMatchObject({
+      overallRisk: 'high',
+      criticalEntitiesAtRisk: ['comp-used'],
+    });
+  });
+
+  it('should not report recently changed entities as stale', () => {
+    const analysis = analyzeBranchState(STATE, { strategy: 'aggressive', staleDays: 30, now: NOW });
+
+    expect(analysis.staleEntities.map((entity) => entity.id)).not.toContain('comp-new');
+    expect(analysis.staleEntities.map((entity) => entity.id)).not.toContain('tag-db');
+  });
+
+  it('should plan merges before deletes within the strategy limits', () => {
+    const analysis = analyzeBranchState(STATE, { strategy: 'balanced', staleDays: 90, now: NOW });
+    const plan = planOptimization(STATE, analysis, 'balanced');
+
+    expect(OptimizationPlanSchema.parse(plan)).toEqual(plan);
+    expect(
+      plan.actions.map((action) => [action.type, action.entityId, action.targetEntityId]),
+    ).toEqual([
+      ['merge', 'comp-auth-2', 'comp-auth'],
+      ['merge', 'tag-db', 'tag-database'],
+      ['merge', 'comp-payment', 'comp-payments'],
+      ['delete', 'comp-legacy', undefined],
+      ['delete', 'comp-old', undefined],
+    ]);
+    expect(plan.actions[1].entityType).toBe('tag');
+    expect(plan.executionOrder).toEqual([
+      'comp-auth-2',
+      'tag-db',
+      'comp-payment',
+      'comp-legacy',
+      'comp-old',
+    ]);
+    expect(plan.id).toMatch(/^heuristic-balanced-[0-9a-f]{12}$/);
+    expect(planOptimization(STATE, analysis, 'balanced')).toEqual(plan);
+
+    const conservative = planOptimization(
+      STATE,
+      analyzeBranchState(STATE, { strategy: 'conservative', staleDays: 180, now: NOW }),
+      'conservative',
+    );
+    expect(conservative.actions.map((action) => action.entityId)).toEqual([
+      'comp-auth-2',
+      'tag-db',
+      'comp-legacy',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolHandlerContext } from '../mcp/types/sdk-custom';
+import { MemoryService } from '../services/memory.service';
+
+describe('BranchService merge end-to-end', () => {
+  const repository = 'test-repo';
+  let clientProjectRoot: string;
+  let memoryService: MemoryService;
+  const mcpContext: ToolHandlerContext = {
+    logger: console,
+    sendProgress: async () => {}, // no-op
+  } as unknown as ToolHandlerContext;
+
+  beforeAll(async () => {
+    clientProjectRoot = fs.mkdtempSync(path.join(__dirname, 'kuzu-merge-test-'));
+    memoryService = await MemoryService.getInstance(mcpContext);
+
+    const memoryBank = await memoryService.memoryBank;
+    for (const branch of ['main', 'feat']) {
+      const initResult = await memoryBank.initMemoryBank(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        branch,
+      );
+      expect(initResult.success).toBe(true);
+    }
+
+    const entityService = await memoryService.entity;
+    await entityService.upsertComponent(mcpContext, clientProjectRoot, repository, 'feat', {
+      id: 'comp-feat',
+      name: 'Feature Module',
+      kind: 'service',
+      status: 'active',
+    });
+    await entityService.addFile(mcpContext, clientProjectRoot, repository, 'feat', {
+      id: 'file-1',
+      name: 'feature.ts',
+      path: 'src/feature.ts',
+    } as any);
+    await entityService.addTag(mcpContext, clientProjectRoot, repository, 'feat', {
+      id: 'tag-1',
+      name: 'Feature',
+    } as any);
+    await entityService.associateFileWithComponent(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      'feat',
+      'comp-feat',
+      'file-1',
+    );
+    await entityService.tagItem(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      'feat',
+      'comp-feat',
+      'Component',
+      'tag-1',
+    );
+  }, 60000);
+
+  afterAll(() => {
+    if (clientProjectRoot && fs.existsSync(clientProjectRoot)) {
+      fs.rmSync(clientProjectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should leave the files and tags of the source branch in place', async () => {
+    const branchService = await memoryService.branch;
+    const result = await branchService.mergeBranches(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      'feat',
+      'main',
+    );
+    expect(result.success).toBe(true);
+    expect(result.summary.created).toBe(1);
+
+    const kuzuClient = await memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    const shared = await kuzuClient.executeQuery(
+      `MATCH (n:File:Tag) WHERE n.id IN ['file-1', 'tag-1']
+       OPTIONAL MATCH (n)-[:PART_OF]->(repo:Repository)
+       RETURN n.id AS id, n.branch AS branch, collect(repo.id) AS repositories`,
+    );
+    expect(shared).toHaveLength(2);
+    for (const row of shared) {
+      expect(row.branch).toBe('feat');
+      expect(row.repositories.filter((id: string) => id === `${repository}:main`)).toEqual([]);
+    }
+
+    const merged = await kuzuClient.executeQuery(
+      `MATCH (c:Component {graph_unique_id: $key})-[r]->(n:File:Tag)
+       RETURN label(r) AS type, n.id AS id ORDER BY id`,
+      { key: `${repository}:main:comp-feat` },
+    );
+    expect(merged.map((row: any) => row.id)).toEqual(['file-1', 'tag-1']);
+  }, 60000);
+});
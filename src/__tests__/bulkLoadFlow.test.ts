@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolHandlerContext } from '../mcp/types/sdk-custom';
+import { MemoryService } from '../services/memory.service';
+
+describe('BulkOperationsService bulk load end-to-end', () => {
+  const repository = 'test-repo';
+  let clientProjectRoot: string;
+  let memoryService: MemoryService;
+  const mcpContext: ToolHandlerContext = {
+    logger: console,
+    sendProgress: async () => {}, // no-op
+  } as unknown as ToolHandlerContext;
+
+  const query = async (cypher: string, params: Record<string, unknown> = {}) => {
+    const kuzuClient = await memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    return kuzuClient.executeQuery(cypher, params);
+  };
+
+  beforeAll(async () => {
+    clientProjectRoot = fs.mkdtempSync(path.join(__dirname, 'kuzu-bulk-load-test-'));
+    memoryService = await MemoryService.getInstance(mcpContext);
+
+    const memoryBank = await memoryService.memoryBank;
+    for (const branch of ['main', 'feat']) {
+      const initResult = await memoryBank.initMemoryBank(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        branch,
+      );
+      expect(initResult.success).toBe(true);
+    }
+
+    const entityService = await memoryService.entity;
+    await entityService.addFile(mcpContext, clientProjectRoot, repository, 'feat', {
+      id: 'file-1',
+      name: 'feature.ts',
+      path: 'src/feature.ts',
+    } as any);
+  }, 60000);
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    if (clientProjectRoot && fs.existsSync(clientProjectRoot)) {
+      fs.rmSync(clientProjectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should copy components with their dependencies and link files of other branches', async () => {
+    const bulkImport = await memoryService.bulkImport;
+    const result = await bulkImport.bulkLoad(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      'main',
+      {
+        components: [
+          { id: 'comp-A', name: 'A', depends_on: ['comp-B'] },
+          { id: 'comp-B', name: 'B' },
+        ],
+        files: [{ id: 'file-1', name: 'renamed.ts', path: 'src/renamed.ts' }],
+        relationships: [{ type: 'IMPLEMENTS', fromId: 'comp-A', toId: 'file-1' }],
+      },
+      { overwrite: true },
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.counts.components.created).toBe(2);
+    expect(result.counts.files.linked).toBe(1);
+    expect(
+      await query(
+        `MATCH (c:Component {graph_unique_id: $key})-[:DEPENDS_ON]->(d:Component)
+         RETURN c.dependsOn AS dependsOn, d.id AS dependency`,
+        { key: `${repository}:main:comp-A` },
+      ),
+    ).toEqual([{ dependsOn: ['comp-B'], dependency: 'comp-B' }]);
+    expect(
+      await query(
+        `MATCH (c:Component)-[:IMPLEMENTS]->(f:File {id: 'file-1'})
+         RETURN c.graph_unique_id AS key, f.name AS name, f.branch AS branch`,
+      ),
+    ).toEqual([{ key: `${repository}:main:comp-A`, name: 'feature.ts', branch: 'feat' }]);
+  }, 60000);
+
+  it('should remove the copied nodes when the merge of existing entities fails', async () => {
+    const branchService = await memoryService.branch;
+    jest.spyOn(branchService, 'writeEntity').mockRejectedValueOnce(new Error('disk full'));
+    const bulkImport = await memoryService.bulkImport;
+
+    await expect(
+      bulkImport.bulkLoad(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        'main',
+        {
+          components: [
+            { id: 'comp-A', name: 'A again' },
+            { id: 'comp-C', name: 'C', depends_on: ['comp-A'] },
+          ],
+        },
+        { overwrite: true },
+      ),
+    ).rejects.toThrow('Bulk load into test-repo:main rolled back: disk full');
+
+    expect(
+      await query(
+        `MATCH (c:Component) WHERE c.graph_unique_id STARTS WITH $prefix
+         RETURN c.id AS id, c.name AS name ORDER BY id`,
+        { prefix: `${repository}:main:` },
+      ),
+    ).toEqual([
+      { id: 'comp-A', name: 'A' },
+      { id: 'comp-B', name: 'B' },
+    ]);
+  }, 60000);
+});
@@ -0,0 +1,59 @@
+import {
+  formatToolResult,
+  isFailedResult,
+  parseIntegerOption,
+  parseJsonOption,
+  parseListOption,
+} from '../../cli/tool-output';
+
+describe('CLI tool output', () => {
+  it('should print the message followed by the remaining fields', () => {
+    const output = formatToolResult({
+      success: true,
+      message: 'Found 2 dependencies',
+      componentId: 'comp-b',
+      empty: [],
+      skipped: undefined,
+      tags: ['core', 'auth'],
+      components: [
+        { id: 'comp-a', name: 'Auth', created_at: new Date('2024-01-01T00:00:00Z') },
+        { id: 'comp-c', name: '', depends_on: { count: 1 } },
+      ],
+    });
+
+    expect(output).toBe(
+      [
+        'Found 2 dependencies',
+        'success: true',
+        'componentId: comp-b',
+        'empty: []',
+        'tags: core, auth',
+        'components:',
+        '  - id: comp-a',
+        '    name: Auth',
+        '    created_at: 2024-01-01T00:00:00.000Z',
+        '  - id: comp-c',
+        '    name: ""',
+        '    depends_on:',
+        '      count: 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should treat success false and status error as failures', () => {
+    expect(isFailedResult({ success: false })).toBe(true);
+    expect(isFailedResult({ status: 'error' })).toBe(true);
+    expect(isFailedResult({ status: 'complete' })).toBe(false);
+    expect(isFailedResult([])).toBe(false);
+  });
+
+  it('should parse option values', () => {
+    expect(parseIntegerOption('10')).toBe(10);
+    expect(() => parseIntegerOption('1.5')).toThrow('Not an integer.');
+    expect(parseListOption('Component, Decision,')).toEqual(['Component', 'Decision']);
+    expect(parseJsonOption('{"name":"API"}')).toEqual({ name: 'API' });
+    expect(() => parseJsonOption('[1]')).toThrow('Expected a JSON object.');
+    expect(() => parseJsonOption('{name')).toThrow('Not valid JSON.');
+  });
+});
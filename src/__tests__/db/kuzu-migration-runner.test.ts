@@ -0,0 +1,135 @@
+import { type SchemaMigration } from '../../db/migrations';
+import { formatMigrationPlan, KuzuMigrationRunner } from '../../db/services/kuzu-migration-runner';
+
+const migrations: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: ['CREATE NODE TABLE IF NOT EXISTS A (id STRING, PRIMARY KEY (id));'],
+  },
+  {
+    version: 2,
+    name: 'a-label',
+    up: ['ALTER TABLE A ADD IF NOT EXISTS label STRING;'],
+    down: ['ALTER TABLE A DROP IF EXISTS label;'],
+  },
+];
+
+/**
+ * In-memory stand-in for the query executor and transaction manager that records
+ * executed statements and keeps SchemaVersion rows
+ */
+function createFakeDatabase(appliedVersions: number[] = []) {
+  const versions = new Map(appliedVersions.map((v) => [v, migrations[v - 1].name]));
+  let versionTable = appliedVersions.length > 0;
+  const executed: string[] = [];
+
+  const run = async (query: string, params?: Record<string, any>) => {
+    if (query.includes('CREATE NODE TABLE IF NOT EXISTS SchemaVersion')) {
+      versionTable = true;
+    } else if (query.startsWith('CREATE (v:SchemaVersion')) {
+      versions.set(params!.version, params!.name);
+    } else if (query.startsWith('MATCH (v:SchemaVersion {version')) {
+      versions.delete(params!.version);
+    } else if (query.startsWith('MATCH (v:SchemaVersion)')) {
+      return Array.from(versions.entries()).map(([version, name]) => ({
+        version,
+        name,
+        appliedAt: null,
+      }));
+    } else {
+      if (query.includes('FAIL')) {
+        throw new Error('Binder exception');
+      }
+      executed.push(query);
+    }
+    return [];
+  };
+
+  const queryExecutor = {
+    executeQuery: jest.fn(run),
+    tableExists: jest.fn(async () => versionTable),
+  };
+  const transactionManager = {
+    transaction: jest.fn(async (block: any) => block({ executeQuery: run })),
+  };
+  return { queryExecutor, transactionManager, versions, executed };
+}
+
+function createRunner(db: ReturnType<typeof createFakeDatabase>, list = migrations) {
+  return new KuzuMigrationRunner(
+    '/tmp/project',
+    db.queryExecutor as any,
+    db.transactionManager as any,
+    list,
+  );
+}
+
+describe('KuzuMigrationRunner', () => {
+  it('should report every migration as pending for an unversioned database', async () => {
+    const status = await createRunner(createFakeDatabase()).getStatus();
+
+    expect(status.currentVersion).toBe(0);
+    expect(status.latestVersion).toBe(2);
+    expect(status.pending.map((m) => m.name)).toEqual(['baseline', 'a-label']);
+  });
+
+  it('should apply pending migrations in order and record the version', async () => {
+    const db = createFakeDatabase([1]);
+    const migrationPlan = await createRunner(db).migrate();
+
+    expect(migrationPlan).toMatchObject({ direction: 'up', fromVersion: 1, toVersion: 2 });
+    expect(db.executed).toEqual(['ALTER TABLE A ADD IF NOT EXISTS label STRING;']);
+    expect(Array.from(db.versions.keys())).toEqual([1, 2]);
+    expect(db.transactionManager.transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only plan during a dry run', async () => {
+    const db = createFakeDatabase();
+    const migrationPlan = await createRunner(db).migrate({ dryRun: true });
+
+    expect(db.executed).toEqual([]);
+    expect(db.versions.size).toBe(0);
+    expect(formatMigrationPlan(migrationPlan)).toBe(
+      [
+        '-- Apply migration 1 (baseline)',
+        'CREATE NODE TABLE IF NOT EXISTS A (id STRING, PRIMARY KEY (id));',
+        '',
+        '-- Apply migration 2 (a-label)',
+        'ALTER TABLE A ADD IF NOT EXISTS label STRING;',
+      ].join('\n'),
+    );
+  });
+
+  it('should roll back with down steps and refuse migrations without them', async () => {
+    const db = createFakeDatabase([1, 2]);
+    const runner = createRunner(db);
+
+    await runner.migrate({ targetVersion: 1 });
+    expect(db.executed).toEqual(['ALTER TABLE A DROP IF EXISTS label;']);
+    expect(Array.from(db.versions.keys())).toEqual([1]);
+
+    await expect(runner.migrate({ targetVersion: 0 })).rejects.toThrow(
+      'Migration 1 (baseline) cannot be rolled back',
+    );
+    await expect(runner.migrate({ targetVersion: 3 })).rejects.toThrow(
+      'newer than the latest known version 2',
+    );
+  });
+
+  it('should stop at a failing migration without recording it', async () => {
+    const db = createFakeDatabase([1]);
+    const failing = [migrations[0], { ...migrations[1], up: ['FAIL'] }];
+
+    await expect(createRunner(db, failing).migrate()).rejects.toThrow(
+      'Schema migration 2 (a-label) failed: Binder exception',
+    );
+    expect(Array.from(db.versions.keys())).toEqual([1]);
+  });
+
+  it('should reject gaps in migration versions', () => {
+    expect(() => createRunner(createFakeDatabase(), [migrations[1]])).toThrow(
+      'numbered consecutively',
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { MIGRATIONS } from '../../db/migrations';
+import {
+  detectSchemaDrift,
+  EXPECTED_NODE_PROPERTIES,
+  type PropertyDefinition,
+  summarizeSchemaDrift,
+} from '../../db/schema-drift';
+
+/**
+ * Node table properties after applying every migration, read from the DDL statements
+ */
+function migratedNodeProperties(): Record<string, PropertyDefinition[]> {
+  const tables: Record<string, PropertyDefinition[]> = {};
+  for (const statement of MIGRATIONS.flatMap((migration) => migration.up)) {
+    const created = statement.match(/CREATE NODE TABLE IF NOT EXISTS (\w+) \(([\s\S]*)\);/);
+    const added = statement.match(/ALTER TABLE (\w+) ADD IF NOT EXISTS (\w+) ([^;]+);/);
+    if (created) {
+      tables[created[1]] = created[2]
+        .split(',')
+        .map((column) => column.trim())
+        .filter((column) => column && !column.startsWith('PRIMARY KEY'))
+        .map((column) => {
+          const [name, type] = column.split(/\s+/);
+          return { name, type };
+        });
+    } else if (added) {
+      tables[added[1]].push({ name: added[2], type: added[3] });
+    }
+  }
+  return tables;
+}
+
+describe('detectSchemaDrift', () => {
+  const expected = {
+    Rule: { id: 'STRING', content: 'STRING', triggers: 'STRING[]' },
+    Tag: { id: 'STRING', name: 'STRING' },
+  };
+
+  it('should report missing, extra and type-mismatched properties per label', () => {
+    const report = detectSchemaDrift(
+      {
+        Rule: [
+          { name: 'id', type: 'STRING' },
+          { name: 'content', type: 'INT64' },
+          { name: 'examples', type: 'STRING[]' },
+        ],
+        Tag: [],
+      },
+      expected,
+    );
+
+    expect(report.inSync).toBe(false);
+    expect(report.labels[0]).toEqual({
+      label: 'Rule',
+      tableMissing: false,
+      missing: [{ name: 'triggers', type: 'STRING[]' }],
+      extra: [{ name: 'examples', type: 'STRING[]' }],
+      typeMismatches: [{ name: 'content', expectedType: 'STRING', actualType: 'INT64' }],
+    });
+    expect(summarizeSchemaDrift(report)).toEqual([
+      'Rule: missing triggers; extra examples; content is INT64 instead of STRING',
+      'Tag: table missing',
+    ]);
+  });
+
+  it('should be in sync when the live properties match the model', () => {
+    const report = detectSchemaDrift(
+      {
+        Tag: [
+          { name: 'name', type: 'string' },
+          { name: 'id', type: 'STRING' },
+        ],
+        Unknown: [{ name: 'id', type: 'STRING' }],
+      },
+      expected,
+    );
+
+    expect(report).toEqual({
+      inSync: true,
+      labels: [{ label: 'Tag', tableMissing: false, missing: [], extra: [], typeMismatches: [] }],
+    });
+    expect(summarizeSchemaDrift(report)).toEqual([]);
+  });
+
+  it('should match the schema the migrations create', () => {
+    const migrated = migratedNodeProperties();
+    const report = detectSchemaDrift(migrated);
+
+    expect(summarizeSchemaDrift(report)).toEqual([]);
+    expect(Object.keys(migrated).sort()).toEqual(
+      expect.arrayContaining(Object.keys(EXPECTED_NODE_PROPERTIES).sort()),
+    );
+  });
+});
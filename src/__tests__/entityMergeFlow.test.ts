@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolHandlerContext } from '../mcp/types/sdk-custom';
+import { MemoryService } from '../services/memory.service';
+
+describe('EntityService merge end-to-end', () => {
+  const repository = 'test-repo';
+  let clientProjectRoot: string;
+  let memoryService: MemoryService;
+  const mcpContext: ToolHandlerContext = {
+    logger: console,
+    sendProgress: async () => {}, // no-op
+  } as unknown as ToolHandlerContext;
+
+  const taggedItems = async (tagId: string): Promise<string[]> => {
+    const kuzuClient = await memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    const rows = await kuzuClient.executeQuery(
+      `MATCH (c:Component)-[:TAGGED_WITH]->(t:Tag {id: $tagId})
+       RETURN c.graph_unique_id AS key ORDER BY key`,
+      { tagId },
+    );
+    return rows.map((row: any) => row.key);
+  };
+
+  beforeAll(async () => {
+    clientProjectRoot = fs.mkdtempSync(path.join(__dirname, 'kuzu-entity-merge-test-'));
+    memoryService = await MemoryService.getInstance(mcpContext);
+
+    const memoryBank = await memoryService.memoryBank;
+    for (const branch of ['main', 'feature']) {
+      const initResult = await memoryBank.initMemoryBank(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        branch,
+      );
+      expect(initResult.success).toBe(true);
+    }
+
+    const entityService = await memoryService.entity;
+    const tag = async (branch: string, componentId: string, tagId: string) => {
+      await entityService.addTag(mcpContext, clientProjectRoot, repository, branch, {
+        id: tagId,
+        name: tagId,
+      } as any);
+      await entityService.tagItem(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        branch,
+        componentId,
+        'Component',
+        tagId,
+      );
+    };
+    for (const [branch, componentId] of [
+      ['main', 'comp-m'],
+      ['feature', 'comp-f'],
+    ]) {
+      await entityService.upsertComponent(mcpContext, clientProjectRoot, repository, branch, {
+        id: componentId,
+        name: componentId,
+        kind: 'service',
+        status: 'active',
+      });
+    }
+    await tag('feature', 'comp-f', 'tag-old');
+    await tag('main', 'comp-m', 'tag-main-old');
+    await tag('main', 'comp-m', 'tag-new');
+    await tag('main', 'comp-m', 'tag-shared');
+    // A feature component tagged with a tag of main, as forkBranch links shared tags
+    const kuzuClient = await memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    await kuzuClient.executeQuery(
+      `MATCH (c:Component {graph_unique_id: $key}), (t:Tag {id: 'tag-shared'})
+       MERGE (c)-[:TAGGED_WITH]->(t)`,
+      { key: `${repository}:feature:comp-f` },
+    );
+  }, 60000);
+
+  afterAll(() => {
+    if (clientProjectRoot && fs.existsSync(clientProjectRoot)) {
+      fs.rmSync(clientProjectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should not merge a tag of another branch', async () => {
+    const entityService = await memoryService.entity;
+
+    await expect(
+      entityService.mergeEntities(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        'main',
+        'tag',
+        'tag-old',
+        'tag-new',
+      ),
+    ).rejects.toThrow('tag tag-old not found in test-repo:main');
+    expect(await taggedItems('tag-old')).toEqual([`${repository}:feature:comp-f`]);
+  }, 60000);
+
+  it('should not merge a tag linked to components of another branch', async () => {
+    const entityService = await memoryService.entity;
+
+    await expect(
+      entityService.mergeEntities(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        'main',
+        'tag',
+        'tag-shared',
+        'tag-new',
+      ),
+    ).rejects.toThrow('linked to entities of other branches (Component comp-f)');
+    expect(await taggedItems('tag-shared')).toEqual([
+      `${repository}:feature:comp-f`,
+      `${repository}:main:comp-m`,
+    ]);
+  }, 60000);
+
+  it('should move the links of a tag on the merge branch', async () => {
+    const entityService = await memoryService.entity;
+    const result = await entityService.mergeEntities(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      'main',
+      'tag',
+      'tag-main-old',
+      'tag-new',
+    );
+
+    expect(result).toMatchObject({ success: true, relationshipsMoved: 1 });
+    expect(await taggedItems('tag-main-old')).toEqual([]);
+    expect(await taggedItems('tag-new')).toEqual([`${repository}:main:comp-m`]);
+  }, 60000);
+});
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolHandlerContext } from '../mcp/types/sdk-custom';
+import { MemoryService } from '../services/memory.service';
+import { createMemoryExport } from '../utils/memory-export.utils';
+
+describe('MemoryTransferService import end-to-end', () => {
+  const repository = 'test-repo';
+  let clientProjectRoot: string;
+  let memoryService: MemoryService;
+  const mcpContext: ToolHandlerContext = {
+    logger: console,
+    sendProgress: async () => {}, // no-op
+  } as unknown as ToolHandlerContext;
+
+  beforeAll(async () => {
+    clientProjectRoot = fs.mkdtempSync(path.join(__dirname, 'kuzu-import-test-'));
+    memoryService = await MemoryService.getInstance(mcpContext);
+
+    const memoryBank = await memoryService.memoryBank;
+    for (const branch of ['main', 'feat']) {
+      const initResult = await memoryBank.initMemoryBank(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        branch,
+      );
+      expect(initResult.success).toBe(true);
+    }
+
+    const entityService = await memoryService.entity;
+    await entityService.addFile(mcpContext, clientProjectRoot, repository, 'feat', {
+      id: 'file-1',
+      name: 'feature.ts',
+      path: 'src/feature.ts',
+    } as any);
+  }, 60000);
+
+  afterAll(() => {
+    if (clientProjectRoot && fs.existsSync(clientProjectRoot)) {
+      fs.rmSync(clientProjectRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('should link a file of another branch instead of moving it', async () => {
+    const memoryExport = createMemoryExport(
+      repository,
+      'main',
+      null,
+      [
+        { entityType: 'component', id: 'comp-A', properties: { id: 'comp-A', name: 'A' } },
+        { entityType: 'file', id: 'file-1', properties: { id: 'file-1', name: 'renamed.ts' } },
+      ],
+      [
+        {
+          type: 'IMPLEMENTS',
+          fromType: 'component',
+          fromId: 'comp-A',
+          toType: 'file',
+          toId: 'file-1',
+        },
+      ],
+    );
+
+    const transferService = await memoryService.transfer;
+    const result = await transferService.importMemory(mcpContext, clientProjectRoot, memoryExport, {
+      conflictPolicy: 'overwrite',
+    });
+
+    expect(result).toMatchObject({ created: 1, linked: 1, relationships: { imported: 1 } });
+    const kuzuClient = await memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    const files = await kuzuClient.executeQuery(
+      `MATCH (c:Component {graph_unique_id: $key})-[:IMPLEMENTS]->(f:File)
+       RETURN f.id AS id, f.name AS name, f.branch AS branch`,
+      { key: `${repository}:main:comp-A` },
+    );
+    expect(files).toEqual([{ id: 'file-1', name: 'feature.ts', branch: 'feat' }]);
+  }, 60000);
+
+  it('should import nothing when a write fails', async () => {
+    const memoryExport = createMemoryExport(
+      repository,
+      'main',
+      null,
+      [
+        { entityType: 'component', id: 'comp-B', properties: { id: 'comp-B', name: 'B' } },
+        { entityType: 'component', id: 'comp-C', properties: { id: 'comp-C', no_column: 'x' } },
+      ],
+      [],
+    );
+
+    const transferService = await memoryService.transfer;
+    await expect(
+      transferService.importMemory(mcpContext, clientProjectRoot, memoryExport),
+    ).rejects.toThrow('Import into test-repo:main rolled back');
+
+    const kuzuClient = await memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    const created = await kuzuClient.executeQuery(
+      `MATCH (c:Component) WHERE c.id IN ['comp-B', 'comp-C'] RETURN c.id AS id`,
+    );
+    expect(created).toEqual([]);
+  }, 60000);
+});
@@ -0,0 +1,139 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryPromptProvider } from '../../mcp/prompts/memory-prompts';
+import { type RepositoryScope } from '../../mcp/resources/memory-resources';
+import { MemoryService } from '../../services/memory.service';
+
+const logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as any;
+
+describe('MemoryPromptProvider', () => {
+  const nodes: Record<string, Record<string, any>> = {
+    'Component:comp-Auth': { id: 'comp-Auth', name: 'Auth Service', kind: 'service' },
+    'Decision:dec-1': { id: 'dec-1', name: 'Add MFA', status: 'proposed', context: '1. Add TOTP' },
+  };
+  const graphQuery = {
+    getNodeById: jest.fn(
+      async (_c, _r, _repo, _b, label: string, id: string) => nodes[`${label}:${id}`] ?? null,
+    ),
+    getComponentDependencies: jest.fn(async () => ({
+      componentId: 'comp-Auth',
+      dependencies: [{ id: 'comp-DB', name: 'Database', status: 'active' }],
+    })),
+    getComponentDependents: jest.fn(async () => ({ componentId: 'comp-Auth', dependents: [] })),
+    getGoverningItemsForComponent: jest.fn(async () => ({
+      componentId: 'comp-Auth',
+      rules: [{ r: { id: 'rule-sec', name: 'Hash all passwords', status: 'active' } }],
+      decisions: [],
+    })),
+    getItemContextualHistory: jest.fn(async () => ({ contextHistory: [] })),
+  };
+  const contextService = {
+    getLatestContexts: jest.fn(async () => [
+      { id: 'ctx-1', agent: 'cursor', summary: 'Refactored login', created_at: '2024-05-01' },
+    ]),
+  };
+  const memoryService = {
+    graphQuery: Promise.resolve(graphQuery),
+    context: Promise.resolve(contextService),
+  } as unknown as MemoryService;
+  const scopes: RepositoryScope[] = [
+    { repository: 'repo', branch: 'main', clientProjectRoot: '/tmp/project' },
+  ];
+  const provider = new MemoryPromptProvider(
+    () => scopes,
+    logger,
+    async () => memoryService,
+  );
+
+  const promptText = async (name: string, args: Record<string, string>) => {
+    const result = await provider.getPrompt(name, args);
+    const content = result.messages[0].content as { type: 'text'; text: string };
+    return content.text;
+  };
+
+  it('should advertise the development loop prompts', () => {
+    expect(provider.listPrompts().prompts.map((prompt) => prompt.name)).toEqual([
+      'analyze-component',
+      'draft-blueprint',
+      'record-validation',
+    ]);
+  });
+
+  it('should render the component neighbourhood from the graph', async () => {
+    const text = await promptText('analyze-component', {
+      repository: 'repo',
+      componentId: 'comp-Auth',
+    });
+
+    expect(text).toContain('ANALYZE phase');
+    expect(text).toContain('Resource: kuzumem://repo/main/component/comp-Auth');
+    expect(text).toContain('## Dependencies\n\n- `comp-DB` Database (active)');
+    expect(text).toContain('## Dependents\n\n_No dependents._');
+    expect(text).toContain('## Governing Rules\n\n- `rule-sec` Hash all passwords (active)');
+    expect(text).toContain('- 2024-05-01 [cursor]: Refactored login');
+    expect(contextService.getLatestContexts).toHaveBeenCalledWith(
+      expect.anything(),
+      '/tmp/project',
+      'repo',
+      'main',
+      5,
+    );
+  });
+
+  it('should ask for a proposed decision in the blueprint prompt', async () => {
+    const text = await promptText('draft-blueprint', {
+      repository: 'repo',
+      branch: 'main',
+      componentId: 'comp-Auth',
+      goal: 'Support MFA',
+    });
+
+    expect(text).toContain('Goal: Support MFA');
+    expect(text).toContain('`decisionStatus: "proposed"`');
+  });
+
+  it('should include the blueprint decision when recording a validation', async () => {
+    const passed = await promptText('record-validation', {
+      repository: 'repo',
+      componentId: 'comp-Auth',
+      outcome: 'pass',
+      decisionId: 'dec-1',
+    });
+    const failed = await promptText('record-validation', {
+      repository: 'repo',
+      componentId: 'comp-Auth',
+      outcome: 'fail',
+      details: '2 tests failed',
+    });
+
+    expect(passed).toContain(
+      '## Blueprint Decision\n\n- `dec-1` Add MFA (proposed)\n\n1. Add TOTP',
+    );
+    expect(passed).toContain('Mark decision `dec-1` as implemented');
+    expect(failed).toContain('Outcome: **fail**');
+    expect(failed).toContain('2 tests failed');
+    expect(failed).toContain('Return to CONSTRUCT');
+  });
+
+  it('should reject unknown prompts, missing arguments and unknown components', async () => {
+    await expect(provider.getPrompt('unknown', {})).rejects.toBeInstanceOf(McpError);
+    await expect(provider.getPrompt('draft-blueprint', { repository: 'repo' })).rejects.toThrow(
+      "Missing required argument 'componentId'",
+    );
+    await expect(
+      provider.getPrompt('analyze-component', { repository: 'repo', componentId: 'comp-X' }),
+    ).rejects.toThrow("Component 'comp-X' not found in repo:main");
+    await expect(
+      provider.getPrompt('analyze-component', { repository: 'other', componentId: 'comp-Auth' }),
+    ).rejects.toThrow("Repository 'other' is not initialized");
+    await expect(
+      provider.getPrompt('analyze-component', { repository: 'repo', componentId: 'comp-Auth' }, [
+        'other',
+      ]),
+    ).rejects.toThrow("not allowed to access repository 'repo'");
+  });
+});
@@ -0,0 +1,192 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  buildResourceUri,
+  MemoryResourceProvider,
+  parseResourceUri,
+  renderEntityMarkdown,
+  type RepositoryScope,
+} from '../../mcp/resources/memory-resources';
+import { MemoryService } from '../../services/memory.service';
+
+type ResourceText = { uri: string; mimeType?: string; text: string };
+
+const logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as any;
+
+function createNodes(label: string, count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    n: {
+      id: `${label.toLowerCase()}-${index + 1}`,
+      name: `${label} ${index + 1}`,
+      graph_unique_id: `repo:main:${label.toLowerCase()}-${index + 1}`,
+      repository: 'repo',
+      branch: 'main',
+    },
+  }));
+}
+
+describe('memory resource URIs', () => {
+  it('should round-trip entity and metadata URIs', () => {
+    const uri = buildResourceUri('my repo', 'feature/x', 'component', 'comp-1');
+
+    expect(uri).toBe('kuzumem://my%20repo/feature%2Fx/component/comp-1');
+    expect(parseResourceUri(uri)).toEqual({
+      repository: 'my repo',
+      branch: 'feature/x',
+      type: 'component',
+      id: 'comp-1',
+    });
+    expect(parseResourceUri(`${buildResourceUri('repo', 'main', 'metadata')}?format=json`)).toEqual(
+      { repository: 'repo', branch: 'main', type: 'metadata', format: 'json' },
+    );
+  });
+
+  it('should reject foreign and malformed URIs', () => {
+    expect(() => parseResourceUri('file:///etc/passwd')).toThrow('Unsupported resource URI');
+    expect(() => parseResourceUri('kuzumem://repo/main/tag/t1')).toThrow('Invalid resource URI');
+    expect(() => parseResourceUri('kuzumem://repo/main/rule')).toThrow('Invalid resource URI');
+    expect(() => parseResourceUri('kuzumem://repo/main/rule/r1?format=xml')).toThrow(
+      "Unsupported resource format 'xml'",
+    );
+  });
+
+  it('should render entities as markdown without internal fields', () => {
+    const markdown = renderEntityMarkdown('decision', {
+      id: 'dec-1',
+      title: 'Use KuzuDB',
+      status: 'accepted',
+      rationale: 'Embedded graph database',
+      graph_unique_id: 'repo:main:dec-1',
+      repository: 'repo',
+    });
+
+    expect(markdown).toContain('# Decision: Use KuzuDB');
+    expect(markdown).toContain('- **status**: accepted');
+    expect(markdown).toContain('## Rationale\n\nEmbedded graph database');
+    expect(markdown).not.toContain('graph_unique_id');
+  });
+});
+
+describe('MemoryResourceProvider', () => {
+  const nodes: Record<string, any[]> = {
+    Component: createNodes('Component', 3),
+    Decision: createNodes('Decision', 2),
+    Rule: [],
+    Context: createNodes('Context', 1),
+  };
+  const graphQuery = {
+    listNodesInScope: jest.fn(
+      async (_c, _r, _repo, _b, label: string, limit: number, offset: number) => ({
+        label,
+        entities: nodes[label].slice(offset, offset + limit).map((row) => row.n),
+        total: nodes[label].length,
+      }),
+    ),
+    getNodeById: jest.fn(
+      async (_c, _r, _repo, _b, label: string, id: string) =>
+        nodes[label].find((row) => row.n.id === id)?.n ?? null,
+    ),
+  };
+  const metadataService = {
+    getMetadata: jest.fn(async () => ({
+      id: 'repo-main-metadata',
+      project: { name: 'Demo Project', created: '2024-01-01' },
+      tech_stack: { languages: 'TypeScript', tools: '' },
+      architecture: 'monolith',
+      memory_spec_version: '3.0.0',
+    })),
+  };
+  const memoryService = {
+    graphQuery: Promise.resolve(graphQuery),
+    metadata: Promise.resolve(metadataService),
+  } as unknown as MemoryService;
+  const scopes: RepositoryScope[] = [
+    { repository: 'repo', branch: 'main', clientProjectRoot: '/tmp/project' },
+  ];
+  const provider = new MemoryResourceProvider(
+    () => scopes,
+    logger,
+    4,
+    async () => memoryService,
+  );
+
+  it('should advertise a template per entity type and for metadata', () => {
+    const { resourceTemplates } = provider.listResourceTemplates();
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'kuzumem://{repository}/{branch}/component/{id}',
+      'kuzumem://{repository}/{branch}/decision/{id}',
+      'kuzumem://{repository}/{branch}/rule/{id}',
+      'kuzumem://{repository}/{branch}/context/{id}',
+      'kuzumem://{repository}/{branch}/metadata',
+    ]);
+  });
+
+  it('should paginate resources with an opaque cursor', async () => {
+    const first = await provider.listResources();
+    const second = await provider.listResources(first.nextCursor);
+
+    expect(first.resources.map((resource) => resource.uri)).toEqual([
+      'kuzumem://repo/main/metadata',
+      'kuzumem://repo/main/component/component-1',
+      'kuzumem://repo/main/component/component-2',
+      'kuzumem://repo/main/component/component-3',
+    ]);
+    expect(first.nextCursor).toBeDefined();
+    expect(second.resources.map((resource) => resource.uri)).toEqual([
+      'kuzumem://repo/main/decision/decision-1',
+      'kuzumem://repo/main/decision/decision-2',
+      'kuzumem://repo/main/context/context-1',
+    ]);
+    expect(second.nextCursor).toBeUndefined();
+    await expect(provider.listResources('garbage')).rejects.toBeInstanceOf(McpError);
+  });
+
+  it('should hide repositories outside the allowed scope', async () => {
+    await expect(provider.listResources(undefined, ['other'])).resolves.toEqual({
+      resources: [],
+    });
+    await expect(
+      provider.readResource('kuzumem://repo/main/component/component-1', ['other']),
+    ).rejects.toThrow("not allowed to access repository 'repo'");
+  });
+
+  it('should read entities as markdown and JSON', async () => {
+    const uri = 'kuzumem://repo/main/component/component-2';
+    const contents = (await provider.readResource(uri)).contents as ResourceText[];
+
+    expect(contents.map((content) => content.mimeType)).toEqual([
+      'text/markdown',
+      'application/json',
+    ]);
+    expect(contents[0].text).toContain('# Component: Component 2');
+    expect(JSON.parse(contents[1].text)).toEqual({
+      type: 'component',
+      id: 'component-2',
+      name: 'Component 2',
+    });
+  });
+
+  it('should honour the format query parameter and read metadata', async () => {
+    const contents = (await provider.readResource('kuzumem://repo/main/metadata?format=markdown'))
+      .contents as ResourceText[];
+
+    expect(contents).toHaveLength(1);
+    expect(contents[0].text).toContain('# Demo Project');
+    expect(contents[0].text).toContain('- **architecture**: monolith');
+    expect(contents[0].text).toContain('## Tech Stack\n\n- **languages**: TypeScript\n');
+  });
+
+  it('should report missing entities and uninitialized repositories', async () => {
+    await expect(provider.readResource('kuzumem://repo/main/rule/missing')).rejects.toThrow(
+      'Resource not found',
+    );
+    await expect(provider.readResource('kuzumem://unknown/main/rule/r1')).rejects.toThrow(
+      "Repository 'unknown' is not initialized",
+    );
+  });
+});
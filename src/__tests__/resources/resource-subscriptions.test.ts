@@ -0,0 +1,143 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  buildScopeUri,
+  parseSubscriptionUri,
+  ResourceSubscriptionManager,
+} from '../../mcp/resources/resource-subscriptions';
+import { MemoryChangeNotifier } from '../../services/core/memory-change-notifier';
+
+const logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as any;
+
+describe('subscription URIs', () => {
+  it('should parse scope and resource URIs', () => {
+    expect(buildScopeUri('my repo')).toBe('kuzumem://my%20repo');
+    expect(parseSubscriptionUri(buildScopeUri('repo', 'feature/x'))).toEqual({
+      repository: 'repo',
+      branch: 'feature/x',
+    });
+    expect(parseSubscriptionUri('kuzumem://repo/main/rule/r1?format=json')).toEqual({
+      repository: 'repo',
+      branch: 'main',
+      type: 'rule',
+      id: 'r1',
+    });
+    expect(() => parseSubscriptionUri('kuzumem://repo/main/tag')).toThrow('Invalid resource URI');
+  });
+});
+
+describe('ResourceSubscriptionManager', () => {
+  let sent: Array<[string, string]>;
+  let manager: ResourceSubscriptionManager;
+
+  beforeEach(() => {
+    sent = [];
+    manager = new ResourceSubscriptionManager(async (sessionKey, uri) => {
+      sent.push([sessionKey, uri]);
+    }, logger);
+  });
+
+  it('should notify entity subscribers only about their entity', async () => {
+    manager.subscribe('s1', 'kuzumem://repo/main/component/comp-1?format=markdown');
+
+    await manager.handleChange({
+      change: 'upserted',
+      repository: 'repo',
+      branch: 'main',
+      entityType: 'component',
+      entityIds: ['comp-2'],
+    });
+    await manager.handleChange({
+      change: 'upserted',
+      repository: 'repo',
+      branch: 'main',
+      entityType: 'component',
+      entityIds: ['comp-1'],
+    });
+
+    expect(sent).toEqual([['s1', 'kuzumem://repo/main/component/comp-1']]);
+  });
+
+  it('should name changed entities for branch and repository subscriptions', async () => {
+    manager.subscribe('s1', 'kuzumem://repo/main');
+    manager.subscribe('s2', 'kuzumem://repo');
+    manager.subscribe('s3', 'kuzumem://repo/dev');
+
+    await manager.handleChange({
+      change: 'deleted',
+      repository: 'repo',
+      branch: 'main',
+      entityType: 'decision',
+      entityIds: ['dec-1', 'dec-2'],
+    });
+
+    expect(sent).toEqual([
+      ['s1', 'kuzumem://repo/main/decision/dec-1'],
+      ['s1', 'kuzumem://repo/main/decision/dec-2'],
+      ['s2', 'kuzumem://repo/main/decision/dec-1'],
+      ['s2', 'kuzumem://repo/main/decision/dec-2'],
+    ]);
+  });
+
+  it('should report bulk and non-resource changes on the subscribed URI', async () => {
+    manager.subscribe('s1', 'kuzumem://repo/main');
+    manager.subscribe('s2', 'kuzumem://repo/main/rule/r1');
+    manager.subscribe('s3', 'kuzumem://repo/main/metadata');
+
+    await manager.handleChange({ change: 'deleted', repository: 'repo', branch: 'main' });
+    await manager.handleChange({
+      change: 'upserted',
+      repository: 'repo',
+      branch: 'main',
+      entityType: 'tag',
+      entityIds: ['tag-1'],
+    });
+
+    expect(sent).toEqual([
+      ['s1', 'kuzumem://repo/main'],
+      ['s2', 'kuzumem://repo/main/rule/r1'],
+      ['s3', 'kuzumem://repo/main/metadata'],
+      ['s1', 'kuzumem://repo/main'],
+    ]);
+  });
+
+  it('should stop notifying after unsubscribe and session removal', async () => {
+    const notifier = new MemoryChangeNotifier();
+    const detach = manager.attach(notifier);
+    manager.subscribe('s1', 'kuzumem://repo');
+    manager.subscribe('s2', 'kuzumem://repo');
+    manager.unsubscribe('s1', 'kuzumem://repo');
+    manager.removeSession('s2');
+
+    notifier.notify({ change: 'upserted', repository: 'repo', entityType: 'metadata' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sent).toEqual([]);
+    expect(manager.getSubscriptions('s1')).toEqual([]);
+    detach();
+    expect(notifier.listenerCount).toBe(0);
+  });
+
+  it('should reject invalid URIs and repositories outside the credential scope', () => {
+    expect(() => manager.subscribe('s1', 'file:///etc/passwd')).toThrow(McpError);
+    expect(() => manager.subscribe('s1', 'kuzumem://repo/main', ['other'])).toThrow(
+      "not allowed to access repository 'repo'",
+    );
+  });
+
+  it('should log delivery failures without throwing', async () => {
+    const failing = new ResourceSubscriptionManager(async () => {
+      throw new Error('stream closed');
+    }, logger);
+    failing.subscribe('s1', 'kuzumem://repo');
+
+    await expect(
+      failing.handleChange({ change: 'upserted', repository: 'repo' }),
+    ).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import {
+  AuthenticationMiddleware,
+  isRepositoryAllowed,
+  parseApiKeys,
+} from '../../server/middleware/authentication.middleware';
+import { HttpRequestRouter } from '../../server/services/http-request-router';
+import { createAuthToken, verifyAuthToken } from '../../utils/auth-token.utils';
+
+function createRequest(headers: Record<string, string>, method = 'POST'): IncomingMessage {
+  return { headers, method, url: '/mcp' } as unknown as IncomingMessage;
+}
+
+function createResponse() {
+  return {
+    headersSent: false,
+    setHeader: jest.fn(),
+    writeHead: jest.fn(),
+    end: jest.fn(),
+  };
+}
+
+const requestLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as any;
+
+describe('auth token utils', () => {
+  const secret = 'test-secret';
+
+  it('should round-trip signed claims', () => {
+    const token = createAuthToken({ sub: 'alice', repositories: ['repo-a'] }, secret, 60);
+    const payload = verifyAuthToken(token, secret);
+
+    expect(payload.sub).toBe('alice');
+    expect(payload.repositories).toEqual(['repo-a']);
+    expect(payload.exp! - payload.iat!).toBe(60);
+  });
+
+  it('should reject tampered, foreign and expired tokens', () => {
+    const token = createAuthToken({ sub: 'alice', iat: 1000 }, secret, 10);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ sub: 'mallory' })).toString('base64url')}.${signature}`;
+
+    expect(() => verifyAuthToken(forged, secret, 1005)).toThrow('Invalid token signature');
+    expect(() => verifyAuthToken(token, 'other-secret', 1005)).toThrow('Invalid token signature');
+    expect(() => verifyAuthToken(token, secret, 1010)).toThrow('Token has expired');
+    expect(() => verifyAuthToken('not-a-token', secret)).toThrow('Malformed token');
+    expect(verifyAuthToken(token, secret, 1005).sub).toBe('alice');
+  });
+});
+
+describe('AuthenticationMiddleware', () => {
+  const secret = 'hmac-secret';
+  const middleware = new AuthenticationMiddleware(undefined, {
+    apiKeys: parseApiKeys('ci:ci-key,dev:dev-key:repo-a|repo-b'),
+    hmacSecret: secret,
+  });
+
+  it('should parse API keys with optional repository scopes', () => {
+    expect(parseApiKeys('ci:k1, dev:k2:repo-a|repo-b,ops:k3:*')).toEqual([
+      { id: 'ci', key: 'k1', repositories: undefined },
+      { id: 'dev', key: 'k2', repositories: ['repo-a', 'repo-b'] },
+      { id: 'ops', key: 'k3', repositories: undefined },
+    ]);
+    expect(parseApiKeys(undefined)).toEqual([]);
+    expect(() => parseApiKeys('missing-key')).toThrow('Invalid MCP_API_KEYS entry');
+  });
+
+  it('should be disabled without configured credentials', () => {
+    expect(new AuthenticationMiddleware(undefined, { apiKeys: [] }).isEnabled()).toBe(false);
+    expect(middleware.isEnabled()).toBe(true);
+  });
+
+  it('should accept API keys from X-API-Key and bearer headers', () => {
+    const viaHeader = middleware.authenticate(
+      createRequest({ 'x-api-key': 'dev-key' }),
+      requestLogger,
+    );
+    const viaBearer = middleware.authenticate(
+      createRequest({ authorization: 'Bearer ci-key' }),
+      requestLogger,
+    );
+
+    expect(viaHeader).toMatchObject({
+      authenticated: true,
+      principal: { id: 'dev', method: 'api-key', repositories: ['repo-a', 'repo-b'] },
+    });
+    expect(viaBearer).toMatchObject({ authenticated: true, principal: { id: 'ci' } });
+  });
+
+  it('should accept HMAC-signed bearer tokens', () => {
+    const token = createAuthToken({ sub: 'agent-7', repositories: ['repo-c'] }, secret);
+    const result = middleware.authenticate(
+      createRequest({ authorization: `Bearer ${token}` }),
+      requestLogger,
+    );
+
+    expect(result).toMatchObject({
+      authenticated: true,
+      principal: { id: 'agent-7', method: 'hmac-token', repositories: ['repo-c'] },
+    });
+  });
+
+  it('should reject missing and unknown credentials', () => {
+    expect(middleware.authenticate(createRequest({}), requestLogger)).toEqual({
+      authenticated: false,
+      reason: 'Missing credentials',
+    });
+    expect(middleware.authenticate(createRequest({ 'x-api-key': 'wrong' }), requestLogger)).toEqual(
+      { authenticated: false, reason: 'Invalid credentials' },
+    );
+  });
+
+  it('should scope repositories', () => {
+    expect(isRepositoryAllowed(undefined, 'anything')).toBe(true);
+    expect(isRepositoryAllowed(['repo-a'], 'repo-a')).toBe(true);
+    expect(isRepositoryAllowed(['repo-a'], 'repo-b')).toBe(false);
+    expect(isRepositoryAllowed(['repo-a'], undefined)).toBe(false);
+  });
+});
+
+describe('HttpRequestRouter authentication', () => {
+  const middleware = new AuthenticationMiddleware(undefined, {
+    apiKeys: parseApiKeys('ci:ci-key'),
+  });
+  const router = new HttpRequestRouter(undefined, undefined, middleware);
+
+  it('should answer unauthenticated requests with a JSON-RPC 401 before creating a session', async () => {
+    const res = createResponse();
+
+    await router.routeRequest(
+      createRequest({ 'content-type': 'application/json' }),
+      res as unknown as ServerResponse,
+    );
+
+    expect(res.writeHead).toHaveBeenCalledWith(
+      401,
+      expect.objectContaining({ 'WWW-Authenticate': 'Bearer realm="kuzumem-mcp"' }),
+    );
+    expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+      jsonrpc: '2.0',
+      error: { code: -32001, message: 'Unauthorized', data: 'Missing credentials' },
+      id: null,
+    });
+    expect(router.getActiveSessionIds()).toHaveLength(0);
+  });
+
+  it('should let CORS preflight requests through without credentials', async () => {
+    const res = createResponse();
+
+    await router.routeRequest(createRequest({}, 'OPTIONS'), res as unknown as ServerResponse);
+
+    expect(res.writeHead).toHaveBeenCalledWith(200);
+  });
+});
@@ -0,0 +1,204 @@
+import { branchHandler } from '../../../mcp/services/handlers/unified/branch-handler';
+import { ToolHandlerContext } from '../../../mcp/types/sdk-custom';
+import { BranchService } from '../../../services/domain/branch.service';
+import { MemoryService } from '../../../services/memory.service';
+
+describe('branch tool handler', () => {
+  let mockContext: ToolHandlerContext;
+  let mockMemoryService: jest.Mocked<MemoryService>;
+  let mockBranchService: jest.Mocked<BranchService>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockContext = {
+      session: {
+        clientProjectRoot: '/test/project',
+        repository: 'test-repo',
+        branch: 'main',
+      },
+      logger: {
+        info: jest.fn(),
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+      },
+      sendProgress: jest.fn(),
+    } as unknown as ToolHandlerContext;
+
+    mockBranchService = {
+      diffBranches: jest.fn(),
+      mergeBranches: jest.fn(),
+    } as unknown as jest.Mocked<BranchService>;
+
+    mockMemoryService = {
+      branch: Promise.resolve(mockBranchService),
+    } as unknown as jest.Mocked<MemoryService>;
+  });
+
+  describe('diff operation', () => {
+    it('should diff the source branch against main by default', async () => {
+      const mockDiff = {
+        repository: 'test-repo',
+        sourceBranch: 'feature',
+        targetBranch: 'main',
+        summary: {
+          added: 1,
+          removed: 0,
+          modified: 0,
+          relationshipsAdded: 0,
+          relationshipsRemoved: 0,
+        },
+        entities: {
+          added: [{ entityType: 'component', id: 'comp-Auth', name: 'Auth' }],
+          removed: [],
+          modified: [],
+        },
+        relationships: { added: [], removed: [] },
+      };
+      mockBranchService.diffBranches.mockResolvedValueOnce(mockDiff as any);
+
+      const result = await branchHandler(
+        { operation: 'diff', repository: 'test-repo', sourceBranch: 'feature' },
+        mockContext,
+        mockMemoryService,
+      );
+
+      expect(mockBranchService.diffBranches).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'feature',
+        'main',
+      );
+      expect(result).toEqual(mockDiff);
+      expect(mockContext.sendProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ message: '1 added, 0 removed, 0 modified', isFinal: true }),
+      );
+    });
+
+    it('should require a source branch', async () => {
+      await expect(
+        branchHandler(
+          { operation: 'diff', repository: 'test-repo' },
+          mockContext,
+          mockMemoryService,
+        ),
+      ).rejects.toThrow('sourceBranch parameter is required');
+    });
+
+    it('should report service errors', async () => {
+      mockBranchService.diffBranches.mockRejectedValueOnce(
+        new Error('sourceBranch and targetBranch must differ'),
+      );
+
+      await expect(
+        branchHandler(
+          {
+            operation: 'diff',
+            repository: 'test-repo',
+            sourceBranch: 'main',
+            targetBranch: 'main',
+          },
+          mockContext,
+          mockMemoryService,
+        ),
+      ).rejects.toThrow('sourceBranch and targetBranch must differ');
+      expect(mockContext.sendProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'error' }),
+      );
+    });
+  });
+
+  describe('merge operation', () => {
+    const mergeResult = (overrides: Record<string, unknown>) => ({
+      repository: 'test-repo',
+      sourceBranch: 'feature',
+      targetBranch: 'main',
+      dryRun: false,
+      summary: {
+        created: 1,
+        updated: 0,
+        unchanged: 2,
+        keptTargetChanges: 0,
+        conflicts: 1,
+        relationshipsCreated: 0,
+      },
+      conflicts: [
+        {
+          entityType: 'rule',
+          id: 'rule-1',
+          changes: [{ field: 'status', from: 'active', to: 'deprecated' }],
+        },
+      ],
+      ...overrides,
+    });
+
+    it('should fail on conflicts by default', async () => {
+      mockBranchService.mergeBranches.mockResolvedValueOnce(
+        mergeResult({
+          success: false,
+          strategy: 'fail',
+          message: 'Merge aborted: 1 entities changed on both branches.',
+        }) as any,
+      );
+
+      const result = await branchHandler(
+        { operation: 'merge', repository: 'test-repo', sourceBranch: 'feature' },
+        mockContext,
+        mockMemoryService,
+      );
+
+      expect(mockBranchService.mergeBranches).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'feature',
+        'main',
+        { strategy: 'fail', baseSnapshotId: undefined, dryRun: false },
+      );
+      expect(result).toEqual(expect.objectContaining({ success: false }));
+      expect(mockContext.sendProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'error', isFinal: true }),
+      );
+    });
+
+    it('should pass the strategy, base snapshot and dry-run flag', async () => {
+      mockBranchService.mergeBranches.mockResolvedValueOnce(
+        mergeResult({
+          success: true,
+          strategy: 'theirs',
+          baseSnapshotId: 'snap-1',
+          dryRun: true,
+          message: 'Dry run: would merge feature into release',
+        }) as any,
+      );
+
+      await branchHandler(
+        {
+          operation: 'merge',
+          repository: 'test-repo',
+          sourceBranch: 'feature',
+          targetBranch: 'release',
+          strategy: 'theirs',
+          baseSnapshotId: 'snap-1',
+          dryRun: true,
+        },
+        mockContext,
+        mockMemoryService,
+      );
+
+      expect(mockBranchService.mergeBranches).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'feature',
+        'release',
+        { strategy: 'theirs', baseSnapshotId: 'snap-1', dryRun: true },
+      );
+      expect(mockContext.sendProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'complete', isFinal: true }),
+      );
+    });
+  });
+});
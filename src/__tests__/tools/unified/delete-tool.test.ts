@@ -7,6 +7,7 @@ describe('delete tool handler', () => {
   let mockContext: ToolHandlerContext;
   let mockMemoryService: jest.Mocked<MemoryService>;
   let mockEntityService: jest.Mocked<EntityService>;
+  let mockSnapshotService: { createTriggeredSnapshots: jest.Mock };
 
   beforeEach(() => {
     // Reset mocks
@@ -46,12 +47,17 @@ describe('delete tool handler', () => {
       bulkDeleteByRepository: jest.fn(),
     } as unknown as jest.Mocked<EntityService>;
 
+    mockSnapshotService = {
+      createTriggeredSnapshots: jest.fn().mockResolvedValue([]),
+    };
+
     // Create mock memory service
     mockMemoryService = {
       entity: mockEntityService,
       services: {
         entity: mockEntityService,
       },
+      getSnapshotService: jest.fn().mockResolvedValue(mockSnapshotService),
     } as any;
   });
 
@@ -429,6 +435,48 @@ describe('delete tool handler', () => {
         warnings: [],
       });
     });
+
+    it('should return the snapshots taken by policies before deleting', async () => {
+      mockSnapshotService.createTriggeredSnapshots.mockResolvedValueOnce([
+        { snapshotId: 'snapshot-main' },
+        { snapshotId: 'snapshot-feature' },
+      ]);
+      mockEntityService.bulkDeleteByRepository.mockResolvedValueOnce({
+        count: 3,
+        entities: [],
+        warnings: [],
+      });
+
+      const result: any = await deleteHandler(
+        { operation: 'bulk-by-repository', repository: 'test-repo', confirm: true },
+        mockContext,
+        mockMemoryService,
+      );
+
+      expect(mockSnapshotService.createTriggeredSnapshots).toHaveBeenCalledWith(
+        'test-repo',
+        undefined,
+        'bulk-delete',
+      );
+      expect(result.snapshotIds).toEqual(['snapshot-main', 'snapshot-feature']);
+    });
+
+    it('should not take snapshots for a dry run', async () => {
+      mockEntityService.bulkDeleteByRepository.mockResolvedValueOnce({
+        count: 3,
+        entities: [],
+        warnings: [],
+      });
+
+      const result: any = await deleteHandler(
+        { operation: 'bulk-by-repository', repository: 'test-repo', confirm: true, dryRun: true },
+        mockContext,
+        mockMemoryService,
+      );
+
+      expect(mockSnapshotService.createTriggeredSnapshots).not.toHaveBeenCalled();
+      expect(result.snapshotIds).toBeUndefined();
+    });
   });
 
   describe('unsupported operations', () => {
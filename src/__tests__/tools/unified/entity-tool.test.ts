@@ -49,6 +49,8 @@ describe('entity tool handler', () => {
       deleteRule: jest.fn(),
       deleteFile: jest.fn(),
       deleteTag: jest.fn(),
+      mergeEntities: jest.fn(),
+      findMergedEntityId: jest.fn(),
     } as unknown as jest.Mocked<EntityService>;
 
     // Create mock memory service
@@ -319,6 +321,98 @@ describe('entity tool handler', () => {
         message: 'decision with ID dec-20241210-missing not found',
       });
     });
+
+    it('should resolve an ID merged into another entity', async () => {
+      const mockComponent = { id: 'comp-AuthService', name: 'Auth Service' };
+      mockEntityService.getComponent
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockComponent as any);
+      mockEntityService.findMergedEntityId.mockResolvedValueOnce('comp-AuthService');
+
+      const params = {
+        operation: 'get',
+        entityType: 'component',
+        repository: 'test-repo',
+        branch: 'main',
+        id: 'comp-Auth',
+      };
+
+      const result = await entityHandler(params, mockContext, mockMemoryService);
+
+      expect(mockEntityService.findMergedEntityId).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'component',
+        'comp-Auth',
+      );
+      expect(mockEntityService.getComponent).toHaveBeenLastCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'comp-AuthService',
+      );
+      expect(result).toEqual({
+        success: true,
+        entity: mockComponent,
+        resolvedFrom: 'comp-Auth',
+        message: 'component comp-Auth was merged into comp-AuthService',
+      });
+    });
+  });
+
+  describe('merge operation', () => {
+    it('should merge an entity into its target', async () => {
+      const mergeResult = {
+        success: true,
+        entityType: 'tag' as const,
+        sourceId: 'tag-db',
+        targetId: 'tag-database',
+        relationshipsMoved: 3,
+        dependentsUpdated: 0,
+        mergedFrom: ['tag-db'],
+        conflicts: [],
+        message: 'Merged tag tag-db into tag-database: 3 relationships moved',
+      };
+      mockEntityService.mergeEntities.mockResolvedValueOnce(mergeResult);
+
+      const params = {
+        operation: 'merge',
+        entityType: 'tag',
+        repository: 'test-repo',
+        branch: 'main',
+        id: 'tag-db',
+        targetId: 'tag-database',
+      };
+
+      const result = await entityHandler(params, mockContext, mockMemoryService);
+
+      expect(mockEntityService.mergeEntities).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'tag',
+        'tag-db',
+        'tag-database',
+      );
+      expect(result).toEqual(mergeResult);
+    });
+
+    it('should require a targetId', async () => {
+      const params = {
+        operation: 'merge',
+        entityType: 'tag',
+        repository: 'test-repo',
+        id: 'tag-db',
+      };
+
+      await expect(entityHandler(params, mockContext, mockMemoryService)).rejects.toThrow(
+        'targetId parameter is required for merge operation',
+      );
+    });
   });
 
   describe('update operation', () => {
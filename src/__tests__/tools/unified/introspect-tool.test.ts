@@ -34,6 +34,7 @@ describe('introspect tool handler', () => {
       countNodesByLabel: jest.fn(),
       getNodeProperties: jest.fn(),
       listAllIndexes: jest.fn(),
+      detectSchemaDrift: jest.fn(),
     } as unknown as jest.Mocked<GraphQueryService>;
 
     // Create mock memory service
@@ -290,6 +291,43 @@ describe('introspect tool handler', () => {
     });
   });
 
+  describe('schema-drift query', () => {
+    it('should report drift for every label when no target is given', async () => {
+      const mockDrift = {
+        inSync: false,
+        labels: [
+          {
+            label: 'Rule',
+            tableMissing: false,
+            missing: [{ name: 'triggers', type: 'STRING[]' }],
+            extra: [{ name: 'examples', type: 'STRING[]' }],
+            typeMismatches: [],
+          },
+        ],
+        message: 'Rule: missing triggers; extra examples',
+      };
+      mockGraphQueryService.detectSchemaDrift.mockResolvedValueOnce(mockDrift);
+
+      const result = await introspectHandler(
+        { query: 'schema-drift', repository: 'test-repo', branch: 'main' },
+        mockContext,
+        mockMemoryService as unknown as MemoryService,
+      );
+
+      expect(mockGraphQueryService.detectSchemaDrift).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        undefined,
+      );
+      expect(result).toEqual(mockDrift);
+      expect(mockContext.sendProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ message: 'Schema drift detected in 1 labels', isFinal: true }),
+      );
+    });
+  });
+
   describe('error handling', () => {
     it('should handle missing session context', async () => {
       mockContext.session = {};
@@ -1,14 +1,22 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { memoryBankHandler } from '../../../mcp/services/handlers/unified/memory-bank-handler';
 import { memoryBankTool } from '../../../mcp/tools/unified/memory-bank-tool';
 import { ToolHandlerContext } from '../../../mcp/types/sdk-custom';
+import { BranchService } from '../../../services/domain/branch.service';
 import { MemoryBankService } from '../../../services/domain/memory-bank.service';
+import { MemoryTransferService } from '../../../services/domain/memory-transfer.service';
 import { MetadataService } from '../../../services/domain/metadata.service';
 import { MemoryService } from '../../../services/memory.service';
+import { createMemoryExport, serializeMemoryExport } from '../../../utils/memory-export.utils';
 
 describe('Unified Memory Bank Tool', () => {
   let mockMemoryService: jest.Mocked<MemoryService>;
   let mockMemoryBankService: jest.Mocked<MemoryBankService>;
   let mockMetadataService: jest.Mocked<MetadataService>;
+  let mockBranchService: jest.Mocked<BranchService>;
+  let mockTransferService: jest.Mocked<MemoryTransferService>;
   let mockContext: jest.Mocked<ToolHandlerContext>;
 
   beforeEach(() => {
@@ -22,8 +30,22 @@ describe('Unified Memory Bank Tool', () => {
       updateMetadata: jest.fn(),
     } as any;
 
+    mockBranchService = {
+      forkBranch: jest.fn(),
+    } as any;
+
+    mockTransferService = {
+      exportMemory: jest.fn(),
+      exportMarkdown: jest.fn(),
+      exportAdrs: jest.fn(),
+      importMemory: jest.fn(),
+      importAdrs: jest.fn(),
+    } as any;
+
     mockMemoryService = {
       memoryBank: mockMemoryBankService,
+      branch: Promise.resolve(mockBranchService),
+      transfer: Promise.resolve(mockTransferService),
       metadata: mockMetadataService,
       services: {
         memoryBank: mockMemoryBankService,
@@ -52,8 +74,14 @@ describe('Unified Memory Bank Tool', () => {
       expect(memoryBankTool.name).toBe('memory-bank');
       expect(memoryBankTool.parameters.properties.operation.enum).toEqual([
         'init',
+        'fork',
         'get-metadata',
         'update-metadata',
+        'export',
+        'export-markdown',
+        'export-adr',
+        'import',
+        'import-adr',
       ]);
       expect(memoryBankTool.parameters.required).toEqual(['operation', 'repository']);
     });
@@ -111,6 +139,98 @@ describe('Unified Memory Bank Tool', () => {
       });
     });
 
+    describe('fork operation', () => {
+      it('should fork the source branch and switch the session to the new branch', async () => {
+        const forkResult = {
+          success: true,
+          repository: 'test-repo',
+          sourceBranch: 'develop',
+          branch: 'feature',
+          summary: {
+            entities: 2,
+            byType: { component: 2 },
+            relationships: 1,
+            metadataCopied: true,
+          },
+          message: 'Forked develop into feature: 2 entities, 1 relationships copied',
+        };
+        mockBranchService.forkBranch.mockResolvedValue(forkResult as any);
+
+        const result = await memoryBankHandler(
+          {
+            operation: 'fork',
+            clientProjectRoot: '/test/project',
+            repository: 'test-repo',
+            branch: 'feature',
+            sourceBranch: 'develop',
+            entityTypes: ['component'],
+            tags: ['tag-core'],
+          },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockBranchService.forkBranch).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'develop',
+          'feature',
+          { entityTypes: ['component'], tags: ['tag-core'] },
+        );
+        expect(result).toEqual(forkResult);
+        expect(mockContext.session.branch).toBe('feature');
+        expect(mockContext.session.clientProjectRoot).toBe('/test/project');
+      });
+
+      it('should fork from main by default', async () => {
+        mockBranchService.forkBranch.mockResolvedValue({ success: true, message: 'ok' } as any);
+
+        await memoryBankHandler(
+          {
+            operation: 'fork',
+            clientProjectRoot: '/test/project',
+            repository: 'test-repo',
+            branch: 'feature',
+          },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockBranchService.forkBranch).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'main',
+          'feature',
+          { entityTypes: undefined, tags: undefined },
+        );
+      });
+
+      it('should keep the session when the fork fails', async () => {
+        mockBranchService.forkBranch.mockRejectedValue(
+          new Error('Branch feature of test-repo already has memory'),
+        );
+
+        await expect(
+          memoryBankHandler(
+            {
+              operation: 'fork',
+              clientProjectRoot: '/test/project',
+              repository: 'test-repo',
+              branch: 'feature',
+            },
+            mockContext,
+            mockMemoryService,
+          ),
+        ).rejects.toThrow('already has memory');
+        expect(mockContext.session.branch).toBeUndefined();
+        expect(mockContext.sendProgress).toHaveBeenLastCalledWith(
+          expect.objectContaining({ status: 'error', isFinal: true }),
+        );
+      });
+    });
+
     describe('get-metadata operation', () => {
       beforeEach(() => {
         // Set up session as if init was called
@@ -217,6 +337,291 @@ describe('Unified Memory Bank Tool', () => {
       });
     });
 
+    describe('export operation', () => {
+      const memoryExport = createMemoryExport(
+        'test-repo',
+        'main',
+        { id: 'meta' },
+        [{ entityType: 'component', id: 'comp-A', properties: { id: 'comp-A' } }],
+        [],
+      );
+
+      beforeEach(() => {
+        mockContext.session = {
+          clientProjectRoot: '/test/project',
+          repository: 'test-repo',
+          branch: 'main',
+        };
+        mockTransferService.exportMemory.mockResolvedValue(memoryExport);
+      });
+
+      it('should return the export as content without an output path', async () => {
+        const result: any = await memoryBankHandler(
+          { operation: 'export', repository: 'test-repo', branch: 'main', format: 'jsonl' },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockTransferService.exportMemory).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'main',
+        );
+        expect(result).toMatchObject({
+          success: true,
+          format: 'jsonl',
+          counts: { entities: 1, relationships: 0 },
+        });
+        expect(result.content).toBe(serializeMemoryExport(memoryExport, 'jsonl'));
+      });
+
+      it('should reject output paths outside the client project root', async () => {
+        await expect(
+          memoryBankHandler(
+            {
+              operation: 'export',
+              repository: 'test-repo',
+              branch: 'main',
+              outputPath: '../outside.json',
+            },
+            mockContext,
+            mockMemoryService,
+          ),
+        ).rejects.toThrow('Path traversal attempt detected');
+      });
+    });
+
+    describe('export-markdown operation', () => {
+      beforeEach(() => {
+        mockContext.session = {
+          clientProjectRoot: '/test/project',
+          repository: 'test-repo',
+          branch: 'main',
+        };
+      });
+
+      it('should write markdown to a directory inside the client project root', async () => {
+        const exportResult = { success: true, files: ['index.md'], message: 'Wrote 1 file' };
+        mockTransferService.exportMarkdown.mockResolvedValue(exportResult as any);
+
+        const result = await memoryBankHandler(
+          {
+            operation: 'export-markdown',
+            repository: 'test-repo',
+            branch: 'main',
+            outputPath: 'docs/memory',
+          },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockTransferService.exportMarkdown).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'main',
+          '/test/project/docs/memory',
+        );
+        expect(result).toEqual(exportResult);
+      });
+
+      it('should require an output path', async () => {
+        await expect(
+          memoryBankHandler(
+            { operation: 'export-markdown', repository: 'test-repo', branch: 'main' },
+            mockContext,
+            mockMemoryService,
+          ),
+        ).rejects.toThrow('outputPath is required for export-markdown operation');
+        expect(mockTransferService.exportMarkdown).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('export-adr operation', () => {
+      beforeEach(() => {
+        mockContext.session = {
+          clientProjectRoot: '/test/project',
+          repository: 'test-repo',
+          branch: 'main',
+        };
+      });
+
+      it('should write ADRs to docs/adr by default', async () => {
+        const exportResult = { success: true, files: ['0001-use-jwt.md'], message: 'Wrote 1 ADR' };
+        mockTransferService.exportAdrs.mockResolvedValue(exportResult as any);
+
+        const result = await memoryBankHandler(
+          { operation: 'export-adr', repository: 'test-repo', branch: 'main' },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockTransferService.exportAdrs).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'main',
+          '/test/project/docs/adr',
+        );
+        expect(result).toEqual(exportResult);
+      });
+    });
+
+    describe('import-adr operation', () => {
+      let projectRoot: string;
+
+      beforeEach(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'import-adr-'));
+        fs.mkdirSync(path.join(projectRoot, 'adr'));
+        fs.writeFileSync(path.join(projectRoot, 'adr', '0001-use-jwt.md'), '# 1. Use JWT\n');
+        fs.writeFileSync(path.join(projectRoot, 'adr', 'README.md'), '# ADRs\n');
+        mockContext.session = {
+          clientProjectRoot: projectRoot,
+          repository: 'test-repo',
+          branch: 'main',
+        };
+      });
+
+      afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+      });
+
+      it('should read ADR files from the input directory', async () => {
+        mockTransferService.importAdrs.mockResolvedValue({
+          success: true,
+          message: 'Imported 1 ADR',
+        } as any);
+
+        await memoryBankHandler(
+          {
+            operation: 'import-adr',
+            repository: 'test-repo',
+            branch: 'main',
+            inputPath: 'adr',
+            conflictPolicy: 'overwrite',
+            dryRun: true,
+          },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockTransferService.importAdrs).toHaveBeenCalledWith(
+          mockContext,
+          projectRoot,
+          'test-repo',
+          'main',
+          [{ fileName: '0001-use-jwt.md', content: '# 1. Use JWT\n' }],
+          { conflictPolicy: 'overwrite', dryRun: true },
+        );
+      });
+
+      it('should reject the rename conflict policy', async () => {
+        await expect(
+          memoryBankHandler(
+            {
+              operation: 'import-adr',
+              repository: 'test-repo',
+              branch: 'main',
+              conflictPolicy: 'rename',
+            },
+            mockContext,
+            mockMemoryService,
+          ),
+        ).rejects.toThrow('Unsupported conflict policy for import-adr: rename');
+        expect(mockTransferService.importAdrs).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('import operation', () => {
+      beforeEach(() => {
+        mockContext.session = {
+          clientProjectRoot: '/test/project',
+          repository: 'test-repo',
+          branch: 'dev',
+        };
+      });
+
+      it('should import inline content into the session repository and branch', async () => {
+        const memoryExport = createMemoryExport('other-repo', 'main', null, [], []);
+        mockTransferService.importMemory.mockResolvedValue({
+          success: true,
+          message: 'Imported 0 entities',
+        } as any);
+
+        const result = await memoryBankHandler(
+          {
+            operation: 'import',
+            repository: 'test-repo',
+            branch: 'dev',
+            content: serializeMemoryExport(memoryExport, 'jsonl'),
+            conflictPolicy: 'rename',
+          },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockTransferService.importMemory).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          memoryExport,
+          { repository: 'test-repo', branch: 'dev', conflictPolicy: 'rename' },
+        );
+        expect(result).toEqual({ success: true, message: 'Imported 0 entities' });
+      });
+
+      it('should keep the exported branch when no branch is given', async () => {
+        const memoryExport = createMemoryExport('test-repo', 'feature/x', null, [], []);
+        mockTransferService.importMemory.mockResolvedValue({
+          success: true,
+          message: 'Imported 0 entities',
+        } as any);
+
+        await memoryBankHandler(
+          {
+            operation: 'import',
+            repository: 'test-repo',
+            content: serializeMemoryExport(memoryExport, 'json'),
+          },
+          mockContext,
+          mockMemoryService,
+        );
+
+        expect(mockTransferService.importMemory).toHaveBeenCalledWith(
+          mockContext,
+          '/test/project',
+          memoryExport,
+          { repository: 'test-repo', branch: undefined, conflictPolicy: 'skip' },
+        );
+      });
+
+      it('should require an input path or content', async () => {
+        await expect(
+          memoryBankHandler(
+            { operation: 'import', repository: 'test-repo', branch: 'dev' },
+            mockContext,
+            mockMemoryService,
+          ),
+        ).rejects.toThrow('inputPath or content is required for import operation');
+      });
+
+      it('should reject unknown conflict policies', async () => {
+        await expect(
+          memoryBankHandler(
+            {
+              operation: 'import',
+              repository: 'test-repo',
+              branch: 'dev',
+              content: '{}',
+              conflictPolicy: 'merge',
+            },
+            mockContext,
+            mockMemoryService,
+          ),
+        ).rejects.toThrow('Unsupported conflict policy: merge');
+      });
+    });
+
     describe('session validation', () => {
       it('should require init before other operations', async () => {
         const params = {
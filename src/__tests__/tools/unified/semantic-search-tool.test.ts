@@ -1,5 +1,8 @@
 import { searchHandler } from '../../../mcp/services/handlers/unified/search-handler';
 import { ToolHandlerContext } from '../../../mcp/types/sdk-custom';
+import { computeContentHash, EmbeddingService } from '../../../services/domain/embedding.service';
+import { EntityService } from '../../../services/domain/entity.service';
+import { HashedNgramEmbeddingProvider } from '../../../services/embedding/hashed-ngram-embedding.provider';
 import { MemoryService } from '../../../services/memory.service';
 
 // Define discriminated union type for search handler results
@@ -9,8 +12,9 @@ type SearchResult =
       results: Array<{
         id: string;
         type: string;
+        name: string;
         score: number;
-        content?: string;
+        snippet?: string;
         metadata?: Record<string, any>;
       }>;
       query: string;
@@ -25,16 +29,23 @@ type SearchResult =
 
 describe('Semantic Search Tool Tests', () => {
   let mockMemoryService: jest.Mocked<MemoryService>;
+  let mockEmbeddingService: { semanticSearch: jest.Mock; reindex: jest.Mock };
   let mockContext: jest.Mocked<ToolHandlerContext>;
 
   beforeEach(() => {
     // Set NODE_ENV to test to trigger simple fallback search
     process.env.NODE_ENV = 'test';
 
+    mockEmbeddingService = {
+      semanticSearch: jest.fn().mockResolvedValue([]),
+      reindex: jest.fn(),
+    };
+
     mockMemoryService = {
       getKuzuClient: jest.fn().mockResolvedValue({
         executeQuery: jest.fn().mockResolvedValue([]),
       }),
+      embedding: Promise.resolve(mockEmbeddingService),
     } as any;
 
     // Mock context with session
@@ -55,8 +66,21 @@ describe('Semantic Search Tool Tests', () => {
     } as any;
   });
 
-  describe('Placeholder Implementation', () => {
-    it('should return placeholder results for semantic search', async () => {
+  describe('Handler', () => {
+    it('should map embedding matches to search results', async () => {
+      mockEmbeddingService.semanticSearch.mockResolvedValue([
+        {
+          entityType: 'component',
+          node: { id: 'comp-auth', name: 'AuthService', kind: 'service', status: 'active' },
+          score: 0.83,
+        },
+        {
+          entityType: 'decision',
+          node: { id: 'dec-jwt', title: 'Use JWT tokens', status: 'accepted' },
+          score: 0.61,
+        },
+      ]);
+
       const result = (await searchHandler(
         {
           mode: 'semantic',
@@ -69,11 +93,15 @@ describe('Semantic Search Tool Tests', () => {
       )) as SearchResult;
 
       if (result.status === 'success') {
-        expect(result.status).toBe('success');
-        expect(result.results).toHaveLength(1);
-        expect(result.results[0].id).toBe('placeholder-result');
-        expect(result.results[0].type).toBe('component');
-        expect(result.results[0].score).toBe(0.99);
+        expect(result.results).toHaveLength(2);
+        expect(result.results[0]).toMatchObject({
+          id: 'comp-auth',
+          type: 'component',
+          name: 'AuthService',
+          score: 0.83,
+          metadata: { kind: 'service', status: 'active' },
+        });
+        expect(result.results[1].name).toBe('Use JWT tokens');
         expect(result.query).toBe('find authentication components');
         expect(result.message).toContain('semantic search completed successfully');
       } else {
@@ -81,13 +109,13 @@ describe('Semantic Search Tool Tests', () => {
       }
     });
 
-    it('should accept optional parameters', async () => {
+    it('should pass threshold, limit and entity types to the embedding service', async () => {
       const result = (await searchHandler(
         {
           mode: 'semantic',
           query: 'database connections',
           repository: 'test-repo',
-          entityTypes: ['components', 'decisions'],
+          entityTypes: ['component', 'decision'],
           limit: 20,
           threshold: 0.8,
         },
@@ -95,11 +123,15 @@ describe('Semantic Search Tool Tests', () => {
         mockMemoryService,
       )) as SearchResult;
 
-      if (result.status === 'success') {
-        expect(result.status).toBe('success');
-      } else {
-        fail('Expected result status to be success');
-      }
+      expect(result.status).toBe('success');
+      expect(mockEmbeddingService.semanticSearch).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'database connections',
+        { entityTypes: ['component', 'decision'], limit: 20, threshold: 0.8 },
+      );
       expect(mockContext.logger.info).toHaveBeenCalledWith(
         'Executing search operation: semantic',
         expect.objectContaining({
@@ -109,6 +141,404 @@ describe('Semantic Search Tool Tests', () => {
         }),
       );
     });
+
+    it('should return an error result when the embedding service fails', async () => {
+      mockEmbeddingService.semanticSearch.mockRejectedValue(new Error('provider unavailable'));
+
+      const result = (await searchHandler(
+        { mode: 'semantic', query: 'anything', repository: 'test-repo' },
+        mockContext,
+        mockMemoryService,
+      )) as SearchResult;
+
+      expect(result.status).toBe('error');
+      expect(result.message).toBe('Search failed: provider unavailable');
+    });
+  });
+
+  describe('Reindex mode', () => {
+    it('should rebuild the embedding index without a query', async () => {
+      mockEmbeddingService.reindex.mockResolvedValue({
+        repository: 'test-repo',
+        branch: 'main',
+        entityTypes: ['component'],
+        embedded: 3,
+        unchanged: 5,
+        removed: 1,
+      });
+
+      const result: any = await searchHandler(
+        { mode: 'reindex', repository: 'test-repo', entityTypes: ['component'], force: true },
+        mockContext,
+        mockMemoryService,
+      );
+
+      expect(mockEmbeddingService.reindex).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        { entityTypes: ['component'], force: true },
+      );
+      expect(result.status).toBe('success');
+      expect(result.mode).toBe('reindex');
+      expect(result.reindex).toMatchObject({ embedded: 3, unchanged: 5, removed: 1 });
+      expect(result.message).toBe('Reindex completed: 3 embedded, 5 unchanged, 1 removed');
+      expect(mockEmbeddingService.semanticSearch).not.toHaveBeenCalled();
+    });
+
+    it('should still require a query for search modes', async () => {
+      await expect(
+        searchHandler(
+          { mode: 'semantic', repository: 'test-repo' },
+          mockContext,
+          mockMemoryService,
+        ),
+      ).rejects.toThrow('Query parameter is required');
+    });
+  });
+
+  describe('Hybrid mode', () => {
+    beforeEach(() => {
+      const kuzuClient = {
+        executeQuery: jest.fn(async (query: string) =>
+          query.includes('MATCH (n:Component)')
+            ? [
+                { n: { id: 'comp-auth', name: 'AuthService', kind: 'service' } },
+                { n: { id: 'comp-login', name: 'LoginForm', kind: 'ui' } },
+              ]
+            : [],
+        ),
+      };
+      mockMemoryService.getKuzuClient = jest.fn().mockResolvedValue(kuzuClient) as any;
+      mockEmbeddingService.semanticSearch.mockResolvedValue([
+        { entityType: 'decision', node: { id: 'dec-sso', title: 'Adopt SSO' }, score: 0.72 },
+        {
+          entityType: 'component',
+          node: { id: 'comp-auth', name: 'AuthService', kind: 'service' },
+          score: 0.64,
+        },
+      ]);
+    });
+
+    it('should fuse full-text and semantic rankings with reciprocal rank fusion', async () => {
+      const result = (await searchHandler(
+        { mode: 'hybrid', query: 'auth', repository: 'test-repo', threshold: 0.3 },
+        mockContext,
+        mockMemoryService,
+      )) as SearchResult;
+
+      if (result.status !== 'success') {
+        fail('Expected result status to be success');
+        return;
+      }
+      expect(result.results.map((r) => r.id)).toEqual(['comp-auth', 'dec-sso', 'comp-login']);
+      expect(result.results[0].metadata).toMatchObject({
+        ftsScore: 1,
+        vectorScore: 0.64,
+        fusedScore: 1 / 61 + 1 / 62,
+        kind: 'service',
+      });
+      expect(result.results[1].metadata).toMatchObject({ ftsScore: null, vectorScore: 0.72 });
+      expect(result.results[2].metadata).toMatchObject({ ftsScore: 0.9, vectorScore: null });
+      expect(result.results[0].score).toBe(result.results[0].metadata!.fusedScore);
+      expect(mockEmbeddingService.semanticSearch).toHaveBeenCalledWith(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'auth',
+        expect.objectContaining({ limit: 30, threshold: 0.3 }),
+      );
+    });
+
+    it('should blend normalized scores when weighted fusion is requested', async () => {
+      const result = (await searchHandler(
+        {
+          mode: 'hybrid',
+          query: 'auth',
+          repository: 'test-repo',
+          fusion: 'weighted',
+          semanticWeight: 0.8,
+          limit: 2,
+        },
+        mockContext,
+        mockMemoryService,
+      )) as SearchResult;
+
+      if (result.status !== 'success') {
+        fail('Expected result status to be success');
+        return;
+      }
+      expect(result.results).toHaveLength(2);
+      expect(result.results[0].id).toBe('comp-auth');
+      expect(result.results[0].score).toBeCloseTo(0.2 * 1 + 0.8 * 0.64);
+      expect(result.results[1].id).toBe('dec-sso');
+      expect(result.results[1].score).toBeCloseTo(0.8 * 0.72);
+    });
+
+    it('should reject invalid fusion options', async () => {
+      await expect(
+        searchHandler(
+          { mode: 'hybrid', query: 'auth', repository: 'test-repo', semanticWeight: 1.5 },
+          mockContext,
+          mockMemoryService,
+        ),
+      ).rejects.toThrow('semanticWeight must be between 0.0 and 1.0');
+    });
+  });
+
+  describe('EmbeddingService', () => {
+    const nodes = [
+      {
+        id: 'comp-auth',
+        name: 'Authentication Service',
+        kind: 'service',
+        graph_unique_id: 'test-repo:main:comp-auth',
+      },
+      {
+        id: 'comp-db',
+        name: 'Database Connection Pool',
+        kind: 'library',
+        graph_unique_id: 'test-repo:main:comp-db',
+      },
+    ];
+
+    function createService(executeQuery: jest.Mock): EmbeddingService {
+      const container = {
+        getRepositoryProvider: jest.fn(),
+        getKuzuClient: jest.fn().mockResolvedValue({ executeQuery }),
+      } as any;
+      return new EmbeddingService(container, new HashedNgramEmbeddingProvider(256));
+    }
+
+    it('should rank entities by similarity without storing the vectors it computed', async () => {
+      const executeQuery = jest.fn(async (query: string, _params?: Record<string, any>) => {
+        if (query.includes('MATCH (n:Component)')) {
+          return nodes.map((n) => ({ n }));
+        }
+        return [];
+      });
+      const service = createService(executeQuery);
+      const markDirty = jest.spyOn(service, 'markDirty');
+
+      const matches = await service.semanticSearch(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'authentication',
+        { entityTypes: ['component'], limit: 5, threshold: 0.1 },
+      );
+
+      expect(matches[0].node.id).toBe('comp-auth');
+      expect(matches.every((m) => m.node.id !== 'comp-db' || m.score < matches[0].score)).toBe(
+        true,
+      );
+      expect(executeQuery.mock.calls.some(([q]) => /MERGE|CREATE|SET|DELETE/.test(q))).toBe(false);
+      expect(markDirty).toHaveBeenCalledWith({
+        clientProjectRoot: '/test/project',
+        repositoryName: 'test-repo',
+        branch: 'main',
+      });
+    });
+
+    it('should honour the threshold and skip unsupported entity types', async () => {
+      const executeQuery = jest.fn(async (query: string) =>
+        query.includes('MATCH (n:Component)') ? nodes.map((n) => ({ n })) : [],
+      );
+      const service = createService(executeQuery);
+
+      const matches = await service.semanticSearch(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'authentication',
+        { entityTypes: ['component', 'widgets'], limit: 5, threshold: 0.99 },
+      );
+
+      expect(matches).toHaveLength(0);
+      expect(mockContext.logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('unsupported entity type widgets'),
+      );
+    });
+
+    it("should find an entity by a plain keyword with the provider's default threshold", async () => {
+      const cache = {
+        id: 'comp-cache',
+        name: 'Distributed Session Cache',
+        kind: 'service',
+        graph_unique_id: 'test-repo:main:comp-cache',
+      };
+      const executeQuery = jest.fn(async (query: string) =>
+        query.includes('MATCH (n:Component)') ? [...nodes, cache].map((n) => ({ n })) : [],
+      );
+      const service = createService(executeQuery);
+
+      // The keyword scores about 0.4 against the entity text, below a model-calibrated 0.5
+      const matches = await service.semanticSearch(
+        mockContext,
+        '/test/project',
+        'test-repo',
+        'main',
+        'cache',
+        { entityTypes: ['component'], limit: 5 },
+      );
+
+      expect(matches.map((m) => m.node.id)).toEqual(['comp-cache']);
+    });
+
+    it('should re-embed a synced entity only when its content changed', async () => {
+      const provider = new HashedNgramEmbeddingProvider(256);
+      const text = 'Authentication Service\nservice';
+      const stored = {
+        entityId: 'comp-auth',
+        provider: 'hashed-ngram',
+        contentHash: computeContentHash(text),
+        vector: provider.embedText(text),
+      };
+      const executeQuery = jest.fn(async (query: string, _params?: Record<string, any>) => {
+        if (query.includes('MATCH (n:Component {graph_unique_id')) {
+          return [{ n: nodes[0] }];
+        }
+        if (query.includes('MATCH (e:Embedding {id: $id})')) {
+          return [stored];
+        }
+        return [];
+      });
+      const service = createService(executeQuery);
+
+      await expect(
+        service.syncEntity(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'main',
+          'component',
+          'comp-auth',
+        ),
+      ).resolves.toBe(false);
+
+      stored.contentHash = 'stale';
+      await expect(
+        service.syncEntity(
+          mockContext,
+          '/test/project',
+          'test-repo',
+          'main',
+          'component',
+          'comp-auth',
+        ),
+      ).resolves.toBe(true);
+      expect(
+        executeQuery.mock.calls.filter(([q]) => q.includes('MERGE (e:Embedding')),
+      ).toHaveLength(1);
+    });
+
+    it('should drop the embedding of an entity that no longer exists', async () => {
+      const executeQuery = jest.fn(async (query: string, _params?: Record<string, any>) =>
+        query.includes('DELETE e') ? [{ deletedCount: 1 }] : [],
+      );
+      const service = createService(executeQuery);
+
+      await service.syncEntity(mockContext, '/test/project', 'test-repo', 'main', 'rule', 'rule-1');
+
+      const deletes = executeQuery.mock.calls.filter(([q]) => q.includes('DELETE e'));
+      expect(deletes).toHaveLength(1);
+      expect(deletes[0][1]).toEqual({
+        repositoryName: 'test-repo',
+        branch: 'main',
+        label: 'Rule',
+        entityIds: ['rule-1'],
+      });
+    });
+
+    it('should embed changed entities and prune orphans on reindex', async () => {
+      const executeQuery = jest.fn(async (query: string, _params?: Record<string, any>) => {
+        if (query.includes('MATCH (n:Component)')) {
+          return nodes.map((n) => ({ n }));
+        }
+        if (query.includes('e.entity_label = $label') && query.includes('RETURN e.entity_id')) {
+          return [{ entityId: 'comp-deleted', provider: 'hashed-ngram', contentHash: 'x' }];
+        }
+        if (query.includes('DELETE e')) {
+          return [{ deletedCount: 1 }];
+        }
+        return [];
+      });
+      const service = createService(executeQuery);
+
+      const result = await service.reindex(mockContext, '/test/project', 'test-repo', 'main', {
+        entityTypes: ['component'],
+      });
+
+      expect(result).toEqual({
+        repository: 'test-repo',
+        branch: 'main',
+        entityTypes: ['component'],
+        embedded: 2,
+        unchanged: 0,
+        removed: 1,
+      });
+      const deletes = executeQuery.mock.calls.filter(([q]) => q.includes('DELETE e'));
+      expect(deletes[0][1]).toMatchObject({ entityIds: ['comp-deleted'] });
+    });
+
+    it('should scope embedding removal by repository, branch and type', async () => {
+      const executeQuery = jest.fn(async (_query: string, _params?: Record<string, any>) => [
+        { deletedCount: 4 },
+      ]);
+      const service = createService(executeQuery);
+
+      await expect(
+        service.removeEmbeddings(mockContext, '/test/project', 'test-repo', {
+          branch: 'main',
+          entityType: 'Decision',
+        }),
+      ).resolves.toBe(4);
+      await expect(
+        service.removeEmbeddings(mockContext, '/test/project', 'test-repo'),
+      ).resolves.toBe(4);
+      await expect(
+        service.removeEmbeddings(mockContext, '/test/project', 'test-repo', { entityType: 'tag' }),
+      ).resolves.toBe(0);
+
+      expect(executeQuery.mock.calls.map(([, params]) => params)).toEqual([
+        { repositoryName: 'test-repo', branch: 'main', label: 'Decision' },
+        { repositoryName: 'test-repo' },
+      ]);
+    });
+
+    it('should mark every branch dirty when removing the embeddings of a repository fails', async () => {
+      const executeQuery = jest.fn(async (query: string) =>
+        query.includes('MATCH (r:Repository)')
+          ? [{ id: 'test-repo:main' }, { id: 'test-repo:feature/x' }]
+          : [],
+      );
+      const embeddingService = {
+        removeEmbeddings: jest.fn().mockRejectedValue(new Error('database is locked')),
+        markDirty: jest.fn(),
+      };
+      const entityService = new EntityService({
+        getRepositoryProvider: jest.fn().mockReturnValue({}),
+        getKuzuClient: jest.fn().mockResolvedValue({ executeQuery }),
+        getEmbeddingService: jest.fn().mockResolvedValue(embeddingService),
+        getChangeNotifier: jest.fn().mockReturnValue({ notify: jest.fn() }),
+      } as any);
+
+      await entityService.bulkDeleteByRepository(mockContext, '/test/project', 'test-repo', {
+        force: true,
+      });
+
+      expect(executeQuery).toHaveBeenCalledWith(expect.stringContaining('STARTS WITH $prefix'), {
+        prefix: 'test-repo:',
+      });
+      expect(embeddingService.markDirty.mock.calls.map(([scope]) => scope)).toEqual([
+        { clientProjectRoot: '/test/project', repositoryName: 'test-repo', branch: 'main' },
+        { clientProjectRoot: '/test/project', repositoryName: 'test-repo', branch: 'feature/x' },
+      ]);
+    });
   });
 
   describe('Session Validation', () => {
@@ -141,7 +571,11 @@ describe('Semantic Search Tool Tests', () => {
   });
 
   describe('Progress Reporting', () => {
-    it('should report progress for placeholder search', async () => {
+    it('should report progress for semantic search', async () => {
+      mockEmbeddingService.semanticSearch.mockResolvedValue([
+        { entityType: 'rule', node: { id: 'rule-1', title: 'No secrets' }, score: 0.9 },
+      ]);
+
       await searchHandler(
         {
           mode: 'semantic',
@@ -154,7 +588,7 @@ describe('Semantic Search Tool Tests', () => {
 
       expect(mockContext.sendProgress).toHaveBeenCalledWith({
         status: 'in_progress',
-        message: 'Semantic search is a future capability - returning placeholder results',
+        message: 'Ranking entities by embedding similarity...',
         percent: 50,
       });
 
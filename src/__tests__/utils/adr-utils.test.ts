@@ -0,0 +1,286 @@
+import {
+  adrFileName,
+  adrIdFromFileName,
+  parseAdr,
+  planAdrImport,
+  renderAdrFiles,
+} from '../../utils/adr.utils';
+import { type BranchState } from '../../utils/branch-diff.utils';
+
+const NYGARD = `# 2. Use MySQL
+
+Date: 2024-01-12
+
+## Status
+
+Superseded by [3. Use PostgreSQL](0003-use-postgresql.md)
+
+## Context
+
+comp-db needs a relational store.
+
+## Decision
+
+Use MySQL.
+
+## Consequences
+
+Operations know MySQL.
+`;
+
+const MADR = `---
+status: accepted
+date: 2024-03-01
+---
+# Use PostgreSQL
+
+## Context and Problem Statement
+
+The \`comp-db\` layer needs JSON columns; comp-dbx is unrelated.
+
+## Considered Options
+
+* MySQL
+* PostgreSQL
+
+## Decision Outcome
+
+Chosen option: PostgreSQL.
+
+\`\`\`sql
+## not a heading
+\`\`\`
+
+### Consequences
+
+* Good, because JSONB.
+`;
+
+describe('ADR utils', () => {
+  it('should map numbered file names to adr ids and back', () => {
+    expect(adrIdFromFileName('docs/adr/0003-use-postgresql.md')).toBe('adr-0003');
+    expect(adrIdFromFileName('use-redis.md')).toBe('use-redis');
+    expect(adrFileName('adr-0003', 'Use PostgreSQL!')).toBe('0003-use-postgresql.md');
+    expect(adrFileName('dec-1', 'Anything')).toBe('dec-1.md');
+    for (const id of ['adr-7', '0002-use-redis', '_draft', 'team/dec-1', '100%', '0002']) {
+      expect(adrIdFromFileName(adrFileName(id, 'Title'))).toBe(id);
+    }
+    expect(adrFileName('0002-use-redis', 'Use Redis')).toBe('_0002-use-redis.md');
+  });
+
+  it('should parse Nygard style ADRs', () => {
+    expect(parseAdr('0002-use-mysql.md', NYGARD)).toEqual({
+      id: 'adr-0002',
+      fileName: '0002-use-mysql.md',
+      title: 'Use MySQL',
+      status: 'superseded',
+      date: '2024-01-12',
+      context: 'comp-db needs a relational store.',
+      outcome: 'Use MySQL.',
+      consequences: 'Operations know MySQL.',
+      supersedes: [],
+      supersededBy: ['adr-0003'],
+      components: null,
+    });
+  });
+
+  it('should parse MADR style ADRs and keep unknown sections', () => {
+    const record = parseAdr('0003-use-postgresql.md', MADR);
+
+    expect(record).toMatchObject({
+      id: 'adr-0003',
+      title: 'Use PostgreSQL',
+      status: 'accepted',
+      date: '2024-03-01',
+      consequences: '* Good, because JSONB.',
+    });
+    expect(record.context).toContain('## Considered Options\n\n* MySQL');
+    expect(record.outcome).toContain('## not a heading');
+  });
+
+  it('should reject files without a title', () => {
+    expect(() => parseAdr('notes.md', 'Just some notes')).toThrow('notes.md has no title heading');
+    expect(() => parseAdr('0001-x.md', '# X\n\nDate: soon\n')).toThrow("Invalid date 'soon'");
+  });
+
+  it('should plan decisions with AFFECTS edges for mentioned components and SUPERSEDES links', () => {
+    const records = [
+      parseAdr('0002-use-mysql.md', NYGARD),
+      parseAdr('0003-use-postgresql.md', MADR),
+    ];
+    const plan = planAdrImport(
+      records,
+      { decisionIds: new Set(['adr-0002']), componentIds: new Set(['comp-db', 'comp-api']) },
+      { overwrite: true, now: new Date('2024-06-01T00:00:00Z') },
+    );
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.outcomes.map((outcome) => outcome.outcome)).toEqual(['updated', 'created']);
+    expect(plan.entities[1].properties).toMatchObject({
+      id: 'adr-0003',
+      title: 'Use PostgreSQL',
+      dateCreated: new Date('2024-03-01'),
+      outcome: expect.stringContaining('PostgreSQL'),
+    });
+    expect(plan.relationships).toEqual([
+      {
+        type: 'AFFECTS',
+        fromType: 'decision',
+        fromId: 'adr-0002',
+        toType: 'component',
+        toId: 'comp-db',
+      },
+      {
+        type: 'SUPERSEDES',
+        fromType: 'decision',
+        fromId: 'adr-0003',
+        toType: 'decision',
+        toId: 'adr-0002',
+      },
+      {
+        type: 'AFFECTS',
+        fromType: 'decision',
+        fromId: 'adr-0003',
+        toType: 'component',
+        toId: 'comp-db',
+      },
+    ]);
+  });
+
+  it('should skip existing decisions and report unknown links', () => {
+    const listed = parseAdr(
+      '0004-cache.md',
+      '# Cache\n\n## Status\n\nSupersedes [9. Old](0009-old.md)\n\n## Affected Components\n\n- `comp-cache`\n',
+    );
+    const plan = planAdrImport(
+      [parseAdr('0002-use-mysql.md', NYGARD), listed],
+      { decisionIds: new Set(['adr-0002']), componentIds: new Set() },
+      { overwrite: false },
+    );
+
+    expect(plan.outcomes.map((outcome) => outcome.outcome)).toEqual(['skipped', 'created']);
+    expect(plan.errors).toEqual([
+      { id: 'adr-0004', error: 'Unknown component comp-cache in 0004-cache.md' },
+      { id: 'adr-0004', error: 'Unknown decision adr-0009 in 0004-cache.md' },
+    ]);
+  });
+
+  it('should render ADRs that parse back to the same decisions and edges', () => {
+    const state: BranchState = {
+      entities: [
+        {
+          entityType: 'decision',
+          id: 'adr-0002',
+          properties: {
+            id: 'adr-0002',
+            title: 'Use MySQL',
+            status: 'superseded',
+            dateCreated: new Date('2024-01-12T00:00:00Z'),
+            rationale: 'Need a store.',
+          },
+        },
+        {
+          entityType: 'decision',
+          id: 'adr-0003',
+          properties: {
+            id: 'adr-0003',
+            title: 'Use PostgreSQL',
+            status: 'accepted',
+            dateCreated: new Date('2024-03-01T00:00:00Z'),
+            outcome: 'PostgreSQL.',
+            consequences: 'JSONB.',
+          },
+        },
+        { entityType: 'component', id: 'comp-db', properties: { id: 'comp-db' } },
+      ],
+      relationships: [
+        {
+          type: 'SUPERSEDES',
+          fromType: 'decision',
+          fromId: 'adr-0003',
+          toType: 'decision',
+          toId: 'adr-0002',
+        },
+        {
+          type: 'AFFECTS',
+          fromType: 'decision',
+          fromId: 'adr-0003',
+          toType: 'component',
+          toId: 'comp-db',
+        },
+      ],
+    };
+    const files = renderAdrFiles(state);
+
+    expect(files.map((file) => file.path)).toEqual(['0002-use-mysql.md', '0003-use-postgresql.md']);
+    expect(files[0].content).toContain('Superseded by [3. Use PostgreSQL](0003-use-postgresql.md)');
+    expect(files[1].content).toContain('## Affected Components\n\n- `comp-db`');
+
+    const records = files.map((file) => parseAdr(file.path, file.content));
+    const plan = planAdrImport(
+      records,
+      { decisionIds: new Set(), componentIds: new Set(['comp-db']) },
+      { overwrite: false },
+    );
+    expect(plan.entities.map((entity) => entity.properties)).toEqual([
+      {
+        id: 'adr-0002',
+        title: 'Use MySQL',
+        status: 'superseded',
+        dateCreated: new Date('2024-01-12'),
+        rationale: 'Need a store.',
+        outcome: null,
+        consequences: null,
+      },
+      {
+        id: 'adr-0003',
+        title: 'Use PostgreSQL',
+        status: 'accepted',
+        dateCreated: new Date('2024-03-01'),
+        rationale: null,
+        outcome: 'PostgreSQL.',
+        consequences: 'JSONB.',
+      },
+    ]);
+    expect(plan.relationships).toEqual(expect.arrayContaining(state.relationships));
+    expect(plan.relationships).toHaveLength(2);
+    expect(renderAdrFiles({ ...state, entities: [...plan.entities, state.entities[2]] })).toEqual(
+      files,
+    );
+  });
+
+  it('should keep ids with a leading number when rendering and parsing back', () => {
+    const decision = (id: string, title: string) => ({
+      entityType: 'decision' as const,
+      id,
+      properties: { id, title, status: 'accepted' },
+    });
+    const state: BranchState = {
+      entities: [
+        decision('0002-use-redis', 'Use Redis'),
+        decision('0003-use-valkey', 'Use Valkey'),
+      ],
+      relationships: [
+        {
+          type: 'SUPERSEDES',
+          fromType: 'decision',
+          fromId: '0003-use-valkey',
+          toType: 'decision',
+          toId: '0002-use-redis',
+        },
+      ],
+    };
+
+    const records = renderAdrFiles(state).map((file) => parseAdr(file.path, file.content));
+    const plan = planAdrImport(
+      records,
+      { decisionIds: new Set(['0002-use-redis', '0003-use-valkey']), componentIds: new Set() },
+      { overwrite: true },
+    );
+
+    expect(records.map((record) => record.id)).toEqual(['0002-use-redis', '0003-use-valkey']);
+    expect(plan.outcomes.map((outcome) => outcome.outcome)).toEqual(['updated', 'updated']);
+    expect(plan.relationships).toEqual(state.relationships);
+    expect(plan.errors).toEqual([]);
+  });
+});
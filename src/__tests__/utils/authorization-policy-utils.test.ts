@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ToolRegistrationService } from '../../server/services/tool-registration.service';
+import {
+  authorizeToolCall,
+  getToolOperation,
+  loadAuthorizationPolicy,
+  validateAuthorizationPolicy,
+  type AuthorizationPolicy,
+} from '../../utils/authorization-policy.utils';
+
+const policy: AuthorizationPolicy = {
+  defaultRole: 'read-only',
+  principals: { ci: 'writer', ops: 'admin', cleaner: 'janitor' },
+  roles: {
+    janitor: {
+      inherits: ['writer'],
+      allow: ['delete.bulk-*'],
+      deny: ['delete.bulk-by-repository'],
+    },
+  },
+};
+
+describe('authorization policy utils', () => {
+  it('should resolve the operation argument of each tool', () => {
+    expect(getToolOperation('delete', { operation: 'bulk-by-type' })).toBe('bulk-by-type');
+    expect(getToolOperation('search', { mode: 'reindex' })).toBe('reindex');
+    expect(getToolOperation('introspect', { query: 'labels' })).toBe('labels');
+    expect(getToolOperation('entity', {})).toBeUndefined();
+  });
+
+  it('should map principals to roles and fall back to the default role', () => {
+    expect(
+      authorizeToolCall(policy, { principal: 'stranger', tool: 'search', operation: 'fulltext' }),
+    ).toEqual({
+      allowed: true,
+      role: 'read-only',
+    });
+    expect(
+      authorizeToolCall(policy, { principal: 'stranger', tool: 'entity', operation: 'create' }),
+    ).toMatchObject({ allowed: false, role: 'read-only' });
+    for (const operation of ['export', 'export-markdown', 'export-adr']) {
+      expect(
+        authorizeToolCall(policy, { principal: 'stranger', tool: 'memory-bank', operation }),
+      ).toMatchObject({ allowed: false, role: 'read-only' });
+      expect(
+        authorizeToolCall(policy, { principal: 'ci', tool: 'memory-bank', operation }),
+      ).toEqual({ allowed: true, role: 'writer' });
+    }
+    expect(
+      authorizeToolCall(policy, { principal: 'ci', tool: 'entity', operation: 'create' }),
+    ).toEqual({ allowed: true, role: 'writer' });
+    expect(
+      authorizeToolCall(policy, {
+        principal: 'ops',
+        tool: 'memory-optimizer',
+        operation: 'optimize',
+      }),
+    ).toEqual({ allowed: true, role: 'admin' });
+  });
+
+  it('should keep destructive operations out of the writer role', () => {
+    expect(
+      authorizeToolCall(policy, {
+        principal: 'ci',
+        tool: 'delete',
+        operation: 'bulk-by-repository',
+      }),
+    ).toEqual({
+      allowed: false,
+      role: 'writer',
+      reason: "Role 'writer' is not allowed to call 'delete.bulk-by-repository'",
+    });
+    expect(
+      authorizeToolCall(policy, {
+        principal: 'ci',
+        tool: 'memory-optimizer',
+        operation: 'optimize',
+      }),
+    ).toMatchObject({ allowed: false });
+    for (const [tool, operation] of [
+      ['entity', 'merge'],
+      ['memory-bank', 'import'],
+      ['memory-bank', 'fork'],
+    ]) {
+      expect(authorizeToolCall(policy, { principal: 'ci', tool, operation })).toEqual({
+        allowed: false,
+        role: 'writer',
+        reason: `Role 'writer' is not allowed to call '${tool}.${operation}'`,
+      });
+      expect(authorizeToolCall(policy, { principal: 'ops', tool, operation })).toEqual({
+        allowed: true,
+        role: 'admin',
+      });
+    }
+  });
+
+  it('should apply wildcard allows and let deny patterns win', () => {
+    expect(
+      authorizeToolCall(policy, { principal: 'cleaner', tool: 'delete', operation: 'bulk-by-tag' }),
+    ).toEqual({ allowed: true, role: 'janitor' });
+    expect(
+      authorizeToolCall(policy, {
+        principal: 'cleaner',
+        tool: 'delete',
+        operation: 'bulk-by-repository',
+      }),
+    ).toEqual({
+      allowed: false,
+      role: 'janitor',
+      reason: "Role 'janitor' is denied 'delete.bulk-by-repository'",
+    });
+  });
+
+  it('should deny principals without a role when no default role is set', () => {
+    expect(authorizeToolCall({}, { principal: 'stdio', tool: 'search' })).toEqual({
+      allowed: false,
+      reason: "Principal 'stdio' has no role",
+    });
+  });
+
+  it('should reject policies referencing unknown roles', () => {
+    expect(() => validateAuthorizationPolicy({ principals: { ci: 'root' } })).toThrow(
+      "Principal 'ci' is mapped to unknown role 'root'",
+    );
+    expect(() => validateAuthorizationPolicy({ roles: { x: { inherits: ['nope'] } } })).toThrow(
+      "Role 'x' inherits unknown role 'nope'",
+    );
+    expect(() => validateAuthorizationPolicy([])).toThrow('must be a JSON object');
+  });
+
+  it('should load the policy file named by MCP_AUTH_POLICY_FILE', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kuzumem-policy-'));
+    const file = path.join(dir, 'policy.json');
+    fs.writeFileSync(file, JSON.stringify(policy));
+    try {
+      expect(loadAuthorizationPolicy({})).toBeUndefined();
+      expect(loadAuthorizationPolicy({ MCP_AUTH_POLICY_FILE: file })).toEqual(policy);
+      expect(() =>
+        loadAuthorizationPolicy({ MCP_AUTH_POLICY_FILE: path.join(dir, 'missing.json') }),
+      ).toThrow('Failed to read authorization policy');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ToolRegistrationService authorization', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    child: jest.fn(),
+  } as any;
+  logger.child.mockReturnValue(logger);
+
+  const service = new ToolRegistrationService(
+    new McpServer({ name: 'test', version: '0.0.0' }),
+    logger,
+    policy,
+  );
+
+  it('should return a structured forbidden error before running the handler', async () => {
+    const result = await (service as any).executeToolHandler(
+      'delete',
+      { operation: 'bulk-by-repository', repository: 'repo-a', confirm: true },
+      { token: 't', clientId: 'ci', scopes: [] },
+    );
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      success: false,
+      code: 'FORBIDDEN',
+      principal: 'ci',
+      role: 'writer',
+      tool: 'delete',
+      operation: 'bulk-by-repository',
+    });
+  });
+
+  it('should report repository scope violations as forbidden', async () => {
+    const result = await (service as any).executeToolHandler(
+      'search',
+      { mode: 'fulltext', query: 'x', repository: 'repo-b' },
+      { token: 't', clientId: 'ci', scopes: [], extra: { repositories: ['repo-a'] } },
+    );
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({
+      code: 'FORBIDDEN',
+      error: "Credential 'ci' is not allowed to access repository 'repo-b'",
+      repository: 'repo-b',
+    });
+  });
+});
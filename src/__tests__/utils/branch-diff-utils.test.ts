@@ -0,0 +1,240 @@
+import {
+  diffBranchStates,
+  diffEntityProperties,
+  planBranchMerge,
+  selectForkState,
+} from '../../utils/branch-diff.utils';
+
+describe('diffBranchStates', () => {
+  const dependsOn = {
+    type: 'DEPENDS_ON',
+    fromType: 'component' as const,
+    fromId: 'comp-Auth',
+    toType: 'component' as const,
+    toId: 'comp-DB',
+  };
+
+  it('should report added, removed and modified entities and relationships', () => {
+    const target = {
+      entities: [
+        {
+          entityType: 'component' as const,
+          id: 'comp-DB',
+          name: 'Database',
+          properties: { id: 'comp-DB', name: 'Database', status: 'active', branch: 'main' },
+        },
+        { entityType: 'rule' as const, id: 'rule-1', properties: { id: 'rule-1' } },
+      ],
+      relationships: [],
+    };
+    const source = {
+      entities: [
+        {
+          entityType: 'component' as const,
+          id: 'comp-DB',
+          name: 'Database',
+          properties: { id: 'comp-DB', name: 'Database', status: 'deprecated', branch: 'feat' },
+        },
+        { entityType: 'component' as const, id: 'comp-Auth', properties: { id: 'comp-Auth' } },
+      ],
+      relationships: [dependsOn],
+    };
+
+    expect(diffBranchStates(source, target)).toEqual({
+      entities: {
+        added: [{ entityType: 'component', id: 'comp-Auth' }],
+        removed: [{ entityType: 'rule', id: 'rule-1' }],
+        modified: [
+          {
+            entityType: 'component',
+            id: 'comp-DB',
+            name: 'Database',
+            changes: [{ field: 'status', from: 'active', to: 'deprecated' }],
+          },
+        ],
+      },
+      relationships: { added: [dependsOn], removed: [] },
+    });
+    expect(diffBranchStates(target, source).relationships.removed).toEqual([dependsOn]);
+  });
+
+  it('should compare dates and lists by value and ignore scope fields', () => {
+    expect(
+      diffEntityProperties(
+        {
+          graph_unique_id: 'repo:main:d1',
+          dateCreated: new Date('2024-01-01T00:00:00Z'),
+          impact: ['a'],
+          _label: 'Decision',
+        },
+        {
+          graph_unique_id: 'repo:feat:d1',
+          dateCreated: new Date('2024-01-01T00:00:00Z'),
+          impact: ['a', 'b'],
+          rationale: 'new',
+        },
+      ),
+    ).toEqual([
+      { field: 'impact', from: ['a'], to: ['a', 'b'] },
+      { field: 'rationale', from: null, to: 'new' },
+    ]);
+  });
+});
+
+describe('planBranchMerge', () => {
+  const rule = (title: string) => ({
+    entityType: 'rule' as const,
+    id: 'rule-1',
+    name: title,
+    properties: { id: 'rule-1', title },
+  });
+  const component = (id: string, status = 'active') => ({
+    entityType: 'component' as const,
+    id,
+    properties: { id, status },
+  });
+
+  it('should treat every differing entity as a conflict without a base', () => {
+    const source = {
+      entities: [rule('Rule v2'), component('comp-DB'), component('comp-Auth')],
+      relationships: [
+        {
+          type: 'DEPENDS_ON',
+          fromType: 'component' as const,
+          fromId: 'comp-Auth',
+          toType: 'component' as const,
+          toId: 'comp-DB',
+        },
+        {
+          type: 'PART_OF',
+          fromType: 'component' as const,
+          fromId: 'comp-Auth',
+          toType: 'component' as const,
+          toId: 'comp-DB',
+        },
+      ],
+    };
+    const target = { entities: [rule('Rule v1'), component('comp-DB')], relationships: [] };
+
+    const failPlan = planBranchMerge(source, target, { strategy: 'fail' });
+    expect(failPlan.create).toEqual([component('comp-Auth')]);
+    expect(failPlan.update).toEqual([]);
+    expect(failPlan.unchanged).toBe(1);
+    expect(failPlan.conflicts).toEqual([
+      {
+        entityType: 'rule',
+        id: 'rule-1',
+        name: 'Rule v2',
+        changes: [{ field: 'title', from: 'Rule v1', to: 'Rule v2' }],
+      },
+    ]);
+    expect(failPlan.relationships.map((r) => r.type)).toEqual(['DEPENDS_ON']);
+
+    expect(planBranchMerge(source, target, { strategy: 'ours' }).update).toEqual([]);
+    expect(planBranchMerge(source, target, { strategy: 'theirs' }).update).toEqual([
+      rule('Rule v2'),
+    ]);
+  });
+
+  it('should use the base to tell one-sided changes from conflicts', () => {
+    const base = [component('comp-A'), component('comp-B'), component('comp-C')];
+    const source = {
+      entities: [
+        component('comp-A', 'deprecated'),
+        component('comp-B'),
+        component('comp-C', 'deprecated'),
+      ],
+      relationships: [],
+    };
+    const target = {
+      entities: [
+        component('comp-A'),
+        component('comp-B', 'planned'),
+        component('comp-C', 'planned'),
+      ],
+      relationships: [],
+    };
+
+    const plan = planBranchMerge(source, target, { strategy: 'fail', base });
+    expect(plan.update).toEqual([component('comp-A', 'deprecated')]);
+    expect(plan.keptTargetChanges).toBe(1);
+    expect(plan.conflicts.map((conflict) => conflict.id)).toEqual(['comp-C']);
+  });
+
+  it('should link shared files and tags instead of writing them', () => {
+    const source = {
+      entities: [
+        component('comp-A'),
+        { entityType: 'file' as const, id: 'file-1', properties: { id: 'file-1' } },
+        { entityType: 'tag' as const, id: 'tag-1', properties: { id: 'tag-1' } },
+      ],
+      relationships: [
+        {
+          type: 'TAGGED_WITH',
+          fromType: 'component' as const,
+          fromId: 'comp-A',
+          toType: 'tag' as const,
+          toId: 'tag-1',
+        },
+      ],
+    };
+
+    const plan = planBranchMerge(source, { entities: [], relationships: [] }, { strategy: 'fail' });
+    expect(plan.create).toEqual([component('comp-A')]);
+    expect(plan.update).toEqual([]);
+    expect(plan.relationships).toEqual(source.relationships);
+  });
+});
+
+describe('selectForkState', () => {
+  const entity = (entityType: 'component' | 'rule' | 'file' | 'tag', id: string) => ({
+    entityType,
+    id,
+    properties: { id },
+  });
+  const relationship = (
+    type: string,
+    fromType: 'component' | 'rule' | 'file',
+    fromId: string,
+    toType: 'component' | 'file' | 'tag',
+    toId: string,
+  ) => ({ type, fromType, fromId, toType, toId });
+
+  const state = {
+    entities: [
+      entity('component', 'comp-A'),
+      entity('component', 'comp-B'),
+      entity('rule', 'rule-1'),
+      entity('file', 'file-1'),
+      entity('tag', 'tag-core'),
+    ],
+    relationships: [
+      relationship('DEPENDS_ON', 'component', 'comp-A', 'component', 'comp-B'),
+      relationship('TAGGED_WITH', 'component', 'comp-A', 'tag', 'tag-core'),
+      relationship('IMPLEMENTS', 'component', 'comp-B', 'file', 'file-1'),
+      relationship('CONTAINS', 'file', 'file-1', 'component', 'comp-A'),
+    ],
+  };
+
+  it('should copy forkable entities and link shared files and tags', () => {
+    const fork = selectForkState(state);
+
+    expect(fork.entities.map((e) => e.id)).toEqual(['comp-A', 'comp-B', 'rule-1']);
+    expect(fork.relationships.map((r) => r.type)).toEqual([
+      'DEPENDS_ON',
+      'TAGGED_WITH',
+      'IMPLEMENTS',
+    ]);
+  });
+
+  it('should filter by entity type and tag', () => {
+    expect(selectForkState(state, { entityTypes: ['rule'] }).entities.map((e) => e.id)).toEqual([
+      'rule-1',
+    ]);
+
+    const tagged = selectForkState(state, { tags: ['tag-core'] });
+    expect(tagged.entities.map((e) => e.id)).toEqual(['comp-A']);
+    // comp-B is not copied, so the dependency on it is dropped
+    expect(tagged.relationships.map((r) => r.type)).toEqual(['TAGGED_WITH']);
+  });
+});
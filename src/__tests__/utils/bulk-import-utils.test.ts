@@ -0,0 +1,174 @@
+import { planBulkGraphImport, resolveBulkRelationship } from '../../utils/bulk-import.utils';
+
+describe('bulk import planning', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  describe('resolveBulkRelationship', () => {
+    it('fills in endpoint types that follow from the relationship type', () => {
+      expect(
+        resolveBulkRelationship({ type: 'IMPLEMENTS', fromId: 'comp-A', toId: 'file-a' }),
+      ).toEqual({
+        type: 'IMPLEMENTS',
+        fromType: 'component',
+        fromId: 'comp-A',
+        toType: 'file',
+        toId: 'file-a',
+      });
+    });
+
+    it('requires the endpoint type when several are allowed', () => {
+      expect(() =>
+        resolveBulkRelationship({ type: 'TAGGED_WITH', fromId: 'comp-A', toId: 'tag-x' }),
+      ).toThrow('TAGGED_WITH needs fromType');
+    });
+
+    it('rejects endpoint types the schema does not allow', () => {
+      expect(() =>
+        resolveBulkRelationship({
+          type: 'GOVERNS',
+          fromType: 'decision',
+          fromId: 'dec-1',
+          toId: 'comp-A',
+        }),
+      ).toThrow('GOVERNS cannot start at a decision');
+    });
+
+    it('rejects unknown relationship types', () => {
+      expect(() => resolveBulkRelationship({ type: 'OWNS', fromId: 'a', toId: 'b' })).toThrow(
+        'Unsupported relationship type OWNS',
+      );
+    });
+  });
+
+  describe('planBulkGraphImport', () => {
+    const input = {
+      files: [{ id: 'file-a', name: 'a.ts', path: 'src/a.ts', content: 'export {}' }],
+      tags: [{ id: 'tag-x', name: 'x' }],
+      contexts: [{ id: 'ctx-1', summary: 'seeded', timestamp: '2024-05-01T10:00:00Z' }],
+      relationships: [
+        { type: 'IMPLEMENTS', fromId: 'comp-A', toId: 'file-a' },
+        { type: 'TAGGED_WITH', fromType: 'file' as const, fromId: 'file-a', toId: 'tag-x' },
+      ],
+    };
+
+    it('plans new nodes in the stored layout and resolves relationships against them', () => {
+      const plan = planBulkGraphImport(input, new Set(['component:comp-A']), {
+        overwrite: false,
+        now,
+      });
+
+      expect(plan.errors).toEqual([]);
+      expect(plan.outcomes.map((outcome) => outcome.outcome)).toEqual([
+        'created',
+        'created',
+        'created',
+      ]);
+      const [file, tag, context] = plan.entities;
+      expect(file.properties).toMatchObject({
+        size: 0,
+        mime_type: 'unknown',
+        metadata: JSON.stringify({ content: 'export {}', metrics: null }),
+        lastModified: now,
+      });
+      expect(tag.properties.category).toBe('general');
+      expect(context.properties.timestamp).toEqual(new Date('2024-05-01T10:00:00Z'));
+      expect(plan.relationships).toHaveLength(2);
+    });
+
+    it('skips existing nodes unless overwrite is set', () => {
+      const existing = new Set(['component:comp-A', 'file:file-a', 'tag:tag-x']);
+
+      const skipped = planBulkGraphImport(input, existing, { overwrite: false, now });
+      expect(skipped.outcomes.map((outcome) => outcome.outcome)).toEqual([
+        'skipped',
+        'skipped',
+        'created',
+      ]);
+      expect(skipped.entities.map((entity) => entity.id)).toEqual(['ctx-1']);
+      expect(skipped.relationships).toHaveLength(2);
+
+      const overwritten = planBulkGraphImport(input, existing, { overwrite: true, now });
+      expect(overwritten.outcomes.map((outcome) => outcome.outcome)).toEqual([
+        'updated',
+        'updated',
+        'created',
+      ]);
+    });
+
+    it('links files and tags of other branches instead of overwriting them', () => {
+      const plan = planBulkGraphImport(input, new Set(['component:comp-A', 'file:file-a']), {
+        overwrite: true,
+        now,
+        sharedKeys: new Set(['file:file-a']),
+      });
+
+      expect(plan.outcomes.map((outcome) => outcome.outcome)).toEqual([
+        'linked',
+        'created',
+        'created',
+      ]);
+      expect(plan.entities.map((entity) => entity.id)).toEqual(['tag-x', 'ctx-1']);
+      expect(plan.relationships).toHaveLength(2);
+    });
+
+    it('plans components, decisions and rules with component dependencies', () => {
+      const plan = planBulkGraphImport(
+        {
+          components: [
+            { id: 'comp-A', name: 'A', depends_on: ['comp-B'] },
+            { id: 'comp-B', name: 'B', kind: 'library' },
+          ],
+          decisions: [{ id: 'dec-1', name: 'Use Kuzu', date: '2024-02-03', context: 'Graphs' }],
+          rules: [{ id: 'rule-1', name: 'Lint', created: '2024-01-01', content: 'Run the linter' }],
+        },
+        new Set(),
+        { overwrite: false, now },
+      );
+
+      expect(plan.errors).toEqual([]);
+      expect(plan.entities.map((entity) => entity.properties)).toEqual([
+        { id: 'comp-A', name: 'A', kind: 'Unknown', status: 'active', dependsOn: ['comp-B'] },
+        { id: 'comp-B', name: 'B', kind: 'library', status: 'active' },
+        {
+          id: 'dec-1',
+          title: 'Use Kuzu',
+          dateCreated: new Date('2024-02-03'),
+          rationale: 'Graphs',
+          status: 'proposed',
+        },
+        expect.objectContaining({ title: 'Lint', description: 'Run the linter' }),
+      ]);
+      expect(plan.relationships).toEqual([
+        {
+          type: 'DEPENDS_ON',
+          fromType: 'component',
+          fromId: 'comp-A',
+          toType: 'component',
+          toId: 'comp-B',
+        },
+      ]);
+    });
+
+    it('reports unresolved endpoints, duplicates and invalid timestamps', () => {
+      const plan = planBulkGraphImport(
+        {
+          tags: [
+            { id: 'tag-x', name: 'x' },
+            { id: 'tag-x', name: 'again' },
+          ],
+          contexts: [{ id: 'ctx-1', timestamp: 'yesterday' }],
+          relationships: [{ type: 'AFFECTS', fromId: 'dec-1', toId: 'comp-A' }],
+        },
+        new Set(),
+        { overwrite: false, now },
+      );
+
+      expect(plan.errors).toEqual([
+        { id: 'tag-x', error: 'Duplicate tag id in the import' },
+        { id: 'ctx-1', error: "Invalid timestamp 'yesterday'" },
+        { id: 'AFFECTS:dec-1->comp-A', error: 'Unknown decision dec-1 and component comp-A' },
+      ]);
+      expect(plan.relationships).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { csvField, csvRow, writeCsvFile } from '../../utils/csv.utils';
+
+describe('csv utils', () => {
+  it('quotes strings and doubles embedded quotes', () => {
+    expect(csvField('plain')).toBe('"plain"');
+    expect(csvField('a "b", c\nd')).toBe('"a ""b"", c\nd"');
+  });
+
+  it('writes arrays as list literals', () => {
+    expect(csvField(['comp-a', 'comp-b'])).toBe('"[comp-a,comp-b]"');
+    expect(csvField([])).toBe('"[]"');
+  });
+
+  it('writes dates as ISO strings, numbers bare and nulls as empty fields', () => {
+    expect(csvRow([new Date('2024-01-02T03:04:05Z'), 42, null, undefined, true])).toBe(
+      '2024-01-02T03:04:05.000Z,42,,,true\n',
+    );
+  });
+
+  it('streams rows after a header and reports each row', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'csv-utils-'));
+    try {
+      const filePath = path.join(dir, 'rows.csv');
+      const onRow = jest.fn();
+
+      const count = await writeCsvFile(
+        filePath,
+        ['id', 'size'],
+        [
+          ['a', 1],
+          ['b', 2],
+        ],
+        onRow,
+      );
+
+      expect(count).toBe(2);
+      expect(onRow).toHaveBeenCalledTimes(2);
+      expect(await fs.promises.readFile(filePath, 'utf-8')).toBe('id,size\n"a",1\n"b",2\n');
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
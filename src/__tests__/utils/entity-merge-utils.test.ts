@@ -0,0 +1,120 @@
+import { mergeEntityProperties, planEntityMerge } from '../../utils/entity-merge.utils';
+
+describe('mergeEntityProperties', () => {
+  it('should union lists, combine observations and keep the target on conflicts', () => {
+    const source = {
+      entityType: 'component' as const,
+      id: 'comp-auth-2',
+      properties: {
+        id: 'comp-auth-2',
+        name: 'auth-service',
+        kind: 'service',
+        dependsOn: ['comp-db', 'comp-cache', 'comp-auth'],
+        tags: ['security'],
+        observation: 'Handles refresh tokens',
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        graph_unique_id: 'repo:main:comp-auth-2',
+        merged_from: ['comp-auth-old'],
+      },
+    };
+    const target = {
+      entityType: 'component' as const,
+      id: 'comp-auth',
+      properties: {
+        id: 'comp-auth',
+        name: 'Auth Service',
+        kind: '',
+        dependsOn: ['comp-db', 'comp-auth-2'],
+        tags: ['core'],
+        observation: 'Issues tokens',
+        created_at: new Date('2024-03-01T00:00:00Z'),
+        graph_unique_id: 'repo:main:comp-auth',
+      },
+    };
+
+    const { properties, conflicts } = mergeEntityProperties(source, target);
+
+    expect(properties).toEqual({
+      id: 'comp-auth',
+      name: 'Auth Service',
+      kind: 'service',
+      dependsOn: ['comp-db', 'comp-cache'],
+      tags: ['core', 'security'],
+      observation: 'Issues tokens\n\nHandles refresh tokens',
+      created_at: new Date('2024-01-01T00:00:00Z'),
+      graph_unique_id: 'repo:main:comp-auth',
+      merged_from: ['comp-auth-2', 'comp-auth-old'],
+    });
+    expect(conflicts).toEqual([{ field: 'name', kept: 'Auth Service', dropped: 'auth-service' }]);
+  });
+});
+
+describe('planEntityMerge', () => {
+  const tag = (id: string) => ({ entityType: 'tag' as const, id, properties: { id } });
+
+  it('should move relationships keeping their type and direction', () => {
+    const plan = planEntityMerge(tag('tag-db'), tag('tag-database'), [
+      {
+        type: 'TAGGED_WITH',
+        fromType: 'component',
+        fromId: 'comp-auth',
+        toType: 'tag',
+        toId: 'tag-db',
+      },
+      {
+        type: 'TAGGED_WITH',
+        fromType: 'rule',
+        fromId: 'rule-sql',
+        toType: 'tag',
+        toId: 'tag-db',
+      },
+      {
+        type: 'TAGGED_WITH',
+        fromType: 'tag',
+        fromId: 'tag-db',
+        toType: 'tag',
+        toId: 'tag-database',
+      },
+    ]);
+
+    expect(plan.relationships).toEqual([
+      {
+        type: 'TAGGED_WITH',
+        fromType: 'component',
+        fromId: 'comp-auth',
+        toType: 'tag',
+        toId: 'tag-database',
+      },
+      {
+        type: 'TAGGED_WITH',
+        fromType: 'rule',
+        fromId: 'rule-sql',
+        toType: 'tag',
+        toId: 'tag-database',
+      },
+    ]);
+    expect(plan.entity.id).toBe('tag-database');
+    expect(plan.entity.properties.merged_from).toEqual(['tag-db']);
+  });
+
+  it('should keep relationships to a same-named entity of another type', () => {
+    const source = { entityType: 'component' as const, id: 'x', properties: { id: 'x' } };
+    const target = { entityType: 'component' as const, id: 'y', properties: { id: 'y' } };
+    const plan = planEntityMerge(source, target, [
+      { type: 'IMPLEMENTS', fromType: 'component', fromId: 'x', toType: 'file', toId: 'x' },
+    ]);
+
+    expect(plan.relationships).toEqual([
+      { type: 'IMPLEMENTS', fromType: 'component', fromId: 'y', toType: 'file', toId: 'x' },
+    ]);
+  });
+
+  it('should reject merges across types or into the same entity', () => {
+    const component = { entityType: 'component' as const, id: 'tag-db', properties: {} };
+
+    expect(() => planEntityMerge(component, tag('tag-db'), [])).toThrow(
+      'Cannot merge component tag-db into tag tag-db',
+    );
+    expect(() => planEntityMerge(tag('tag-db'), tag('tag-db'), [])).toThrow('into itself');
+  });
+});
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createMemoryExport,
+  MEMORY_EXPORT_FORMAT,
+  MEMORY_EXPORT_VERSION,
+  parseMemoryExport,
+  planMemoryImport,
+  serializeMemoryExport,
+  writeMemoryExport,
+} from '../../utils/memory-export.utils';
+
+describe('memory export', () => {
+  const memoryExport = createMemoryExport(
+    'repo',
+    'main',
+    { id: 'repo-main-metadata', architecture: 'modular' },
+    [
+      {
+        entityType: 'component',
+        id: 'comp-A',
+        name: 'A',
+        properties: {
+          id: 'comp-A',
+          name: 'A',
+          graph_unique_id: 'repo:main:comp-A',
+          repository: 'repo',
+          branch: 'main',
+          created_at: new Date('2024-01-01T00:00:00Z'),
+        },
+      },
+      { entityType: 'file', id: 'file-1', properties: { id: 'file-1', size: BigInt(42) } },
+    ],
+    [
+      {
+        type: 'IMPLEMENTS',
+        fromType: 'component',
+        fromId: 'comp-A',
+        toType: 'file',
+        toId: 'file-1',
+      },
+    ],
+    new Date('2024-02-01T00:00:00Z'),
+  );
+
+  it('should drop branch-scoped properties and record the format version', () => {
+    expect(memoryExport).toMatchObject({
+      format: MEMORY_EXPORT_FORMAT,
+      version: MEMORY_EXPORT_VERSION,
+      exportedAt: '2024-02-01T00:00:00.000Z',
+      counts: { entities: 2, relationships: 1 },
+    });
+    expect(Object.keys(memoryExport.entities[0].properties)).toEqual(['id', 'name', 'created_at']);
+  });
+
+  it('should serialize JSON as one document with ISO dates and numeric INT64 values', () => {
+    const parsed = JSON.parse(serializeMemoryExport(memoryExport, 'json'));
+
+    expect(parsed.entities[0].properties.created_at).toBe('2024-01-01T00:00:00.000Z');
+    expect(parsed.entities[1].properties.size).toBe(42);
+    expect(parsed.metadata).toEqual({ id: 'repo-main-metadata', architecture: 'modular' });
+  });
+
+  it('should serialize JSONL as header, metadata, entity and relationship records', () => {
+    const records = serializeMemoryExport(memoryExport, 'jsonl')
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(records.map((record) => record.record)).toEqual([
+      'header',
+      'metadata',
+      'entity',
+      'entity',
+      'relationship',
+    ]);
+    expect(records[0]).toEqual({
+      record: 'header',
+      format: MEMORY_EXPORT_FORMAT,
+      version: MEMORY_EXPORT_VERSION,
+      exportedAt: '2024-02-01T00:00:00.000Z',
+      repository: 'repo',
+      branch: 'main',
+      counts: { entities: 2, relationships: 1 },
+    });
+    expect(records[4]).toMatchObject({ type: 'IMPLEMENTS', fromId: 'comp-A', toId: 'file-1' });
+  });
+
+  it('should write both formats to files, creating missing directories', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-export-'));
+    try {
+      for (const format of ['json', 'jsonl'] as const) {
+        const filePath = path.join(dir, 'nested', `export.${format}`);
+        await writeMemoryExport(memoryExport, format, filePath);
+        expect(fs.readFileSync(filePath, 'utf-8')).toBe(
+          serializeMemoryExport(memoryExport, format),
+        );
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('memory import', () => {
+  const memoryExport = createMemoryExport(
+    'repo',
+    'main',
+    null,
+    [
+      { entityType: 'component', id: 'comp-A', properties: { id: 'comp-A' } },
+      { entityType: 'component', id: 'comp-B', properties: { id: 'comp-B' } },
+    ],
+    [
+      {
+        type: 'DEPENDS_ON',
+        fromType: 'component',
+        fromId: 'comp-A',
+        toType: 'component',
+        toId: 'comp-B',
+      },
+    ],
+  );
+
+  it('should parse JSON and JSONL exports to the same document', () => {
+    expect(parseMemoryExport(serializeMemoryExport(memoryExport, 'json'))).toEqual(memoryExport);
+    expect(parseMemoryExport(serializeMemoryExport(memoryExport, 'jsonl'))).toEqual(memoryExport);
+  });
+
+  it('should reject foreign, newer and malformed exports', () => {
+    expect(() => parseMemoryExport('{"entities": []}')).toThrow('Not a memory bank export');
+    expect(() =>
+      parseMemoryExport(JSON.stringify({ ...memoryExport, version: MEMORY_EXPORT_VERSION + 1 })),
+    ).toThrow(`Export version ${MEMORY_EXPORT_VERSION + 1} is newer`);
+    expect(() =>
+      parseMemoryExport(
+        JSON.stringify({ ...memoryExport, entities: [{ entityType: 'widget', id: 'w' }] }),
+      ),
+    ).toThrow('Invalid memory bank export at entities.0.entityType');
+    expect(() => parseMemoryExport('{"record":"header"}\nnot json')).toThrow(
+      'line 2 is not valid JSON',
+    );
+  });
+
+  it('should reject property names that are not identifiers', () => {
+    const injected = {
+      ...memoryExport,
+      entities: [
+        {
+          entityType: 'component',
+          id: 'comp-A',
+          properties: {
+            id: 'comp-A',
+            "status = 'x' WITH n MATCH (c:Component) DETACH DELETE c WITH n SET n.kind": 'x',
+          },
+        },
+      ],
+    };
+
+    expect(() => parseMemoryExport(JSON.stringify(injected))).toThrow(
+      'Property names must be identifiers',
+    );
+  });
+
+  it('should skip, overwrite or rename entities that already exist', () => {
+    const existing = new Set(['component:comp-B', 'component:comp-B-imported']);
+
+    expect(planMemoryImport(memoryExport, existing, 'skip').outcomes).toEqual([
+      { entityType: 'component', id: 'comp-A', outcome: 'created' },
+      { entityType: 'component', id: 'comp-B', outcome: 'skipped' },
+    ]);
+    expect(planMemoryImport(memoryExport, existing, 'overwrite').entities.map((e) => e.id)).toEqual(
+      ['comp-A', 'comp-B'],
+    );
+
+    const renamed = planMemoryImport(memoryExport, existing, 'rename');
+    expect(renamed.outcomes[1]).toEqual({
+      entityType: 'component',
+      id: 'comp-B',
+      outcome: 'renamed',
+      newId: 'comp-B-imported-2',
+    });
+    expect(renamed.entities[1].properties.id).toBe('comp-B-imported-2');
+    expect(renamed.relationships[0]).toMatchObject({ fromId: 'comp-A', toId: 'comp-B-imported-2' });
+  });
+
+  it('should link files and tags of other branches instead of overwriting them', () => {
+    const withFile = createMemoryExport(
+      'repo',
+      'main',
+      null,
+      [{ entityType: 'file', id: 'file-1', properties: { id: 'file-1' } }],
+      [],
+    );
+    const shared = new Set(['file:file-1']);
+
+    for (const policy of ['skip', 'overwrite'] as const) {
+      const plan = planMemoryImport(withFile, shared, policy, shared);
+      expect(plan.entities).toEqual([]);
+      expect(plan.outcomes).toEqual([{ entityType: 'file', id: 'file-1', outcome: 'linked' }]);
+    }
+    expect(planMemoryImport(withFile, shared, 'rename', shared).outcomes[0]).toMatchObject({
+      outcome: 'renamed',
+      newId: 'file-1-imported',
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  renderDependencyDiagram,
+  renderMemoryMarkdown,
+  writeMarkdownFiles,
+  type MemoryMarkdownSource,
+} from '../../utils/memory-markdown.utils';
+
+describe('memory markdown', () => {
+  const source: MemoryMarkdownSource = {
+    repository: 'repo',
+    branch: 'main',
+    components: [
+      {
+        id: 'comp-A',
+        properties: { id: 'comp-A', name: 'Auth', kind: 'service', status: 'active' },
+        related: [
+          { id: 'comp-B', name: 'API', type: 'Component' },
+          { id: 'rule-1', name: 'Validate', type: 'Rule' },
+          { id: 'ctx-1', name: '', type: 'Context' },
+        ],
+      },
+      {
+        id: 'comp/B',
+        properties: { id: 'comp/B', name: 'API "gateway"', description: 'Routes\nrequests' },
+        related: [],
+      },
+    ],
+    decisions: [
+      {
+        id: 'dec-1',
+        properties: {
+          id: 'dec-1',
+          title: 'Use JWT',
+          status: 'accepted',
+          dateCreated: new Date('2024-02-01T00:00:00Z'),
+          rationale: 'Stateless sessions',
+        },
+        related: [],
+      },
+    ],
+    rules: [
+      {
+        id: 'rule-1',
+        properties: { id: 'rule-1', title: 'Validate', description: 'Validate input' },
+        related: [{ id: 'comp-A', name: 'Auth', type: 'Component' }],
+      },
+    ],
+    contexts: [
+      {
+        id: 'ctx-1',
+        properties: {
+          id: 'ctx-1',
+          agent: 'bot',
+          summary: 'Reviewed [auth]',
+          observation: 'Looks fine',
+          timestamp: '2024-05-01T09:00:00Z',
+        },
+        related: [{ id: 'comp-A', name: 'Auth', type: 'Component' }],
+      },
+      {
+        id: 'ctx-2',
+        properties: { id: 'ctx-2', summary: 'Later', created_at: new Date('2024-05-03') },
+        related: [],
+      },
+      {
+        id: 'ctx-0',
+        properties: { id: 'ctx-0', summary: 'Same day', timestamp: '2024-05-01T08:00:00Z' },
+        related: [],
+      },
+    ],
+    dependencies: [{ fromId: 'comp/B', toId: 'comp-A' }],
+  };
+  const files = renderMemoryMarkdown(source, new Date('2024-06-01T00:00:00Z'));
+  const file = (filePath: string) => files.find((f) => f.path === filePath)?.content ?? '';
+
+  it('should render an index, one page per item, a journal and a dependency diagram', () => {
+    expect(files.map((f) => f.path)).toEqual([
+      'index.md',
+      'components/comp-A.md',
+      'components/comp_B.md',
+      'decisions/dec-1.md',
+      'rules/rule-1.md',
+      'journal.md',
+      'dependencies.md',
+    ]);
+    expect(file('index.md')).toContain('# Memory bank: repo (main)');
+    expect(file('index.md')).toContain('- [Auth](components/comp-A.md) — service, active');
+    expect(file('index.md')).toContain('- [Use JWT](decisions/dec-1.md) — accepted, 2024-02-01');
+  });
+
+  it('should link dependencies, dependents and related items between pages', () => {
+    const auth = file('components/comp-A.md');
+    expect(auth).toContain('## Depended on by\n\n- [API "gateway"](comp_B.md)');
+    expect(auth).toContain('## Depends on\n\nNone');
+    expect(auth).toContain('- Rule: [Validate](../rules/rule-1.md)');
+    expect(auth).toContain('- Context: [Reviewed \\[auth\\]](../journal.md)');
+    // Component neighbours are listed as dependencies instead
+    expect(auth).not.toContain('- Component:');
+    expect(file('components/comp_B.md')).toContain('## Description\n\nRoutes\nrequests');
+    expect(file('decisions/dec-1.md')).toContain('## Rationale\n\nStateless sessions');
+    expect(file('rules/rule-1.md')).toContain('- Component: [Auth](../components/comp-A.md)');
+  });
+
+  it('should group contexts by day, newest day first', () => {
+    const journal = file('journal.md');
+    expect(journal.indexOf('## 2024-05-03')).toBeLessThan(journal.indexOf('## 2024-05-01'));
+    expect(journal.indexOf('### Same day')).toBeLessThan(journal.indexOf('### Reviewed'));
+    expect(journal).toContain('- **Related:** [Auth](components/comp-A.md)');
+    expect(journal).toContain('Looks fine');
+  });
+
+  it('should draw DEPENDS_ON edges as mermaid flowcharts', () => {
+    expect(
+      renderDependencyDiagram(source.dependencies, new Map([['comp/B', 'API "gateway"']])),
+    ).toBe(
+      [
+        '```mermaid',
+        'graph LR',
+        '  n0["API #quot;gateway#quot;"]',
+        '  n1["comp-A"]',
+        '  n0 --> n1',
+        '```',
+      ].join('\n'),
+    );
+    expect(file('dependencies.md')).toContain('n0 --> n1');
+    expect(file('components/comp-A.md')).toContain('## Dependency diagram');
+  });
+
+  it('should give ids that map to the same file name distinct pages', () => {
+    const [first, second] = renderMemoryMarkdown({
+      ...source,
+      components: [
+        { id: 'a/b', properties: {}, related: [] },
+        { id: 'a:b', properties: {}, related: [] },
+      ],
+    }).slice(1, 3);
+    expect([first.path, second.path]).toEqual(['components/a_b.md', 'components/a_b-2.md']);
+  });
+
+  it('should write the files below the output directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-markdown-'));
+    try {
+      await writeMarkdownFiles(dir, files);
+      expect(fs.readFileSync(path.join(dir, 'components', 'comp-A.md'), 'utf-8')).toBe(
+        file('components/comp-A.md'),
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
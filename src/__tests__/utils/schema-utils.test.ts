@@ -230,4 +230,29 @@ describe('createZodRawShape', () => {
     const countResult = shape.count.safeParse(validData.count);
     expect(countResult.success).toBe(true);
   });
+
+  it('should make nested properties optional when the object lists its required ones', () => {
+    const tool = {
+      parameters: {
+        properties: {
+          files: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                size: { type: 'number' },
+              },
+              required: ['id'],
+            },
+          },
+        },
+      },
+    };
+
+    const shape = createZodRawShape(tool);
+
+    expect(shape.files.safeParse([{ id: 'file-1' }]).success).toBe(true);
+    expect(shape.files.safeParse([{ size: 10 }]).success).toBe(false);
+  });
 });
@@ -0,0 +1,45 @@
+import { DEFAULT_RRF_K, fuseRankings } from '../../utils/search-fusion.utils';
+
+describe('fuseRankings', () => {
+  const fts = [
+    { key: 'component:a', score: 8 },
+    { key: 'component:b', score: 4 },
+  ];
+  const vector = [
+    { key: 'decision:c', score: 0.9 },
+    { key: 'component:a', score: 0.5 },
+  ];
+
+  it('should sum reciprocal ranks across both lists', () => {
+    const fused = fuseRankings(fts, vector, { strategy: 'rrf' });
+
+    expect(fused.map((item) => item.key)).toEqual(['component:a', 'decision:c', 'component:b']);
+    expect(fused[0]).toEqual({
+      key: 'component:a',
+      ftsScore: 8,
+      vectorScore: 0.5,
+      fusedScore: 1 / (DEFAULT_RRF_K + 1) + 1 / (DEFAULT_RRF_K + 2),
+    });
+    expect(fused[1].ftsScore).toBeUndefined();
+  });
+
+  it('should honour a custom rank constant', () => {
+    const fused = fuseRankings(fts, [], { strategy: 'rrf', rrfK: 0 });
+    expect(fused.map((item) => item.fusedScore)).toEqual([1, 0.5]);
+  });
+
+  it('should blend max-normalized full-text scores with vector scores', () => {
+    const fused = fuseRankings(fts, vector, { strategy: 'weighted', semanticWeight: 0.25 });
+    const byKey = Object.fromEntries(fused.map((item) => [item.key, item.fusedScore]));
+
+    expect(byKey['component:a']).toBeCloseTo(0.75 * 1 + 0.25 * 0.5);
+    expect(byKey['component:b']).toBeCloseTo(0.75 * 0.5);
+    expect(byKey['decision:c']).toBeCloseTo(0.25 * 0.9);
+  });
+
+  it('should ignore negative similarities and empty inputs', () => {
+    expect(fuseRankings([], [], { strategy: 'weighted' })).toEqual([]);
+    const [item] = fuseRankings([], [{ key: 'rule:r', score: -0.4 }], { strategy: 'weighted' });
+    expect(item.fusedScore).toBe(0);
+  });
+});
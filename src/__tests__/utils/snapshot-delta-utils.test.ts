@@ -0,0 +1,95 @@
+import {
+  applySnapshotDelta,
+  diffSnapshotStates,
+  replaySnapshotChain,
+  snapshotEntityKey,
+  snapshotRelationshipKey,
+  type SnapshotState,
+} from '../../utils/snapshot-delta.utils';
+
+const component = (id: string, name: string) => ({
+  properties: { id, name, graph_unique_id: `repo:main:${id}` },
+  nodeLabels: ['Component'],
+});
+
+const dependsOn = (fromId: string, toId: string) => ({
+  fromId,
+  toId,
+  relationshipType: 'DEPENDS_ON',
+  fromLabel: 'Component',
+  toLabel: 'Component',
+  fromUniqueId: `repo:main:${fromId}`,
+  toUniqueId: `repo:main:${toId}`,
+  properties: {},
+});
+
+describe('snapshot deltas', () => {
+  const base: SnapshotState = {
+    entities: [component('comp-a', 'A'), component('comp-b', 'B')],
+    relationships: [dependsOn('comp-a', 'comp-b')],
+    metadata: { name: 'repo', branch: 'main' },
+  };
+
+  it('should key entities by label and unique id and relationships by both ends', () => {
+    expect(snapshotEntityKey(component('comp-a', 'A'))).toBe('Component:repo:main:comp-a');
+    expect(snapshotEntityKey({ properties: { id: 'src/a.ts' }, nodeLabels: 'File' })).toBe(
+      'File:src/a.ts',
+    );
+    expect(snapshotRelationshipKey(dependsOn('comp-a', 'comp-b'))).toBe(
+      'DEPENDS_ON:Component:repo:main:comp-a->Component:repo:main:comp-b',
+    );
+  });
+
+  it('should record changed, added and removed records only', () => {
+    const current: SnapshotState = {
+      entities: [component('comp-a', 'A2'), component('comp-c', 'C')],
+      relationships: [dependsOn('comp-a', 'comp-c')],
+      metadata: { branch: 'main', name: 'repo' },
+    };
+
+    const delta = diffSnapshotStates(base, current);
+
+    expect(delta).toEqual({
+      entities: [component('comp-a', 'A2'), component('comp-c', 'C')],
+      removedEntities: ['Component:repo:main:comp-b'],
+      relationships: [dependsOn('comp-a', 'comp-c')],
+      removedRelationships: ['DEPENDS_ON:Component:repo:main:comp-a->Component:repo:main:comp-b'],
+    });
+    expect('metadata' in delta).toBe(false);
+    expect(applySnapshotDelta(base, delta)).toEqual(current);
+  });
+
+  it('should keep metadata unless a delta changes it', () => {
+    const renamed = diffSnapshotStates(base, { ...base, metadata: { name: 'renamed' } });
+
+    expect(renamed).toEqual({
+      entities: [],
+      removedEntities: [],
+      relationships: [],
+      removedRelationships: [],
+      metadata: { name: 'renamed' },
+    });
+    expect(applySnapshotDelta(base, renamed).metadata).toEqual({ name: 'renamed' });
+    expect(applySnapshotDelta(base, diffSnapshotStates(base, base)).metadata).toBe(base.metadata);
+  });
+
+  it('should replay a chain of deltas in order', () => {
+    const second: SnapshotState = {
+      ...base,
+      entities: [...base.entities, component('comp-c', 'C')],
+    };
+    const third: SnapshotState = {
+      ...second,
+      entities: second.entities.filter((entity) => entity.properties.id !== 'comp-a'),
+      relationships: [],
+    };
+
+    const replayed = replaySnapshotChain(base, [
+      diffSnapshotStates(base, second),
+      diffSnapshotStates(second, third),
+    ]);
+
+    expect(replayed).toEqual(third);
+    expect(replaySnapshotChain(base, [])).toBe(base);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  isScheduledSnapshotDue,
+  planSnapshotRetention,
+  type SnapshotPolicy,
+} from '../../utils/snapshot-retention.utils';
+
+// A Wednesday
+const now = new Date('2026-03-18T12:00:00.000Z');
+
+const snapshot = (id: string, created: string) => ({ id, created });
+
+const policy = (overrides: Partial<SnapshotPolicy>): SnapshotPolicy => ({
+  repository: 'repo',
+  branch: 'main',
+  schedule: 'none',
+  beforeBulkDelete: false,
+  beforeBulkImport: false,
+  retention: {},
+  updated: now.toISOString(),
+  ...overrides,
+});
+
+describe('snapshot retention', () => {
+  const snapshots = [
+    snapshot('wed-late', '2026-03-18T11:00:00.000Z'),
+    snapshot('wed-early', '2026-03-18T01:00:00.000Z'),
+    snapshot('tue', '2026-03-17T09:00:00.000Z'),
+    snapshot('mon', '2026-03-16T09:00:00.000Z'),
+    snapshot('last-sun', '2026-03-15T09:00:00.000Z'),
+    snapshot('last-mon', '2026-03-09T09:00:00.000Z'),
+    snapshot('old', '2026-02-01T09:00:00.000Z'),
+  ];
+
+  it('should keep every snapshot without retention rules', () => {
+    expect(planSnapshotRetention(snapshots, {}, now)).toEqual({
+      keep: snapshots.map(({ id }) => id),
+      prune: [],
+    });
+  });
+
+  it('should keep the newest snapshots', () => {
+    const plan = planSnapshotRetention([...snapshots].reverse(), { keepLast: 2 }, now);
+
+    expect(plan.keep).toEqual(['wed-late', 'wed-early']);
+    expect(plan.prune).toEqual(['tue', 'mon', 'last-sun', 'last-mon', 'old']);
+  });
+
+  it('should keep the newest snapshot of each recent day', () => {
+    const plan = planSnapshotRetention(snapshots, { keepDaily: 3 }, now);
+
+    expect(plan.keep).toEqual(['wed-late', 'tue', 'mon']);
+  });
+
+  it('should keep the newest snapshot of each recent week starting on Monday', () => {
+    const plan = planSnapshotRetention(snapshots, { keepWeekly: 2 }, now);
+
+    expect(plan.keep).toEqual(['wed-late', 'last-sun']);
+  });
+
+  it('should keep snapshots matched by any rule and those without a readable date', () => {
+    const plan = planSnapshotRetention(
+      [...snapshots, snapshot('unknown', 'not a date')],
+      { keepLast: 1, keepWeekly: 3 },
+      now,
+    );
+
+    expect(plan.keep.sort()).toEqual(['last-sun', 'unknown', 'wed-late']);
+    expect(plan.prune).toEqual(['wed-early', 'tue', 'mon', 'last-mon', 'old']);
+  });
+
+  it('should take a scheduled snapshot once its interval has passed', () => {
+    expect(isScheduledSnapshotDue(policy({ schedule: 'none' }), now)).toBe(false);
+    expect(isScheduledSnapshotDue(policy({ schedule: 'daily' }), now)).toBe(true);
+    expect(
+      isScheduledSnapshotDue(
+        policy({ schedule: 'daily', lastScheduledAt: '2026-03-17T13:00:00.000Z' }),
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      isScheduledSnapshotDue(
+        policy({ schedule: 'hourly', lastScheduledAt: '2026-03-18T11:00:00.000Z' }),
+        now,
+      ),
+    ).toBe(true);
+  });
+});
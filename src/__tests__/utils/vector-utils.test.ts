@@ -0,0 +1,94 @@
+import {
+  HashedNgramEmbeddingProvider,
+  tokenize,
+} from '../../services/embedding/hashed-ngram-embedding.provider';
+import {
+  createEmbeddingProvider,
+  registerEmbeddingProvider,
+} from '../../services/embedding/embedding-provider.registry';
+import { cosineSimilarity, fnv1aHash, l2Normalize } from '../../utils/vector.utils';
+
+describe('vector utils', () => {
+  describe('cosineSimilarity', () => {
+    it('should return 1 for identical directions and -1 for opposite ones', () => {
+      expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    });
+
+    it('should return 0 for orthogonal, empty, zero or mismatched vectors', () => {
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+      expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    });
+  });
+
+  describe('l2Normalize', () => {
+    it('should scale vectors to unit length and leave zero vectors alone', () => {
+      const normalized = l2Normalize([3, 4]);
+      expect(normalized[0]).toBeCloseTo(0.6);
+      expect(normalized[1]).toBeCloseTo(0.8);
+      expect(l2Normalize([0, 0])).toEqual([0, 0]);
+    });
+  });
+
+  describe('fnv1aHash', () => {
+    it('should be deterministic and unsigned', () => {
+      expect(fnv1aHash('component')).toBe(fnv1aHash('component'));
+      expect(fnv1aHash('component')).not.toBe(fnv1aHash('decision'));
+      expect(fnv1aHash('')).toBe(0x811c9dc5);
+      expect(fnv1aHash('x')).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
+
+describe('HashedNgramEmbeddingProvider', () => {
+  const provider = new HashedNgramEmbeddingProvider(256);
+
+  it('should tokenize camelCase, snake_case and punctuation', () => {
+    expect(tokenize('AuthService uses jwt_tokens, v2!')).toEqual([
+      'auth',
+      'service',
+      'uses',
+      'jwt',
+      'tokens',
+      'v2',
+    ]);
+  });
+
+  it('should produce deterministic unit vectors of the configured size', async () => {
+    const [a, b] = await provider.embed(['Authentication service', 'Authentication service']);
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+  });
+
+  it('should score related texts above unrelated ones', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'user authentication',
+      'Authenticate users with OAuth tokens',
+      'Render charts in the dashboard',
+    ]);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should return a zero vector for empty text', async () => {
+    const [empty] = await provider.embed(['']);
+    expect(empty.every((value) => value === 0)).toBe(true);
+  });
+
+  it('should reject invalid dimensions', () => {
+    expect(() => new HashedNgramEmbeddingProvider(4)).toThrow('at least 16');
+  });
+
+  it('should resolve providers through the registry', () => {
+    expect(createEmbeddingProvider('hashed-ngram', 64).dimensions).toBe(64);
+    registerEmbeddingProvider('constant', () => ({
+      name: 'constant',
+      dimensions: 2,
+      embed: async (texts: string[]) => texts.map(() => [1, 0]),
+    }));
+    expect(createEmbeddingProvider('constant').name).toBe('constant');
+    expect(() => createEmbeddingProvider('missing')).toThrow('Unknown embedding provider');
+  });
+});
@@ -1,17 +1,23 @@
-// External dependencies
-import { anthropic } from '@ai-sdk/anthropic';
-import { openai } from '@ai-sdk/openai';
-
 // Internal services and utilities
 import { MemoryService } from '../../../services/memory.service';
 import { logger } from '../../../utils/logger';
+import { getLLMProvider } from '../llm-providers';
 
 // Type imports
-import type { OptimizationStrategy } from '../prompt-manager';
+import type { LanguageModel } from 'ai';
+import type { AgentRole, OptimizationStrategy } from '../prompt-manager';
 
 export interface MemoryOptimizationConfig {
-  llmProvider: 'openai' | 'anthropic';
+  /**
+   * Name of a registered LLM provider, see llm-providers.ts. 'heuristic' analyzes and
+   * plans with deterministic rules instead of an LLM
+   */
+  llmProvider: string;
   model?: string;
+  /** Models per prompt role, taking precedence over model */
+  models?: Partial<Record<AgentRole, string>>;
+  /** Recorded responses for the replay provider */
+  replayFile?: string;
   promptVersion?: string;
   defaultStrategy?: OptimizationStrategy;
   enableMCPSampling?: boolean;
@@ -24,9 +30,9 @@ export interface MemoryOptimizationConfig {
  * Provides common configuration, logging, and utility methods
  */
 export abstract class BaseMemoryAgent {
-  protected llmClient: any;
   protected agentLogger = logger.child({ component: 'MemoryOptimizationAgent' });
   protected config: MemoryOptimizationConfig;
+  private languageModels = new Map<AgentRole, LanguageModel>();
 
   constructor(
     protected memoryService: MemoryService,
@@ -41,12 +47,13 @@ export abstract class BaseMemoryAgent {
     };
     this.config = { ...defaults, ...config };
 
-    // Initialize LLM client based on provider
-    this.llmClient = this.initializeLLMClient();
+    // Fail early on unknown providers; models are created on first use
+    getLLMProvider(this.config.llmProvider);
 
     this.agentLogger.info('Memory Optimization Agent initialized', {
       provider: this.config.llmProvider,
       model: this.config.model,
+      models: this.config.models,
       mcpSampling: this.config.enableMCPSampling,
       samplingStrategy: this.config.samplingStrategy,
       snapshotFailurePolicy: this.config.snapshotFailurePolicy,
@@ -54,44 +61,26 @@ export abstract class BaseMemoryAgent {
   }
 
   /**
-   * Initialize LLM client based on configuration
+   * Get the language model for a prompt role from the configured provider
    */
-  private initializeLLMClient(): any {
-    // Always use real LLM clients since API keys are available in e2e environment
-    switch (this.config.llmProvider) {
-      case 'openai':
-        // Use GPT-4 models that support structured outputs (JSON schema)
-        // o1 models don't support structured outputs, so we use gpt-4o instead
-        return openai(this.config.model || 'gpt-4o');
-      case 'anthropic':
-        // Use latest Claude models with extended thinking
-        return anthropic(this.config.model || 'claude-sonnet-4-20250514');
-      default:
-        throw new Error(`Unsupported LLM provider: ${this.config.llmProvider}`);
+  protected getLanguageModel(role: AgentRole): LanguageModel {
+    let model = this.languageModels.get(role);
+    if (!model) {
+      model = getLLMProvider(this.config.llmProvider).createModel({
+        role,
+        modelId: this.config.models?.[role] || this.config.model,
+        replayFile: this.config.replayFile,
+      });
+      this.languageModels.set(role, model);
     }
+    return model;
   }
 
   /**
    * Get reasoning configuration based on provider
    */
   protected getReasoningConfig(): any {
-    switch (this.config.llmProvider) {
-      case 'openai':
-        // GPT-4o models don't support reasoning parameter, use standard configuration
-        return {
-          // No special reasoning config for GPT-4o
-        };
-      case 'anthropic':
-        // Claude models with extended thinking (2048 token budget)
-        return {
-          thinking: {
-            enabled: true,
-            maxTokens: 2048, // 2048 token thinking budget
-          },
-        };
-      default:
-        return {};
-    }
+    return getLLMProvider(this.config.llmProvider).reasoningConfig ?? {};
   }
 
   /**
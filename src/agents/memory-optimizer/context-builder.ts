@@ -4,6 +4,21 @@ import type { MemoryContext } from '../../schemas/optimization/types';
 import { MemoryService } from '../../services/memory.service';
 import { logger } from '../../utils/logger';
 
+/**
+ * Days between a timestamp (Date or ISO string) and now, or undefined when the
+ * timestamp is missing or invalid
+ */
+export function entityAgeInDays(timestamp: unknown, now: Date = new Date()): number | undefined {
+  if (!timestamp) {
+    return undefined;
+  }
+  const time = new Date(timestamp as string | Date).getTime();
+  if (isNaN(time)) {
+    return undefined;
+  }
+  return Math.max(0, (now.getTime() - time) / (1000 * 60 * 60 * 24));
+}
+
 /**
  * Builds comprehensive memory context for optimization analysis
  * Leverages existing KuzuMem-MCP infrastructure for data gathering
@@ -147,49 +162,36 @@ export class MemoryContextBuilder {
   /**
    * Calculate average entity age in days
    */
-  private async calculateAverageEntityAge(
+  async calculateAverageEntityAge(
     kuzuClient: KuzuDBClient,
     repository: string,
     branch: string,
+    now: Date = new Date(),
   ): Promise<number | undefined> {
     try {
-      // KuzuDB compatible query - get creation timestamps of all entities
+      // Scoped nodes carry repository and branch in graph_unique_id, files in properties
       const query = `
         MATCH (n)
-        WHERE n.repository = $repository AND n.branch = $branch
-          AND n.created_at IS NOT NULL AND n.created_at <> ''
-          AND n.created_at CONTAINS 'T'
+        WHERE (n.graph_unique_id STARTS WITH $prefix
+            OR (n.repository = $repository AND n.branch = $branch))
+          AND n.created_at IS NOT NULL
         RETURN n.created_at AS createdAt
       `;
 
-      const result = await kuzuClient.executeQuery(query, { repository, branch });
-
-      if (!result || result.length === 0) {
-        return undefined;
-      }
-
-      // Calculate age in days for each entity and compute average
-      const currentTime = new Date().getTime();
-      let totalAgeInDays = 0;
-      let validEntityCount = 0;
+      const result = await kuzuClient.executeQuery(query, {
+        prefix: `${repository}:${branch}:`,
+        repository,
+        branch,
+      });
 
-      for (const row of result) {
-        try {
-          const createdAt = new Date(row.createdAt);
-          if (!isNaN(createdAt.getTime())) {
-            const ageInMs = currentTime - createdAt.getTime();
-            const ageInDays = ageInMs / (1000 * 60 * 60 * 24); // Convert ms to days
-            totalAgeInDays += ageInDays;
-            validEntityCount++;
-          }
-        } catch (parseError) {
-          // Skip entities with invalid timestamps
-          continue;
-        }
-      }
+      const ages = (result || [])
+        .map((row: any) => entityAgeInDays(row.createdAt, now))
+        .filter((age: number | undefined): age is number => age !== undefined);
 
       // Return average age in days, or undefined if no valid entities found
-      return validEntityCount > 0 ? totalAgeInDays / validEntityCount : undefined;
+      return ages.length > 0
+        ? ages.reduce((sum: number, age: number) => sum + age, 0) / ages.length
+        : undefined;
     } catch (error) {
       logger.warn('Failed to calculate average entity age:', error);
       return undefined;
@@ -0,0 +1,535 @@
+import { createHash } from 'crypto';
+import type {
+  AnalysisResult,
+  EntityType,
+  OptimizationAction,
+  OptimizationOpportunity,
+  OptimizationPlan,
+  RedundancyGroup,
+  StaleEntity,
+} from '../../schemas/optimization/types';
+import { entityKey, type BranchEntity, type BranchState } from '../../utils/branch-diff.utils';
+import { entityAgeInDays } from './context-builder';
+import type { OptimizationStrategy } from './prompt-manager';
+
+/**
+ * Limits of the rule-based optimizer per strategy. maxActions and preserveRecentDays
+ * match the v1.0 prompt strategies used by the LLM optimizer.
+ */
+export interface HeuristicStrategy {
+  /** Maximum number of plan actions */
+  maxActions: number;
+  /** Entities changed more recently than this are never stale */
+  preserveRecentDays: number;
+  /** Minimum staleness for a delete action */
+  deleteThreshold: number;
+  /** Minimum name similarity for a merge action */
+  mergeSimilarity: number;
+}
+
+export const HEURISTIC_STRATEGIES: Record<OptimizationStrategy, HeuristicStrategy> = {
+  conservative: { maxActions: 5, preserveRecentDays: 60, deleteThreshold: 0.9, mergeSimilarity: 1 },
+  balanced: { maxActions: 20, preserveRecentDays: 30, deleteThreshold: 0.5, mergeSimilarity: 0.9 },
+  aggressive: {
+    maxActions: 50,
+    preserveRecentDays: 14,
+    deleteThreshold: 0.3,
+    mergeSimilarity: 0.85,
+  },
+};
+
+/** Names at least this similar are reported as near-duplicates */
+export const NEAR_DUPLICATE_SIMILARITY = 0.85;
+
+export interface HeuristicOptions {
+  strategy: OptimizationStrategy;
+  /** Days without changes after which an orphaned entity is stale */
+  staleDays: number;
+  /** Average entity age of the branch in days, see MemoryContextBuilder */
+  averageEntityAge?: number;
+  now: Date;
+}
+
+/** Journal entries are history, not duplicates of each other */
+const REDUNDANCY_TYPES: ReadonlySet<string> = new Set([
+  'component',
+  'decision',
+  'rule',
+  'file',
+  'tag',
+]);
+
+interface EntityFacts {
+  entity: BranchEntity;
+  name: string;
+  deprecated: boolean;
+  /** Days since the last update, or creation when never updated */
+  age?: number;
+  lastChanged?: string;
+  dependents: string[];
+  dependsOn: string[];
+}
+
+function displayName(entity: BranchEntity): string {
+  const { properties } = entity;
+  const name = entity.name ?? properties.title ?? properties.summary ?? properties.path;
+  return name ? String(name) : entity.id;
+}
+
+function toIsoString(value: unknown): string | undefined {
+  const time = value ? new Date(value as string | Date).getTime() : NaN;
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function collectFacts(state: BranchState, now: Date): Map<string, EntityFacts> {
+  const facts = new Map<string, EntityFacts>();
+  for (const entity of state.entities) {
+    const { properties } = entity;
+    const lastChanged = properties.updated_at ?? properties.created_at ?? properties.timestamp;
+    facts.set(entityKey(entity), {
+      entity,
+      name: displayName(entity),
+      deprecated: properties.status === 'deprecated',
+      age: entityAgeInDays(lastChanged, now),
+      lastChanged: toIsoString(lastChanged),
+      dependents: [],
+      dependsOn: [],
+    });
+  }
+  for (const relationship of state.relationships) {
+    const from = facts.get(
+      entityKey({ entityType: relationship.fromType, id: relationship.fromId }),
+    );
+    const to = facts.get(entityKey({ entityType: relationship.toType, id: relationship.toId }));
+    if (from && to && from !== to) {
+      from.dependsOn.push(relationship.toId);
+      to.dependents.push(relationship.fromId);
+    }
+  }
+  for (const fact of facts.values()) {
+    fact.dependents = [...new Set(fact.dependents)].sort();
+    fact.dependsOn = [...new Set(fact.dependsOn)].sort();
+  }
+  return facts;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Deprecated entities, and orphaned entities unchanged for staleDays, that were not
+ * changed within the strategy's preserveRecentDays
+ */
+function findStaleEntities(
+  facts: Map<string, EntityFacts>,
+  options: HeuristicOptions,
+): StaleEntity[] {
+  const { preserveRecentDays } = HEURISTIC_STRATEGIES[options.strategy];
+  const stale: StaleEntity[] = [];
+
+  for (const fact of facts.values()) {
+    const orphaned = fact.dependents.length === 0 && fact.dependsOn.length === 0;
+    if (fact.age === undefined || fact.age < preserveRecentDays) {
+      continue;
+    }
+    if (!fact.deprecated && !(orphaned && fact.age >= options.staleDays)) {
+      continue;
+    }
+
+    const ageFactor = Math.min(1, fact.age / options.staleDays);
+    const staleness = round(
+      Math.min(1, (fact.deprecated ? 0.5 : 0) + (orphaned ? 0.3 : 0) + 0.2 * ageFactor),
+    );
+    const reasons = [
+      ...(fact.deprecated ? ['status is deprecated'] : []),
+      ...(orphaned ? ['has no relationships'] : []),
+      `unchanged for ${Math.floor(fact.age)} days`,
+    ];
+
+    stale.push({
+      id: fact.entity.id,
+      type: fact.entity.entityType as EntityType,
+      name: fact.name,
+      staleness,
+      reason: `${reasons.join(', ')}${fact.dependents.length > 0 ? `; still used by ${fact.dependents.join(', ')}` : ''}`,
+      safeToDelete: fact.dependents.length === 0,
+      lastAccessed: fact.lastChanged,
+      dependencies: fact.dependents,
+      dependsOn: fact.dependsOn,
+    });
+  }
+
+  return stale.sort((a, b) => b.staleness - a.staleness || a.id.localeCompare(b.id));
+}
+
+/**
+ * Lower-case a name and reduce it to letters and digits separated by single spaces
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Similarity of two strings from 0 to 1, based on their Levenshtein distance
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
+
+/**
+ * The entity to keep of a redundancy group: the most connected, then not deprecated,
+ * then the oldest, then the lowest ID
+ */
+function pickPrimary(members: EntityFacts[]): EntityFacts {
+  const degree = (fact: EntityFacts) => fact.dependents.length + fact.dependsOn.length;
+  return [...members].sort(
+    (a, b) =>
+      degree(b) - degree(a) ||
+      Number(a.deprecated) - Number(b.deprecated) ||
+      (b.age ?? 0) - (a.age ?? 0) ||
+      a.entity.id.localeCompare(b.entity.id),
+  )[0];
+}
+
+/**
+ * Group entities of the same type whose normalized names (paths for files) are equal
+ * or at least NEAR_DUPLICATE_SIMILARITY similar
+ */
+function findRedundancies(facts: Map<string, EntityFacts>): RedundancyGroup[] {
+  const byType = new Map<string, Array<{ fact: EntityFacts; name: string }>>();
+  for (const fact of facts.values()) {
+    if (!REDUNDANCY_TYPES.has(fact.entity.entityType)) {
+      continue;
+    }
+    const source =
+      fact.entity.entityType === 'file' ? String(fact.entity.properties.path ?? '') : fact.name;
+    const name = normalizeName(source);
+    if (name) {
+      const entries = byType.get(fact.entity.entityType) ?? [];
+      entries.push({ fact, name });
+      byType.set(fact.entity.entityType, entries);
+    }
+  }
+
+  const groups: RedundancyGroup[] = [];
+  for (const entries of byType.values()) {
+    entries.sort((a, b) => a.fact.entity.id.localeCompare(b.fact.entity.id));
+
+    // Union-find over similar pairs, tracking the weakest link of each group
+    const parent = entries.map((_, index) => index);
+    const find = (index: number): number =>
+      parent[index] === index ? index : (parent[index] = find(parent[index]));
+    const weakest = new Map<number, number>();
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const a = entries[i].name;
+        const b = entries[j].name;
+        const longest = Math.max(a.length, b.length);
+        if (Math.abs(a.length - b.length) > (1 - NEAR_DUPLICATE_SIMILARITY) * longest) {
+          continue;
+        }
+        const similarity = nameSimilarity(a, b);
+        if (similarity < NEAR_DUPLICATE_SIMILARITY) {
+          continue;
+        }
+        const rootA = find(i);
+        const rootB = find(j);
+        const link = Math.min(
+          similarity,
+          weakest.get(rootA) ?? similarity,
+          weakest.get(rootB) ?? similarity,
+        );
+        parent[rootB] = rootA;
+        weakest.set(rootA, link);
+      }
+    }
+
+    const members = new Map<number, EntityFacts[]>();
+    entries.forEach((entry, index) => {
+      const root = find(index);
+      members.set(root, [...(members.get(root) ?? []), entry.fact]);
+    });
+    for (const [root, group] of members) {
+      if (group.length < 2) {
+        continue;
+      }
+      const similarity = round(weakest.get(root) ?? 1);
+      const primary = pickPrimary(group);
+      const others = group.filter((fact) => fact !== primary).map((fact) => fact.entity.id);
+      groups.push({
+        entities: group.map((fact) => fact.entity.id),
+        similarity,
+        type: similarity === 1 ? 'duplicate' : 'near-duplicate',
+        mergeRecommendation: `Merge ${others.join(', ')} into ${primary.entity.id}`,
+        primaryEntity: primary.entity.id,
+      });
+    }
+  }
+
+  return groups.sort(
+    (a, b) => b.similarity - a.similarity || a.entities[0].localeCompare(b.entities[0]),
+  );
+}
+
+/**
+ * Components on DEPENDS_ON cycles, one list per strongly connected component
+ */
+function findDependencyCycles(state: BranchState): string[][] {
+  const edges = new Map<string, string[]>();
+  for (const relationship of state.relationships) {
+    if (
+      relationship.type === 'DEPENDS_ON' &&
+      relationship.fromType === 'component' &&
+      relationship.toType === 'component'
+    ) {
+      edges.set(relationship.fromId, [
+        ...(edges.get(relationship.fromId) ?? []),
+        relationship.toId,
+      ]);
+    }
+  }
+
+  // Tarjan's algorithm
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowLink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+    for (const next of edges.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      if (component.length > 1 || (edges.get(node) ?? []).includes(node)) {
+        cycles.push(component.sort());
+      }
+    }
+  };
+  for (const node of [...edges.keys()].sort()) {
+    if (!index.has(node)) {
+      visit(node);
+    }
+  }
+  return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+function impactOf(count: number, total: number): OptimizationOpportunity['impact'] {
+  const share = total > 0 ? count / total : 0;
+  return share > 0.1 ? 'high' : share > 0.03 ? 'medium' : 'low';
+}
+
+/**
+ * Analyze a branch with rules instead of an LLM. Results only depend on the branch
+ * state, the options and `now`.
+ */
+export function analyzeBranchState(state: BranchState, options: HeuristicOptions): AnalysisResult {
+  const facts = collectFacts(state, options.now);
+  const total = facts.size;
+  const staleEntities = findStaleEntities(facts, options);
+  const redundancies = findRedundancies(facts);
+  const cycles = findDependencyCycles(state);
+
+  const orphans = [...facts.values()]
+    .filter((fact) => fact.dependents.length === 0 && fact.dependsOn.length === 0)
+    .map((fact) => fact.entity.id)
+    .sort();
+  const redundantTags = redundancies
+    .filter((group) =>
+      group.entities.every((id) => facts.has(entityKey({ entityType: 'tag', id }))),
+    )
+    .flatMap((group) => group.entities);
+
+  const optimizationOpportunities: OptimizationOpportunity[] = [];
+  if (orphans.length > 0) {
+    optimizationOpportunities.push({
+      type: 'orphan-removal',
+      impact: impactOf(orphans.length, total),
+      description: `${orphans.length} entities have no relationships`,
+      entities: orphans,
+    });
+  }
+  if (redundantTags.length > 0) {
+    optimizationOpportunities.push({
+      type: 'tag-consolidation',
+      impact: impactOf(redundantTags.length, total),
+      description: `${redundantTags.length} tags have duplicate names`,
+      entities: redundantTags,
+    });
+  }
+  for (const cycle of cycles) {
+    optimizationOpportunities.push({
+      type: 'circular-dependency-fix',
+      impact: 'medium',
+      description: `Components ${cycle.join(', ')} depend on each other in a cycle`,
+      entities: cycle,
+    });
+  }
+
+  const redundantEntities = redundancies.reduce((sum, group) => sum + group.entities.length - 1, 0);
+  const cycleEntities = cycles.reduce((sum, cycle) => sum + cycle.length, 0);
+  const issues = staleEntities.length + redundantEntities + cycleEntities * 0.5;
+  const overallHealthScore = total > 0 ? round(Math.max(0, 1 - issues / total)) : 1;
+
+  const recommendations: string[] = [];
+  if (options.averageEntityAge !== undefined) {
+    recommendations.push(`Average entity age is ${Math.round(options.averageEntityAge)} days`);
+  }
+  if (staleEntities.length > 0) {
+    recommendations.push(
+      `Review ${staleEntities.length} deprecated or orphaned entities for deletion`,
+    );
+  }
+  if (redundancies.length > 0) {
+    recommendations.push(`Merge ${redundancies.length} groups of entities with duplicate names`);
+  }
+  if (cycles.length > 0) {
+    recommendations.push(`Break ${cycles.length} component dependency cycles`);
+  }
+  if (staleEntities.length === 0 && redundancies.length === 0 && cycles.length === 0) {
+    recommendations.push('No optimization needed');
+  }
+
+  const criticalEntitiesAtRisk = staleEntities
+    .filter((entity) => !entity.safeToDelete)
+    .map((entity) => entity.id);
+  const flaggedShare = total > 0 ? (staleEntities.length + redundantEntities) / total : 0;
+  const overallRisk =
+    criticalEntitiesAtRisk.length > 5 || flaggedShare > 0.25
+      ? 'high'
+      : criticalEntitiesAtRisk.length > 0 || flaggedShare > 0.1
+        ? 'medium'
+        : 'low';
+
+  return {
+    summary: {
+      totalEntitiesAnalyzed: total,
+      staleEntitiesFound: staleEntities.length,
+      redundancyGroupsFound: redundancies.length,
+      optimizationOpportunities: optimizationOpportunities.length,
+      overallHealthScore,
+    },
+    staleEntities,
+    redundancies,
+    optimizationOpportunities,
+    recommendations,
+    riskAssessment: {
+      overallRisk,
+      criticalEntitiesAtRisk,
+      safeguardsRecommended: [
+        'Create a snapshot before optimizing',
+        'Preview the plan with dryRun first',
+        ...(criticalEntitiesAtRisk.length > 0
+          ? [`Review the dependents of ${criticalEntitiesAtRisk.join(', ')} before deleting them`]
+          : []),
+      ],
+    },
+  };
+}
+
+/**
+ * Turn an analysis into a plan: merges of redundancy groups similar enough for the
+ * strategy, then deletes of entities stale enough for it and safe to delete, up to the
+ * strategy's maxActions. The plan ID is derived from the actions.
+ */
+export function planOptimization(
+  state: BranchState,
+  analysis: AnalysisResult,
+  strategy: OptimizationStrategy,
+): OptimizationPlan {
+  const limits = HEURISTIC_STRATEGIES[strategy];
+  const typeOf = new Map(state.entities.map((entity) => [entity.id, entity.entityType]));
+  const merges: OptimizationAction[] = [];
+  const merged = new Set<string>();
+
+  for (const group of analysis.redundancies) {
+    if (group.similarity < limits.mergeSimilarity || !group.primaryEntity) {
+      continue;
+    }
+    merged.add(group.primaryEntity);
+    for (const entityId of group.entities.filter((id) => id !== group.primaryEntity)) {
+      merged.add(entityId);
+      merges.push({
+        type: 'merge',
+        entityId,
+        targetEntityId: group.primaryEntity,
+        entityType: typeOf.get(entityId) as EntityType,
+        reason: `${group.type === 'duplicate' ? 'Duplicate' : 'Near-duplicate'} of ${group.primaryEntity} (similarity ${group.similarity})`,
+        priority: group.type === 'duplicate' ? 'high' : 'medium',
+        safetyChecks: [
+          `Confirm ${entityId} and ${group.primaryEntity} describe the same thing`,
+          `Relationships of ${entityId} move to ${group.primaryEntity}`,
+        ],
+      });
+    }
+  }
+
+  const deletes: OptimizationAction[] = analysis.staleEntities
+    .filter(
+      (entity) =>
+        entity.safeToDelete && entity.staleness >= limits.deleteThreshold && !merged.has(entity.id),
+    )
+    .map((entity) => ({
+      type: 'delete',
+      entityId: entity.id,
+      entityType: entity.type,
+      reason: `Stale (${entity.staleness}): ${entity.reason}`,
+      priority: entity.staleness >= 0.9 ? 'high' : entity.staleness >= 0.6 ? 'medium' : 'low',
+      safetyChecks: [`Confirm nothing depends on ${entity.id}`],
+    }));
+
+  const actions = [...merges, ...deletes].slice(0, limits.maxActions);
+  const digest = createHash('sha256').update(JSON.stringify(actions)).digest('hex');
+
+  return {
+    id: `heuristic-${strategy}-${digest.slice(0, 12)}`,
+    strategy,
+    actions,
+    estimatedImpact: { entitiesAffected: actions.length },
+    safetyMeasures: {
+      snapshotRequired: true,
+      confirmationRequired: true,
+      rollbackPlan:
+        'Roll back with the memory-optimizer rollback operation and the snapshot taken before execution',
+    },
+    // Merges first so relationships move before any entity is deleted
+    executionOrder: actions.map((action) => action.entityId),
+  };
+}
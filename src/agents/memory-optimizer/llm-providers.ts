@@ -0,0 +1,168 @@
+// External dependencies
+import { anthropic } from '@ai-sdk/anthropic';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+
+// Type imports
+import type { LanguageModel, LanguageModelV1 } from 'ai';
+import type { AgentRole } from './prompt-manager';
+
+/**
+ * Settings a provider receives when the optimizer needs a model for one prompt role
+ */
+export interface LLMModelRequest {
+  role: AgentRole;
+  /** Model configured for the role, falling back to the configured model */
+  modelId?: string;
+  /** JSON file with recorded responses per role */
+  replayFile?: string;
+}
+
+export interface LLMProvider {
+  /** Create the language model used for a prompt role */
+  createModel(request: LLMModelRequest): LanguageModel;
+  /** Extra generateObject settings, such as extended thinking */
+  reasoningConfig?: Record<string, unknown>;
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register an LLM provider under a name usable as `llmProvider`. Registering an
+ * existing name replaces the provider.
+ */
+export function registerLLMProvider(name: string, provider: LLMProvider): void {
+  providers.set(name, provider);
+}
+
+export function hasLLMProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+export function listLLMProviders(): string[] {
+  return [...providers.keys()];
+}
+
+export function getLLMProvider(name: string): LLMProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(
+      `Unsupported LLM provider: ${name}. Registered providers: ${listLLMProviders().join(', ')}`,
+    );
+  }
+  return provider;
+}
+
+/**
+ * Language model that answers every call with the next response recorded for its role.
+ * The last response repeats once the recording is used up.
+ */
+export class ReplayLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly provider = 'replay';
+  readonly defaultObjectGenerationMode = 'json';
+  private calls = 0;
+
+  constructor(
+    readonly modelId: string,
+    private readonly responses: unknown[],
+  ) {
+    if (responses.length === 0) {
+      throw new Error(`No recorded responses for ${modelId}`);
+    }
+  }
+
+  async doGenerate(
+    options: Parameters<LanguageModelV1['doGenerate']>[0],
+  ): Promise<Awaited<ReturnType<LanguageModelV1['doGenerate']>>> {
+    const response = this.responses[Math.min(this.calls, this.responses.length - 1)];
+    this.calls++;
+    return {
+      text: typeof response === 'string' ? response : JSON.stringify(response),
+      finishReason: 'stop',
+      usage: { promptTokens: 0, completionTokens: 0 },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(): Promise<Awaited<ReturnType<LanguageModelV1['doStream']>>> {
+    throw new Error('The replay provider does not support streaming');
+  }
+}
+
+/**
+ * Load the responses recorded for a role from a replay file of the form
+ * `{ "analyzer": [response, ...], "optimizer": [response, ...] }`
+ */
+export function loadReplayResponses(replayFile: string, role: AgentRole): unknown[] {
+  let recording: unknown;
+  try {
+    recording = JSON.parse(readFileSync(path.resolve(replayFile), 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read replay file ${replayFile}: ${error}`);
+  }
+  const responses = (recording as Record<string, unknown> | null)?.[role];
+  if (responses === undefined) {
+    throw new Error(`Replay file ${replayFile} has no responses for the ${role} role`);
+  }
+  return Array.isArray(responses) ? responses : [responses];
+}
+
+registerLLMProvider('openai', {
+  // Use GPT-4 models that support structured outputs (JSON schema)
+  // o1 models don't support structured outputs, so we use gpt-4o instead
+  createModel: ({ modelId }) => openai(modelId || 'gpt-4o'),
+});
+
+registerLLMProvider('anthropic', {
+  // Use latest Claude models with extended thinking
+  createModel: ({ modelId }) => anthropic(modelId || 'claude-sonnet-4-20250514'),
+  // Claude models with extended thinking (2048 token budget)
+  reasoningConfig: {
+    thinking: {
+      enabled: true,
+      maxTokens: 2048,
+    },
+  },
+});
+
+registerLLMProvider('openai-compatible', {
+  // Local servers such as llama.cpp, vLLM or Ollama; most ignore the API key. The URL
+  // only comes from the server configuration, since the API key is sent to it
+  createModel: ({ modelId }) => {
+    const url = process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!url) {
+      throw new Error('The openai-compatible provider needs OPENAI_COMPATIBLE_BASE_URL');
+    }
+    if (!modelId) {
+      throw new Error('The openai-compatible provider needs a model');
+    }
+    const provider = createOpenAI({
+      name: 'openai-compatible',
+      baseURL: url,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      compatibility: 'compatible',
+    });
+    return provider(modelId);
+  },
+});
+
+registerLLMProvider('replay', {
+  createModel: ({ role, modelId, replayFile }) => {
+    if (!replayFile) {
+      throw new Error('The replay provider needs a replayFile');
+    }
+    return new ReplayLanguageModel(
+      modelId || `replay-${role}`,
+      loadReplayResponses(replayFile, role),
+    );
+  },
+});
+
+registerLLMProvider('heuristic', {
+  // Analysis and planning are rule-based, see HeuristicOptimizerService
+  createModel: () => {
+    throw new Error('The heuristic provider does not use a language model');
+  },
+});
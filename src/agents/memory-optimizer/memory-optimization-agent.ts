@@ -9,6 +9,7 @@ import { PromptManager } from './prompt-manager';
 // Specialized services
 import { BaseMemoryAgent, type MemoryOptimizationConfig } from './base/base-memory-agent';
 import { ActionExecutorService } from './services/action-executor.service';
+import { HeuristicOptimizerService } from './services/heuristic-optimizer.service';
 import { MemoryAnalysisService } from './services/memory-analysis.service';
 import { OptimizationExecutionService } from './services/optimization-execution.service';
 import { OptimizationPlanService } from './services/optimization-plan.service';
@@ -21,6 +22,11 @@ import type {
   OptimizationPlan,
   OptimizationResult,
 } from '../../schemas/optimization/types';
+import type {
+  SnapshotCompactionResult,
+  SnapshotRetentionResult,
+} from '../../services/snapshot.service';
+import type { SnapshotPolicy, SnapshotPolicySettings } from '../../utils/snapshot-retention.utils';
 import type { OptimizationStrategy } from './prompt-manager';
 
 /**
@@ -32,6 +38,7 @@ import type { OptimizationStrategy } from './prompt-manager';
  * This is the main orchestrator that delegates to specialized services:
  * - MemoryAnalysisService: Analyzes memory graphs
  * - OptimizationPlanService: Generates optimization plans
+ * - HeuristicOptimizerService: Analyzes and plans without an LLM (llmProvider 'heuristic')
  * - OptimizationExecutionService: Executes plans safely
  * - SnapshotManagementService: Manages snapshots
  * - ActionExecutorService: Executes individual actions
@@ -44,6 +51,7 @@ export class MemoryOptimizationAgent extends BaseMemoryAgent {
   // Specialized services
   private analysisService: MemoryAnalysisService;
   private planService: OptimizationPlanService;
+  private heuristicService: HeuristicOptimizerService;
   private executionService: OptimizationExecutionService;
   private snapshotService: SnapshotManagementService;
   private actionExecutor: ActionExecutorService;
@@ -73,6 +81,11 @@ export class MemoryOptimizationAgent extends BaseMemoryAgent {
       this.contextBuilder,
       this.promptManager,
     );
+    this.heuristicService = new HeuristicOptimizerService(
+      memoryService,
+      this.config,
+      this.contextBuilder,
+    );
     this.executionService = new OptimizationExecutionService(
       memoryService,
       this.config,
@@ -91,13 +104,9 @@ export class MemoryOptimizationAgent extends BaseMemoryAgent {
     branch: string = 'main',
     strategy: OptimizationStrategy = 'conservative',
   ): Promise<AnalysisResult> {
-    return this.analysisService.analyzeMemory(
-      mcpContext,
-      clientProjectRoot,
-      repository,
-      branch,
-      strategy,
-    );
+    const service =
+      this.config.llmProvider === 'heuristic' ? this.heuristicService : this.analysisService;
+    return service.analyzeMemory(mcpContext, clientProjectRoot, repository, branch, strategy);
   }
 
   /**
@@ -111,7 +120,9 @@ export class MemoryOptimizationAgent extends BaseMemoryAgent {
     analysisResult: AnalysisResult,
     strategy: OptimizationStrategy = 'conservative',
   ): Promise<OptimizationPlan> {
-    return this.planService.generateOptimizationPlan(
+    const service =
+      this.config.llmProvider === 'heuristic' ? this.heuristicService : this.planService;
+    return service.generateOptimizationPlan(
       mcpContext,
       clientProjectRoot,
       repository,
@@ -162,6 +173,7 @@ export class MemoryOptimizationAgent extends BaseMemoryAgent {
     restoredEntities: number;
     restoredRelationships: number;
     rollbackTime: string;
+    replayedSnapshots: number;
     message: string;
   }> {
     return this.snapshotService.rollbackToSnapshot(
@@ -184,4 +196,89 @@ export class MemoryOptimizationAgent extends BaseMemoryAgent {
   ): Promise<any[]> {
     return this.snapshotService.listSnapshots(mcpContext, clientProjectRoot, repository, branch);
   }
+
+  /**
+   * Compact the snapshot chains of a branch
+   */
+  async compactSnapshots(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    maxChainLength?: number,
+  ): Promise<SnapshotCompactionResult> {
+    return this.snapshotService.compactSnapshots(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      branch,
+      maxChainLength,
+    );
+  }
+
+  /**
+   * List the snapshot policies of a repository
+   */
+  async listSnapshotPolicies(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+  ): Promise<SnapshotPolicy[]> {
+    return this.snapshotService.listSnapshotPolicies(mcpContext, clientProjectRoot, repository);
+  }
+
+  /**
+   * Create or update the snapshot policy of a repository/branch
+   */
+  async setSnapshotPolicy(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    settings: SnapshotPolicySettings,
+  ): Promise<SnapshotPolicy> {
+    return this.snapshotService.setSnapshotPolicy(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      branch,
+      settings,
+    );
+  }
+
+  /**
+   * Remove the snapshot policy of a repository/branch
+   */
+  async deleteSnapshotPolicy(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+  ): Promise<boolean> {
+    return this.snapshotService.deleteSnapshotPolicy(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      branch,
+    );
+  }
+
+  /**
+   * Prune the snapshots of a branch by the retention rules of its policy
+   */
+  async pruneSnapshots(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    dryRun: boolean,
+  ): Promise<SnapshotRetentionResult> {
+    return this.snapshotService.pruneSnapshots(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      branch,
+      dryRun,
+    );
+  }
 }
@@ -3,6 +3,7 @@ import { BaseMemoryAgent } from '../base/base-memory-agent';
 
 // Type imports
 import type { ToolHandlerContext } from '../../../mcp/types/sdk-custom';
+import type { BranchEntityType } from '../../../utils/branch-diff.utils';
 
 /**
  * Service responsible for executing individual optimization actions
@@ -200,66 +201,34 @@ export class ActionExecutorService extends BaseMemoryAgent {
       throw new Error(`Merge action requires targetEntityId for entity ${sourceEntityId}`);
     }
 
-    logger.info(`Merging entity ${sourceEntityId} into ${targetEntityId}`);
+    const entityType = this.determineEntityType(sourceEntityId, action) as BranchEntityType;
 
-    // For merge operations, we need to:
-    // 1. Get the source entity data
-    // 2. Merge relevant data into the target entity
-    // 3. Update relationships to point to the target entity
-    // 4. Delete the source entity
+    logger.info(`Merging ${entityType} ${sourceEntityId} into ${targetEntityId}`);
 
-    const kuzuClient = await this.memoryService.getKuzuClient(mcpContext, clientProjectRoot);
-
-    // Get source entity data
-    const sourceQuery = `
-      MATCH (source {id: $sourceId, repository: $repository, branch: $branch})
-      RETURN source, labels(source) AS sourceLabels
-    `;
-
-    const sourceResult = await kuzuClient.executeQuery(sourceQuery, {
-      sourceId: sourceEntityId,
-      repository,
-      branch,
-    });
-
-    if (sourceResult.length === 0) {
-      throw new Error(`Source entity not found: ${sourceEntityId}`);
-    }
-
-    const sourceEntity = sourceResult[0].source;
-    const sourceLabels = sourceResult[0].sourceLabels;
-
-    // Update relationships to point to target entity
-    const relationshipType = sourceLabels[0] === 'Component' ? 'DEPENDS_ON' : 'RELATED_TO';
-
-    const updateRelationshipsQuery = `
-      MATCH (source {id: $sourceId, repository: $repository, branch: $branch})-[r]-(other)
-      MATCH (target {id: $targetId, repository: $repository, branch: $branch})
-      WHERE NOT (target)-[r]-(other)
-      CREATE (target)-[newR:${relationshipType}]->(other)
-      SET newR = properties(r)
-    `;
-
-    await kuzuClient.executeQuery(updateRelationshipsQuery, {
-      sourceId: sourceEntityId,
-      targetId: targetEntityId,
-      repository,
-      branch,
-    });
-
-    // Delete the source entity (this will also delete its relationships)
-    const entityType = this.determineEntityType(sourceEntityId, action);
-
-    await this.executeDeleteAction(
+    // Moves every relationship with its type and direction, merges the properties and
+    // records the source ID in the target's merged_from
+    const entityService = await this.memoryService.entity;
+    const result = await entityService.mergeEntities(
       mcpContext,
       clientProjectRoot,
       repository,
       branch,
-      { ...action, type: 'delete', entityId: sourceEntityId },
-      logger,
+      entityType,
+      sourceEntityId,
+      targetEntityId,
     );
 
-    logger.info(`Successfully merged entity ${sourceEntityId} into ${targetEntityId}`);
+    if (result.conflicts.length > 0) {
+      logger.info(
+        `Kept ${targetEntityId} values for conflicting properties: ${result.conflicts
+          .map((conflict) => conflict.field)
+          .join(', ')}`,
+      );
+    }
+
+    logger.info(
+      `Successfully merged entity ${sourceEntityId} into ${targetEntityId}, moving ${result.relationshipsMoved} relationships`,
+    );
   }
 
   /**
@@ -329,6 +298,14 @@ export class ActionExecutorService extends BaseMemoryAgent {
       throw new Error(`Entity not found for update: ${entityId}`);
     }
 
+    this.memoryService.changes.notify({
+      change: 'upserted',
+      repository,
+      branch,
+      entityType: this.determineEntityType(entityId, action),
+      entityIds: [entityId],
+    });
+
     logger.info(`Successfully updated entity ${entityId}`);
   }
 
@@ -378,6 +355,14 @@ export class ActionExecutorService extends BaseMemoryAgent {
       branch,
     });
 
+    this.memoryService.changes.notify({
+      change: 'upserted',
+      repository,
+      branch,
+      entityType: this.determineEntityType(entityId, action),
+      entityIds: [entityId],
+    });
+
     logger.info(`Successfully moved entity ${entityId} to depend on ${targetEntityId}`);
   }
 
@@ -0,0 +1,121 @@
+// Internal services and utilities
+import { BaseMemoryAgent } from '../base/base-memory-agent';
+import { MemoryContextBuilder } from '../context-builder';
+import { analyzeBranchState, planOptimization } from '../heuristics';
+
+// Type imports
+import type { ToolHandlerContext } from '../../../mcp/types/sdk-custom';
+import type { AnalysisResult, OptimizationPlan } from '../../../schemas/optimization/types';
+import type { BranchState } from '../../../utils/branch-diff.utils';
+import type { OptimizationStrategy } from '../prompt-manager';
+
+/**
+ * Service responsible for rule-based memory analysis and planning
+ * Produces the same results as the LLM services from entity age, relationships,
+ * deprecated status and duplicate names, without calling an LLM
+ */
+export class HeuristicOptimizerService extends BaseMemoryAgent {
+  private contextBuilder: MemoryContextBuilder;
+
+  constructor(memoryService: any, config: any, contextBuilder: MemoryContextBuilder) {
+    super(memoryService, config);
+    this.contextBuilder = contextBuilder;
+  }
+
+  /**
+   * Analyze memory graph and identify optimization opportunities
+   */
+  async analyzeMemory(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string = 'main',
+    strategy: OptimizationStrategy = 'conservative',
+  ): Promise<AnalysisResult> {
+    const analysisLogger = this.createOperationLogger('heuristicAnalyzeMemory', {
+      repository,
+      branch,
+      strategy,
+    });
+
+    try {
+      analysisLogger.info('Starting heuristic memory analysis');
+
+      const memoryContext = await this.contextBuilder.buildMemoryContext(
+        mcpContext,
+        clientProjectRoot,
+        repository,
+        branch,
+      );
+      const state = await this.loadBranchState(mcpContext, clientProjectRoot, repository, branch);
+
+      const analysisResult = analyzeBranchState(state, {
+        strategy,
+        staleDays: this.getStaleDaysThreshold(strategy),
+        averageEntityAge: memoryContext.averageEntityAge,
+        now: new Date(),
+      });
+
+      analysisLogger.info(
+        {
+          staleEntitiesFound: analysisResult.staleEntities.length,
+          redundancyGroupsFound: analysisResult.redundancies.length,
+          optimizationOpportunities: analysisResult.optimizationOpportunities.length,
+          overallHealthScore: analysisResult.summary.overallHealthScore,
+        },
+        'Heuristic memory analysis completed',
+      );
+
+      return analysisResult;
+    } catch (error) {
+      analysisLogger.error({ error }, 'Heuristic memory analysis failed');
+      throw new Error(`Memory analysis failed: ${error}`);
+    }
+  }
+
+  /**
+   * Generate optimization plan based on analysis results
+   */
+  async generateOptimizationPlan(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    analysisResult: AnalysisResult,
+    strategy: OptimizationStrategy = 'conservative',
+  ): Promise<OptimizationPlan> {
+    const planLogger = this.createOperationLogger('heuristicGenerateOptimizationPlan', {
+      repository,
+      branch,
+      strategy,
+    });
+
+    try {
+      planLogger.info('Generating heuristic optimization plan');
+
+      const state = await this.loadBranchState(mcpContext, clientProjectRoot, repository, branch);
+      const plan = planOptimization(state, analysisResult, strategy);
+
+      planLogger.info(
+        { planId: plan.id, totalActions: plan.actions.length },
+        'Heuristic optimization plan generated',
+      );
+
+      return plan;
+    } catch (error) {
+      planLogger.error({ error }, 'Heuristic optimization plan generation failed');
+      throw new Error(`Optimization plan generation failed: ${error}`);
+    }
+  }
+
+  private async loadBranchState(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+  ): Promise<BranchState> {
+    const kuzuClient = await this.memoryService.getKuzuClient(mcpContext, clientProjectRoot);
+    const branchService = await this.memoryService.branch;
+    return branchService.loadBranchState(kuzuClient, repository, branch);
+  }
+}
@@ -104,7 +104,7 @@ export class MemoryAnalysisService extends BaseMemoryAgent {
 
       // Generate analysis using LLM with reasoning configuration
       const result = await generateObject({
-        model: this.llmClient,
+        model: this.getLanguageModel('analyzer'),
         system: systemPrompt,
         prompt: userPrompt,
         schema: AnalysisResultSchema,
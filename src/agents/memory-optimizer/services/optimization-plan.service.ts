@@ -89,7 +89,7 @@ export class OptimizationPlanService extends BaseMemoryAgent {
 
       // Generate optimization plan using LLM with reasoning configuration
       const result = await generateObject({
-        model: this.llmClient,
+        model: this.getLanguageModel('optimizer'),
         system: systemPrompt,
         prompt: userPrompt,
         schema: OptimizationPlanSchema,
@@ -3,10 +3,18 @@ import { BaseMemoryAgent } from '../base/base-memory-agent';
 
 // Type imports
 import type { ToolHandlerContext } from '../../../mcp/types/sdk-custom';
+import type {
+  SnapshotCompactionResult,
+  SnapshotRetentionResult,
+} from '../../../services/snapshot.service';
+import type {
+  SnapshotPolicy,
+  SnapshotPolicySettings,
+} from '../../../utils/snapshot-retention.utils';
 
 /**
  * Service responsible for snapshot management operations
- * Handles snapshot creation, validation, rollback, and listing
+ * Handles snapshot creation, validation, rollback, listing, compaction and snapshot policies
  */
 export class SnapshotManagementService extends BaseMemoryAgent {
   /**
@@ -24,6 +32,7 @@ export class SnapshotManagementService extends BaseMemoryAgent {
     restoredEntities: number;
     restoredRelationships: number;
     rollbackTime: string;
+    replayedSnapshots: number;
     message: string;
   }> {
     const rollbackLogger = this.createOperationLogger('rollbackToSnapshot', {
@@ -61,12 +70,16 @@ export class SnapshotManagementService extends BaseMemoryAgent {
         restoredRelationships: rollbackResult.restoredRelationships,
       });
 
+      // A rollback rewrites the whole branch
+      this.memoryService.changes.notify({ change: 'upserted', repository, branch });
+
       return {
         success: rollbackResult.success,
         snapshotId: rollbackResult.snapshotId,
         restoredEntities: rollbackResult.restoredEntities,
         restoredRelationships: rollbackResult.restoredRelationships,
         rollbackTime: rollbackResult.rollbackTime,
+        replayedSnapshots: rollbackResult.replayedSnapshots,
         message:
           `Successfully rolled back to snapshot ${snapshotId}. ` +
           `Restored ${rollbackResult.restoredEntities} entities and ` +
@@ -219,4 +232,121 @@ export class SnapshotManagementService extends BaseMemoryAgent {
       throw new Error(`Failed to delete snapshot: ${error}`);
     }
   }
+
+  /**
+   * Rewrite deltas deeper than maxChainLength as bases to bound rollback replay
+   */
+  async compactSnapshots(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    maxChainLength?: number,
+  ): Promise<SnapshotCompactionResult> {
+    const compactLogger = this.createOperationLogger('compactSnapshots', {
+      repository,
+      branch,
+    });
+
+    try {
+      const snapshotService = await this.memoryService.getSnapshotService(
+        mcpContext,
+        clientProjectRoot,
+      );
+
+      const result = await snapshotService.compactSnapshots(repository, branch, maxChainLength);
+
+      compactLogger.info(
+        {
+          compactedSnapshots: result.compactedSnapshots.length,
+          sizeBefore: result.sizeBefore,
+          sizeAfter: result.sizeAfter,
+        },
+        'Snapshots compacted',
+      );
+
+      return result;
+    } catch (error) {
+      compactLogger.error({ error }, 'Failed to compact snapshots');
+      throw new Error(`Failed to compact snapshots: ${error}`);
+    }
+  }
+
+  /**
+   * List the snapshot policies of a repository
+   */
+  async listSnapshotPolicies(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+  ): Promise<SnapshotPolicy[]> {
+    const snapshotService = await this.memoryService.getSnapshotService(
+      mcpContext,
+      clientProjectRoot,
+    );
+    return snapshotService.listSnapshotPolicies(repository);
+  }
+
+  /**
+   * Create or update the snapshot policy of a repository/branch
+   */
+  async setSnapshotPolicy(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    settings: SnapshotPolicySettings,
+  ): Promise<SnapshotPolicy> {
+    const policyLogger = this.createOperationLogger('setSnapshotPolicy', { repository, branch });
+
+    const snapshotService = await this.memoryService.getSnapshotService(
+      mcpContext,
+      clientProjectRoot,
+    );
+    const policy = await snapshotService.setSnapshotPolicy(repository, branch, settings);
+
+    policyLogger.info({ policy }, 'Snapshot policy saved');
+    return policy;
+  }
+
+  /**
+   * Remove the snapshot policy of a repository/branch; its snapshots are kept
+   */
+  async deleteSnapshotPolicy(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+  ): Promise<boolean> {
+    const snapshotService = await this.memoryService.getSnapshotService(
+      mcpContext,
+      clientProjectRoot,
+    );
+    return snapshotService.deleteSnapshotPolicy(repository, branch);
+  }
+
+  /**
+   * Apply the retention rules of a branch's snapshot policy now
+   */
+  async pruneSnapshots(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+    dryRun: boolean,
+  ): Promise<SnapshotRetentionResult> {
+    const pruneLogger = this.createOperationLogger('pruneSnapshots', { repository, branch });
+
+    const snapshotService = await this.memoryService.getSnapshotService(
+      mcpContext,
+      clientProjectRoot,
+    );
+    const result = await snapshotService.applyRetention(repository, branch, { dryRun });
+
+    pruneLogger.info(
+      { dryRun, kept: result.kept.length, pruned: result.pruned.length },
+      'Snapshot retention applied',
+    );
+    return result;
+  }
 }
@@ -2,9 +2,27 @@
 import { Command } from 'commander';
 import fs from 'fs/promises';
 import path from 'path';
+import { KuzuDBClient } from '../db/kuzu';
+import { formatMigrationPlan } from '../db/services/kuzu-migration-runner';
+import { toolHandlers } from '../mcp/tool-handlers';
 import { ToolHandlerContext } from '../mcp/types/sdk-custom';
 import { MemoryService } from '../services/memory.service';
+import { readAdrDirectory } from '../utils/adr.utils';
+import { createAuthToken } from '../utils/auth-token.utils';
+import {
+  parseMemoryExport,
+  serializeMemoryExport,
+  writeMemoryExport,
+} from '../utils/memory-export.utils';
 import { logError, loggers } from '../utils/logger';
+import {
+  formatToolResult,
+  isFailedResult,
+  parseIntegerOption,
+  parseJsonOption,
+  parseListOption,
+  parseNumberOption,
+} from './tool-output';
 
 const program = new Command();
 let memoryService: MemoryService;
@@ -28,7 +46,8 @@ function createMockContext(): ToolHandlerContext {
 async function initializeMemoryServiceInstance(): Promise<void> {
   if (!memoryService) {
     try {
-      memoryService = await MemoryService.getInstance();
+      // Log through the CLI logger so stdout only carries command output
+      memoryService = await MemoryService.getInstance(createMockContext());
       cliLogger.info('Memory service singleton instance obtained');
     } catch (error) {
       logError(cliLogger, error as Error, { operation: 'memory-service-initialization' });
@@ -271,6 +290,823 @@ program
     }
   });
 
+program
+  .command('migrate')
+  .description('Migrate the memory bank database of the project root to the latest schema version')
+  .option('--dry-run', 'Print the DDL of pending migrations without applying it')
+  .option('-t, --to <version>', 'Target schema version; lower than the current version rolls back')
+  .option('--status', 'Show applied and pending migrations')
+  .action(async (options) => {
+    const clientProjectRoot = getEffectiveProjectRoot();
+    const kuzuClient = new KuzuDBClient(clientProjectRoot);
+    try {
+      await kuzuClient.connect();
+      const runner = kuzuClient.getMigrationRunner();
+
+      if (options.status) {
+        const status = await runner.getStatus();
+        const lines = [
+          `Schema version: ${status.currentVersion} (latest: ${status.latestVersion})`,
+          ...status.applied.map((m) => `  applied  ${m.version} ${m.name}`),
+          ...status.pending.map((m) => `  pending  ${m.version} ${m.name}`),
+        ];
+        process.stdout.write(`${lines.join('\n')}\n`);
+        return;
+      }
+
+      const targetVersion = options.to !== undefined ? parseInt(options.to, 10) : undefined;
+      const migrationPlan = await runner.migrate({ targetVersion, dryRun: options.dryRun });
+      if (options.dryRun) {
+        // Print the bare DDL so it can be reviewed or piped
+        process.stdout.write(`${formatMigrationPlan(migrationPlan)}\n`);
+        return;
+      }
+      cliLogger.info(
+        { clientProjectRoot, steps: migrationPlan.steps.map((step) => step.name) },
+        `✅ Schema migrated from version ${migrationPlan.fromVersion} to ${migrationPlan.toVersion}`,
+      );
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'migrate', clientProjectRoot });
+      process.exitCode = 1;
+    } finally {
+      await kuzuClient.close();
+    }
+  });
+
+program
+  .command('export')
+  .description(
+    'Export the entities, relationships and metadata of a repository branch to JSON or JSONL',
+  )
+  .argument('<repositoryName>', 'Logical repository name')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-f, --format <format>', 'Export format: json or jsonl', 'json')
+  .option('-o, --output <file>', 'File to write the export to (defaults to stdout)')
+  .action(async (repositoryName: string, options) => {
+    await initializeMemoryServiceInstance();
+    const branch = options.branch;
+    const clientProjectRoot = getEffectiveProjectRoot();
+    try {
+      if (options.format !== 'json' && options.format !== 'jsonl') {
+        throw new Error(`Unsupported export format: ${options.format}`);
+      }
+      const transferService = await memoryService.transfer;
+      const memoryExport = await transferService.exportMemory(
+        createMockContext(),
+        clientProjectRoot,
+        repositoryName,
+        branch,
+      );
+
+      if (!options.output) {
+        // Print the bare export so it can be piped
+        process.stdout.write(serializeMemoryExport(memoryExport, options.format));
+        return;
+      }
+      const outputPath = path.resolve(options.output);
+      await writeMemoryExport(memoryExport, options.format, outputPath);
+      cliLogger.info(
+        { repositoryName, branch, outputPath, counts: memoryExport.counts },
+        `✅ Exported ${memoryExport.counts.entities} entities and ${memoryExport.counts.relationships} relationships to ${outputPath}`,
+      );
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'export', repositoryName, branch });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export-markdown')
+  .description('Write a repository branch as markdown files for human review')
+  .argument('<repositoryName>', 'Logical repository name')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .requiredOption('-o, --output <dir>', 'Directory to write the markdown files to')
+  .action(async (repositoryName: string, options) => {
+    await initializeMemoryServiceInstance();
+    const branch = options.branch;
+    const clientProjectRoot = getEffectiveProjectRoot();
+    try {
+      const transferService = await memoryService.transfer;
+      const result = await transferService.exportMarkdown(
+        createMockContext(),
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        path.resolve(options.output),
+      );
+      cliLogger.info(
+        { repositoryName, branch, outputDir: result.outputDir, counts: result.counts },
+        `✅ ${result.message}`,
+      );
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'export-markdown', repositoryName, branch });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import')
+  .description('Import a JSON or JSONL export into a repository branch of the project root')
+  .argument('<file>', 'Export file to import')
+  .option('-r, --repository <repository>', 'Target repository (defaults to the exported one)')
+  .option('-b, --branch <branch>', 'Target branch (defaults to the exported one)')
+  .option(
+    '-c, --on-conflict <policy>',
+    'How to handle existing ids: skip, overwrite or rename',
+    'skip',
+  )
+  .action(async (file: string, options) => {
+    await initializeMemoryServiceInstance();
+    const clientProjectRoot = getEffectiveProjectRoot();
+    try {
+      if (!['skip', 'overwrite', 'rename'].includes(options.onConflict)) {
+        throw new Error(`Unsupported conflict policy: ${options.onConflict}`);
+      }
+      const memoryExport = parseMemoryExport(await fs.readFile(path.resolve(file), 'utf-8'));
+      const transferService = await memoryService.transfer;
+      const result = await transferService.importMemory(
+        createMockContext(),
+        clientProjectRoot,
+        memoryExport,
+        {
+          repository: options.repository,
+          branch: options.branch,
+          conflictPolicy: options.onConflict,
+        },
+      );
+      cliLogger.info(
+        { repository: result.repository, branch: result.branch },
+        `✅ ${result.message}`,
+      );
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'import', file });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export-adr')
+  .description('Write the decisions of a repository branch as architecture decision records')
+  .argument('<repositoryName>', 'Logical repository name')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-d, --dir <dir>', 'ADR directory, relative to the project root', 'docs/adr')
+  .action(async (repositoryName: string, options) => {
+    await initializeMemoryServiceInstance();
+    const branch = options.branch;
+    const clientProjectRoot = getEffectiveProjectRoot();
+    try {
+      const transferService = await memoryService.transfer;
+      const result = await transferService.exportAdrs(
+        createMockContext(),
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        path.resolve(clientProjectRoot, options.dir),
+      );
+      cliLogger.info(
+        { repositoryName, branch, outputDir: result.outputDir },
+        `✅ ${result.message}`,
+      );
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'export-adr', repositoryName, branch });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import-adr')
+  .description('Import Nygard or MADR style ADRs as decisions of a repository branch')
+  .argument('<repositoryName>', 'Logical repository name')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-d, --dir <dir>', 'ADR directory, relative to the project root', 'docs/adr')
+  .option(
+    '-c, --on-conflict <policy>',
+    'How to handle existing decisions: skip or overwrite',
+    'skip',
+  )
+  .option('--dry-run', 'Report what would be imported without writing')
+  .action(async (repositoryName: string, options) => {
+    await initializeMemoryServiceInstance();
+    const branch = options.branch;
+    const clientProjectRoot = getEffectiveProjectRoot();
+    try {
+      if (!['skip', 'overwrite'].includes(options.onConflict)) {
+        throw new Error(`Unsupported conflict policy: ${options.onConflict}`);
+      }
+      const files = await readAdrDirectory(path.resolve(clientProjectRoot, options.dir));
+      const transferService = await memoryService.transfer;
+      const result = await transferService.importAdrs(
+        createMockContext(),
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        files,
+        { conflictPolicy: options.onConflict, dryRun: Boolean(options.dryRun) },
+      );
+      cliLogger.info(
+        { repositoryName, branch, outcomes: result.outcomes, errors: result.errors },
+        `${result.success ? '✅' : '❌'} ${result.message}`,
+      );
+      if (!result.success) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'import-adr', repositoryName, branch });
+      process.exit(1);
+    }
+  });
+
+/**
+ * Run a unified MCP tool handler against the project root, the same way the MCP servers do,
+ * and print its result. Options left undefined are not passed to the tool.
+ */
+async function runTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  options: { json?: boolean },
+): Promise<unknown> {
+  await initializeMemoryServiceInstance();
+  const clientProjectRoot = getEffectiveProjectRoot();
+  const toolArgs: Record<string, unknown> = { clientProjectRoot, branch: 'main' };
+  for (const [key, value] of Object.entries(args)) {
+    if (value !== undefined) {
+      toolArgs[key] = value;
+    }
+  }
+  const context = createMockContext();
+  context.session = {
+    clientProjectRoot,
+    repository: toolArgs.repository as string,
+    branch: toolArgs.branch as string,
+  };
+
+  try {
+    // Open the project database first; the MCP servers do this in memory-bank init
+    await memoryService.getKuzuClient(context, clientProjectRoot);
+    const result = await toolHandlers[toolName](toolArgs, context, memoryService);
+    process.stdout.write(
+      options.json ? `${JSON.stringify(result, null, 2)}\n` : formatToolResult(result),
+    );
+    if (isFailedResult(result)) {
+      process.exitCode = 1;
+    }
+    return result;
+  } catch (error) {
+    if (options.json) {
+      // Keep stdout parseable for scripts
+      const message = error instanceof Error ? error.message : String(error);
+      process.stdout.write(`${JSON.stringify({ success: false, error: message }, null, 2)}\n`);
+    }
+    logError(cliLogger, error as Error, { operation: toolName, ...args });
+    process.exitCode = 1;
+    return undefined;
+  }
+}
+
+const JSON_OPTION_DESCRIPTION = 'Print the raw tool result as JSON';
+
+program
+  .command('get')
+  .description('Get a component, decision, rule, file or tag')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<entityType>', 'Entity type: component, decision, rule, file or tag')
+  .argument('<id>', 'Entity ID')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, entityType: string, id: string, options) => {
+    await runTool(
+      'entity',
+      { operation: 'get', repository: repositoryName, branch: options.branch, entityType, id },
+      options,
+    );
+  });
+
+program
+  .command('update')
+  .description('Update a component, decision, rule, file or tag')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<entityType>', 'Entity type: component, decision, rule, file or tag')
+  .argument('<id>', 'Entity ID')
+  .requiredOption('-d, --data <json>', 'Fields to update as a JSON object', parseJsonOption)
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, entityType: string, id: string, options) => {
+    await runTool(
+      'entity',
+      {
+        operation: 'update',
+        repository: repositoryName,
+        branch: options.branch,
+        entityType,
+        id,
+        data: options.data,
+      },
+      options,
+    );
+  });
+
+program
+  .command('merge')
+  .description('Merge an entity into another of the same type, moving its relationships')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<entityType>', 'Entity type: component, decision, rule, file or tag')
+  .argument('<sourceId>', 'ID of the entity to merge; it is deleted and resolves to the target')
+  .argument('<targetId>', 'ID of the entity to keep')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(
+    async (
+      repositoryName: string,
+      entityType: string,
+      sourceId: string,
+      targetId: string,
+      options,
+    ) => {
+      await runTool(
+        'entity',
+        {
+          operation: 'merge',
+          repository: repositoryName,
+          branch: options.branch,
+          entityType,
+          id: sourceId,
+          targetId,
+        },
+        options,
+      );
+    },
+  );
+
+program
+  .command('delete')
+  .description('Delete a single entity')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<entityType>', 'Entity type: component, decision, rule, file, tag or context')
+  .argument('<id>', 'Entity ID')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--dry-run', 'Report what would be deleted without deleting')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, entityType: string, id: string, options) => {
+    await runTool(
+      'delete',
+      {
+        operation: 'single',
+        repository: repositoryName,
+        branch: options.branch,
+        entityType,
+        id,
+        dryRun: options.dryRun,
+      },
+      options,
+    );
+  });
+
+program
+  .command('delete-bulk')
+  .description('Delete entities in bulk')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<mode>', 'Selection: by-type, by-tag, by-branch or by-repository')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-t, --type <entityType>', 'Entity type for by-type, or all')
+  .option('--tag <tagId>', 'Tag ID for by-tag')
+  .option('--target-branch <branch>', 'Branch to delete for by-branch')
+  .option('--confirm', 'Confirm the deletion; required unless --dry-run is given')
+  .option('--force', 'Delete entities that still have dependents')
+  .option('--dry-run', 'Report what would be deleted without deleting')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, mode: string, options) => {
+    await runTool(
+      'delete',
+      {
+        operation: `bulk-${mode}`,
+        repository: repositoryName,
+        branch: options.branch,
+        targetType: options.type,
+        tagId: options.tag,
+        targetBranch: options.targetBranch,
+        confirm: options.confirm,
+        force: options.force,
+        dryRun: options.dryRun,
+      },
+      options,
+    );
+  });
+
+program
+  .command('query')
+  .description('Query contexts, entities, relationships, dependencies, governance, history or tags')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument(
+    '<type>',
+    'Query type: context, entities, relationships, dependencies, governance, history or tags',
+  )
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--latest', 'Only the latest context (context)')
+  .option('-l, --limit <n>', 'Maximum number of results (context, entities)', parseIntegerOption)
+  .option('--offset <n>', 'Number of results to skip (entities)', parseIntegerOption)
+  .option('--label <label>', 'Node label, e.g. Component (entities)')
+  .option('--start <id>', 'Start item ID (relationships)')
+  .option('--depth <n>', 'Traversal depth (relationships)', parseIntegerOption)
+  .option('--relationship <type>', 'Relationship type filter (relationships)')
+  .option('--target-type <label>', 'Target node type filter (relationships)')
+  .option('-c, --component <id>', 'Component ID (dependencies, governance)')
+  .option('--direction <direction>', 'dependencies or dependents (dependencies)')
+  .option('--item <id>', 'Item ID (history)')
+  .option('--item-type <type>', 'Component, Decision or Rule (history)')
+  .option('--tag <tagId>', 'Tag ID (tags)')
+  .option('--entity-type <type>', 'Entity type filter (tags)')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, type: string, options) => {
+    await runTool(
+      'query',
+      {
+        type,
+        repository: repositoryName,
+        branch: options.branch,
+        latest: options.latest,
+        limit: options.limit,
+        offset: options.offset,
+        label: options.label,
+        startItemId: options.start,
+        depth: options.depth,
+        relationshipFilter: options.relationship,
+        targetNodeTypeFilter: options.targetType,
+        componentId: options.component,
+        direction: options.direction,
+        itemId: options.item,
+        itemType: options.itemType,
+        tagId: options.tag,
+        entityType: options.entityType,
+      },
+      options,
+    );
+  });
+
+program
+  .command('search')
+  .description('Search entities by full text, semantic similarity or both, or rebuild the index')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('[query]', 'Search text (not needed with --mode reindex)')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-m, --mode <mode>', 'fulltext, semantic, hybrid or reindex', 'fulltext')
+  .option('-t, --types <types>', 'Comma-separated entity types to search', parseListOption)
+  .option('-l, --limit <n>', 'Maximum number of results (1-50)', parseIntegerOption)
+  .option('--conjunctive', 'Require all terms to match (fulltext)')
+  .option('--threshold <score>', 'Minimum similarity (semantic)', parseNumberOption)
+  .option('--fusion <method>', 'rrf or weighted (hybrid)')
+  .option('--semantic-weight <weight>', 'Weight of semantic scores (hybrid)', parseNumberOption)
+  .option('--force', 'Re-embed unchanged entities (reindex)')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, query: string | undefined, options) => {
+    await runTool(
+      'search',
+      {
+        mode: options.mode,
+        query,
+        repository: repositoryName,
+        branch: options.branch,
+        entityTypes: options.types,
+        limit: options.limit,
+        conjunctive: options.conjunctive,
+        threshold: options.threshold,
+        fusion: options.fusion,
+        semanticWeight: options.semanticWeight,
+        force: options.force,
+      },
+      options,
+    );
+  });
+
+program
+  .command('analyze')
+  .description('Run a graph algorithm: pagerank, k-core, louvain or shortest-path')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<type>', 'Algorithm: pagerank, k-core, louvain or shortest-path')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-g, --graph <name>', 'Projected graph name (defaults to cli-<type>)')
+  .option('-n, --nodes <labels>', 'Comma-separated node tables', parseListOption, ['Component'])
+  .option('-r, --relationships <types>', 'Comma-separated relationship tables', parseListOption, [
+    'DEPENDS_ON',
+  ])
+  .option('--damping <factor>', 'Damping factor (pagerank)', parseNumberOption)
+  .option('--max-iterations <n>', 'Maximum iterations (pagerank)', parseIntegerOption)
+  .option('-k <k>', 'Minimum degree (k-core)', parseIntegerOption)
+  .option('--start <id>', 'Start node ID (shortest-path)')
+  .option('--end <id>', 'End node ID (shortest-path)')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, type: string, options) => {
+    await runTool(
+      'analyze',
+      {
+        type,
+        repository: repositoryName,
+        branch: options.branch,
+        projectedGraphName: options.graph ?? `cli-${type}`,
+        nodeTableNames: options.nodes,
+        relationshipTableNames: options.relationships,
+        damping: options.damping,
+        maxIterations: options.maxIterations,
+        k: options.k,
+        startNodeId: options.start,
+        endNodeId: options.end,
+      },
+      options,
+    );
+  });
+
+program
+  .command('detect')
+  .description('Detect structural patterns: cycles, islands, path or connected components')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<type>', 'cycles, islands, path, strongly-connected or weakly-connected')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-g, --graph <name>', 'Projected graph name (defaults to cli-<type>)')
+  .option('-n, --nodes <labels>', 'Comma-separated node tables', parseListOption, ['Component'])
+  .option('-r, --relationships <types>', 'Comma-separated relationship tables', parseListOption, [
+    'DEPENDS_ON',
+  ])
+  .option('--start <id>', 'Start node ID (path)')
+  .option('--end <id>', 'End node ID (path)')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, type: string, options) => {
+    await runTool(
+      'detect',
+      {
+        type,
+        repository: repositoryName,
+        branch: options.branch,
+        projectedGraphName: options.graph ?? `cli-${type}`,
+        nodeTableNames: options.nodes,
+        relationshipTableNames: options.relationships,
+        startNodeId: options.start,
+        endNodeId: options.end,
+      },
+      options,
+    );
+  });
+
+program
+  .command('introspect')
+  .description('Inspect the graph schema: labels, count, properties, indexes or schema-drift')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<query>', 'labels, count, properties, indexes or schema-drift')
+  .argument('[target]', 'Label to inspect (count, properties, schema-drift)')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, query: string, target: string | undefined, options) => {
+    await runTool(
+      'introspect',
+      { query, repository: repositoryName, branch: options.branch, target },
+      options,
+    );
+  });
+
+program
+  .command('associate')
+  .description('Link a file to a component or tag an item')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<type>', 'file-component or tag-item')
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-f, --file <id>', 'File ID (file-component)')
+  .option('-c, --component <id>', 'Component ID (file-component)')
+  .option('-t, --tag <id>', 'Tag ID (tag-item)')
+  .option('-i, --item <id>', 'Item ID (tag-item)')
+  .option('-e, --entity-type <type>', 'Component, Decision, Rule, File or Context (tag-item)')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, type: string, options) => {
+    await runTool(
+      'associate',
+      {
+        type,
+        repository: repositoryName,
+        branch: options.branch,
+        fileId: options.file,
+        componentId: options.component,
+        tagId: options.tag,
+        itemId: options.item,
+        entityType: options.entityType,
+      },
+      options,
+    );
+  });
+
+const BULK_IMPORT_TYPES = [
+  'components',
+  'decisions',
+  'rules',
+  'files',
+  'tags',
+  'contexts',
+  'relationships',
+] as const;
+
+program
+  .command('bulk-import')
+  .description('Import entities and relationships from a JSON file in the bulk-import tool format')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument(
+    '<file>',
+    'JSON file with components, decisions, rules, files, tags, contexts and relationships arrays',
+  )
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('--overwrite', 'Overwrite existing entities')
+  .option('--loader <loader>', 'upsert or copy', 'upsert')
+  .option('--progress-interval <rows>', 'Rows between progress logs (copy)', parseIntegerOption)
+  .option('--dry-run', 'Report what would be imported without writing')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, file: string, options) => {
+    let input: Record<string, unknown>;
+    try {
+      input = parseJsonOption(await fs.readFile(path.resolve(file), 'utf-8'));
+    } catch (error) {
+      logError(cliLogger, error as Error, { operation: 'bulk-import', file });
+      process.exit(1);
+    }
+    const present = BULK_IMPORT_TYPES.filter(
+      (type) => Array.isArray(input[type]) && (input[type] as unknown[]).length > 0,
+    );
+    const args = {
+      repository: repositoryName,
+      branch: options.branch,
+      overwrite: options.overwrite,
+      dryRun: options.dryRun,
+      loader: options.loader,
+      progressInterval: options.progressInterval,
+    };
+
+    if (present.length === 0) {
+      logError(cliLogger, new Error(`No items to import in ${file}`), {
+        operation: 'bulk-import',
+        file,
+      });
+      process.exit(1);
+    }
+
+    // Both loaders take every array in one call
+    await runTool('bulk-import', { ...args, ...input, type: present[0] }, options);
+  });
+
+program
+  .command('optimize')
+  .description('Analyze, optimize or roll back memory with the memory optimizer')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument(
+    '<operation>',
+    'analyze, optimize, rollback, list-snapshots, compact-snapshots, list-snapshot-policies, set-snapshot-policy, delete-snapshot-policy or prune-snapshots',
+  )
+  .option('-b, --branch <branch>', 'Branch name', 'main')
+  .option('-s, --strategy <strategy>', 'conservative, balanced or aggressive')
+  .option(
+    '--provider <provider>',
+    'LLM provider: openai, anthropic, openai-compatible, replay or heuristic',
+  )
+  .option('--model <model>', 'LLM model')
+  .option('--analyzer-model <model>', 'LLM model for analysis')
+  .option('--optimizer-model <model>', 'LLM model for optimization plans')
+  .option(
+    '--base-url <url>',
+    'Base URL of an OpenAI-compatible server (default: OPENAI_COMPATIBLE_BASE_URL)',
+  )
+  .option(
+    '--replay-file <path>',
+    'Recorded responses for the replay provider, relative to the project root',
+  )
+  .option('--analysis <id>', 'Analysis ID to optimize')
+  .option('--snapshot <id>', 'Snapshot ID to roll back to')
+  .option(
+    '--max-chain-length <n>',
+    'Longest snapshot delta chain kept (compact-snapshots)',
+    parseIntegerOption,
+  )
+  .option('--schedule <schedule>', 'Snapshot schedule: none, hourly, daily or weekly')
+  .option('--before-bulk-delete', 'Snapshot the branch before bulk deletes')
+  .option('--no-before-bulk-delete', 'Do not snapshot the branch before bulk deletes')
+  .option('--before-bulk-import', 'Snapshot the branch before bulk imports')
+  .option('--no-before-bulk-import', 'Do not snapshot the branch before bulk imports')
+  .option('--keep-last <n>', 'Retention: keep the newest n snapshots', parseIntegerOption)
+  .option(
+    '--keep-daily <days>',
+    'Retention: keep the newest snapshot of each of the last days',
+    parseIntegerOption,
+  )
+  .option(
+    '--keep-weekly <weeks>',
+    'Retention: keep the newest snapshot of each of the last weeks',
+    parseIntegerOption,
+  )
+  .option('--max-deletions <n>', 'Maximum number of deletions (1-100)', parseIntegerOption)
+  .option('--focus <areas>', 'Comma-separated focus areas', parseListOption)
+  .option('--preserve <categories>', 'Comma-separated categories to preserve', parseListOption)
+  .option('--no-sampling', 'Disable context sampling')
+  .option('--sampling-strategy <strategy>', 'representative, problematic, recent or diverse')
+  .option('--snapshot-failure-policy <policy>', 'abort, continue or warn')
+  .option('--execute', 'Apply the optimization (default is a dry run)')
+  .option('--confirm', 'Confirm execution; required with --execute')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, operation: string, options) => {
+    if (options.baseUrl) {
+      // The CLI runs the tools in process, so its flag configures the server side
+      process.env.OPENAI_COMPATIBLE_BASE_URL = options.baseUrl;
+    }
+    await runTool(
+      'memory-optimizer',
+      {
+        operation,
+        repository: repositoryName,
+        branch: options.branch,
+        strategy: options.strategy,
+        llmProvider: options.provider,
+        model: options.model,
+        models:
+          options.analyzerModel || options.optimizerModel
+            ? { analyzer: options.analyzerModel, optimizer: options.optimizerModel }
+            : undefined,
+        replayFile: options.replayFile,
+        analysisId: options.analysis,
+        snapshotId: options.snapshot,
+        maxChainLength: options.maxChainLength,
+        snapshotPolicy:
+          operation === 'set-snapshot-policy'
+            ? {
+                schedule: options.schedule,
+                beforeBulkDelete: options.beforeBulkDelete,
+                beforeBulkImport: options.beforeBulkImport,
+                retention:
+                  options.keepLast !== undefined ||
+                  options.keepDaily !== undefined ||
+                  options.keepWeekly !== undefined
+                    ? {
+                        keepLast: options.keepLast,
+                        keepDaily: options.keepDaily,
+                        keepWeekly: options.keepWeekly,
+                      }
+                    : undefined,
+              }
+            : undefined,
+        maxDeletions: options.maxDeletions,
+        focusAreas: options.focus,
+        preserveCategories: options.preserve,
+        enableMCPSampling: options.sampling,
+        samplingStrategy: options.samplingStrategy,
+        snapshotFailurePolicy: options.snapshotFailurePolicy,
+        dryRun: !options.execute,
+        confirm: options.confirm,
+      },
+      options,
+    );
+  });
+
+program
+  .command('branch')
+  .description('Compare or merge the memory of two branches')
+  .argument('<repositoryName>', 'Logical repository name')
+  .argument('<operation>', 'diff or merge')
+  .argument('<sourceBranch>', 'Branch to compare or merge from')
+  .option('-t, --target <branch>', 'Branch to compare with or merge into', 'main')
+  .option('-s, --strategy <strategy>', 'Conflict strategy for merge: ours, theirs or fail')
+  .option('--base-snapshot <id>', 'Snapshot of the common base for a three-way merge')
+  .option('--dry-run', 'Report what a merge would change without writing')
+  .option('--json', JSON_OPTION_DESCRIPTION)
+  .action(async (repositoryName: string, operation: string, sourceBranch: string, options) => {
+    await runTool(
+      'branch',
+      {
+        operation,
+        repository: repositoryName,
+        sourceBranch,
+        targetBranch: options.target,
+        strategy: options.strategy,
+        baseSnapshotId: options.baseSnapshot,
+        dryRun: options.dryRun,
+      },
+      options,
+    );
+  });
+
+program
+  .command('auth-token')
+  .description('Create an HMAC-signed bearer token for the HTTP stream server')
+  .argument('<subject>', 'Token subject (user or agent name)')
+  .option('-r, --repositories <repositories>', 'Comma-separated list of allowed repositories')
+  .option('-e, --expires-in <seconds>', 'Token lifetime in seconds')
+  .action((subject: string, options) => {
+    const secret = process.env.MCP_AUTH_HMAC_SECRET;
+    if (!secret) {
+      cliLogger.error('MCP_AUTH_HMAC_SECRET must be set to sign tokens');
+      process.exit(1);
+    }
+    const token = createAuthToken(
+      {
+        sub: subject,
+        repositories: options.repositories ? options.repositories.split(',') : undefined,
+      },
+      secret,
+      options.expiresIn ? parseInt(options.expiresIn, 10) : undefined,
+    );
+    // Print the bare token so it can be captured by scripts
+    process.stdout.write(`${token}\n`);
+  });
+
 // Helper functions (processDirectory, parseFilePath, getYamlType) remain unchanged if they are not directly calling MemoryService
 // ... (keep existing helper functions)
 async function processDirectory(dir: string): Promise<Record<string, string>> {
@@ -0,0 +1,109 @@
+import { InvalidArgumentError } from 'commander';
+
+/**
+ * Whether a tool result reports a failure. Tools report failures as `success: false` or
+ * `status: 'error'`; results without either flag count as successful.
+ */
+export function isFailedResult(result: unknown): boolean {
+  if (!result || typeof result !== 'object') {
+    return false;
+  }
+  const { success, status } = result as { success?: unknown; status?: unknown };
+  return success === false || status === 'error';
+}
+
+function formatScalar(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string' && value !== '') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || typeof value !== 'object' || value instanceof Date;
+}
+
+function formatLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isScalar(item)) {
+        return [`${indent}- ${formatScalar(item)}`];
+      }
+      // Continue the first line of the item after the dash
+      const [first = '', ...rest] = formatLines(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, field]) => field !== undefined && field !== null)
+    .flatMap(([key, field]) => {
+      if (isScalar(field)) {
+        return [`${indent}${key}: ${formatScalar(field)}`];
+      }
+      if (Array.isArray(field) && field.length === 0) {
+        return [`${indent}${key}: []`];
+      }
+      if (Array.isArray(field) && field.every(isScalar)) {
+        return [`${indent}${key}: ${field.map(formatScalar).join(', ')}`];
+      }
+      return [`${indent}${key}:`, ...formatLines(field, `${indent}  `)];
+    });
+}
+
+/**
+ * Render a tool result for a terminal: the result's message first, then the remaining
+ * fields as indented `key: value` lines.
+ */
+export function formatToolResult(result: unknown): string {
+  if (isScalar(result)) {
+    return `${formatScalar(result)}\n`;
+  }
+  if (Array.isArray(result)) {
+    return `${formatLines(result, '').join('\n')}\n`;
+  }
+  const { message, ...fields } = result as Record<string, unknown>;
+  const lines = formatLines(fields, '');
+  if (typeof message === 'string') {
+    lines.unshift(message);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function parseIntegerOption(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new InvalidArgumentError('Not an integer.');
+  }
+  return parsed;
+}
+
+export function parseNumberOption(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed)) {
+    throw new InvalidArgumentError('Not a number.');
+  }
+  return parsed;
+}
+
+export function parseListOption(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parseJsonOption(value: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new InvalidArgumentError('Not valid JSON.');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new InvalidArgumentError('Expected a JSON object.');
+  }
+  return parsed as Record<string, unknown>;
+}
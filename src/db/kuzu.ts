@@ -5,6 +5,7 @@ import { kuzuLogger } from '../utils/logger';
 import { BaseKuzuClient } from './base/base-kuzu-client';
 import { KuzuConnectionManager } from './services/kuzu-connection-manager';
 import { KuzuErrorHandler } from './services/kuzu-error-handler';
+import { KuzuMigrationRunner } from './services/kuzu-migration-runner';
 import { KuzuQueryExecutor } from './services/kuzu-query-executor';
 import { KuzuSchemaManager } from './services/kuzu-schema-manager';
 import { KuzuTransactionManager } from './services/kuzu-transaction-manager';
@@ -17,6 +18,7 @@ import { KuzuTransactionManager } from './services/kuzu-transaction-manager';
  * - KuzuQueryExecutor: Query execution and prepared statements
  * - KuzuTransactionManager: Transaction handling and rollback
  * - KuzuSchemaManager: Schema initialization and DDL operations
+ * - KuzuMigrationRunner: Versioned schema migrations
  * - KuzuErrorHandler: Error handling and recovery
  */
 export class KuzuDBClient extends BaseKuzuClient {
@@ -25,6 +27,7 @@ export class KuzuDBClient extends BaseKuzuClient {
   private queryExecutor: KuzuQueryExecutor;
   private transactionManager: KuzuTransactionManager;
   private schemaManager: KuzuSchemaManager;
+  private migrationRunner: KuzuMigrationRunner;
   private errorHandler: KuzuErrorHandler;
 
   /**
@@ -37,7 +40,16 @@ export class KuzuDBClient extends BaseKuzuClient {
     this.connectionManager = new KuzuConnectionManager(clientProjectRoot);
     this.queryExecutor = new KuzuQueryExecutor(clientProjectRoot, this.connectionManager);
     this.transactionManager = new KuzuTransactionManager(clientProjectRoot, this.connectionManager);
-    this.schemaManager = new KuzuSchemaManager(clientProjectRoot, this.queryExecutor);
+    this.migrationRunner = new KuzuMigrationRunner(
+      clientProjectRoot,
+      this.queryExecutor,
+      this.transactionManager,
+    );
+    this.schemaManager = new KuzuSchemaManager(
+      clientProjectRoot,
+      this.queryExecutor,
+      this.migrationRunner,
+    );
     this.errorHandler = new KuzuErrorHandler(clientProjectRoot);
   }
 
@@ -60,7 +72,27 @@ export class KuzuDBClient extends BaseKuzuClient {
         missingTables: schemaValid.missingTables,
       });
       await this.schemaManager.initializeSchema();
+    } else {
+      await this.schemaManager.checkMigrations();
     }
+
+    // Drift is only reported; it never blocks startup
+    await this.schemaManager.checkSchemaDrift();
+  }
+
+  /**
+   * Open the database without initializing or migrating the schema, for maintenance
+   * tasks such as the migrate CLI command
+   */
+  async connect(): Promise<void> {
+    await this.connectionManager.initialize();
+  }
+
+  /**
+   * Get the runner for versioned schema migrations
+   */
+  getMigrationRunner(): KuzuMigrationRunner {
+    return this.migrationRunner;
   }
 
   /**
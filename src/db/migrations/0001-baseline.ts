@@ -0,0 +1,161 @@
+import { type SchemaMigration } from './migration.types';
+
+/**
+ * Schema as it existed before versioned migrations were introduced.
+ * Every statement is idempotent so the migration also applies to databases created
+ * before schema versions were recorded.
+ */
+export const baselineMigration: SchemaMigration = {
+  version: 1,
+  name: 'baseline',
+  description: 'Node and relationship tables of the memory graph',
+  up: [
+    // Repository table
+    `CREATE NODE TABLE IF NOT EXISTS Repository (
+      id STRING,
+      name STRING,
+      branch STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      techStack STRING[],
+      architecture STRING,
+      PRIMARY KEY (id)
+    );`,
+
+    // Component table
+    `CREATE NODE TABLE IF NOT EXISTS Component (
+      id STRING,
+      name STRING,
+      kind STRING,
+      status STRING,
+      dependsOn STRING[],
+      description STRING,
+      metadata STRING,
+      graph_unique_id STRING,
+      branch STRING,
+      repository STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (graph_unique_id)
+    );`,
+
+    // Decision table
+    `CREATE NODE TABLE IF NOT EXISTS Decision (
+      id STRING,
+      title STRING,
+      rationale STRING,
+      status STRING,
+      dateCreated TIMESTAMP,
+      impact STRING[],
+      tags STRING[],
+      graph_unique_id STRING,
+      branch STRING,
+      repository STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (graph_unique_id)
+    );`,
+
+    // Rule table
+    `CREATE NODE TABLE IF NOT EXISTS Rule (
+      id STRING,
+      title STRING,
+      description STRING,
+      scope STRING,
+      severity STRING,
+      category STRING,
+      examples STRING[],
+      graph_unique_id STRING,
+      branch STRING,
+      repository STRING,
+      status STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (graph_unique_id)
+    );`,
+
+    // File table
+    `CREATE NODE TABLE IF NOT EXISTS File (
+      id STRING,
+      name STRING,
+      path STRING,
+      size INT64,
+      mime_type STRING,
+      lastModified TIMESTAMP,
+      checksum STRING,
+      metadata STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      repository STRING,
+      branch STRING,
+      PRIMARY KEY (id)
+    );`,
+
+    // Tag table
+    `CREATE NODE TABLE IF NOT EXISTS Tag (
+      id STRING,
+      name STRING,
+      category STRING,
+      description STRING,
+      color STRING,
+      repository STRING,
+      branch STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (id)
+    );`,
+
+    // Context table
+    `CREATE NODE TABLE IF NOT EXISTS Context (
+      id STRING,
+      agent STRING,
+      summary STRING,
+      observation STRING,
+      timestamp TIMESTAMP,
+      repository STRING,
+      branch STRING,
+      graph_unique_id STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (graph_unique_id)
+    );`,
+
+    // Metadata table
+    `CREATE NODE TABLE IF NOT EXISTS Metadata (
+      id STRING,
+      graph_unique_id STRING,
+      branch STRING,
+      name STRING,
+      content STRING,
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (graph_unique_id)
+    );`,
+
+    // Embedding table (entity vectors for semantic search)
+    `CREATE NODE TABLE IF NOT EXISTS Embedding (
+      id STRING,
+      entity_id STRING,
+      entity_label STRING,
+      repository STRING,
+      branch STRING,
+      provider STRING,
+      dimensions INT64,
+      content_hash STRING,
+      vector DOUBLE[],
+      created_at TIMESTAMP,
+      updated_at TIMESTAMP,
+      PRIMARY KEY (id)
+    );`,
+
+    // Relationship tables
+    'CREATE REL TABLE IF NOT EXISTS DEPENDS_ON (FROM Component TO Component);',
+    'CREATE REL TABLE IF NOT EXISTS IMPLEMENTS (FROM Component TO File);',
+    'CREATE REL TABLE IF NOT EXISTS TAGGED_WITH (FROM Component TO Tag, FROM Decision TO Tag, FROM Rule TO Tag, FROM File TO Tag);',
+    'CREATE REL TABLE IF NOT EXISTS GOVERNS (FROM Rule TO Component);',
+    'CREATE REL TABLE IF NOT EXISTS AFFECTS (FROM Decision TO Component);',
+    'CREATE REL TABLE IF NOT EXISTS CONTEXT_OF (FROM Context TO Component, FROM Context TO Decision, FROM Context TO Rule);',
+    'CREATE REL TABLE IF NOT EXISTS PART_OF (FROM Component TO Repository, FROM Decision TO Repository, FROM Rule TO Repository, FROM File TO Repository, FROM Tag TO Repository, FROM Context TO Repository);',
+    'CREATE REL TABLE IF NOT EXISTS HAS_METADATA (FROM Repository TO Metadata);',
+  ],
+};
@@ -0,0 +1,12 @@
+import { type SchemaMigration } from './migration.types';
+
+/**
+ * Files accepted a language from the entity tool, but the File table had no column for it
+ */
+export const fileLanguageMigration: SchemaMigration = {
+  version: 2,
+  name: 'file-language',
+  description: 'Add the language column to File',
+  up: ['ALTER TABLE File ADD IF NOT EXISTS language STRING;'],
+  down: ['ALTER TABLE File DROP IF EXISTS language;'],
+};
@@ -0,0 +1,21 @@
+import { type SchemaMigration } from './migration.types';
+
+/**
+ * Architecture decision records carry a decision outcome, consequences and supersedes
+ * links besides the context kept in rationale
+ */
+export const decisionAdrFieldsMigration: SchemaMigration = {
+  version: 3,
+  name: 'decision-adr-fields',
+  description: 'Add outcome and consequences to Decision and the SUPERSEDES relationship',
+  up: [
+    'ALTER TABLE Decision ADD IF NOT EXISTS outcome STRING;',
+    'ALTER TABLE Decision ADD IF NOT EXISTS consequences STRING;',
+    'CREATE REL TABLE IF NOT EXISTS SUPERSEDES (FROM Decision TO Decision);',
+  ],
+  down: [
+    'DROP TABLE IF EXISTS SUPERSEDES;',
+    'ALTER TABLE Decision DROP IF EXISTS consequences;',
+    'ALTER TABLE Decision DROP IF EXISTS outcome;',
+  ],
+};
@@ -0,0 +1,17 @@
+import { type SchemaMigration } from './migration.types';
+
+const MERGEABLE_LABELS = ['Component', 'Decision', 'Rule', 'File', 'Tag', 'Context'];
+
+/**
+ * Entities remember the IDs of the entities merged into them so the old IDs still
+ * resolve after a merge
+ */
+export const entityMergedFromMigration: SchemaMigration = {
+  version: 4,
+  name: 'entity-merged-from',
+  description: 'Add merged_from to the entity tables',
+  up: MERGEABLE_LABELS.map(
+    (label) => `ALTER TABLE ${label} ADD IF NOT EXISTS merged_from STRING[];`,
+  ),
+  down: MERGEABLE_LABELS.map((label) => `ALTER TABLE ${label} DROP IF EXISTS merged_from;`),
+};
@@ -0,0 +1,26 @@
+import { type SchemaMigration } from './migration.types';
+
+/**
+ * Decisions, rules and files carry fields in their types and tool schemas that the
+ * baseline tables had no column for
+ */
+export const entityModelFieldsMigration: SchemaMigration = {
+  version: 5,
+  name: 'entity-model-fields',
+  description:
+    'Add context and date to Decision, content and triggers to Rule, content_hash to File',
+  up: [
+    'ALTER TABLE Decision ADD IF NOT EXISTS context STRING;',
+    'ALTER TABLE Decision ADD IF NOT EXISTS date DATE;',
+    'ALTER TABLE Rule ADD IF NOT EXISTS content STRING;',
+    'ALTER TABLE Rule ADD IF NOT EXISTS triggers STRING[];',
+    'ALTER TABLE File ADD IF NOT EXISTS content_hash STRING;',
+  ],
+  down: [
+    'ALTER TABLE File DROP IF EXISTS content_hash;',
+    'ALTER TABLE Rule DROP IF EXISTS triggers;',
+    'ALTER TABLE Rule DROP IF EXISTS content;',
+    'ALTER TABLE Decision DROP IF EXISTS date;',
+    'ALTER TABLE Decision DROP IF EXISTS context;',
+  ],
+};
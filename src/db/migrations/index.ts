@@ -0,0 +1,20 @@
+import { baselineMigration } from './0001-baseline';
+import { fileLanguageMigration } from './0002-file-language';
+import { decisionAdrFieldsMigration } from './0003-decision-adr-fields';
+import { entityMergedFromMigration } from './0004-entity-merged-from';
+import { entityModelFieldsMigration } from './0005-entity-model-fields';
+import { type SchemaMigration } from './migration.types';
+
+export * from './migration.types';
+
+/**
+ * All schema migrations in version order. Add new migrations as NNNN-name.ts files and
+ * append them here; never edit a migration that has been released.
+ */
+export const MIGRATIONS: SchemaMigration[] = [
+  baselineMigration,
+  fileLanguageMigration,
+  decisionAdrFieldsMigration,
+  entityMergedFromMigration,
+  entityModelFieldsMigration,
+];
@@ -0,0 +1,35 @@
+/**
+ * A versioned change to the KuzuDB schema.
+ * Migrations are applied in ascending version order; each one runs in its own
+ * transaction together with the update of the recorded schema version.
+ */
+export interface SchemaMigration {
+  /** Positive, unique and consecutive version number */
+  version: number;
+  /** Short kebab-case name, matching the migration file name */
+  name: string;
+  description?: string;
+  /** DDL statements that upgrade the schema from version - 1 to version */
+  up: string[];
+  /** DDL statements that revert `up`; migrations without them cannot be rolled back */
+  down?: string[];
+}
+
+export type MigrationDirection = 'up' | 'down';
+
+/**
+ * The migrations needed to move a database from one schema version to another
+ */
+export interface MigrationPlan {
+  direction: MigrationDirection;
+  fromVersion: number;
+  toVersion: number;
+  steps: Array<{ version: number; name: string; statements: string[] }>;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: Array<{ version: number; name: string; appliedAt: Date | string | null }>;
+  pending: Array<{ version: number; name: string; description?: string }>;
+}
@@ -0,0 +1,230 @@
+/**
+ * Property of a node table: its name and Kuzu data type (e.g. STRING, INT64, STRING[])
+ */
+export interface PropertyDefinition {
+  name: string;
+  type: string;
+}
+
+/**
+ * Properties the application model expects on each node table, keyed by label.
+ * Covers the columns the repositories read and write plus the fields the TypeScript
+ * types and tool schemas carry for each entity.
+ */
+export const EXPECTED_NODE_PROPERTIES: Record<string, Record<string, string>> = {
+  Repository: {
+    id: 'STRING',
+    name: 'STRING',
+    branch: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    techStack: 'STRING[]',
+    architecture: 'STRING',
+  },
+  Component: {
+    id: 'STRING',
+    name: 'STRING',
+    kind: 'STRING',
+    status: 'STRING',
+    dependsOn: 'STRING[]',
+    description: 'STRING',
+    metadata: 'STRING',
+    graph_unique_id: 'STRING',
+    branch: 'STRING',
+    repository: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    merged_from: 'STRING[]',
+  },
+  Decision: {
+    id: 'STRING',
+    title: 'STRING',
+    rationale: 'STRING',
+    context: 'STRING',
+    status: 'STRING',
+    date: 'DATE',
+    dateCreated: 'TIMESTAMP',
+    impact: 'STRING[]',
+    tags: 'STRING[]',
+    outcome: 'STRING',
+    consequences: 'STRING',
+    graph_unique_id: 'STRING',
+    branch: 'STRING',
+    repository: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    merged_from: 'STRING[]',
+  },
+  Rule: {
+    id: 'STRING',
+    title: 'STRING',
+    description: 'STRING',
+    content: 'STRING',
+    triggers: 'STRING[]',
+    scope: 'STRING',
+    severity: 'STRING',
+    category: 'STRING',
+    examples: 'STRING[]',
+    graph_unique_id: 'STRING',
+    branch: 'STRING',
+    repository: 'STRING',
+    status: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    merged_from: 'STRING[]',
+  },
+  File: {
+    id: 'STRING',
+    name: 'STRING',
+    path: 'STRING',
+    size: 'INT64',
+    mime_type: 'STRING',
+    language: 'STRING',
+    lastModified: 'TIMESTAMP',
+    checksum: 'STRING',
+    content_hash: 'STRING',
+    metadata: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    repository: 'STRING',
+    branch: 'STRING',
+    merged_from: 'STRING[]',
+  },
+  Tag: {
+    id: 'STRING',
+    name: 'STRING',
+    category: 'STRING',
+    description: 'STRING',
+    color: 'STRING',
+    repository: 'STRING',
+    branch: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    merged_from: 'STRING[]',
+  },
+  Context: {
+    id: 'STRING',
+    agent: 'STRING',
+    summary: 'STRING',
+    observation: 'STRING',
+    timestamp: 'TIMESTAMP',
+    repository: 'STRING',
+    branch: 'STRING',
+    graph_unique_id: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+    merged_from: 'STRING[]',
+  },
+  Metadata: {
+    id: 'STRING',
+    graph_unique_id: 'STRING',
+    branch: 'STRING',
+    name: 'STRING',
+    content: 'STRING',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+  },
+  Embedding: {
+    id: 'STRING',
+    entity_id: 'STRING',
+    entity_label: 'STRING',
+    repository: 'STRING',
+    branch: 'STRING',
+    provider: 'STRING',
+    dimensions: 'INT64',
+    content_hash: 'STRING',
+    vector: 'DOUBLE[]',
+    created_at: 'TIMESTAMP',
+    updated_at: 'TIMESTAMP',
+  },
+};
+
+/**
+ * Differences between the live properties of one node table and the expected model
+ */
+export interface LabelSchemaDrift {
+  label: string;
+  tableMissing: boolean;
+  missing: PropertyDefinition[];
+  extra: PropertyDefinition[];
+  typeMismatches: Array<{ name: string; expectedType: string; actualType: string }>;
+}
+
+export interface SchemaDriftReport {
+  inSync: boolean;
+  labels: LabelSchemaDrift[];
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Compare the live properties of a node table with the expected ones.
+ * An empty property list means the table does not exist.
+ */
+export function compareNodeProperties(
+  label: string,
+  expected: Record<string, string>,
+  actual: PropertyDefinition[],
+): LabelSchemaDrift {
+  const actualTypes = new Map(actual.map((property) => [property.name, property.type]));
+  const drift: LabelSchemaDrift = {
+    label,
+    tableMissing: actual.length === 0,
+    missing: [],
+    extra: actual.filter((property) => !(property.name in expected)),
+    typeMismatches: [],
+  };
+
+  for (const [name, expectedType] of Object.entries(expected)) {
+    const actualType = actualTypes.get(name);
+    if (actualType === undefined) {
+      drift.missing.push({ name, type: expectedType });
+    } else if (normalizeType(actualType) !== normalizeType(expectedType)) {
+      drift.typeMismatches.push({ name, expectedType, actualType });
+    }
+  }
+  return drift;
+}
+
+/**
+ * Build a drift report for every label of the expected model present in `actualByLabel`
+ */
+export function detectSchemaDrift(
+  actualByLabel: Record<string, PropertyDefinition[]>,
+  expected: Record<string, Record<string, string>> = EXPECTED_NODE_PROPERTIES,
+): SchemaDriftReport {
+  const labels = Object.keys(actualByLabel)
+    .filter((label) => label in expected)
+    .map((label) => compareNodeProperties(label, expected[label], actualByLabel[label]));
+  return {
+    inSync: labels.every(
+      (drift) =>
+        !drift.tableMissing &&
+        drift.missing.length === 0 &&
+        drift.extra.length === 0 &&
+        drift.typeMismatches.length === 0,
+    ),
+    labels,
+  };
+}
+
+/**
+ * One line per drifting label, e.g. `Rule: missing content, triggers; extra examples`
+ */
+export function summarizeSchemaDrift(report: SchemaDriftReport): string[] {
+  return report.labels.flatMap((drift) => {
+    if (drift.tableMissing) {
+      return [`${drift.label}: table missing`];
+    }
+    const parts = [
+      drift.missing.length ? `missing ${drift.missing.map((p) => p.name).join(', ')}` : '',
+      drift.extra.length ? `extra ${drift.extra.map((p) => p.name).join(', ')}` : '',
+      ...drift.typeMismatches.map(
+        (m) => `${m.name} is ${m.actualType} instead of ${m.expectedType}`,
+      ),
+    ].filter(Boolean);
+    return parts.length ? [`${drift.label}: ${parts.join('; ')}`] : [];
+  });
+}
@@ -0,0 +1,222 @@
+import { createPerformanceLogger, logError } from '../../utils/logger';
+import { BaseKuzuClient } from '../base/base-kuzu-client';
+import {
+  MIGRATIONS,
+  type MigrationPlan,
+  type MigrationStatus,
+  type SchemaMigration,
+} from '../migrations';
+import { KuzuQueryExecutor } from './kuzu-query-executor';
+import { KuzuTransactionManager } from './kuzu-transaction-manager';
+
+/**
+ * Node table recording one row per applied migration
+ */
+export const SCHEMA_VERSION_TABLE = 'SchemaVersion';
+
+const CREATE_SCHEMA_VERSION_TABLE = `CREATE NODE TABLE IF NOT EXISTS ${SCHEMA_VERSION_TABLE} (
+  version INT64,
+  name STRING,
+  applied_at TIMESTAMP,
+  PRIMARY KEY (version)
+);`;
+
+/**
+ * Service responsible for versioned schema migrations
+ * Tracks the schema version stored in the database and applies or reverts migrations
+ */
+export class KuzuMigrationRunner extends BaseKuzuClient {
+  private queryExecutor: KuzuQueryExecutor;
+  private transactionManager: KuzuTransactionManager;
+  private migrations: SchemaMigration[];
+
+  constructor(
+    clientProjectRoot: string,
+    queryExecutor: KuzuQueryExecutor,
+    transactionManager: KuzuTransactionManager,
+    migrations: SchemaMigration[] = MIGRATIONS,
+  ) {
+    super(clientProjectRoot);
+    this.queryExecutor = queryExecutor;
+    this.transactionManager = transactionManager;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.migrations.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new Error(
+          `Schema migrations must be numbered consecutively from 1; found version ${migration.version} at position ${index + 1}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Latest schema version known to this build
+   */
+  getLatestVersion(): number {
+    return this.migrations.length;
+  }
+
+  /**
+   * Schema version recorded in the database; 0 when no migration has been recorded
+   */
+  async getCurrentVersion(): Promise<number> {
+    const applied = await this.getAppliedMigrations();
+    return applied.reduce((max, row) => Math.max(max, row.version), 0);
+  }
+
+  /**
+   * Applied and pending migrations of the database
+   */
+  async getStatus(): Promise<MigrationStatus> {
+    const applied = await this.getAppliedMigrations();
+    const currentVersion = applied.reduce((max, row) => Math.max(max, row.version), 0);
+    return {
+      currentVersion,
+      latestVersion: this.getLatestVersion(),
+      applied,
+      pending: this.migrations
+        .filter((migration) => migration.version > currentVersion)
+        .map(({ version, name, description }) => ({ version, name, description })),
+    };
+  }
+
+  /**
+   * Work out the migrations needed to reach a target version (the latest by default)
+   * @throws Error when the target is unknown or a migration on the way down has no down steps
+   */
+  async plan(targetVersion: number = this.getLatestVersion()): Promise<MigrationPlan> {
+    if (!Number.isInteger(targetVersion) || targetVersion < 0) {
+      throw new Error(`Invalid target schema version ${targetVersion}`);
+    }
+    if (targetVersion > this.getLatestVersion()) {
+      throw new Error(
+        `Target schema version ${targetVersion} is newer than the latest known version ${this.getLatestVersion()}`,
+      );
+    }
+
+    const fromVersion = await this.getCurrentVersion();
+    if (fromVersion > this.getLatestVersion()) {
+      throw new Error(
+        `Database schema version ${fromVersion} is newer than this server supports (${this.getLatestVersion()}); upgrade the server`,
+      );
+    }
+
+    if (targetVersion >= fromVersion) {
+      return {
+        direction: 'up',
+        fromVersion,
+        toVersion: targetVersion,
+        steps: this.migrations
+          .filter((m) => m.version > fromVersion && m.version <= targetVersion)
+          .map((m) => ({ version: m.version, name: m.name, statements: m.up })),
+      };
+    }
+
+    const steps = this.migrations
+      .filter((m) => m.version <= fromVersion && m.version > targetVersion)
+      .reverse()
+      .map((m) => {
+        if (!m.down) {
+          throw new Error(`Migration ${m.version} (${m.name}) cannot be rolled back`);
+        }
+        return { version: m.version, name: m.name, statements: m.down };
+      });
+    return { direction: 'down', fromVersion, toVersion: targetVersion, steps };
+  }
+
+  /**
+   * Migrate the schema to a target version (the latest by default).
+   * With dryRun the plan is returned without touching the database.
+   */
+  async migrate(
+    options: { targetVersion?: number; dryRun?: boolean } = {},
+  ): Promise<MigrationPlan> {
+    const migrationPlan = await this.plan(options.targetVersion);
+    const logger = this.createOperationLogger('migrate', {
+      direction: migrationPlan.direction,
+      fromVersion: migrationPlan.fromVersion,
+      toVersion: migrationPlan.toVersion,
+      dryRun: !!options.dryRun,
+    });
+
+    if (options.dryRun || migrationPlan.steps.length === 0) {
+      logger.debug({ steps: migrationPlan.steps.length }, 'No migrations applied');
+      return migrationPlan;
+    }
+
+    const perfLogger = createPerformanceLogger(logger, 'schema-migration');
+    await this.queryExecutor.executeQuery(CREATE_SCHEMA_VERSION_TABLE);
+
+    for (const step of migrationPlan.steps) {
+      try {
+        await this.transactionManager.transaction(async (tx) => {
+          for (const statement of step.statements) {
+            await tx.executeQuery(statement);
+          }
+          if (migrationPlan.direction === 'up') {
+            await tx.executeQuery(
+              `CREATE (v:${SCHEMA_VERSION_TABLE} {version: $version, name: $name, applied_at: $now})`,
+              { version: step.version, name: step.name, now: new Date() },
+            );
+          } else {
+            await tx.executeQuery(
+              `MATCH (v:${SCHEMA_VERSION_TABLE} {version: $version}) DELETE v`,
+              { version: step.version },
+            );
+          }
+        });
+        logger.info(
+          { version: step.version, name: step.name },
+          `Schema migration ${migrationPlan.direction === 'up' ? 'applied' : 'reverted'}`,
+        );
+      } catch (error) {
+        perfLogger.fail(error as Error);
+        logError(logger, error as Error, { version: step.version, name: step.name });
+        throw new Error(
+          `Schema migration ${step.version} (${step.name}) failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    perfLogger.complete();
+    return migrationPlan;
+  }
+
+  private async getAppliedMigrations(): Promise<MigrationStatus['applied']> {
+    if (!(await this.queryExecutor.tableExists(SCHEMA_VERSION_TABLE))) {
+      return [];
+    }
+    const rows = await this.queryExecutor.executeQuery(
+      `MATCH (v:${SCHEMA_VERSION_TABLE}) RETURN v.version AS version, v.name AS name, v.applied_at AS appliedAt ORDER BY v.version`,
+    );
+    return (rows || []).map((row: any) => ({
+      version: Number(row.version),
+      name: row.name,
+      appliedAt: row.appliedAt ?? null,
+    }));
+  }
+}
+
+/**
+ * Render a migration plan as the DDL it would execute, for dry runs
+ */
+export function formatMigrationPlan(migrationPlan: MigrationPlan): string {
+  if (migrationPlan.steps.length === 0) {
+    return `-- Schema is at version ${migrationPlan.fromVersion}; nothing to migrate`;
+  }
+  const verb = migrationPlan.direction === 'up' ? 'Apply' : 'Revert';
+  return migrationPlan.steps
+    .map((step) =>
+      [
+        `-- ${verb} migration ${step.version} (${step.name})`,
+        ...step.statements.map((statement) =>
+          statement
+            .split('\n')
+            .map((line) => line.trim())
+            .join('\n  ')
+            .replace(/\n {2}\)/g, '\n)'),
+        ),
+      ].join('\n'),
+    )
+    .join('\n\n');
+}
@@ -1,17 +1,32 @@
 import { createPerformanceLogger, logError } from '../../utils/logger';
 import { BaseKuzuClient } from '../base/base-kuzu-client';
+import {
+  detectSchemaDrift,
+  EXPECTED_NODE_PROPERTIES,
+  summarizeSchemaDrift,
+  type PropertyDefinition,
+  type SchemaDriftReport,
+} from '../schema-drift';
+import { KuzuMigrationRunner } from './kuzu-migration-runner';
 import { KuzuQueryExecutor } from './kuzu-query-executor';
 
 /**
  * Service responsible for database schema management
  * Handles schema initialization, DDL operations, and schema validation
+ * Table definitions live in versioned migrations applied by KuzuMigrationRunner
  */
 export class KuzuSchemaManager extends BaseKuzuClient {
   private queryExecutor: KuzuQueryExecutor;
+  private migrationRunner: KuzuMigrationRunner;
 
-  constructor(clientProjectRoot: string, queryExecutor: KuzuQueryExecutor) {
+  constructor(
+    clientProjectRoot: string,
+    queryExecutor: KuzuQueryExecutor,
+    migrationRunner: KuzuMigrationRunner,
+  ) {
     super(clientProjectRoot);
     this.queryExecutor = queryExecutor;
+    this.migrationRunner = migrationRunner;
   }
 
   /**
@@ -27,11 +42,8 @@ export class KuzuSchemaManager extends BaseKuzuClient {
       // Install extensions
       await this.installExtensions();
 
-      // Create node tables
-      await this.createNodeTables();
-
-      // Create relationship tables
-      await this.createRelationshipTables();
+      // Create node and relationship tables by applying every migration
+      await this.migrationRunner.migrate();
 
       logger.info('Database schema creation completed');
       perfLogger.complete();
@@ -89,163 +101,6 @@ export class KuzuSchemaManager extends BaseKuzuClient {
     }
   }
 
-  /**
-   * Create all node tables
-   */
-  private async createNodeTables(): Promise<void> {
-    const logger = this.createOperationLogger('create-node-tables');
-    logger.info('Creating node tables');
-
-    const nodeTableQueries = [
-      // Repository table
-      `CREATE NODE TABLE IF NOT EXISTS Repository (
-        id STRING,
-        name STRING,
-        branch STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        techStack STRING[],
-        architecture STRING,
-        PRIMARY KEY (id)
-      );`,
-
-      // Component table
-      `CREATE NODE TABLE IF NOT EXISTS Component (
-        id STRING,
-        name STRING,
-        kind STRING,
-        status STRING,
-        dependsOn STRING[],
-        description STRING,
-        metadata STRING,
-        graph_unique_id STRING,
-        branch STRING,
-        repository STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        PRIMARY KEY (graph_unique_id)
-      );`,
-
-      // Decision table
-      `CREATE NODE TABLE IF NOT EXISTS Decision (
-        id STRING,
-        title STRING,
-        rationale STRING,
-        status STRING,
-        dateCreated TIMESTAMP,
-        impact STRING[],
-        tags STRING[],
-        graph_unique_id STRING,
-        branch STRING,
-        repository STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        PRIMARY KEY (graph_unique_id)
-      );`,
-
-      // Rule table
-      `CREATE NODE TABLE IF NOT EXISTS Rule (
-        id STRING,
-        title STRING,
-        description STRING,
-        scope STRING,
-        severity STRING,
-        category STRING,
-        examples STRING[],
-        graph_unique_id STRING,
-        branch STRING,
-        repository STRING,
-        status STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        PRIMARY KEY (graph_unique_id)
-      );`,
-
-      // File table
-      `CREATE NODE TABLE IF NOT EXISTS File (
-        id STRING,
-        name STRING,
-        path STRING,
-        size INT64,
-        mime_type STRING,
-        lastModified TIMESTAMP,
-        checksum STRING,
-        metadata STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        repository STRING,
-        branch STRING,
-        PRIMARY KEY (id)
-      );`,
-
-      // Tag table
-      `CREATE NODE TABLE IF NOT EXISTS Tag (
-        id STRING,
-        name STRING,
-        category STRING,
-        description STRING,
-        color STRING,
-        repository STRING,
-        branch STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        PRIMARY KEY (id)
-      );`,
-
-      // Context table
-      `CREATE NODE TABLE IF NOT EXISTS Context (
-        id STRING,
-        agent STRING,
-        summary STRING,
-        observation STRING,
-        timestamp TIMESTAMP,
-        repository STRING,
-        branch STRING,
-        graph_unique_id STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        PRIMARY KEY (graph_unique_id)
-      );`,
-
-      // Metadata table
-      `CREATE NODE TABLE IF NOT EXISTS Metadata (
-        id STRING,
-        graph_unique_id STRING,
-        branch STRING,
-        name STRING,
-        content STRING,
-        created_at TIMESTAMP,
-        updated_at TIMESTAMP,
-        PRIMARY KEY (graph_unique_id)
-      );`,
-    ];
-
-    await this.queryExecutor.executeBatch(nodeTableQueries);
-    logger.info('Node tables created successfully');
-  }
-
-  /**
-   * Create all relationship tables
-   */
-  private async createRelationshipTables(): Promise<void> {
-    const logger = this.createOperationLogger('create-relationship-tables');
-    logger.info('Creating relationship tables');
-
-    const relationshipTableQueries = [
-      'CREATE REL TABLE IF NOT EXISTS DEPENDS_ON (FROM Component TO Component);',
-      'CREATE REL TABLE IF NOT EXISTS IMPLEMENTS (FROM Component TO File);',
-      'CREATE REL TABLE IF NOT EXISTS TAGGED_WITH (FROM Component TO Tag, FROM Decision TO Tag, FROM Rule TO Tag, FROM File TO Tag);',
-      'CREATE REL TABLE IF NOT EXISTS GOVERNS (FROM Rule TO Component);',
-      'CREATE REL TABLE IF NOT EXISTS AFFECTS (FROM Decision TO Component);',
-      'CREATE REL TABLE IF NOT EXISTS CONTEXT_OF (FROM Context TO Component, FROM Context TO Decision, FROM Context TO Rule);',
-      'CREATE REL TABLE IF NOT EXISTS PART_OF (FROM Component TO Repository, FROM Decision TO Repository, FROM Rule TO Repository, FROM File TO Repository, FROM Tag TO Repository, FROM Context TO Repository);',
-      'CREATE REL TABLE IF NOT EXISTS HAS_METADATA (FROM Repository TO Metadata);',
-    ];
-
-    await this.queryExecutor.executeBatch(relationshipTableQueries);
-    logger.info('Relationship tables created successfully');
-  }
-
   /**
    * Check if the schema is properly initialized
    */
@@ -261,6 +116,7 @@ export class KuzuSchemaManager extends BaseKuzuClient {
       'Tag',
       'Context',
       'Metadata',
+      'Embedding',
     ];
 
     const missingTables: string[] = [];
@@ -283,6 +139,72 @@ export class KuzuSchemaManager extends BaseKuzuClient {
     }
   }
 
+  /**
+   * Startup check for pending migrations. Pending migrations are applied unless
+   * KUZU_AUTO_MIGRATE is 'false', in which case they are only reported.
+   */
+  async checkMigrations(
+    autoMigrate: boolean = process.env.KUZU_AUTO_MIGRATE !== 'false',
+  ): Promise<void> {
+    const logger = this.createOperationLogger('check-migrations');
+    const status = await this.migrationRunner.getStatus();
+
+    if (status.currentVersion > status.latestVersion) {
+      logger.warn(
+        { currentVersion: status.currentVersion, latestVersion: status.latestVersion },
+        'Database schema is newer than this server supports',
+      );
+      return;
+    }
+    if (status.pending.length === 0) {
+      logger.debug({ currentVersion: status.currentVersion }, 'Schema is up to date');
+      return;
+    }
+    if (!autoMigrate) {
+      logger.warn(
+        { currentVersion: status.currentVersion, pending: status.pending.map((m) => m.name) },
+        'Schema migrations are pending; run the migrate CLI command to apply them',
+      );
+      return;
+    }
+
+    logger.info(
+      { currentVersion: status.currentVersion, pending: status.pending.map((m) => m.name) },
+      'Applying pending schema migrations',
+    );
+    await this.migrationRunner.migrate();
+  }
+
+  /**
+   * Compare the live node table properties with the expected model and warn about drift
+   */
+  async checkSchemaDrift(): Promise<SchemaDriftReport> {
+    const logger = this.createOperationLogger('check-schema-drift');
+    const actualByLabel: Record<string, PropertyDefinition[]> = {};
+
+    for (const label of Object.keys(EXPECTED_NODE_PROPERTIES)) {
+      try {
+        const rows = await this.queryExecutor.executeQuery(`CALL table_info('${label}') RETURN *;`);
+        actualByLabel[label] = (rows || []).map((row: any) => ({
+          name: row.name,
+          type: row.type,
+        }));
+      } catch {
+        // table_info fails for tables that do not exist
+        actualByLabel[label] = [];
+      }
+    }
+
+    const report = detectSchemaDrift(actualByLabel);
+    if (!report.inSync) {
+      logger.warn(
+        { drift: summarizeSchemaDrift(report) },
+        'Node table properties differ from the expected model; run the introspect schema-drift query for details',
+      );
+    }
+    return report;
+  }
+
   /**
    * Get current schema information
    */
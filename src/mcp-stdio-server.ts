@@ -11,12 +11,26 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { randomUUID } from 'node:crypto';
+import { MemoryPromptProvider, registerMemoryPrompts } from './mcp/prompts/memory-prompts';
+import { MemoryResourceProvider, registerMemoryResources } from './mcp/resources/memory-resources';
+import {
+  registerResourceSubscriptions,
+  ResourceSubscriptionManager,
+} from './mcp/resources/resource-subscriptions';
 import { toolHandlers } from './mcp/tool-handlers';
 import { MEMORY_BANK_MCP_TOOLS } from './mcp/tools/index';
 import { ToolHandlerContext } from './mcp/types/sdk-custom';
-import { createRepositoryBranchKey } from './mcp/utils/repository-utils';
+import { createRepositoryBranchKey, parseRepositoryBranchKey } from './mcp/utils/repository-utils';
 import { createZodRawShape } from './mcp/utils/schema-utils';
 import { MemoryService } from './services/memory.service';
+import { SnapshotScheduler } from './services/snapshot-scheduler.service';
+import {
+  authorizeToolCall,
+  DEFAULT_STDIO_PRINCIPAL,
+  ForbiddenError,
+  getToolOperation,
+  loadAuthorizationPolicy,
+} from './utils/authorization-policy.utils';
 import {
   createPerformanceLogger,
   enforceStdioCompliance,
@@ -64,6 +78,8 @@ async function gracefulShutdown(signal: string): Promise<void> {
       // We'll try to get any existing instances to clean them up
       mcpStdioLogger.info('Starting cleanup process');
 
+      snapshotScheduler.stop();
+
       // Get the MemoryService instance and shut it down to ensure all KuzuDB connections are closed.
       const memoryService = await MemoryService.getInstance();
       if (memoryService) {
@@ -115,6 +131,16 @@ import packageJson from '../package.json';
 // Map to store clientProjectRoot by repository:branch (similar to HTTP server)
 const repositoryRootMap = new Map<string, string>();
 
+// Enforces snapshot policies in the databases of the project roots seen so far
+const snapshotScheduler = new SnapshotScheduler(
+  () => Array.from(repositoryRootMap.values()).map((clientProjectRoot) => ({ clientProjectRoot })),
+  mcpStdioLogger,
+);
+
+// Role-based tool policy; the stdio session acts as a single env-configured principal
+const authorizationPolicy = loadAuthorizationPolicy();
+const stdioPrincipal = process.env.MCP_STDIO_PRINCIPAL || DEFAULT_STDIO_PRINCIPAL;
+
 // Create the MCP server using high-level API (consistent with HTTP server)
 const mcpServer = new McpServer(
   {
@@ -124,7 +150,7 @@ const mcpServer = new McpServer(
   {
     capabilities: {
       tools: { list: true, call: true, listChanged: true },
-      resources: {},
+      resources: { subscribe: true },
       prompts: {},
     },
   },
@@ -157,8 +183,28 @@ function registerTools(): void {
         try {
           toolLogger.debug({ params: args }, 'Tool execution started');
 
-          // Handle clientProjectRoot storage for memory-bank init operations
-          if (tool.name === 'memory-bank' && args.operation === 'init') {
+          if (authorizationPolicy) {
+            const operation = getToolOperation(tool.name, args);
+            const decision = authorizeToolCall(authorizationPolicy, {
+              principal: stdioPrincipal,
+              tool: tool.name,
+              operation,
+            });
+            if (!decision.allowed) {
+              throw new ForbiddenError(decision.reason, {
+                principal: stdioPrincipal,
+                tool: tool.name,
+                operation,
+                role: decision.role,
+              });
+            }
+          }
+
+          // Handle clientProjectRoot storage for memory-bank init and fork operations
+          if (
+            tool.name === 'memory-bank' &&
+            (args.operation === 'init' || args.operation === 'fork')
+          ) {
             const repoBranchKey = createRepositoryBranchKey(args.repository, args.branch);
             repositoryRootMap.set(repoBranchKey, args.clientProjectRoot);
             toolLogger.debug(
@@ -225,6 +271,15 @@ function registerTools(): void {
           };
         } catch (error) {
           toolPerfLogger.fail(error as Error);
+
+          if (error instanceof ForbiddenError) {
+            toolLogger.warn({ ...error.details }, error.message);
+            return {
+              content: [{ type: 'text', text: JSON.stringify(error.toResponse()) }],
+              isError: true,
+            };
+          }
+
           logError(toolLogger, error as Error, { operation: 'tool-execution' });
           throw error;
         }
@@ -238,6 +293,47 @@ function registerTools(): void {
   );
 }
 
+/**
+ * Expose the memory graph of initialized repositories as MCP resources.
+ */
+async function registerResources(): Promise<void> {
+  const provider = new MemoryResourceProvider(
+    () =>
+      Array.from(repositoryRootMap.entries()).map(([key, clientProjectRoot]) => ({
+        ...parseRepositoryBranchKey(key),
+        clientProjectRoot,
+      })),
+    mcpStdioLogger,
+  );
+  registerMemoryResources(mcpServer, provider);
+
+  // stdio has a single session, so updates go through the server itself
+  const subscriptions = new ResourceSubscriptionManager(
+    (_sessionKey, uri) => mcpServer.server.sendResourceUpdated({ uri }),
+    mcpStdioLogger,
+  );
+  registerResourceSubscriptions(mcpServer, subscriptions);
+  const memoryService = await MemoryService.getInstance();
+  subscriptions.attach(memoryService.changes);
+  mcpStdioLogger.info('Registered MCP resource handlers');
+}
+
+/**
+ * Expose the agent development loop of initialized repositories as MCP prompts.
+ */
+function registerPrompts(): void {
+  const provider = new MemoryPromptProvider(
+    () =>
+      Array.from(repositoryRootMap.entries()).map(([key, clientProjectRoot]) => ({
+        ...parseRepositoryBranchKey(key),
+        clientProjectRoot,
+      })),
+    mcpStdioLogger,
+  );
+  registerMemoryPrompts(mcpServer, provider);
+  mcpStdioLogger.info('Registered MCP prompt handlers');
+}
+
 /**
  * Initializes and starts the MCP stdio server using the official SDK high-level API.
  * This follows the same patterns as the HTTP server for consistency.
@@ -247,6 +343,9 @@ async function main() {
 
   // Register all tools
   registerTools();
+  await registerResources();
+  registerPrompts();
+  snapshotScheduler.start();
 
   // Connect to transport using the high-level API
   const transport = new StdioServerTransport();
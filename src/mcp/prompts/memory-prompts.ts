@@ -0,0 +1,416 @@
+import { randomUUID } from 'node:crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type ListPromptsResult,
+  type Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+import { type Logger } from 'pino';
+
+import { MemoryService } from '../../services/memory.service';
+import { isRepositoryAllowed } from '../../server/middleware/authentication.middleware';
+import { buildResourceUri, type RepositoryScope } from '../resources/memory-resources';
+import { type ToolHandlerContext } from '../types/sdk-custom';
+
+/**
+ * Number of contexts included in a prompt
+ */
+const PROMPT_CONTEXT_LIMIT = 5;
+
+const LOOP = 'ANALYZE → BLUEPRINT → CONSTRUCT → VALIDATE → ROLLBACK';
+
+const SCOPE_ARGUMENTS: NonNullable<Prompt['arguments']> = [
+  { name: 'repository', description: 'Repository name', required: true },
+  { name: 'branch', description: 'Branch name (defaults to main)', required: false },
+  { name: 'componentId', description: 'Component the work is about', required: true },
+];
+
+/**
+ * Prompts for the phases of the agent development loop
+ */
+export const MEMORY_PROMPTS: Prompt[] = [
+  {
+    name: 'analyze-component',
+    title: 'Analyze a component',
+    description:
+      'ANALYZE phase: review a component, its 1-hop neighbourhood, governing rules and recent contexts, then state the problem',
+    arguments: [
+      ...SCOPE_ARGUMENTS,
+      { name: 'task', description: 'What should change about the component', required: false },
+    ],
+  },
+  {
+    name: 'draft-blueprint',
+    title: 'Draft a blueprint',
+    description:
+      'BLUEPRINT phase: draft a numbered implementation plan for a component and record it as a proposed decision',
+    arguments: [
+      ...SCOPE_ARGUMENTS,
+      { name: 'goal', description: 'Goal the plan has to achieve', required: true },
+    ],
+  },
+  {
+    name: 'record-validation',
+    title: 'Record a validation result',
+    description:
+      'VALIDATE phase: record the outcome of the test and lint run for a component and its blueprint decision',
+    arguments: [
+      ...SCOPE_ARGUMENTS,
+      { name: 'outcome', description: 'Validation outcome: pass or fail', required: true },
+      { name: 'decisionId', description: 'Blueprint decision being validated', required: false },
+      { name: 'details', description: 'Test or lint output worth keeping', required: false },
+    ],
+  },
+];
+
+/**
+ * Live memory of a component that the prompts are rendered from
+ */
+export interface ComponentBriefing {
+  component: Record<string, any>;
+  dependencies: Record<string, any>[];
+  dependents: Record<string, any>[];
+  rules: Record<string, any>[];
+  decisions: Record<string, any>[];
+  contexts: Record<string, any>[];
+}
+
+/**
+ * One-line summary of a memory item
+ */
+function describeItem(item: Record<string, any>): string {
+  const label = item.name ?? item.summary ?? item.id;
+  const details = [item.kind, item.status].filter(Boolean).join(', ');
+  return `- \`${item.id}\`${label && label !== item.id ? ` ${label}` : ''}${details ? ` (${details})` : ''}`;
+}
+
+function renderList(title: string, items: Record<string, any>[], empty: string): string {
+  const lines = items.length > 0 ? items.map(describeItem) : [`_${empty}_`];
+  return `## ${title}\n\n${lines.join('\n')}`;
+}
+
+function renderContexts(contexts: Record<string, any>[]): string {
+  if (contexts.length === 0) {
+    return '## Recent Contexts\n\n_No contexts recorded yet._';
+  }
+  const lines = contexts.map((context) => {
+    const date = context.created_at ?? context.iso_date ?? context.id;
+    const text = [context.summary, context.observation].filter(Boolean).join(' – ');
+    return `- ${date instanceof Date ? date.toISOString() : date}${context.agent ? ` [${context.agent}]` : ''}: ${text}`;
+  });
+  return `## Recent Contexts\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Render the memory snapshot shared by all prompts
+ */
+export function renderComponentBriefing(
+  repository: string,
+  branch: string,
+  briefing: ComponentBriefing,
+): string {
+  const { component } = briefing;
+  return [
+    `# Component \`${component.id}\` in ${repository}:${branch}`,
+    `Resource: ${buildResourceUri(repository, branch, 'component', component.id)}`,
+    describeItem(component),
+    renderList('Dependencies', briefing.dependencies, 'No dependencies.'),
+    renderList('Dependents', briefing.dependents, 'No dependents.'),
+    renderList('Governing Rules', briefing.rules, 'No rules govern this component.'),
+    renderList('Related Decisions', briefing.decisions, 'No decisions affect this component.'),
+    renderContexts(briefing.contexts),
+  ].join('\n\n');
+}
+
+/**
+ * Serves the development loop prompts, rendered from the live memory graph.
+ * Like resources, prompts are only available for repositories initialized in this process.
+ */
+export class MemoryPromptProvider {
+  constructor(
+    private readonly listScopes: () => RepositoryScope[],
+    private readonly logger: Logger,
+    private readonly getMemoryService: () => Promise<MemoryService> = () =>
+      MemoryService.getInstance(),
+  ) {}
+
+  /**
+   * Prompts advertised through prompts/list
+   */
+  listPrompts(): ListPromptsResult {
+    return { prompts: MEMORY_PROMPTS };
+  }
+
+  /**
+   * Render a prompt for prompts/get
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+    allowedRepositories?: string[],
+  ): Promise<GetPromptResult> {
+    const prompt = MEMORY_PROMPTS.find((candidate) => candidate.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt '${name}'`);
+    }
+    for (const argument of prompt.arguments ?? []) {
+      if (argument.required && !args[argument.name]) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Missing required argument '${argument.name}' for prompt '${name}'`,
+        );
+      }
+    }
+
+    const { repository, componentId } = args;
+    const branch = args.branch || 'main';
+    if (!isRepositoryAllowed(allowedRepositories, repository)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Credential is not allowed to access repository '${repository}'`,
+      );
+    }
+
+    const briefing = await this.loadBriefing(repository, branch, componentId);
+    const snapshot = renderComponentBriefing(repository, branch, briefing);
+    let text: string;
+    switch (name) {
+      case 'analyze-component':
+        text = this.renderAnalyze(repository, branch, args, snapshot);
+        break;
+      case 'draft-blueprint':
+        text = this.renderBlueprint(repository, branch, args, snapshot);
+        break;
+      default: {
+        const decision = args.decisionId
+          ? await this.loadDecision(repository, branch, args.decisionId)
+          : undefined;
+        text = this.renderValidation(repository, branch, args, snapshot, decision);
+      }
+    }
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  /**
+   * Load the component and its 1-hop neighbourhood from the graph
+   */
+  async loadBriefing(
+    repository: string,
+    branch: string,
+    componentId: string,
+  ): Promise<ComponentBriefing> {
+    const scope = this.resolveScope(repository, branch);
+    const context = this.createContext(scope);
+    const memoryService = await this.getMemoryService();
+    const graphQuery = await memoryService.graphQuery;
+    const root = scope.clientProjectRoot;
+
+    const component = await graphQuery.getNodeById(
+      context,
+      root,
+      repository,
+      branch,
+      'Component',
+      componentId,
+    );
+    if (!component) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Component '${componentId}' not found in ${repository}:${branch}`,
+      );
+    }
+
+    const [dependencies, dependents, governing, history] = await Promise.all([
+      graphQuery.getComponentDependencies(context, root, repository, branch, componentId),
+      graphQuery.getComponentDependents(context, root, repository, branch, componentId),
+      graphQuery.getGoverningItemsForComponent(context, root, repository, branch, componentId),
+      graphQuery.getItemContextualHistory(
+        context,
+        root,
+        repository,
+        branch,
+        componentId,
+        'Component',
+      ),
+    ]);
+
+    // Fall back to the branch's latest contexts when none are linked to the component
+    let contexts: Record<string, any>[] = history?.contextHistory ?? [];
+    if (contexts.length === 0) {
+      const contextService = await memoryService.context;
+      contexts = await contextService.getLatestContexts(
+        context,
+        root,
+        repository,
+        branch,
+        PROMPT_CONTEXT_LIMIT,
+      );
+    }
+
+    return {
+      component,
+      dependencies: dependencies?.dependencies ?? [],
+      dependents: dependents?.dependents ?? [],
+      rules: (governing?.rules ?? []).map((row: any) => row.r ?? row),
+      decisions: (governing?.decisions ?? []).map((row: any) => row.d ?? row),
+      contexts: contexts.slice(0, PROMPT_CONTEXT_LIMIT),
+    };
+  }
+
+  private async loadDecision(
+    repository: string,
+    branch: string,
+    decisionId: string,
+  ): Promise<Record<string, any>> {
+    const scope = this.resolveScope(repository, branch);
+    const graphQuery = await (await this.getMemoryService()).graphQuery;
+    const decision = await graphQuery.getNodeById(
+      this.createContext(scope),
+      scope.clientProjectRoot,
+      repository,
+      branch,
+      'Decision',
+      decisionId,
+    );
+    if (!decision) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Decision '${decisionId}' not found in ${repository}:${branch}`,
+      );
+    }
+    return decision;
+  }
+
+  private renderAnalyze(
+    repository: string,
+    branch: string,
+    args: Record<string, string>,
+    snapshot: string,
+  ): string {
+    return [
+      `You are in the ANALYZE phase of the ${LOOP} loop for component \`${args.componentId}\` in ${repository}:${branch}.`,
+      args.task ? `Requested change: ${args.task}` : '',
+      snapshot,
+      [
+        '## Instructions',
+        '',
+        '1. Review the component, its neighbourhood, the governing rules and the recent contexts above.',
+        `2. If the impact is unclear, run the \`analyze\` tool with type \`pagerank\` on ${repository}:${branch} to find central components.`,
+        '3. Produce a short problem statement covering the affected components and the rules and decisions that constrain the change.',
+        '4. Do not edit code yet; the next phase is BLUEPRINT.',
+      ].join('\n'),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private renderBlueprint(
+    repository: string,
+    branch: string,
+    args: Record<string, string>,
+    snapshot: string,
+  ): string {
+    return [
+      `You are in the BLUEPRINT phase of the ${LOOP} loop for component \`${args.componentId}\` in ${repository}:${branch}.`,
+      `Goal: ${args.goal}`,
+      snapshot,
+      [
+        '## Instructions',
+        '',
+        '1. Draft a numbered implementation plan that reaches the goal without violating the governing rules.',
+        '2. Name every component the plan touches and any dependency that has to be added or removed.',
+        `3. Persist the plan with the \`entity\` tool (operation \`create\`, entityType \`decision\`, repository \`${repository}\`, branch \`${branch}\`) with \`decisionStatus: "proposed"\`, the plan as \`context\` and today's date.`,
+        '4. Tag the decision `architecture` with the `associate` tool (type `tag-item`).',
+        '5. Stop and wait for explicit user approval before moving on to CONSTRUCT.',
+      ].join('\n'),
+    ].join('\n\n');
+  }
+
+  private renderValidation(
+    repository: string,
+    branch: string,
+    args: Record<string, string>,
+    snapshot: string,
+    decision?: Record<string, any>,
+  ): string {
+    const passed = args.outcome.toLowerCase() === 'pass';
+    const steps = passed
+      ? [
+          decision
+            ? `1. Mark decision \`${decision.id}\` as implemented with the \`entity\` tool (operation \`update\`, entityType \`decision\`, \`decisionStatus: "accepted"\`).`
+            : '1. If a blueprint decision exists for this work, mark it as implemented with the `entity` tool (`decisionStatus: "accepted"`).',
+          `2. Record the successful validation with the \`context\` tool for ${repository}:${branch}.`,
+          '3. The loop is complete.',
+        ]
+      : [
+          `1. Record the failure and its cause with the \`context\` tool for ${repository}:${branch}, quoting the relevant output.`,
+          '2. Check whether the failure violates one of the governing rules above.',
+          '3. Return to CONSTRUCT to fix the failure, or to ROLLBACK if the error is unrecoverable.',
+        ];
+
+    return [
+      `You are in the VALIDATE phase of the ${LOOP} loop for component \`${args.componentId}\` in ${repository}:${branch}.`,
+      `Outcome: **${passed ? 'pass' : 'fail'}**`,
+      args.details ? `Details:\n\n\`\`\`\n${args.details}\n\`\`\`` : '',
+      decision
+        ? `## Blueprint Decision\n\n${describeItem(decision)}${decision.context ? `\n\n${decision.context}` : ''}`
+        : '',
+      snapshot,
+      ['## Instructions', '', ...steps].join('\n'),
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  /**
+   * Find the project root for a repository branch; see MemoryResourceProvider
+   */
+  private resolveScope(repository: string, branch: string): RepositoryScope {
+    const scopes = this.listScopes();
+    const scope =
+      scopes.find(
+        (candidate) => candidate.repository === repository && candidate.branch === branch,
+      ) ?? scopes.find((candidate) => candidate.repository === repository);
+    if (!scope) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Repository '${repository}' is not initialized. Use memory-bank tool with operation "init" first.`,
+      );
+    }
+    return { ...scope, branch };
+  }
+
+  private createContext(scope: RepositoryScope): ToolHandlerContext {
+    return {
+      logger: this.logger,
+      session: { ...scope },
+      sendProgress: async () => {
+        // Prompt requests do not report progress
+      },
+      signal: new AbortController().signal,
+      requestId: randomUUID(),
+    };
+  }
+}
+
+/**
+ * Install prompts/list and prompts/get handlers on an MCP server
+ */
+export function registerMemoryPrompts(mcpServer: McpServer, provider: MemoryPromptProvider) {
+  mcpServer.server.setRequestHandler(ListPromptsRequestSchema, async () => provider.listPrompts());
+  mcpServer.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+    provider.getPrompt(
+      request.params.name,
+      request.params.arguments,
+      extra.authInfo?.extra?.repositories as string[] | undefined,
+    ),
+  );
+}
@@ -0,0 +1,475 @@
+import { randomUUID } from 'node:crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type ListResourcesResult,
+  type ListResourceTemplatesResult,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { type Logger } from 'pino';
+
+import { MemoryService } from '../../services/memory.service';
+import { isRepositoryAllowed } from '../../server/middleware/authentication.middleware';
+import { type ToolHandlerContext } from '../types/sdk-custom';
+
+export const RESOURCE_URI_SCHEME = 'kuzumem';
+
+/**
+ * Maximum number of resources returned by one resources/list page
+ */
+export const RESOURCE_PAGE_SIZE = 50;
+
+export type MemoryEntityResourceType = 'component' | 'decision' | 'rule' | 'context';
+export type MemoryResourceType = MemoryEntityResourceType | 'metadata';
+export type MemoryResourceFormat = 'markdown' | 'json';
+
+const ENTITY_LABELS: Record<MemoryEntityResourceType, string> = {
+  component: 'Component',
+  decision: 'Decision',
+  rule: 'Rule',
+  context: 'Context',
+};
+
+const ENTITY_RESOURCE_TYPES = Object.keys(ENTITY_LABELS) as MemoryEntityResourceType[];
+
+/**
+ * Whether a memory entity type is exposed as a resource
+ */
+export function isEntityResourceType(type: string | undefined): type is MemoryEntityResourceType {
+  return ENTITY_RESOURCE_TYPES.includes(type as MemoryEntityResourceType);
+}
+
+/**
+ * Internal node properties that are not part of a resource rendering
+ */
+const HIDDEN_FIELDS = new Set(['_id', '_label', 'graph_unique_id', 'repository', 'branch']);
+
+/**
+ * Free-text properties rendered as markdown sections instead of list items
+ */
+const TEXT_SECTION_FIELDS = ['description', 'rationale', 'summary', 'observation', 'content'];
+
+/**
+ * An initialized repository branch and the project root holding its database
+ */
+export interface RepositoryScope {
+  repository: string;
+  branch: string;
+  clientProjectRoot: string;
+}
+
+export interface MemoryResourceUri {
+  repository: string;
+  branch: string;
+  type: MemoryResourceType;
+  id?: string;
+  /** Rendering requested with `?format=`; both renderings are returned when omitted */
+  format?: MemoryResourceFormat;
+}
+
+/**
+ * Build a resource URI of the form `kuzumem://{repository}/{branch}/{type}/{id}`,
+ * or `kuzumem://{repository}/{branch}/metadata` for repository metadata
+ */
+export function buildResourceUri(
+  repository: string,
+  branch: string,
+  type: MemoryResourceType,
+  id?: string,
+): string {
+  const segments = [repository, branch, type, ...(type === 'metadata' ? [] : [id ?? ''])];
+  return `${RESOURCE_URI_SCHEME}://${segments.map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Parse a resource URI created by buildResourceUri
+ * @throws Error when the URI is not a valid memory resource URI
+ */
+export function parseResourceUri(uri: string): MemoryResourceUri {
+  const prefix = `${RESOURCE_URI_SCHEME}://`;
+  if (!uri.startsWith(prefix)) {
+    throw new Error(`Unsupported resource URI '${uri}'`);
+  }
+
+  const [path, query] = uri.slice(prefix.length).split('?', 2);
+  const segments = path.split('/').map((segment) => decodeURIComponent(segment));
+  const [repository, branch, type, id] = segments;
+
+  const isMetadata = type === 'metadata' && segments.length === 3;
+  const isEntity =
+    ENTITY_RESOURCE_TYPES.includes(type as MemoryEntityResourceType) &&
+    segments.length === 4 &&
+    !!id;
+  if (!repository || !branch || (!isMetadata && !isEntity)) {
+    throw new Error(`Invalid resource URI '${uri}'`);
+  }
+
+  const format = new URLSearchParams(query ?? '').get('format') ?? undefined;
+  if (format !== undefined && format !== 'markdown' && format !== 'json') {
+    throw new Error(`Unsupported resource format '${format}'`);
+  }
+
+  return {
+    repository,
+    branch,
+    type: type as MemoryResourceType,
+    ...(isEntity ? { id } : {}),
+    ...(format ? { format } : {}),
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ');
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Strip internal node properties from an entity
+ */
+export function toResourceEntity(entity: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(entity).filter(([key, value]) => !HIDDEN_FIELDS.has(key) && !isEmpty(value)),
+  );
+}
+
+function getEntityTitle(entity: Record<string, any>): string {
+  return String(entity.name ?? entity.title ?? entity.summary ?? entity.id);
+}
+
+/**
+ * Render an entity as markdown: a heading, a property list and a section per free-text property
+ */
+export function renderEntityMarkdown(
+  type: MemoryEntityResourceType,
+  entity: Record<string, any>,
+): string {
+  const visible = toResourceEntity(entity);
+  const lines = [`# ${ENTITY_LABELS[type]}: ${getEntityTitle(visible)}`, ''];
+
+  for (const [key, value] of Object.entries(visible)) {
+    if (!TEXT_SECTION_FIELDS.includes(key)) {
+      lines.push(`- **${key}**: ${formatValue(value)}`);
+    }
+  }
+  for (const key of TEXT_SECTION_FIELDS) {
+    if (visible[key] !== undefined) {
+      lines.push(
+        '',
+        `## ${key.charAt(0).toUpperCase()}${key.slice(1)}`,
+        '',
+        formatValue(visible[key]),
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Render repository metadata (as returned by MetadataService.getMetadata) as markdown
+ */
+export function renderMetadataMarkdown(
+  repository: string,
+  branch: string,
+  metadata: Record<string, any>,
+): string {
+  const project = metadata.project ?? {};
+  const lines = [
+    `# ${project.name ?? repository}`,
+    '',
+    `- **repository**: ${repository}`,
+    `- **branch**: ${branch}`,
+  ];
+
+  if (project.created) {
+    lines.push(`- **created**: ${formatValue(project.created)}`);
+  }
+  if (metadata.architecture) {
+    lines.push(`- **architecture**: ${formatValue(metadata.architecture)}`);
+  }
+  if (metadata.memory_spec_version) {
+    lines.push(`- **memory spec version**: ${metadata.memory_spec_version}`);
+  }
+  if (project.description) {
+    lines.push('', '## Description', '', String(project.description));
+  }
+  const techStack = Object.entries(metadata.tech_stack ?? {}).filter(
+    ([, value]) => !isEmpty(value),
+  );
+  if (techStack.length > 0) {
+    lines.push('', '## Tech Stack', '');
+    techStack.forEach(([key, value]) => lines.push(`- **${key}**: ${formatValue(value)}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string | undefined): number {
+  if (!cursor) {
+    return 0;
+  }
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor '${cursor}'`);
+}
+
+/**
+ * Serves the memory graph of initialized repositories as MCP resources.
+ * Only repositories initialized with the memory-bank tool are listed, because the
+ * database location is only known once a client project root has been supplied.
+ */
+export class MemoryResourceProvider {
+  constructor(
+    private readonly listScopes: () => RepositoryScope[],
+    private readonly logger: Logger,
+    private readonly pageSize: number = RESOURCE_PAGE_SIZE,
+    private readonly getMemoryService: () => Promise<MemoryService> = () =>
+      MemoryService.getInstance(),
+  ) {}
+
+  /**
+   * Resource templates advertised through resources/templates/list
+   */
+  listResourceTemplates(): ListResourceTemplatesResult {
+    return {
+      resourceTemplates: [
+        ...ENTITY_RESOURCE_TYPES.map((type) => ({
+          name: `memory-${type}`,
+          title: `${ENTITY_LABELS[type]} memory`,
+          uriTemplate: `${RESOURCE_URI_SCHEME}://{repository}/{branch}/${type}/{id}`,
+          description: `A ${type} from the memory bank, rendered as markdown and JSON (append ?format=markdown or ?format=json for one rendering)`,
+          mimeType: 'text/markdown',
+        })),
+        {
+          name: 'memory-metadata',
+          title: 'Repository metadata',
+          uriTemplate: `${RESOURCE_URI_SCHEME}://{repository}/{branch}/metadata`,
+          description: 'Project metadata of a repository branch',
+          mimeType: 'text/markdown',
+        },
+      ],
+    };
+  }
+
+  /**
+   * List resources one page at a time; each scope lists its metadata followed by
+   * its components, decisions, rules and contexts
+   */
+  async listResources(
+    cursor?: string,
+    allowedRepositories?: string[],
+  ): Promise<ListResourcesResult> {
+    const offset = decodeCursor(cursor);
+    const memoryService = await this.getMemoryService();
+    const graphQuery = await memoryService.graphQuery;
+    const resources: Resource[] = [];
+    let position = 0;
+    let hasMore = false;
+
+    for (const scope of this.getScopes(allowedRepositories)) {
+      const context = this.createContext(scope);
+
+      if (position >= offset) {
+        if (resources.length >= this.pageSize) {
+          hasMore = true;
+          break;
+        }
+        resources.push({
+          uri: buildResourceUri(scope.repository, scope.branch, 'metadata'),
+          name: `${scope.repository}/${scope.branch} metadata`,
+          description: `Project metadata of ${scope.repository}:${scope.branch}`,
+          mimeType: 'text/markdown',
+        });
+      }
+      position++;
+
+      for (const type of ENTITY_RESOURCE_TYPES) {
+        const start = Math.max(0, offset - position);
+        const { entities, total } = await graphQuery.listNodesInScope(
+          context,
+          scope.clientProjectRoot,
+          scope.repository,
+          scope.branch,
+          ENTITY_LABELS[type],
+          this.pageSize - resources.length,
+          start,
+        );
+        for (const entity of entities) {
+          resources.push({
+            uri: buildResourceUri(scope.repository, scope.branch, type, entity.id),
+            name: getEntityTitle(entity),
+            description: `${ENTITY_LABELS[type]} ${entity.id} in ${scope.repository}:${scope.branch}`,
+            mimeType: 'text/markdown',
+          });
+        }
+        position += total;
+        if (start + entities.length < total) {
+          hasMore = true;
+          break;
+        }
+      }
+
+      if (hasMore) {
+        break;
+      }
+    }
+
+    return {
+      resources,
+      ...(hasMore ? { nextCursor: encodeCursor(offset + resources.length) } : {}),
+    };
+  }
+
+  /**
+   * Read a resource, returning markdown and/or JSON renderings
+   */
+  async readResource(uri: string, allowedRepositories?: string[]): Promise<ReadResourceResult> {
+    let parsed: MemoryResourceUri;
+    try {
+      parsed = parseResourceUri(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+
+    if (!isRepositoryAllowed(allowedRepositories, parsed.repository)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Credential is not allowed to access repository '${parsed.repository}'`,
+      );
+    }
+
+    const scope = this.resolveScope(parsed.repository, parsed.branch);
+    if (!scope) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Repository '${parsed.repository}' is not initialized. Use memory-bank tool with operation "init" first.`,
+      );
+    }
+
+    const memoryService = await this.getMemoryService();
+    const context = this.createContext(scope);
+    let json: Record<string, any>;
+    let markdown: string;
+
+    if (parsed.type === 'metadata') {
+      const metadataService = await memoryService.metadata;
+      const metadata = await metadataService.getMetadata(
+        context,
+        scope.clientProjectRoot,
+        parsed.repository,
+        parsed.branch,
+      );
+      if (!metadata) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      }
+      json = metadata;
+      markdown = renderMetadataMarkdown(parsed.repository, parsed.branch, metadata);
+    } else {
+      const graphQuery = await memoryService.graphQuery;
+      const entity = await graphQuery.getNodeById(
+        context,
+        scope.clientProjectRoot,
+        parsed.repository,
+        parsed.branch,
+        ENTITY_LABELS[parsed.type],
+        parsed.id!,
+      );
+      if (!entity) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+      }
+      json = { type: parsed.type, ...toResourceEntity(entity) };
+      markdown = renderEntityMarkdown(parsed.type, entity);
+    }
+
+    const contents: ReadResourceResult['contents'] = [];
+    if (parsed.format !== 'json') {
+      contents.push({ uri, mimeType: 'text/markdown', text: markdown });
+    }
+    if (parsed.format !== 'markdown') {
+      contents.push({ uri, mimeType: 'application/json', text: JSON.stringify(json, null, 2) });
+    }
+    return { contents };
+  }
+
+  private getScopes(allowedRepositories?: string[]): RepositoryScope[] {
+    return this.listScopes()
+      .filter((scope) => isRepositoryAllowed(allowedRepositories, scope.repository))
+      .sort((a, b) => `${a.repository}:${a.branch}`.localeCompare(`${b.repository}:${b.branch}`));
+  }
+
+  /**
+   * Find the project root for a repository branch. Branches of an initialized
+   * repository share its database, so any initialized branch of it will do.
+   */
+  private resolveScope(repository: string, branch: string): RepositoryScope | undefined {
+    const scopes = this.listScopes();
+    const scope =
+      scopes.find(
+        (candidate) => candidate.repository === repository && candidate.branch === branch,
+      ) ?? scopes.find((candidate) => candidate.repository === repository);
+    return scope && { ...scope, branch };
+  }
+
+  private createContext(scope: RepositoryScope): ToolHandlerContext {
+    return {
+      logger: this.logger,
+      session: { ...scope },
+      sendProgress: async () => {
+        // Resource requests do not report progress
+      },
+      signal: new AbortController().signal,
+      requestId: randomUUID(),
+    };
+  }
+}
+
+/**
+ * Install resources/list, resources/templates/list and resources/read handlers on an MCP server.
+ * The handlers are set on the underlying protocol server so that resources/list can paginate.
+ */
+export function registerMemoryResources(mcpServer: McpServer, provider: MemoryResourceProvider) {
+  const allowedRepositories = (extra: { authInfo?: { extra?: Record<string, unknown> } }) =>
+    extra.authInfo?.extra?.repositories as string[] | undefined;
+
+  mcpServer.server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) =>
+    provider.listResources(request.params?.cursor, allowedRepositories(extra)),
+  );
+  mcpServer.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
+    provider.listResourceTemplates(),
+  );
+  mcpServer.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+    provider.readResource(request.params.uri, allowedRepositories(extra)),
+  );
+}
@@ -0,0 +1,248 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { type Logger } from 'pino';
+
+import { isRepositoryAllowed } from '../../server/middleware/authentication.middleware';
+import {
+  type MemoryChangeEvent,
+  type MemoryChangeNotifier,
+} from '../../services/core/memory-change-notifier';
+import {
+  buildResourceUri,
+  isEntityResourceType,
+  parseResourceUri,
+  RESOURCE_URI_SCHEME,
+  type MemoryResourceType,
+} from './memory-resources';
+
+/**
+ * Session key used for the single stdio session, which has no session id
+ */
+export const STDIO_SESSION_KEY = 'stdio';
+
+/**
+ * What a subscription covers: a whole repository, one branch, or a single resource
+ */
+export interface SubscriptionTarget {
+  repository: string;
+  branch?: string;
+  type?: MemoryResourceType;
+  id?: string;
+}
+
+/**
+ * Delivers a notifications/resources/updated message to one session
+ */
+export type ResourceUpdateSender = (sessionKey: string, uri: string) => Promise<void>;
+
+/**
+ * Build a subscription URI covering a repository (`kuzumem://{repository}`) or one of its
+ * branches (`kuzumem://{repository}/{branch}`)
+ */
+export function buildScopeUri(repository: string, branch?: string): string {
+  const segments = branch === undefined ? [repository] : [repository, branch];
+  return `${RESOURCE_URI_SCHEME}://${segments.map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Parse a URI accepted by resources/subscribe: a scope URI or any resource URI.
+ * Rendering options such as `?format=` are ignored.
+ * @throws Error when the URI is not a memory resource or scope URI
+ */
+export function parseSubscriptionUri(uri: string): SubscriptionTarget {
+  const prefix = `${RESOURCE_URI_SCHEME}://`;
+  if (!uri.startsWith(prefix)) {
+    throw new Error(`Unsupported resource URI '${uri}'`);
+  }
+
+  const path = uri.slice(prefix.length).split('?', 1)[0];
+  const segments = path.split('/').map((segment) => decodeURIComponent(segment));
+  if (segments.length <= 2 && segments.every((segment) => segment !== '')) {
+    const [repository, branch] = segments;
+    return branch === undefined ? { repository } : { repository, branch };
+  }
+
+  const { repository, branch, type, id } = parseResourceUri(uri);
+  return id === undefined ? { repository, branch, type } : { repository, branch, type, id };
+}
+
+function subscriptionKey(target: SubscriptionTarget): string {
+  if (!target.type) {
+    return buildScopeUri(target.repository, target.branch);
+  }
+  return buildResourceUri(target.repository, target.branch!, target.type, target.id);
+}
+
+function matchesChange(target: SubscriptionTarget, event: MemoryChangeEvent): boolean {
+  if (target.repository !== event.repository) {
+    return false;
+  }
+  // A change without a branch, type or id covers everything below it
+  if (target.branch !== undefined && event.branch !== undefined && target.branch !== event.branch) {
+    return false;
+  }
+  if (target.type !== undefined && event.entityType !== undefined) {
+    if (target.type !== event.entityType) {
+      return false;
+    }
+    if (target.id !== undefined && event.entityIds && !event.entityIds.includes(target.id)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * URIs naming the changed items as seen from one subscription. Changes to items that are
+ * not resources themselves (files, tags) or to whole scopes are reported on the subscribed URI.
+ */
+function changedUris(uri: string, target: SubscriptionTarget, event: MemoryChangeEvent): string[] {
+  const branch = event.branch ?? target.branch;
+  if (branch === undefined) {
+    return [uri];
+  }
+  if (event.entityType === 'metadata') {
+    return [buildResourceUri(target.repository, branch, 'metadata')];
+  }
+  const { entityType, entityIds } = event;
+  if (isEntityResourceType(entityType) && entityIds?.length) {
+    const ids = target.id !== undefined ? [target.id] : entityIds;
+    return ids.map((id) => buildResourceUri(target.repository, branch, entityType, id));
+  }
+  return [uri];
+}
+
+/**
+ * Tracks resources/subscribe requests per session and turns memory changes into
+ * notifications/resources/updated messages for the sessions that asked for them
+ */
+export class ResourceSubscriptionManager {
+  private subscriptions = new Map<string, Map<string, SubscriptionTarget>>();
+
+  constructor(
+    private sendUpdate: ResourceUpdateSender,
+    private logger: Logger,
+  ) {}
+
+  /**
+   * Subscribe a session to a resource or scope URI
+   * @returns The normalized subscription URI
+   */
+  subscribe(sessionKey: string, uri: string, allowedRepositories?: string[]): string {
+    const target = this.parseTarget(uri);
+    if (!isRepositoryAllowed(allowedRepositories, target.repository)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Credential is not allowed to access repository '${target.repository}'`,
+      );
+    }
+
+    const key = subscriptionKey(target);
+    let sessionSubscriptions = this.subscriptions.get(sessionKey);
+    if (!sessionSubscriptions) {
+      sessionSubscriptions = new Map();
+      this.subscriptions.set(sessionKey, sessionSubscriptions);
+    }
+    sessionSubscriptions.set(key, target);
+    this.logger.debug({ sessionKey, uri: key }, 'Resource subscription added');
+    return key;
+  }
+
+  /**
+   * Remove a subscription; unknown subscriptions are ignored
+   */
+  unsubscribe(sessionKey: string, uri: string): void {
+    const sessionSubscriptions = this.subscriptions.get(sessionKey);
+    if (!sessionSubscriptions) {
+      return;
+    }
+    sessionSubscriptions.delete(subscriptionKey(this.parseTarget(uri)));
+    if (sessionSubscriptions.size === 0) {
+      this.subscriptions.delete(sessionKey);
+    }
+    this.logger.debug({ sessionKey, uri }, 'Resource subscription removed');
+  }
+
+  /**
+   * Drop every subscription of a closed session
+   */
+  removeSession(sessionKey: string): void {
+    this.subscriptions.delete(sessionKey);
+  }
+
+  /**
+   * Get the subscription URIs of a session
+   */
+  getSubscriptions(sessionKey: string): string[] {
+    return Array.from(this.subscriptions.get(sessionKey)?.keys() ?? []);
+  }
+
+  /**
+   * Notify every session with a subscription matching the change
+   */
+  async handleChange(event: MemoryChangeEvent): Promise<void> {
+    const deliveries: Promise<void>[] = [];
+
+    for (const [sessionKey, sessionSubscriptions] of this.subscriptions) {
+      const uris = new Set<string>();
+      for (const [uri, target] of sessionSubscriptions) {
+        if (matchesChange(target, event)) {
+          changedUris(uri, target, event).forEach((changed) => uris.add(changed));
+        }
+      }
+
+      for (const uri of uris) {
+        deliveries.push(
+          this.sendUpdate(sessionKey, uri).catch((error) => {
+            this.logger.warn({ error, sessionKey, uri }, 'Failed to send resource update');
+          }),
+        );
+      }
+    }
+
+    await Promise.all(deliveries);
+  }
+
+  /**
+   * Start forwarding changes published by a notifier
+   * @returns A function that stops forwarding
+   */
+  attach(notifier: MemoryChangeNotifier): () => void {
+    return notifier.subscribe((event) => this.handleChange(event));
+  }
+
+  private parseTarget(uri: string): SubscriptionTarget {
+    try {
+      return parseSubscriptionUri(uri);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Install resources/subscribe and resources/unsubscribe handlers on an MCP server.
+ * Subscriptions are keyed by the transport session id, or STDIO_SESSION_KEY without one.
+ */
+export function registerResourceSubscriptions(
+  mcpServer: McpServer,
+  manager: ResourceSubscriptionManager,
+) {
+  mcpServer.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    manager.subscribe(
+      extra.sessionId ?? STDIO_SESSION_KEY,
+      request.params.uri,
+      extra.authInfo?.extra?.repositories as string[] | undefined,
+    );
+    return {};
+  });
+  mcpServer.server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    manager.unsubscribe(extra.sessionId ?? STDIO_SESSION_KEY, request.params.uri);
+    return {};
+  });
+}
@@ -5,8 +5,18 @@ import { z } from 'zod';
 // ============================================
 
 export const MemoryBankInputSchema = z.object({
-  operation: z.enum(['init', 'get-metadata', 'update-metadata']),
-  clientProjectRoot: z.string().optional(), // Required only for init operation
+  operation: z.enum([
+    'init',
+    'fork',
+    'get-metadata',
+    'update-metadata',
+    'export',
+    'export-markdown',
+    'export-adr',
+    'import',
+    'import-adr',
+  ]),
+  clientProjectRoot: z.string().optional(), // Required only for init and fork operations
   repository: z.string(),
   branch: z.string().default('main'),
   // Operation-specific fields
@@ -23,6 +33,18 @@ export const MemoryBankInputSchema = z.object({
       memory_spec_version: z.string(),
     })
     .optional(), // For update-metadata operation
+  // For fork operation
+  sourceBranch: z.string().optional(),
+  entityTypes: z.array(z.enum(['component', 'decision', 'rule', 'context'])).optional(),
+  tags: z.array(z.string()).optional(),
+  // For export, export-markdown and export-adr operations
+  format: z.enum(['json', 'jsonl']).optional(),
+  outputPath: z.string().optional(),
+  // For import and import-adr operations
+  inputPath: z.string().optional(),
+  content: z.string().optional(),
+  conflictPolicy: z.enum(['skip', 'overwrite', 'rename']).optional(),
+  dryRun: z.boolean().optional(),
 });
 
 // Different output schemas for different operations
@@ -61,12 +83,13 @@ export const MemoryBankOutputSchema = z.union([
 // ============================================
 
 export const EntityInputSchema = z.object({
-  operation: z.enum(['create', 'update', 'get', 'delete']),
+  operation: z.enum(['create', 'update', 'get', 'delete', 'merge']),
   entityType: z.enum(['component', 'decision', 'rule', 'file', 'tag']),
   clientProjectRoot: z.string().optional(), // From session
   repository: z.string(),
   branch: z.string().default('main'),
   id: z.string(),
+  targetId: z.string().optional(), // Merge target
   data: z
     .object({
       // Common fields
@@ -145,11 +168,11 @@ export const EntityOutputSchema = z.union([
 // ============================================
 
 export const IntrospectInputSchema = z.object({
-  query: z.enum(['labels', 'count', 'properties', 'indexes']),
+  query: z.enum(['labels', 'count', 'properties', 'indexes', 'schema-drift']),
   clientProjectRoot: z.string().optional(), // From session
   repository: z.string(),
   branch: z.string().default('main'),
-  target: z.string().optional(), // Required for count and properties queries
+  target: z.string().optional(), // Required for count and properties queries, optional for schema-drift
 });
 
 // Different output schemas for each query type
@@ -187,12 +210,38 @@ export const IndexesOutputSchema = z.object({
   ),
 });
 
+const PropertyDefinitionSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+});
+
+export const SchemaDriftOutputSchema = z.object({
+  inSync: z.boolean(),
+  labels: z.array(
+    z.object({
+      label: z.string(),
+      tableMissing: z.boolean(),
+      missing: z.array(PropertyDefinitionSchema),
+      extra: z.array(PropertyDefinitionSchema),
+      typeMismatches: z.array(
+        z.object({
+          name: z.string(),
+          expectedType: z.string(),
+          actualType: z.string(),
+        }),
+      ),
+    }),
+  ),
+  message: z.string(),
+});
+
 // Union of all introspect outputs
 export const IntrospectOutputSchema = z.union([
   LabelsOutputSchema,
   CountOutputSchema,
   PropertiesOutputSchema,
   IndexesOutputSchema,
+  SchemaDriftOutputSchema,
 ]);
 
 // ============================================
@@ -604,8 +653,18 @@ export const DetectOutputSchema = z.object({
 // Bulk Import Tool Schemas
 // ============================================
 
+const BulkImportTypeSchema = z.enum([
+  'components',
+  'decisions',
+  'rules',
+  'files',
+  'tags',
+  'contexts',
+  'relationships',
+]);
+
 export const BulkImportInputSchema = z.object({
-  type: z.enum(['components', 'decisions', 'rules']),
+  type: BulkImportTypeSchema,
   clientProjectRoot: z.string().optional(), // From session
   repository: z.string(),
   branch: z.string().default('main'),
@@ -647,16 +706,82 @@ export const BulkImportInputSchema = z.object({
     )
     .optional(),
 
+  files: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        path: z.string(),
+        size: z.number().optional(),
+        mime_type: z.string().optional(),
+        language: z.string().optional(),
+        content: z.string().optional(),
+        metrics: z.record(z.unknown()).optional(),
+        checksum: z.string().optional(),
+      }),
+    )
+    .optional(),
+
+  tags: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        color: z.string().optional(),
+        description: z.string().optional(),
+        category: z.string().optional(),
+      }),
+    )
+    .optional(),
+
+  contexts: z
+    .array(
+      z.object({
+        id: z.string(),
+        agent: z.string().optional(),
+        summary: z.string().optional(),
+        observation: z.string().optional(),
+        timestamp: z.string().optional(),
+      }),
+    )
+    .optional(),
+
+  relationships: z
+    .array(
+      z.object({
+        type: z.enum([
+          'IMPLEMENTS',
+          'TAGGED_WITH',
+          'GOVERNS',
+          'AFFECTS',
+          'DEPENDS_ON',
+          'CONTEXT_OF',
+        ]),
+        fromId: z.string(),
+        toId: z.string(),
+        fromType: z.enum(['component', 'decision', 'rule', 'file', 'context']).optional(),
+        toType: z.enum(['component', 'decision', 'rule', 'file', 'tag']).optional(),
+      }),
+    )
+    .optional(),
+
   // Options
   overwrite: z.boolean().default(false),
+  dryRun: z.boolean().default(false), // Preview an import without writing
+  loader: z.enum(['upsert', 'copy']).default('upsert'), // 'copy' loads with COPY FROM
+  progressInterval: z.number().int().min(1).optional(), // Rows between progress notifications
 });
 
 export const BulkImportOutputSchema = z.object({
-  type: z.enum(['components', 'decisions', 'rules']),
+  type: BulkImportTypeSchema,
   status: z.string(),
   imported: z.number(),
   failed: z.number(),
   skipped: z.number(),
+  dryRun: z.boolean().optional(),
+  counts: z.record(z.unknown()).optional(), // Per-type counts for files, tags, contexts and relationships
+  preview: z.record(z.unknown()).optional(), // Planned outcomes, for dry runs
+  snapshotIds: z.array(z.string()).optional(), // Snapshots taken first by the branch's snapshot policy
   errors: z
     .array(
       z.object({
@@ -673,21 +798,24 @@ export const BulkImportOutputSchema = z.object({
 // ============================================
 
 export const SearchInputSchema = z.object({
-  query: z.string(),
+  query: z.string().optional(), // Required unless mode is reindex
   clientProjectRoot: z.string().optional(), // From session
   repository: z.string(),
   branch: z.string().default('main'),
 
   // Search mode and options
-  mode: z.enum(['fulltext', 'semantic', 'hybrid']).default('fulltext'),
+  mode: z.enum(['fulltext', 'semantic', 'hybrid', 'reindex']).default('fulltext'),
   entityTypes: z.array(z.enum(['component', 'decision', 'rule', 'file', 'context'])).optional(),
   limit: z.number().min(1).max(50).default(10),
-  threshold: z.number().min(0).max(1).default(0.7), // Similarity threshold for semantic/hybrid modes
+  threshold: z.number().min(0).max(1).optional(), // Similarity threshold for semantic/hybrid modes, provider default when unset
+  fusion: z.enum(['rrf', 'weighted']).default('rrf'), // Rank fusion strategy for hybrid mode
+  semanticWeight: z.number().min(0).max(1).default(0.5), // Vector score weight for weighted fusion
+  force: z.boolean().default(false), // Re-embed every entity in reindex mode
 });
 
 export const SearchOutputSchema = z.object({
   status: z.string(),
-  mode: z.enum(['fulltext', 'semantic', 'hybrid']),
+  mode: z.enum(['fulltext', 'semantic', 'hybrid', 'reindex']),
   results: z.array(
     z.object({
       id: z.string(),
@@ -700,5 +828,15 @@ export const SearchOutputSchema = z.object({
   ),
   totalResults: z.number(),
   query: z.string(),
+  reindex: z
+    .object({
+      repository: z.string(),
+      branch: z.string(),
+      entityTypes: z.array(z.string()),
+      embedded: z.number(),
+      unchanged: z.number(),
+      removed: z.number(),
+    })
+    .optional(),
   message: z.string().optional(),
 });
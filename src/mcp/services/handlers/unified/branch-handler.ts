@@ -0,0 +1,118 @@
+import { SdkToolHandler } from '../../../tool-handlers';
+import { handleToolError, logToolExecution, validateSession } from '../../../utils/error-utils';
+
+// TypeScript interface for branch input parameters
+interface BranchParams {
+  operation: 'diff' | 'merge';
+  clientProjectRoot?: string;
+  repository: string;
+  sourceBranch: string;
+  targetBranch?: string;
+  // Merge options
+  strategy?: 'ours' | 'theirs' | 'fail';
+  baseSnapshotId?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Branch Handler
+ * Compares and merges the memory of branches within a repository
+ */
+export const branchHandler: SdkToolHandler = async (params, context, memoryService) => {
+  // 1. Validate and extract parameters
+  const validatedParams = params as unknown as BranchParams;
+
+  if (!validatedParams.operation) {
+    throw new Error('operation parameter is required');
+  }
+  if (!validatedParams.repository) {
+    throw new Error('repository parameter is required');
+  }
+  if (!validatedParams.sourceBranch) {
+    throw new Error('sourceBranch parameter is required');
+  }
+
+  const {
+    operation,
+    repository,
+    sourceBranch,
+    targetBranch = 'main',
+    strategy = 'fail',
+    baseSnapshotId,
+    dryRun = false,
+  } = validatedParams;
+
+  // 2. Validate session and get clientProjectRoot
+  const clientProjectRoot = validateSession(context, 'branch');
+
+  // 3. Log the operation
+  logToolExecution(context, `branch operation: ${operation}`, {
+    repository,
+    clientProjectRoot,
+    sourceBranch,
+    targetBranch,
+  });
+
+  try {
+    switch (operation) {
+      case 'diff': {
+        await context.sendProgress({
+          status: 'in_progress',
+          message: `Comparing ${sourceBranch} with ${targetBranch}...`,
+          percent: 30,
+        });
+
+        const branchService = await memoryService.branch;
+        const result = await branchService.diffBranches(
+          context,
+          clientProjectRoot,
+          repository,
+          sourceBranch,
+          targetBranch,
+        );
+
+        await context.sendProgress({
+          status: 'complete',
+          message: `${result.summary.added} added, ${result.summary.removed} removed, ${result.summary.modified} modified`,
+          percent: 100,
+          isFinal: true,
+        });
+
+        return result;
+      }
+
+      case 'merge': {
+        await context.sendProgress({
+          status: 'in_progress',
+          message: `Merging ${sourceBranch} into ${targetBranch} (strategy: ${strategy})...`,
+          percent: 30,
+        });
+
+        const branchService = await memoryService.branch;
+        const result = await branchService.mergeBranches(
+          context,
+          clientProjectRoot,
+          repository,
+          sourceBranch,
+          targetBranch,
+          { strategy, baseSnapshotId, dryRun },
+        );
+
+        await context.sendProgress({
+          status: result.success ? 'complete' : 'error',
+          message: result.message,
+          percent: 100,
+          isFinal: true,
+        });
+
+        return result;
+      }
+
+      default:
+        throw new Error(`Unknown branch operation: ${operation}`);
+    }
+  } catch (error) {
+    await handleToolError(error, context, `branch ${operation}`, 'branch');
+    throw error;
+  }
+};
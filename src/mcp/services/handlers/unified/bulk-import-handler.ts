@@ -1,18 +1,92 @@
 import { Component, Decision, Rule } from '../../../../types';
+import type {
+  BulkContextInput,
+  BulkFileInput,
+  BulkGraphImportInput,
+  BulkRelationshipInput,
+  BulkTagInput,
+} from '../../../../utils/bulk-import.utils';
 import { SdkToolHandler } from '../../../tool-handlers';
+import { ToolHandlerContext } from '../../../types/sdk-custom';
 import { handleToolError, logToolExecution, validateSession } from '../../../utils/error-utils';
+import { snapshotBeforeBulkOperation } from '../../../utils/snapshot-utils';
 
 // TypeScript interfaces for bulk-import input parameters
 interface BulkImportParams {
-  type: 'components' | 'decisions' | 'rules';
+  type: 'components' | 'decisions' | 'rules' | 'files' | 'tags' | 'contexts' | 'relationships';
   clientProjectRoot?: string;
   repository: string;
   branch?: string;
   overwrite?: boolean;
+  dryRun?: boolean;
+  loader?: 'upsert' | 'copy';
+  progressInterval?: number;
   // Entity arrays
   components?: Component[];
   decisions?: Decision[];
   rules?: Rule[];
+  files?: BulkFileInput[];
+  tags?: BulkTagInput[];
+  contexts?: BulkContextInput[];
+  relationships?: BulkRelationshipInput[];
+}
+
+function countItems(input: BulkGraphImportInput): number {
+  return Object.values(input).reduce((sum, items) => sum + (items?.length ?? 0), 0);
+}
+
+/**
+ * Report the result of a batch import or bulk load (see IBulkImportService): totals over
+ * all types, with the counts per type. Linked files and tags count as skipped.
+ */
+async function summarizeBatch(
+  context: ToolHandlerContext,
+  type: BulkImportParams['type'],
+  total: number,
+  result: any,
+  snapshotIds: string[],
+) {
+  const { dryRun, counts } = result;
+  const nodeCounts = Object.entries(counts)
+    .filter(([key]) => key !== 'relationships')
+    .map(
+      ([, value]) => value as { created: number; updated: number; skipped: number; linked: number },
+    );
+  const nodes = nodeCounts.reduce((sum, count) => sum + count.created + count.updated, 0);
+  const skipped = nodeCounts.reduce((sum, count) => sum + count.skipped + count.linked, 0);
+  const imported = result.success ? nodes + counts.relationships : 0;
+  const failed = result.errors.length;
+
+  await context.sendProgress({
+    status: 'complete',
+    message: `Bulk import ${dryRun ? 'preview' : 'complete'}: ${imported} imported, ${skipped} skipped, ${failed} failed`,
+    percent: 100,
+    isFinal: true,
+  });
+
+  let message: string;
+  if (!result.success) {
+    message = `Bulk import rejected: ${failed} invalid items, nothing was ${dryRun ? 'planned' : 'imported'}`;
+  } else if (dryRun) {
+    message = `Dry run: would import ${nodes} nodes and ${counts.relationships} relationships, skip ${skipped}`;
+  } else {
+    message = `Successfully imported ${nodes} nodes and ${counts.relationships} relationships, skipped ${skipped}`;
+  }
+
+  return {
+    type,
+    success: result.success,
+    dryRun,
+    imported,
+    skipped,
+    failed,
+    total,
+    counts,
+    preview: result.preview,
+    errors: failed > 0 ? result.errors : undefined,
+    snapshotIds: snapshotIds.length > 0 ? snapshotIds : undefined,
+    message,
+  };
 }
 
 /**
@@ -36,9 +110,16 @@ export const bulkImportHandler: SdkToolHandler = async (params, context, memoryS
     repository,
     branch = 'main',
     overwrite = false,
+    dryRun = false,
+    loader = 'upsert',
+    progressInterval,
     components,
     decisions,
     rules,
+    files,
+    tags,
+    contexts,
+    relationships,
   } = validatedParams;
 
   // 2. Validate session and get clientProjectRoot
@@ -61,6 +142,16 @@ export const bulkImportHandler: SdkToolHandler = async (params, context, memoryS
         throw new Error('No rules data provided for import');
       }
       break;
+    case 'files':
+    case 'tags':
+    case 'contexts':
+    case 'relationships': {
+      const items = validatedParams[type];
+      if (!items || !Array.isArray(items) || items.length === 0) {
+        throw new Error(`No ${type} data provided for import`);
+      }
+      break;
+    }
     default:
       throw new Error(`Unknown bulk import type: ${type}`);
   }
@@ -72,215 +163,69 @@ export const bulkImportHandler: SdkToolHandler = async (params, context, memoryS
     clientProjectRoot,
     type,
     overwrite,
+    dryRun,
+    loader,
   });
 
   try {
-    switch (type) {
-      case 'components': {
-        await context.sendProgress({
-          status: 'in_progress',
-          message: `Starting bulk import of ${components!.length} components...`,
-          percent: 10,
-        });
-
-        let imported = 0;
-        let skipped = 0;
-        let failed = 0;
-        const errors: Array<{ id: string; error: string }> = [];
-        const entityService = await memoryService.entity;
-
-        for (const component of components!) {
-          try {
-            // Check if component already exists
-            if (!overwrite) {
-              const existing = await entityService.getComponent(
-                context,
-                clientProjectRoot,
-                repository,
-                branch,
-                component.id,
-              );
-              if (existing) {
-                skipped++;
-                continue;
-              }
-            }
-
-            // Import the component
-            await entityService.upsertComponent(
-              context,
-              clientProjectRoot,
-              repository,
-              branch,
-              component,
-            );
-            imported++;
-          } catch (error) {
-            context.logger.warn(`Failed to import component ${component.id}:`, error);
-            failed++;
-            errors.push({
-              id: component.id,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
-
-        await context.sendProgress({
-          status: 'complete',
-          message: `Bulk import complete: ${imported} imported, ${skipped} skipped, ${failed} failed`,
-          percent: 100,
-          isFinal: true,
-        });
-
-        return {
-          type: 'components',
-          success: true,
-          imported,
-          skipped,
-          failed,
-          total: components!.length,
-          errors: errors.length > 0 ? errors : undefined,
-          message: `Successfully imported ${imported} components, skipped ${skipped}`,
-        };
-      }
-
-      case 'decisions': {
-        await context.sendProgress({
-          status: 'in_progress',
-          message: `Starting bulk import of ${decisions!.length} decisions...`,
-          percent: 10,
-        });
-
-        let imported = 0;
-        let skipped = 0;
-        let failed = 0;
-        const errors: Array<{ id: string; error: string }> = [];
-        const entityService = await memoryService.entity;
-
-        for (const decision of decisions!) {
-          try {
-            // Check if decision already exists
-            if (!overwrite) {
-              const existing = await entityService.getDecision(
-                context,
-                clientProjectRoot,
-                repository,
-                branch,
-                decision.id,
-              );
-              if (existing) {
-                skipped++;
-                continue;
-              }
-            }
-
-            // Import the decision
-            await entityService.upsertDecision(
-              context,
-              clientProjectRoot,
-              repository,
-              branch,
-              decision,
-            );
-            imported++;
-          } catch (error) {
-            context.logger.warn(`Failed to import decision ${decision.id}:`, error);
-            failed++;
-            errors.push({
-              id: decision.id,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
-
-        await context.sendProgress({
-          status: 'complete',
-          message: `Bulk import complete: ${imported} imported, ${skipped} skipped, ${failed} failed`,
-          percent: 100,
-          isFinal: true,
-        });
-
-        return {
-          type: 'decisions',
-          success: true,
-          imported,
-          skipped,
-          failed,
-          total: decisions!.length,
-          errors: errors.length > 0 ? errors : undefined,
-          message: `Successfully imported ${imported} decisions, skipped ${skipped}`,
-        };
-      }
-
-      case 'rules': {
-        if (!rules || !Array.isArray(rules) || rules.length === 0) {
-          throw new Error('rules array is required and must not be empty for rules import');
-        }
-
-        await context.sendProgress({
-          status: 'in_progress',
-          message: `Starting bulk import of ${rules.length} rules...`,
-          percent: 10,
-        });
-
-        let imported = 0;
-        let skipped = 0;
-        let failed = 0;
-        const errors: Array<{ id: string; error: string }> = [];
-        const entityService = await memoryService.entity;
-
-        for (const rule of rules) {
-          try {
-            // Check if rule already exists
-            if (!overwrite) {
-              const existing = await entityService.getRule(
-                context,
-                clientProjectRoot,
-                repository,
-                branch,
-                rule.id,
-              );
-              if (existing) {
-                skipped++;
-                continue;
-              }
-            }
-
-            // Import the rule
-            await entityService.upsertRule(context, clientProjectRoot, repository, rule, branch);
-            imported++;
-          } catch (error) {
-            context.logger.warn(`Failed to import rule ${rule.id}:`, error);
-            failed++;
-            errors.push({
-              id: rule.id,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
-
-        await context.sendProgress({
-          status: 'complete',
-          message: `Bulk import complete: ${imported} imported, ${skipped} skipped, ${failed} failed`,
-          percent: 100,
-          isFinal: true,
-        });
-
-        return {
-          type: 'rules',
-          success: true,
-          imported,
-          skipped,
-          failed,
-          total: rules.length,
-          errors: errors.length > 0 ? errors : undefined,
-          message: `Successfully imported ${imported} rules, skipped ${skipped}`,
-        };
-      }
-
-      default:
-        throw new Error(`Unknown bulk import type: ${type}`);
+    // Snapshot the branch first when its snapshot policy asks for it
+    const snapshotIds = !dryRun
+      ? await snapshotBeforeBulkOperation(
+          memoryService,
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+          'bulk-import',
+        )
+      : [];
+
+    // Every array of the call is imported together, whatever its type
+    const input: BulkGraphImportInput = {
+      components: components as BulkGraphImportInput['components'],
+      decisions: decisions as BulkGraphImportInput['decisions'],
+      rules: rules as BulkGraphImportInput['rules'],
+      files,
+      tags,
+      contexts,
+      relationships,
+    };
+    const total = countItems(input);
+    const bulkImportService = await memoryService.bulkImport;
+
+    if (loader === 'copy') {
+      await context.sendProgress({
+        status: 'in_progress',
+        message: `${dryRun ? 'Planning' : 'Staging'} bulk load of ${total} items...`,
+        percent: 5,
+      });
+
+      const result = await bulkImportService.bulkLoad(
+        context,
+        clientProjectRoot,
+        repository,
+        branch,
+        input,
+        { overwrite, dryRun, progressInterval },
+      );
+      return await summarizeBatch(context, type, total, result, snapshotIds);
     }
+
+    await context.sendProgress({
+      status: 'in_progress',
+      message: `${dryRun ? 'Planning' : 'Starting'} bulk import of ${total} items...`,
+      percent: 10,
+    });
+
+    const result = await bulkImportService.bulkImportGraph(
+      context,
+      clientProjectRoot,
+      repository,
+      branch,
+      input,
+      { overwrite, dryRun },
+    );
+    return await summarizeBatch(context, type, total, result, snapshotIds);
   } catch (error) {
     await handleToolError(error, context, `bulk-import ${type}`, 'bulk-import');
 
@@ -1,5 +1,6 @@
 import { SdkToolHandler } from '../../../tool-handlers';
 import { handleToolError, logToolExecution, validateSession } from '../../../utils/error-utils';
+import { snapshotBeforeBulkOperation } from '../../../utils/snapshot-utils';
 
 // TypeScript interfaces for delete input parameters
 interface DeleteParams {
@@ -76,6 +77,19 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
     dryRun,
   });
 
+  // Bulk deletes snapshot the branches they change when their snapshot policy asks for it
+  const snapshotBeforeDelete = async (scope: string | undefined): Promise<string[]> =>
+    dryRun
+      ? []
+      : snapshotBeforeBulkOperation(
+          memoryService,
+          context,
+          clientProjectRoot,
+          repository,
+          scope,
+          'bulk-delete',
+        );
+
   try {
     switch (operation) {
       case 'single': {
@@ -238,6 +252,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           );
         }
 
+        const snapshotIds = await snapshotBeforeDelete(branch);
         const entityService = await memoryService.entity;
         const result = await entityService.bulkDeleteByType(
           context,
@@ -258,6 +273,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           deletedEntities: result.entities || [],
           dryRun: dryRun || undefined,
           warnings: result.warnings || [],
+          snapshotIds: snapshotIds.length > 0 ? snapshotIds : undefined,
         };
       }
 
@@ -272,6 +288,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           );
         }
 
+        const snapshotIds = await snapshotBeforeDelete(branch);
         const entityService = await memoryService.entity;
         const result = await entityService.bulkDeleteByTag(
           context,
@@ -292,6 +309,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           deletedEntities: result.entities || [],
           dryRun: dryRun || undefined,
           warnings: result.warnings || [],
+          snapshotIds: snapshotIds.length > 0 ? snapshotIds : undefined,
         };
       }
 
@@ -306,6 +324,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           );
         }
 
+        const snapshotIds = await snapshotBeforeDelete(targetBranch);
         const entityService = await memoryService.entity;
         const result = await entityService.bulkDeleteByBranch(
           context,
@@ -325,6 +344,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           deletedEntities: result.entities || [],
           dryRun: dryRun || undefined,
           warnings: result.warnings || [],
+          snapshotIds: snapshotIds.length > 0 ? snapshotIds : undefined,
         };
       }
 
@@ -335,6 +355,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           );
         }
 
+        const snapshotIds = await snapshotBeforeDelete(undefined);
         const entityService = await memoryService.entity;
         const result = await entityService.bulkDeleteByRepository(
           context,
@@ -353,6 +374,7 @@ export const deleteHandler: SdkToolHandler = async (params, context, memoryServi
           deletedEntities: result.entities || [],
           dryRun: dryRun || undefined,
           warnings: result.warnings || [],
+          snapshotIds: snapshotIds.length > 0 ? snapshotIds : undefined,
         };
       }
 
@@ -1,13 +1,17 @@
+import type { IEntityService } from '../../../../services/core/service-container.interface';
 import { SdkToolHandler } from '../../../tool-handlers';
+import type { ToolHandlerContext } from '../../../types/sdk-custom';
 import { handleToolError, logToolExecution, validateSession } from '../../../utils/error-utils';
 
 // TypeScript interfaces for entity input parameters
 interface EntityParams {
-  operation: 'create' | 'update' | 'get' | 'delete';
+  operation: 'create' | 'update' | 'get' | 'delete' | 'merge';
   entityType: 'component' | 'decision' | 'rule' | 'file' | 'tag';
   repository: string;
   branch?: string;
   id?: string;
+  /** Entity that id is merged into (merge operation) */
+  targetId?: string;
   data?: any;
 }
 
@@ -85,9 +89,37 @@ function mapDataToEntity(entityType: string, id: string, data: any): EntityData
   }
 }
 
+/**
+ * Fetch an entity by type and ID, or null when it does not exist
+ */
+async function getEntity(
+  entityService: IEntityService,
+  context: ToolHandlerContext,
+  clientProjectRoot: string,
+  repository: string,
+  branch: string,
+  entityType: EntityParams['entityType'],
+  entityId: string,
+): Promise<any> {
+  // Call appropriate EntityService get method based on entity type
+  switch (entityType) {
+    case 'component':
+      return entityService.getComponent(context, clientProjectRoot, repository, branch, entityId);
+    case 'decision':
+      return entityService.getDecision(context, clientProjectRoot, repository, branch, entityId);
+    case 'rule':
+      return entityService.getRule(context, clientProjectRoot, repository, branch, entityId);
+    case 'file':
+      return entityService.getFile(context, clientProjectRoot, repository, branch, entityId);
+    case 'tag':
+      return entityService.getTag(context, clientProjectRoot, repository, branch, entityId);
+  }
+  return null;
+}
+
 /**
  * Entity Handler
- * Unified handler for all entity CRUD operations
+ * Unified handler for all entity CRUD and merge operations
  */
 export const entityHandler: SdkToolHandler = async (params, context, memoryService) => {
   // 1. Validate and extract parameters
@@ -104,12 +136,23 @@ export const entityHandler: SdkToolHandler = async (params, context, memoryServi
     throw new Error('repository parameter is required');
   }
 
-  const { operation, entityType, repository, branch = 'main', id, data } = validatedParams;
+  const {
+    operation,
+    entityType,
+    repository,
+    branch = 'main',
+    id,
+    targetId,
+    data,
+  } = validatedParams;
 
   // Additional validation for operations that require an id
-  if (['get', 'update', 'delete'].includes(operation) && !id) {
+  if (['get', 'update', 'delete', 'merge'].includes(operation) && !id) {
     throw new Error(`id parameter is required for ${operation} operation`);
   }
+  if (operation === 'merge' && !targetId) {
+    throw new Error('targetId parameter is required for merge operation');
+  }
 
   // 2. Validate session and get clientProjectRoot
   const clientProjectRoot = validateSession(context, 'entity');
@@ -214,55 +257,38 @@ export const entityHandler: SdkToolHandler = async (params, context, memoryServi
           percent: 50,
         });
 
-        let entity: any = null;
-
-        // Call appropriate EntityService get method based on entity type
-        switch (entityType) {
-          case 'component':
-            entity = await entityService.getComponent(
-              context,
-              clientProjectRoot,
-              repository,
-              branch,
-              entityId,
-            );
-            break;
-          case 'decision':
-            entity = await entityService.getDecision(
-              context,
-              clientProjectRoot,
-              repository,
-              branch,
-              entityId,
-            );
-            break;
-          case 'rule':
-            entity = await entityService.getRule(
-              context,
-              clientProjectRoot,
-              repository,
-              branch,
-              entityId,
-            );
-            break;
-          case 'file':
-            entity = await entityService.getFile(
-              context,
-              clientProjectRoot,
-              repository,
-              branch,
-              entityId,
-            );
-            break;
-          case 'tag':
-            entity = await entityService.getTag(
+        let entity = await getEntity(
+          entityService,
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+          entityType,
+          entityId,
+        );
+
+        // An ID merged into another entity resolves to that entity
+        let mergedInto: string | null = null;
+        if (!entity) {
+          mergedInto = await entityService.findMergedEntityId(
+            context,
+            clientProjectRoot,
+            repository,
+            branch,
+            entityType,
+            entityId,
+          );
+          if (mergedInto) {
+            entity = await getEntity(
+              entityService,
               context,
               clientProjectRoot,
               repository,
               branch,
-              entityId,
+              entityType,
+              mergedInto,
             );
-            break;
+          }
         }
 
         await context.sendProgress({
@@ -281,6 +307,15 @@ export const entityHandler: SdkToolHandler = async (params, context, memoryServi
           };
         }
 
+        if (mergedInto) {
+          return {
+            success: true,
+            entity: entity,
+            resolvedFrom: entityId,
+            message: `${entityType} ${entityId} was merged into ${mergedInto}`,
+          };
+        }
+
         return {
           success: true,
           entity: entity,
@@ -441,6 +476,33 @@ export const entityHandler: SdkToolHandler = async (params, context, memoryServi
         };
       }
 
+      case 'merge': {
+        await context.sendProgress({
+          status: 'in_progress',
+          message: `Merging ${entityType} ${id} into ${targetId}`,
+          percent: 50,
+        });
+
+        const result = await entityService.mergeEntities(
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+          entityType,
+          id!,
+          targetId!,
+        );
+
+        await context.sendProgress({
+          status: 'complete',
+          message: result.message,
+          percent: 100,
+          isFinal: true,
+        });
+
+        return result;
+      }
+
       default:
         return {
           success: false,
@@ -3,11 +3,11 @@ import { handleToolError, logToolExecution, validateSession } from '../../../uti
 
 // TypeScript interfaces for introspect input parameters
 interface IntrospectParams {
-  query: 'labels' | 'count' | 'properties' | 'indexes';
+  query: 'labels' | 'count' | 'properties' | 'indexes' | 'schema-drift';
   clientProjectRoot?: string;
   repository: string;
   branch?: string;
-  target?: string; // For count/properties operations
+  target?: string; // For count/properties operations, optional for schema-drift
 }
 
 // Output interfaces
@@ -45,6 +45,20 @@ interface IndexesOutput {
   indexes: IndexInfo[];
 }
 
+interface LabelDriftInfo {
+  label: string;
+  tableMissing: boolean;
+  missing: PropertyInfo[];
+  extra: PropertyInfo[];
+  typeMismatches: Array<{ name: string; expectedType: string; actualType: string }>;
+}
+
+interface SchemaDriftOutput {
+  inSync: boolean;
+  labels: LabelDriftInfo[];
+  message: string;
+}
+
 /**
  * Introspect Handler
  * Provides database introspection capabilities
@@ -196,6 +210,43 @@ export const introspectHandler: SdkToolHandler = async (params, context, memoryS
         };
       }
 
+      case 'schema-drift': {
+        await context.sendProgress({
+          status: 'in_progress',
+          message: target
+            ? `Comparing ${target} properties with the expected model...`
+            : 'Comparing node table properties with the expected model...',
+          percent: 50,
+        });
+
+        const graphQueryService = await memoryService.graphQuery;
+        const result: SchemaDriftOutput = await graphQueryService.detectSchemaDrift(
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+          target,
+        );
+
+        const driftingLabels = result.labels.filter(
+          (drift) =>
+            drift.tableMissing ||
+            drift.missing.length > 0 ||
+            drift.extra.length > 0 ||
+            drift.typeMismatches.length > 0,
+        );
+        await context.sendProgress({
+          status: 'complete',
+          message: result.inSync
+            ? 'No schema drift detected'
+            : `Schema drift detected in ${driftingLabels.length} labels`,
+          percent: 100,
+          isFinal: true,
+        });
+
+        return result;
+      }
+
       default:
         // Unknown query types return empty indexes (as per test expectation)
         return {
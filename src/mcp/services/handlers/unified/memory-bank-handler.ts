@@ -1,16 +1,45 @@
+import fs from 'fs/promises';
 import path from 'path';
 import { MemoryService } from '../../../../services/memory.service';
+import { readAdrDirectory } from '../../../../utils/adr.utils';
+import {
+  parseMemoryExport,
+  serializeMemoryExport,
+  writeMemoryExport,
+} from '../../../../utils/memory-export.utils';
+import { validatePath } from '../../../../utils/security.utils';
 import { SdkToolHandler } from '../../../tool-handlers';
 import { ToolHandlerContext } from '../../../types/sdk-custom';
 import { logToolExecution } from '../../../utils/error-utils';
 
 // TypeScript interfaces for memory bank parameters
 interface MemoryBankParams {
-  operation: 'init' | 'get-metadata' | 'update-metadata';
+  operation:
+    | 'init'
+    | 'fork'
+    | 'get-metadata'
+    | 'update-metadata'
+    | 'export'
+    | 'export-markdown'
+    | 'export-adr'
+    | 'import'
+    | 'import-adr';
   clientProjectRoot?: string;
   repository: string;
   branch?: string;
   metadata?: any;
+  // Fork options
+  sourceBranch?: string;
+  entityTypes?: Array<'component' | 'decision' | 'rule' | 'context'>;
+  tags?: string[];
+  // Export options
+  format?: 'json' | 'jsonl';
+  outputPath?: string;
+  // Import options
+  inputPath?: string;
+  content?: string;
+  conflictPolicy?: 'skip' | 'overwrite' | 'rename';
+  dryRun?: boolean;
 }
 
 /**
@@ -27,10 +56,10 @@ function ensureValidSessionContext(
   const sessionRepository = context.session.repository as string | undefined;
   const sessionBranch = context.session.branch as string | undefined;
 
-  // Check if this is init operation, which establishes the context
-  if (params.operation === 'init') {
+  // Check if this is init or fork operation, which establishes the context
+  if (params.operation === 'init' || params.operation === 'fork') {
     if (!params.clientProjectRoot) {
-      throw new Error('clientProjectRoot is required for init operation');
+      throw new Error(`clientProjectRoot is required for ${params.operation} operation`);
     }
     return params.clientProjectRoot;
   }
@@ -153,6 +182,68 @@ async function handleInit(
   }
 }
 
+/**
+ * Handler for fork operation
+ */
+async function handleFork(
+  params: any,
+  context: ToolHandlerContext,
+  memoryService: MemoryService,
+): Promise<any> {
+  const {
+    clientProjectRoot,
+    repository,
+    branch,
+    sourceBranch = 'main',
+    entityTypes,
+    tags,
+  } = params;
+
+  if (!branch) {
+    throw new Error('branch parameter is required for fork operation');
+  }
+
+  await context.sendProgress({
+    status: 'in_progress',
+    message: `Forking ${repository} ${sourceBranch} into ${branch}...`,
+    percent: 30,
+  });
+
+  try {
+    const branchService = await memoryService.branch;
+    const result = await branchService.forkBranch(
+      context,
+      clientProjectRoot,
+      repository,
+      sourceBranch,
+      branch,
+      { entityTypes, tags },
+    );
+
+    // Subsequent calls work on the new branch
+    context.session.clientProjectRoot = clientProjectRoot;
+    context.session.repository = repository;
+    context.session.branch = branch;
+
+    await context.sendProgress({
+      status: 'complete',
+      message: result.message,
+      percent: 100,
+      isFinal: true,
+    });
+
+    return result;
+  } catch (error: any) {
+    await context.sendProgress({
+      status: 'error',
+      message: `Failed to fork memory bank: ${error.message || 'Unknown error'}`,
+      percent: 100,
+      isFinal: true,
+    });
+    throw error;
+  }
+}
+
 /**
  * Handler for get-metadata operation
  */
@@ -210,6 +301,180 @@ async function handleUpdateMetadata(
   return result;
 }
 
+/**
+ * Handler for export operation
+ */
+async function handleExport(
+  params: any,
+  context: ToolHandlerContext,
+  memoryService: MemoryService,
+  clientProjectRoot: string,
+): Promise<any> {
+  const { repository, branch = 'main', format = 'json', outputPath } = params;
+
+  if (format !== 'json' && format !== 'jsonl') {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  const transferService = await memoryService.transfer;
+  const memoryExport = await transferService.exportMemory(
+    context,
+    clientProjectRoot,
+    repository,
+    branch,
+  );
+  const result = {
+    success: true,
+    message: `Exported ${memoryExport.counts.entities} entities and ${memoryExport.counts.relationships} relationships from ${repository}:${branch}`,
+    format,
+    version: memoryExport.version,
+    counts: memoryExport.counts,
+  };
+
+  if (!outputPath) {
+    return { ...result, content: serializeMemoryExport(memoryExport, format) };
+  }
+
+  // Exports are only written inside the client project
+  const filePath = validatePath(outputPath, clientProjectRoot);
+  await writeMemoryExport(memoryExport, format, filePath);
+  return { ...result, path: filePath };
+}
+
+/**
+ * Handler for export-markdown operation
+ */
+async function handleExportMarkdown(
+  params: any,
+  context: ToolHandlerContext,
+  memoryService: MemoryService,
+  clientProjectRoot: string,
+): Promise<any> {
+  const { repository, branch = 'main', outputPath } = params;
+
+  if (!outputPath) {
+    throw new Error('outputPath is required for export-markdown operation');
+  }
+
+  // Markdown is only written inside the client project
+  const outputDir = validatePath(outputPath, clientProjectRoot);
+  const transferService = await memoryService.transfer;
+  return await transferService.exportMarkdown(
+    context,
+    clientProjectRoot,
+    repository,
+    branch,
+    outputDir,
+  );
+}
+
+/**
+ * ADR directory used when no path is given
+ */
+const DEFAULT_ADR_DIRECTORY = 'docs/adr';
+
+/**
+ * Handler for export-adr operation
+ */
+async function handleExportAdr(
+  params: any,
+  context: ToolHandlerContext,
+  memoryService: MemoryService,
+  clientProjectRoot: string,
+): Promise<any> {
+  const { repository, branch = 'main', outputPath = DEFAULT_ADR_DIRECTORY } = params;
+
+  // ADRs are only written inside the client project
+  const outputDir = validatePath(outputPath, clientProjectRoot);
+  const transferService = await memoryService.transfer;
+  return await transferService.exportAdrs(
+    context,
+    clientProjectRoot,
+    repository,
+    branch,
+    outputDir,
+  );
+}
+
+/**
+ * Handler for import-adr operation
+ */
+async function handleImportAdr(
+  params: any,
+  context: ToolHandlerContext,
+  memoryService: MemoryService,
+  clientProjectRoot: string,
+): Promise<any> {
+  const {
+    repository,
+    branch = 'main',
+    inputPath = DEFAULT_ADR_DIRECTORY,
+    conflictPolicy = 'skip',
+    dryRun = false,
+  } = params;
+
+  if (!['skip', 'overwrite'].includes(conflictPolicy)) {
+    throw new Error(`Unsupported conflict policy for import-adr: ${conflictPolicy}`);
+  }
+
+  // ADRs are only read from inside the client project
+  const inputDir = validatePath(inputPath, clientProjectRoot);
+  const files = await readAdrDirectory(inputDir);
+  const transferService = await memoryService.transfer;
+  return await transferService.importAdrs(context, clientProjectRoot, repository, branch, files, {
+    conflictPolicy,
+    dryRun,
+  });
+}
+
+/**
+ * Handler for import operation
+ */
+async function handleImport(
+  params: any,
+  context: ToolHandlerContext,
+  memoryService: MemoryService,
+  clientProjectRoot: string,
+): Promise<any> {
+  // Without a branch, importMemory keeps the branch recorded in the export
+  const { repository, branch, inputPath, content, conflictPolicy = 'skip' } = params;
+
+  if (!inputPath && !content) {
+    throw new Error('inputPath or content is required for import operation');
+  }
+  if (!['skip', 'overwrite', 'rename'].includes(conflictPolicy)) {
+    throw new Error(`Unsupported conflict policy: ${conflictPolicy}`);
+  }
+
+  // Exports are only read from inside the client project
+  const text = inputPath
+    ? await fs.readFile(validatePath(inputPath, clientProjectRoot), 'utf-8')
+    : content;
+  const memoryExport = parseMemoryExport(text);
+
+  await context.sendProgress({
+    status: 'in_progress',
+    message: `Importing ${memoryExport.counts.entities} entities into ${repository}:${branch ?? memoryExport.branch}...`,
+    percent: 30,
+  });
+
+  const transferService = await memoryService.transfer;
+  const result = await transferService.importMemory(context, clientProjectRoot, memoryExport, {
+    repository,
+    branch,
+    conflictPolicy,
+  });
+
+  await context.sendProgress({
+    status: 'complete',
+    message: result.message,
+    percent: 100,
+    isFinal: true,
+  });
+
+  return result;
+}
+
 /**
  * Memory Bank Handler
  * Handles all memory bank lifecycle operations
@@ -253,10 +518,22 @@ export const memoryBankHandler: SdkToolHandler = async (
   switch (validatedParams.operation) {
     case 'init':
       return await handleInit(validatedParams, context, memoryService);
+    case 'fork':
+      return await handleFork(validatedParams, context, memoryService);
     case 'get-metadata':
       return await handleGetMetadata(validatedParams, context, memoryService, clientProjectRoot);
     case 'update-metadata':
       return await handleUpdateMetadata(validatedParams, context, memoryService, clientProjectRoot);
+    case 'export':
+      return await handleExport(validatedParams, context, memoryService, clientProjectRoot);
+    case 'export-markdown':
+      return await handleExportMarkdown(validatedParams, context, memoryService, clientProjectRoot);
+    case 'export-adr':
+      return await handleExportAdr(validatedParams, context, memoryService, clientProjectRoot);
+    case 'import-adr':
+      return await handleImportAdr(validatedParams, context, memoryService, clientProjectRoot);
+    case 'import':
+      return await handleImport(validatedParams, context, memoryService, clientProjectRoot);
     default:
       throw new Error(`Unknown operation: ${validatedParams.operation}`);
   }
@@ -1,20 +1,49 @@
 import { z } from 'zod';
+import {
+  hasLLMProvider,
+  listLLMProviders,
+} from '../../../../agents/memory-optimizer/llm-providers';
 import { MemoryOptimizationAgent } from '../../../../agents/memory-optimizer/memory-optimization-agent';
 import type { OptimizationStrategy } from '../../../../agents/memory-optimizer/prompt-manager';
 import { MemoryService } from '../../../../services/memory.service';
 import { logger } from '../../../../utils/logger';
+import { validatePath } from '../../../../utils/security.utils';
+import { SNAPSHOT_SCHEDULES } from '../../../../utils/snapshot-retention.utils';
 import type { ToolHandlerContext } from '../../../types/sdk-custom';
 import { handleToolError, logToolExecution, validateSession } from '../../../utils/error-utils';
 
 // Input schema for memory optimizer tool
 const MemoryOptimizerInputSchema = z.object({
-  operation: z.enum(['analyze', 'optimize', 'rollback', 'list-snapshots']),
+  operation: z.enum([
+    'analyze',
+    'optimize',
+    'rollback',
+    'list-snapshots',
+    'compact-snapshots',
+    'list-snapshot-policies',
+    'set-snapshot-policy',
+    'delete-snapshot-policy',
+    'prune-snapshots',
+  ]),
   clientProjectRoot: z.string(),
   repository: z.string(),
   branch: z.string().default('main'),
   strategy: z.enum(['conservative', 'balanced', 'aggressive']).default('conservative'),
-  llmProvider: z.enum(['openai', 'anthropic']).default('openai'),
+  llmProvider: z
+    .string()
+    .refine(hasLLMProvider, (name) => ({
+      message: `Unsupported LLM provider: ${name}. Registered providers: ${listLLMProviders().join(', ')}`,
+    }))
+    .default('openai'),
   model: z.string().optional(),
+  models: z
+    .object({
+      analyzer: z.string().optional(),
+      optimizer: z.string().optional(),
+      safety: z.string().optional(),
+    })
+    .optional(),
+  replayFile: z.string().optional(),
   dryRun: z.boolean().default(true),
   confirm: z.boolean().default(false),
   maxDeletions: z.number().min(1).max(100).optional(),
@@ -32,6 +61,21 @@ const MemoryOptimizerInputSchema = z.object({
     .optional(),
   preserveCategories: z.array(z.string()).optional(),
   snapshotId: z.string().optional(),
+  maxChainLength: z.number().int().min(0).optional(),
+  snapshotPolicy: z
+    .object({
+      schedule: z.enum(SNAPSHOT_SCHEDULES).optional(),
+      beforeBulkDelete: z.boolean().optional(),
+      beforeBulkImport: z.boolean().optional(),
+      retention: z
+        .object({
+          keepLast: z.number().int().min(1).optional(),
+          keepDaily: z.number().int().min(1).optional(),
+          keepWeekly: z.number().int().min(1).optional(),
+        })
+        .optional(),
+    })
+    .optional(),
   analysisId: z.string().optional(),
   enableMCPSampling: z.boolean().default(true),
   samplingStrategy: z
@@ -49,17 +93,22 @@ const analysisCache = new Map<string, any>();
  * Handler for memory optimizer tool operations
  *
  * @param params - Tool parameters (typed as any due to MCP signature requirements)
- * @param params.operation - Operation type: 'analyze' | 'optimize' | 'rollback' | 'list-snapshots'
+ * @param params.operation - Operation type: 'analyze' | 'optimize' | 'rollback' | 'list-snapshots' | 'compact-snapshots'
+ *   | 'list-snapshot-policies' | 'set-snapshot-policy' | 'delete-snapshot-policy' | 'prune-snapshots'
  * @param params.repository - Repository name for memory operations
  * @param params.branch - Branch name for memory operations
  * @param params.clientProjectRoot - Optional client project root path
  * @param params.strategy - Optimization strategy: 'conservative' | 'balanced' | 'aggressive'
- * @param params.llmProvider - LLM provider: 'openai' | 'anthropic'
+ * @param params.llmProvider - Registered LLM provider: 'openai' | 'anthropic' | 'openai-compatible' | 'replay' | 'heuristic'
  * @param params.model - Model name (e.g., 'o1-mini', 'claude-3-5-sonnet')
+ * @param params.models - Model per prompt role: analyzer, optimizer, safety
+ * @param params.replayFile - Recorded responses for the replay provider, relative to the project root
  * @param params.dryRun - Whether to perform dry run (preview only)
  * @param params.confirm - Confirmation for actual optimization
  * @param params.analysisId - Analysis ID for optimization (from previous analyze)
  * @param params.snapshotId - Snapshot ID for rollback operation
+ * @param params.maxChainLength - Longest delta chain kept by compact-snapshots
+ * @param params.snapshotPolicy - Schedule, bulk operation triggers and retention for set-snapshot-policy
  * @param params.enableMCPSampling - Enable MCP sampling for context-aware prompts
  * @param params.samplingStrategy - MCP sampling strategy: 'representative' | 'problematic' | 'recent' | 'diverse'
  *
@@ -73,17 +122,30 @@ const analysisCache = new Map<string, any>();
 export async function memoryOptimizerHandler(params: any, context: any): Promise<any> {
   // Internal type assertions for better type safety and IntelliSense
   const typedParams = params as {
-    operation: 'analyze' | 'optimize' | 'rollback' | 'list-snapshots';
+    operation:
+      | 'analyze'
+      | 'optimize'
+      | 'rollback'
+      | 'list-snapshots'
+      | 'compact-snapshots'
+      | 'list-snapshot-policies'
+      | 'set-snapshot-policy'
+      | 'delete-snapshot-policy'
+      | 'prune-snapshots';
     repository: string;
     branch: string;
     clientProjectRoot?: string;
     strategy?: 'conservative' | 'balanced' | 'aggressive';
-    llmProvider?: 'openai' | 'anthropic';
+    llmProvider?: string;
     model?: string;
+    models?: { analyzer?: string; optimizer?: string; safety?: string };
+    replayFile?: string;
     dryRun?: boolean;
     confirm?: boolean;
     analysisId?: string;
     snapshotId?: string;
+    maxChainLength?: number;
+    snapshotPolicy?: MemoryOptimizerParams['snapshotPolicy'];
     enableMCPSampling?: boolean;
     samplingStrategy?: 'representative' | 'problematic' | 'recent' | 'diverse';
   };
@@ -130,6 +192,9 @@ export async function memoryOptimizerHandler(params: any, context: any): Promise
     const agent = new MemoryOptimizationAgent(memoryService, {
       llmProvider: validatedParams.llmProvider,
       model: validatedParams.model,
+      models: validatedParams.models,
+      replayFile:
+        validatedParams.replayFile && validatePath(validatedParams.replayFile, clientProjectRoot),
       defaultStrategy: validatedParams.strategy,
       enableMCPSampling: validatedParams.enableMCPSampling,
       samplingStrategy: validatedParams.samplingStrategy,
@@ -170,6 +235,25 @@ export async function memoryOptimizerHandler(params: any, context: any): Promise
           handlerLogger,
         );
 
+      case 'compact-snapshots':
+        return await handleCompactSnapshotsOperation(
+          agent,
+          validatedParams,
+          context as ToolHandlerContext,
+          handlerLogger,
+        );
+
+      case 'list-snapshot-policies':
+      case 'set-snapshot-policy':
+      case 'delete-snapshot-policy':
+      case 'prune-snapshots':
+        return await handleSnapshotPolicyOperation(
+          agent,
+          validatedParams,
+          context as ToolHandlerContext,
+          handlerLogger,
+        );
+
       default:
         throw new Error(`Unsupported operation: ${validatedParams.operation}`);
     }
@@ -422,6 +506,7 @@ async function handleRollbackOperation(
         restoredEntities: rollbackResult.restoredEntities,
         restoredRelationships: rollbackResult.restoredRelationships,
         rollbackTime: rollbackResult.rollbackTime,
+        replayedSnapshots: rollbackResult.replayedSnapshots,
         snapshotId: rollbackResult.snapshotId,
       },
       message: rollbackResult.message,
@@ -487,3 +572,152 @@ async function handleListSnapshotsOperation(
     throw error;
   }
 }
+
+/**
+ * Handle compact snapshots operation
+ *
+ * @param agent - Memory optimization agent instance
+ * @param params - Validated memory optimizer parameters
+ * @param context - Enriched request handler context
+ * @param logger - Logger instance for operation tracking
+ * @returns Promise<any> - Compacted snapshot IDs with stored sizes before and after
+ */
+async function handleCompactSnapshotsOperation(
+  agent: MemoryOptimizationAgent,
+  params: MemoryOptimizerParams,
+  context: ToolHandlerContext,
+  logger: any,
+): Promise<any> {
+  // Internal type assertion for logger
+  const typedLogger = logger as {
+    info: (message: string, meta?: any) => void;
+    error: (message: string, error?: any) => void;
+  };
+
+  typedLogger.info('Starting compact snapshots operation', {
+    repository: params.repository,
+    branch: params.branch,
+    maxChainLength: params.maxChainLength,
+  });
+
+  try {
+    const result = await agent.compactSnapshots(
+      context,
+      params.clientProjectRoot,
+      params.repository,
+      params.branch,
+      params.maxChainLength,
+    );
+
+    typedLogger.info('Compact snapshots operation completed', {
+      compactedSnapshots: result.compactedSnapshots.length,
+    });
+
+    return {
+      success: true,
+      operation: 'compact-snapshots',
+      data: result,
+      message: `Compacted ${result.compactedSnapshots.length} snapshots for ${params.repository}:${params.branch} (${result.sizeBefore} -> ${result.sizeAfter} bytes)`,
+    };
+  } catch (error) {
+    typedLogger.error('Compact snapshots operation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle snapshot policy operations: list, set and delete policies, and prune snapshots
+ * by the retention rules of a policy (a preview unless dryRun is false)
+ *
+ * @param agent - Memory optimization agent instance
+ * @param params - Validated memory optimizer parameters
+ * @param context - Enriched request handler context
+ * @param logger - Logger instance for operation tracking
+ * @returns Promise<any> - Policies, the saved policy, or the kept and pruned snapshots
+ */
+async function handleSnapshotPolicyOperation(
+  agent: MemoryOptimizationAgent,
+  params: MemoryOptimizerParams,
+  context: ToolHandlerContext,
+  logger: any,
+): Promise<any> {
+  // Internal type assertion for logger
+  const typedLogger = logger as {
+    info: (message: string, meta?: any) => void;
+    error: (message: string, error?: any) => void;
+  };
+  const { operation, clientProjectRoot, repository, branch } = params;
+
+  typedLogger.info('Starting snapshot policy operation', { operation });
+
+  try {
+    switch (operation) {
+      case 'list-snapshot-policies': {
+        const policies = await agent.listSnapshotPolicies(context, clientProjectRoot, repository);
+        return {
+          success: true,
+          operation,
+          data: { policies, count: policies.length, repository },
+          message: `Found ${policies.length} snapshot policies for ${repository}`,
+        };
+      }
+
+      case 'set-snapshot-policy': {
+        if (!params.snapshotPolicy) {
+          throw new Error('snapshotPolicy is required for set-snapshot-policy operation');
+        }
+        const policy = await agent.setSnapshotPolicy(
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+          params.snapshotPolicy,
+        );
+        return {
+          success: true,
+          operation,
+          data: { policy },
+          message: `Saved snapshot policy for ${repository}:${branch}`,
+        };
+      }
+
+      case 'delete-snapshot-policy': {
+        const deleted = await agent.deleteSnapshotPolicy(
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+        );
+        return {
+          success: deleted,
+          operation,
+          data: { deleted, repository, branch },
+          message: deleted
+            ? `Deleted snapshot policy for ${repository}:${branch}`
+            : `No snapshot policy for ${repository}:${branch}`,
+        };
+      }
+
+      default: {
+        const result = await agent.pruneSnapshots(
+          context,
+          clientProjectRoot,
+          repository,
+          branch,
+          params.dryRun,
+        );
+        return {
+          success: true,
+          operation,
+          data: result,
+          message: result.dryRun
+            ? `Would prune ${result.pruned.length} of ${result.kept.length + result.pruned.length} snapshots for ${repository}:${branch}`
+            : `Pruned ${result.pruned.length} snapshots for ${repository}:${branch}, kept ${result.kept.length}`,
+        };
+      }
+    }
+  } catch (error) {
+    typedLogger.error('Snapshot policy operation failed:', error);
+    throw error;
+  }
+}
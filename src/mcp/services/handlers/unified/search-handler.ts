@@ -1,8 +1,12 @@
 import { MemoryService } from '../../../../services/memory.service';
 import { SdkToolHandler } from '../../../tool-handlers';
+import { FusionStrategy, fuseRankings } from '../../../../utils/search-fusion.utils';
 import { ToolHandlerContext } from '../../../types/sdk-custom';
 import { handleToolError, validateSession, logToolExecution } from '../../../utils/error-utils';
 
+// Hybrid mode retrieves a larger candidate pool from each retriever before fusing
+const HYBRID_CANDIDATE_MULTIPLIER = 3;
+
 // Cache for tracking initialized extensions and indexes per client
 const initializationCache = new Map<
   string,
@@ -14,7 +18,7 @@ const initializationCache = new Map<
 
 // TypeScript interface for search parameters
 interface SearchParams {
-  mode?: 'fulltext' | 'semantic' | 'hybrid';
+  mode?: 'fulltext' | 'semantic' | 'hybrid' | 'reindex';
   query: string;
   repository: string;
   branch?: string;
@@ -22,6 +26,9 @@ interface SearchParams {
   limit?: number;
   conjunctive?: boolean;
   threshold?: number;
+  fusion?: FusionStrategy;
+  semanticWeight?: number;
+  force?: boolean;
   clientProjectRoot?: string;
 }
 
@@ -37,7 +44,8 @@ interface SearchResult {
 
 /**
  * Unified Search Handler
- * Supports both full-text search and semantic search (future)
+ * Supports full-text search, embedding-based semantic search and hybrid search
+ * that fuses both rankings, plus the `reindex` operation that rebuilds the embedding index
  */
 export const searchHandler: SdkToolHandler = async (params, context, memoryService) => {
   // 1. Extract parameters
@@ -49,11 +57,14 @@ export const searchHandler: SdkToolHandler = async (params, context, memoryServi
     entityTypes = ['component', 'decision', 'rule', 'file', 'context'],
     limit = 10,
     conjunctive = false,
-    threshold = 0.5,
+    threshold,
+    fusion = 'rrf',
+    semanticWeight = 0.5,
+    force = false,
   } = params as unknown as SearchParams;
 
   // Validate required parameters
-  if (!query) {
+  if (!query && mode !== 'reindex') {
     throw new Error('Query parameter is required');
   }
   if (!repository) {
@@ -69,10 +80,18 @@ export const searchHandler: SdkToolHandler = async (params, context, memoryServi
   }
 
   // Validate threshold range
-  if (threshold < 0 || threshold > 1) {
+  if (threshold !== undefined && (threshold < 0 || threshold > 1)) {
     throw new Error('threshold must be between 0.0 and 1.0');
   }
 
+  // Validate hybrid fusion options
+  if (fusion !== 'rrf' && fusion !== 'weighted') {
+    throw new Error("fusion must be either 'rrf' or 'weighted'");
+  }
+  if (semanticWeight < 0 || semanticWeight > 1) {
+    throw new Error('semanticWeight must be between 0.0 and 1.0');
+  }
+
   // 3. Log the operation
   logToolExecution(context, `search operation: ${mode}`, {
     repository,
@@ -82,6 +101,18 @@ export const searchHandler: SdkToolHandler = async (params, context, memoryServi
     query,
   });
 
+  if (mode === 'reindex') {
+    return executeReindex(
+      entityTypes,
+      repository,
+      branch,
+      clientProjectRoot,
+      force,
+      memoryService,
+      context,
+    );
+  }
+
   // 4. Send progress update
   await context.sendProgress({
     status: 'in_progress',
@@ -107,34 +138,19 @@ export const searchHandler: SdkToolHandler = async (params, context, memoryServi
         context,
       );
     } else if (mode === 'semantic') {
-      // Placeholder for future semantic search
-      await context.sendProgress({
-        status: 'in_progress',
-        message: 'Semantic search is a future capability - returning placeholder results',
-        percent: 50,
-      });
-
-      results = [
-        {
-          id: 'placeholder-result',
-          type: 'component',
-          name: 'Semantic Search Placeholder',
-          score: 0.99,
-          snippet: 'This is a placeholder for future semantic search functionality',
-          metadata: {
-            note: 'Real implementation will use embeddings and vector similarity',
-          },
-        },
-      ];
+      results = await executeSemanticSearch(
+        query,
+        entityTypes,
+        repository,
+        branch,
+        clientProjectRoot,
+        limit,
+        threshold,
+        memoryService,
+        context,
+      );
     } else if (mode === 'hybrid') {
-      // Placeholder for future hybrid search
-      await context.sendProgress({
-        status: 'in_progress',
-        message: 'Hybrid search is a future capability - using fulltext mode only',
-        percent: 50,
-      });
-
-      results = await executeFullTextSearch(
+      results = await executeHybridSearch(
         query,
         entityTypes,
         repository,
@@ -142,6 +158,9 @@ export const searchHandler: SdkToolHandler = async (params, context, memoryServi
         clientProjectRoot,
         limit,
         conjunctive,
+        threshold,
+        fusion,
+        semanticWeight,
         memoryService,
         context,
       );
@@ -179,6 +198,64 @@ export const searchHandler: SdkToolHandler = async (params, context, memoryServi
   }
 };
 
+/**
+ * Rebuild the embedding index of a repository/branch: embed new and changed entities
+ * (all entities when forced) and prune embeddings of deleted entities
+ */
+async function executeReindex(
+  entityTypes: string[],
+  repository: string,
+  branch: string,
+  clientProjectRoot: string,
+  force: boolean,
+  memoryService: MemoryService,
+  context: ToolHandlerContext,
+) {
+  await context.sendProgress({
+    status: 'in_progress',
+    message: `Reindexing embeddings for ${repository}:${branch}${force ? ' (forced)' : ''}...`,
+    percent: 10,
+  });
+
+  try {
+    const embeddingService = await memoryService.embedding;
+    const reindex = await embeddingService.reindex(context, clientProjectRoot, repository, branch, {
+      entityTypes,
+      force,
+    });
+    const message = `Reindex completed: ${reindex.embedded} embedded, ${reindex.unchanged} unchanged, ${reindex.removed} removed`;
+
+    await context.sendProgress({
+      status: 'complete',
+      message,
+      percent: 100,
+      isFinal: true,
+    });
+
+    return {
+      status: 'success',
+      results: [],
+      totalResults: 0,
+      query: '',
+      mode: 'reindex',
+      reindex,
+      message,
+    };
+  } catch (error) {
+    await handleToolError(error, context, 'reindex', 'reindex');
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      status: 'error',
+      results: [],
+      totalResults: 0,
+      query: '',
+      mode: 'reindex',
+      message: `Reindex failed: ${errorMessage}`,
+    };
+  }
+}
+
 /**
  * Execute full-text search using KuzuDB's FTS extension with fallback to simple search
  */
@@ -261,6 +338,132 @@ async function executeFullTextSearch(
   return results.sort((a, b) => b.score - a.score).slice(0, limit);
 }
 
+/**
+ * Execute semantic search by ranking entity embeddings with cosine similarity
+ */
+async function executeSemanticSearch(
+  query: string,
+  entityTypes: string[],
+  repository: string,
+  branch: string,
+  clientProjectRoot: string,
+  limit: number,
+  threshold: number | undefined,
+  memoryService: MemoryService,
+  context: ToolHandlerContext,
+): Promise<SearchResult[]> {
+  await context.sendProgress({
+    status: 'in_progress',
+    message: 'Ranking entities by embedding similarity...',
+    percent: 50,
+  });
+
+  const embeddingService = await memoryService.embedding;
+  const matches = await embeddingService.semanticSearch(
+    context,
+    clientProjectRoot,
+    repository,
+    branch,
+    query,
+    { entityTypes, limit, threshold },
+  );
+
+  return matches.map((match) => ({
+    id: match.node.id,
+    type: match.entityType,
+    name: match.node.name || match.node.title || match.node.id,
+    score: match.score,
+    snippet: extractSnippet(match.node, query),
+    metadata: extractMetadata(match.node),
+  }));
+}
+
+/**
+ * Execute hybrid search: run full-text and semantic retrieval, then merge the two
+ * rankings with reciprocal rank fusion or weighted score blending.
+ * Each result carries its provenance (ftsScore, vectorScore, fusedScore) in metadata.
+ */
+async function executeHybridSearch(
+  query: string,
+  entityTypes: string[],
+  repository: string,
+  branch: string,
+  clientProjectRoot: string,
+  limit: number,
+  conjunctive: boolean,
+  threshold: number | undefined,
+  fusion: FusionStrategy,
+  semanticWeight: number,
+  memoryService: MemoryService,
+  context: ToolHandlerContext,
+): Promise<SearchResult[]> {
+  const candidateLimit = Math.min(limit * HYBRID_CANDIDATE_MULTIPLIER, 50);
+
+  await context.sendProgress({
+    status: 'in_progress',
+    message: 'Running full-text retrieval...',
+    percent: 30,
+  });
+
+  const ftsResults = await executeFullTextSearch(
+    query,
+    entityTypes,
+    repository,
+    branch,
+    clientProjectRoot,
+    candidateLimit,
+    conjunctive,
+    memoryService,
+    context,
+  );
+
+  const vectorResults = await executeSemanticSearch(
+    query,
+    entityTypes,
+    repository,
+    branch,
+    clientProjectRoot,
+    candidateLimit,
+    threshold,
+    memoryService,
+    context,
+  );
+
+  await context.sendProgress({
+    status: 'in_progress',
+    message: `Fusing ${ftsResults.length} full-text and ${vectorResults.length} semantic results (${fusion})...`,
+    percent: 80,
+  });
+
+  const resultKey = (result: SearchResult) => `${result.type}:${result.id}`;
+  const byKey = new Map<string, SearchResult>();
+  for (const result of [...ftsResults, ...vectorResults]) {
+    if (!byKey.has(resultKey(result))) {
+      byKey.set(resultKey(result), result);
+    }
+  }
+
+  const fused = fuseRankings(
+    ftsResults.map((result) => ({ key: resultKey(result), score: result.score })),
+    vectorResults.map((result) => ({ key: resultKey(result), score: result.score })),
+    { strategy: fusion, semanticWeight },
+  );
+
+  return fused.slice(0, limit).map((item) => {
+    const result = byKey.get(item.key)!;
+    return {
+      ...result,
+      score: item.fusedScore,
+      metadata: {
+        ...result.metadata,
+        ftsScore: item.ftsScore ?? null,
+        vectorScore: item.vectorScore ?? null,
+        fusedScore: item.fusedScore,
+      },
+    };
+  });
+}
+
 /**
  * Simple fallback search using basic string matching (for test environments)
  */
@@ -4,6 +4,7 @@ import { ToolHandlerContext } from './types/sdk-custom';
 // Import unified tool handlers
 import { analyzeHandler } from './services/handlers/unified/analyze-handler';
 import { associateHandler } from './services/handlers/unified/associate-handler';
+import { branchHandler } from './services/handlers/unified/branch-handler';
 import { bulkImportHandler } from './services/handlers/unified/bulk-import-handler';
 import { contextHandler } from './services/handlers/unified/context-handler';
 import { deleteHandler } from './services/handlers/unified/delete-handler';
@@ -37,5 +38,6 @@ export const toolHandlers: Record<string, SdkToolHandler> = {
   'bulk-import': bulkImportHandler,
   search: searchHandler,
   delete: deleteHandler,
+  branch: branchHandler,
   'memory-optimizer': memoryOptimizerHandler,
 };
@@ -6,6 +6,7 @@
 // Export all unified tools
 export { analyzeTool } from './unified/analyze-tool';
 export { associateTool } from './unified/associate-tool';
+export { branchTool } from './unified/branch-tool';
 export { bulkImportTool } from './unified/bulk-import-tool';
 export { contextTool } from './unified/context-tool';
 export { deleteTool } from './unified/delete-tool';
@@ -20,6 +21,7 @@ export { searchTool } from './unified/search-tool';
 // Import unified tools for the combined array
 import { analyzeTool } from './unified/analyze-tool';
 import { associateTool } from './unified/associate-tool';
+import { branchTool } from './unified/branch-tool';
 import { bulkImportTool } from './unified/bulk-import-tool';
 import { contextTool } from './unified/context-tool';
 import { deleteTool } from './unified/delete-tool';
@@ -50,5 +52,6 @@ export const MEMORY_BANK_MCP_TOOLS: McpTool[] = [
   bulkImportTool,
   searchTool,
   deleteTool,
+  branchTool,
   memoryOptimizerTool,
 ];
@@ -0,0 +1,92 @@
+import { McpTool } from '../../types';
+
+/**
+ * Unified Branch Tool
+ * Compares and merges the memory of branches within a repository
+ */
+export const branchTool: McpTool = {
+  name: 'branch',
+  description: `Compare and merge the memory of two branches of the same repository, e.g. to review what an agent learned on a feature branch and bring it into main once the git branch merges.
+
+Available operations:
+- diff: List entities and relationships that sourceBranch added, removed or modified relative to targetBranch
+- merge: Copy the entities and DEPENDS_ON, GOVERNS, AFFECTS, IMPLEMENTS and TAGGED_WITH relationships of sourceBranch into targetBranch in one transaction
+
+Entities are matched by type and ID. Modified entities include field-level changes, where "from" is the value on targetBranch and "to" the value on sourceBranch. Scope fields (repository, branch, graph_unique_id) and timestamps are ignored.
+
+Merge conflicts:
+- With baseSnapshotId (a snapshot taken before the branches diverged), an entity conflicts when both branches changed it since the snapshot; one-sided changes merge cleanly
+- Without a base, every entity that differs between the branches is a conflict
+- strategy 'fail' (default) writes nothing and lists the conflicts, 'ours' keeps the targetBranch version, 'theirs' takes the sourceBranch version
+- Entities that exist only on targetBranch are never removed. Files and tags are keyed by ID alone, so merging moves them to targetBranch`,
+  parameters: {
+    type: 'object',
+    properties: {
+      operation: {
+        type: 'string',
+        enum: ['diff', 'merge'],
+        description: 'Branch operation to perform',
+      },
+      repository: {
+        type: 'string',
+        description: 'Repository name',
+      },
+      sourceBranch: {
+        type: 'string',
+        description: 'Branch whose changes are reported or merged, e.g. a feature branch',
+      },
+      targetBranch: {
+        type: 'string',
+        description: 'Branch to compare against or merge into (default: main)',
+      },
+      strategy: {
+        type: 'string',
+        enum: ['ours', 'theirs', 'fail'],
+        description: 'How merge resolves conflicts (default: fail)',
+      },
+      baseSnapshotId: {
+        type: 'string',
+        description:
+          'Snapshot taken before the branches diverged, used by merge to detect conflicts',
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Plan the merge and report conflicts without writing',
+      },
+      clientProjectRoot: {
+        type: 'string',
+        description: 'Absolute path to the client project root',
+      },
+    },
+    required: ['operation', 'repository', 'sourceBranch'],
+  },
+  returns: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'object',
+        description:
+          'diff: counts of added, removed and modified entities and relationships; merge: counts of created, updated and conflicting entities and created relationships',
+      },
+      conflicts: {
+        type: 'array',
+        description: 'merge: entities changed on both branches, with their field differences',
+      },
+      entities: {
+        type: 'object',
+        description: 'Added, removed and modified entities (modified ones with field changes)',
+      },
+      relationships: {
+        type: 'object',
+        description: 'Added and removed relationships',
+      },
+    },
+  },
+  annotations: {
+    title: 'Branch Comparison and Merge',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
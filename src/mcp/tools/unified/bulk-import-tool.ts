@@ -11,6 +11,22 @@ Available import types:
 - components: Import multiple components with their dependencies in one operation
 - decisions: Import architectural decisions in bulk
 - rules: Import coding standards and governance rules in batch
+- files: Import File nodes, e.g. when seeding memory from an existing codebase
+- tags: Import tags in bulk
+- contexts: Import context entries in bulk
+- relationships: Import edges (IMPLEMENTS, TAGGED_WITH, GOVERNS, AFFECTS, DEPENDS_ON, CONTEXT_OF)
+
+All arrays given in one call, whatever the 'type', are imported as a single
+transactional batch: nodes are written first, then relationships (including component
+depends_on) are resolved against the nodes of the batch and the entities already on the
+branch. Any invalid item rejects the whole batch. Use 'dryRun: true' to preview what
+would be created, updated or skipped; a dry run reports the same counts as an import.
+
+Fast loading:
+- 'loader: copy' stages new entities and their relationships into temporary CSV files and
+  loads them with KuzuDB COPY FROM, for imports of thousands of items of any type. Every
+  array of the call is loaded together; invalid items are reported and left out.
+  Progress is reported every 'progressInterval' rows.
 
 Use cases:
 - Initial project setup: Import existing architecture documentation
@@ -33,7 +49,7 @@ Best practices:
     properties: {
       type: {
         type: 'string',
-        enum: ['components', 'decisions', 'rules'],
+        enum: ['components', 'decisions', 'rules', 'files', 'tags', 'contexts', 'relationships'],
         description: 'Type of entities to bulk import',
       },
       repository: {
@@ -52,6 +68,20 @@ Best practices:
         type: 'boolean',
         description: 'Whether to overwrite existing entities',
       },
+      loader: {
+        type: 'string',
+        enum: ['upsert', 'copy'],
+        description:
+          "How entities are written: 'upsert' (default) in one transaction, 'copy' in bulk with COPY FROM",
+      },
+      progressInterval: {
+        type: 'number',
+        description: "Rows between progress notifications of a 'copy' load (default 1000)",
+      },
+      dryRun: {
+        type: 'boolean',
+        description: "Preview an import or a 'copy' load without writing anything",
+      },
       components: {
         type: 'array',
         description: 'Array of component entities to import (when type=components)',
@@ -150,6 +180,83 @@ Best practices:
           required: ['id', 'name', 'created', 'content'],
         },
       },
+      files: {
+        type: 'array',
+        description: 'Array of file entities to import (when type=files)',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Unique identifier for the file' },
+            name: { type: 'string', description: 'File name' },
+            path: { type: 'string', description: 'File path relative to the project root' },
+            size: { type: 'number', description: 'File size in bytes' },
+            mime_type: { type: 'string', description: 'MIME type' },
+            language: { type: 'string', description: 'Programming language' },
+            content: { type: 'string', description: 'File content or summary' },
+            metrics: { type: 'object', description: 'File metrics' },
+            checksum: { type: 'string', description: 'Content checksum' },
+          },
+          required: ['id', 'name', 'path'],
+        },
+      },
+      tags: {
+        type: 'array',
+        description: 'Array of tags to import (when type=tags)',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Unique identifier for the tag' },
+            name: { type: 'string', description: 'Tag name' },
+            color: { type: 'string', description: 'Tag color' },
+            description: { type: 'string', description: 'Tag description' },
+            category: { type: 'string', description: 'Tag category' },
+          },
+          required: ['id', 'name'],
+        },
+      },
+      contexts: {
+        type: 'array',
+        description: 'Array of context entries to import (when type=contexts)',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Unique identifier for the context' },
+            agent: { type: 'string', description: 'Agent that recorded the context' },
+            summary: { type: 'string', description: 'Context summary' },
+            observation: { type: 'string', description: 'Observation' },
+            timestamp: { type: 'string', description: 'ISO 8601 timestamp' },
+          },
+          required: ['id'],
+        },
+      },
+      relationships: {
+        type: 'array',
+        description:
+          'Array of relationships to import (when type=relationships, or alongside files, tags or contexts)',
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['IMPLEMENTS', 'TAGGED_WITH', 'GOVERNS', 'AFFECTS', 'DEPENDS_ON', 'CONTEXT_OF'],
+              description: 'Relationship type',
+            },
+            fromId: { type: 'string', description: 'Id of the source entity' },
+            toId: { type: 'string', description: 'Id of the target entity' },
+            fromType: {
+              type: 'string',
+              enum: ['component', 'decision', 'rule', 'file', 'context'],
+              description: 'Source entity type, required for TAGGED_WITH',
+            },
+            toType: {
+              type: 'string',
+              enum: ['component', 'decision', 'rule', 'file', 'tag'],
+              description: 'Target entity type, required for CONTEXT_OF',
+            },
+          },
+          required: ['type', 'fromId', 'toId'],
+        },
+      },
     },
     required: ['type', 'repository'],
   },
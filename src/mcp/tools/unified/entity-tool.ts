@@ -2,7 +2,7 @@ import { McpTool } from '../../types';
 
 /**
  * Unified Entity Tool
- * Handles CRUD operations for all entities
+ * Handles CRUD and merge operations for all entities
  */
 export const entityTool: McpTool = {
   name: 'entity',
@@ -14,15 +14,17 @@ Entity types available:
 - file: Source code files with metadata and metrics
 - tag: Labels for categorizing entities (e.g., security-critical, performance)
 
-Operations: create, update, get, delete
-Each entity has relationships to other entities forming a knowledge graph.`,
+Operations: create, update, get, delete, merge
+Each entity has relationships to other entities forming a knowledge graph.
+merge moves every relationship of id onto targetId and deletes id; getting a merged ID
+returns the entity it was merged into.`,
   parameters: {
     type: 'object',
     properties: {
       operation: {
         type: 'string',
-        enum: ['create', 'update', 'get', 'delete'],
-        description: 'CRUD operation to perform',
+        enum: ['create', 'update', 'get', 'delete', 'merge'],
+        description: 'CRUD or merge operation to perform',
       },
       entityType: {
         type: 'string',
@@ -31,7 +33,11 @@ Each entity has relationships to other entities forming a knowledge graph.`,
       },
       id: {
         type: 'string',
-        description: 'Entity ID (required for read, update, delete)',
+        description: 'Entity ID (required for read, update, delete, merge)',
+      },
+      targetId: {
+        type: 'string',
+        description: 'ID of the entity of the same type to merge into (required for merge)',
       },
       data: {
         type: 'object',
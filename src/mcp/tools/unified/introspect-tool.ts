@@ -12,12 +12,14 @@ Available introspection queries:
 - count: Count how many nodes exist for a specific label
 - properties: Get schema information for a node type (property names, types, sample values)
 - indexes: View database indexes for performance optimization
+- schema-drift: Compare the live node table properties with the expected model (missing, extra and type-mismatched properties per label)
 
 Use cases:
 - labels: Understand what entity types exist in your memory bank
 - count: Monitor memory bank size, validate migrations
 - properties: Understand data structure before writing queries
 - indexes: Database performance troubleshooting
+- schema-drift: Find fields the code uses that the database cannot store, e.g. after an upgrade
 
 Example: Use 'labels' first to see available types, then 'count' to check sizes, then 'properties' to understand the schema.`,
   parameters: {
@@ -25,7 +27,7 @@ Example: Use 'labels' first to see available types, then 'count' to check sizes,
     properties: {
       query: {
         type: 'string',
-        enum: ['labels', 'count', 'properties', 'indexes'],
+        enum: ['labels', 'count', 'properties', 'indexes', 'schema-drift'],
         description: 'Introspection query to perform',
       },
       repository: {
@@ -42,7 +44,8 @@ Example: Use 'labels' first to see available types, then 'count' to check sizes,
       },
       target: {
         type: 'string',
-        description: 'Node label for count/properties operations',
+        description:
+          'Node label for count/properties operations; optionally limits schema-drift to one label',
       },
     },
     required: ['query', 'repository'],
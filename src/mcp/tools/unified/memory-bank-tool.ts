@@ -2,26 +2,43 @@ import { McpTool } from '../../types';
 
 /**
  * Unified Memory Bank Tool
- * Handles memory bank operations: init, status, health
+ * Handles memory bank operations: init, fork, get-metadata, update-metadata, export,
+ * export-markdown, export-adr, import, import-adr
  */
 export const memoryBankTool: McpTool = {
   name: 'memory-bank',
   description: `Initialize and manage memory bank instances. Operations: 
 - init: Initialize a new memory bank for a repository/branch (creates KuzuDB graph database)
+- fork: Start a new branch with the memory of sourceBranch (default main): components, decisions, rules, contexts, metadata and their relationships are copied, optionally limited by entityTypes or tags. Files and tags are shared with sourceBranch rather than copied. The new branch becomes the session branch.
 - get-metadata: Retrieve repository metadata (tech stack, architecture, project info)
 - update-metadata: Update repository metadata with new information
+- export: Export the entities, relationships and metadata of the branch as a versioned JSON document or JSONL records, written to outputPath (relative to the client project root) or returned as content
+- export-markdown: Write the branch as markdown for human review to the outputPath directory (relative to the client project root): index.md, one page per component, decision and rule, a journal of contexts grouped by day and mermaid diagrams of component dependencies
+- export-adr: Write the decisions of the branch as architecture decision records (ADRs) to the outputPath directory (default docs/adr): one NNNN-title.md file per decision with its status, context, decision, consequences, supersedes links and affected components
+- import: Import a JSON or JSONL export (from inputPath relative to the client project root, or from content) into the repository/branch, which may differ from the exported ones; without a branch the exported branch is kept. Existing ids are handled by conflictPolicy: skip (default), overwrite or rename (imported as <id>-imported). Returns the outcome of every entity.
+- import-adr: Import the Nygard or MADR style ADRs of the inputPath directory (default docs/adr) as decisions. NNNN-title.md files become decisions adr-NNNN; supersedes links become SUPERSEDES edges and the listed components, or the component ids the ADR mentions, AFFECTS edges. Existing decisions are skipped unless conflictPolicy is overwrite; dryRun previews the import. Any invalid file or unknown link rejects the whole import.
 Each repository/branch combination has its own isolated memory bank stored at the client project root.`,
   parameters: {
     type: 'object',
     properties: {
       operation: {
         type: 'string',
-        enum: ['init', 'get-metadata', 'update-metadata'],
+        enum: [
+          'init',
+          'fork',
+          'get-metadata',
+          'update-metadata',
+          'export',
+          'export-markdown',
+          'export-adr',
+          'import',
+          'import-adr',
+        ],
         description: 'Memory bank operation to perform',
       },
       clientProjectRoot: {
         type: 'string',
-        description: 'Absolute path to the client project root (required for init)',
+        description: 'Absolute path to the client project root (required for init and fork)',
       },
       repository: {
         type: 'string',
@@ -29,12 +46,55 @@ Each repository/branch combination has its own isolated memory bank stored at th
       },
       branch: {
         type: 'string',
-        description: 'Git branch name',
+        description: 'Git branch name (the new branch for fork)',
+      },
+      sourceBranch: {
+        type: 'string',
+        description: 'Branch to copy memory from (for fork, default main)',
+      },
+      entityTypes: {
+        type: 'array',
+        items: { type: 'string', enum: ['component', 'decision', 'rule', 'context'] },
+        description: 'Entity types to copy (for fork, default all)',
+      },
+      tags: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only copy entities tagged with at least one of these tag ids (for fork)',
       },
       metadata: {
         type: 'object',
         description: 'Repository metadata to update (for update-metadata operation)',
       },
+      format: {
+        type: 'string',
+        enum: ['json', 'jsonl'],
+        description: 'Export file format (for export, default json)',
+      },
+      outputPath: {
+        type: 'string',
+        description:
+          'File to write the export to, relative to the client project root (for export; when omitted the export is returned as content), or the directory to write markdown to (required for export-markdown) or ADRs to (for export-adr, default docs/adr)',
+      },
+      inputPath: {
+        type: 'string',
+        description:
+          'Export file to import, relative to the client project root (for import), or the ADR directory (for import-adr, default docs/adr)',
+      },
+      content: {
+        type: 'string',
+        description: 'JSON or JSONL export to import when no inputPath is given (for import)',
+      },
+      conflictPolicy: {
+        type: 'string',
+        enum: ['skip', 'overwrite', 'rename'],
+        description:
+          'How to handle entities whose id already exists (for import and import-adr, default skip; import-adr supports skip and overwrite)',
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Report what would be imported without writing (for import-adr)',
+      },
     },
     required: ['operation', 'repository'],
   },
@@ -17,6 +17,9 @@ export const memoryOptimizerTool: McpTool = {
 REASONING MODELS:
 - OpenAI: o3, o1-mini with HIGH reasoning settings for deep analysis
 - Anthropic: Claude-3.5-Sonnet, Claude-3.5-Haiku with extended thinking (2048 token budget)
+- OpenAI-compatible: any server with an OpenAI-compatible API (llama.cpp, vLLM, Ollama) at the server's OPENAI_COMPATIBLE_BASE_URL
+- Replay: recorded responses per prompt role from replayFile, for tests
+- Heuristic: deterministic rules without an LLM or API key (age, orphans, deprecated status, duplicate names)
 
 MCP SAMPLING:
 - Context-aware prompts that adapt to actual memory state and project characteristics
@@ -29,6 +32,11 @@ OPERATIONS:
 - optimize: Generate and execute safe optimization plans with reasoning validation
 - rollback: Rollback to previous state using snapshots
 - list-snapshots: List available snapshots for a repository
+- compact-snapshots: Rewrite long snapshot delta chains as full snapshots
+- list-snapshot-policies: List the snapshot schedules and retention rules of a repository
+- set-snapshot-policy: Set the snapshot schedule, bulk operation snapshots and retention of a branch
+- delete-snapshot-policy: Remove the snapshot policy of a branch
+- prune-snapshots: Delete the snapshots the branch's retention rules do not keep (dry run by default)
 
 CAPABILITIES:
 - Advanced reasoning for stale entity detection based on complex usage patterns
@@ -57,9 +65,19 @@ The agent uses advanced reasoning to analyze entity relationships, usage pattern
     properties: {
       operation: {
         type: 'string',
-        enum: ['analyze', 'optimize', 'rollback', 'list-snapshots'],
+        enum: [
+          'analyze',
+          'optimize',
+          'rollback',
+          'list-snapshots',
+          'compact-snapshots',
+          'list-snapshot-policies',
+          'set-snapshot-policy',
+          'delete-snapshot-policy',
+          'prune-snapshots',
+        ],
         description:
-          'Operation to perform: analyze (identify opportunities), optimize (execute plan), rollback (restore snapshot), list-snapshots (show available snapshots)',
+          'Operation to perform: analyze (identify opportunities), optimize (execute plan), rollback (restore snapshot), list-snapshots (show available snapshots), compact-snapshots (bound snapshot delta chains), list-snapshot-policies, set-snapshot-policy, delete-snapshot-policy (snapshot schedules and retention), prune-snapshots (apply retention now)',
       },
       clientProjectRoot: {
         type: 'string',
@@ -81,17 +99,29 @@ The agent uses advanced reasoning to analyze entity relationships, usage pattern
       },
       llmProvider: {
         type: 'string',
-        enum: ['openai', 'anthropic'],
-        description: 'LLM provider for analysis and optimization (default: openai)',
+        enum: ['openai', 'anthropic', 'openai-compatible', 'replay', 'heuristic'],
+        description:
+          'LLM provider for analysis and optimization, or heuristic for deterministic rules without an LLM (default: openai)',
       },
       model: {
         type: 'string',
         description:
           'Specific model to use. OpenAI: o3, o1-mini (with HIGH reasoning). Anthropic: claude-3-5-sonnet-20241022, claude-3-5-haiku-20241022 (with extended thinking, 2048 token budget)',
       },
+      models: {
+        type: 'object',
+        description:
+          'Models per prompt role, taking precedence over model: { analyzer?, optimizer?, safety? }. analyzer runs the analysis, optimizer generates plans',
+      },
+      replayFile: {
+        type: 'string',
+        description:
+          'JSON file with recorded responses per role for the replay provider, relative to the project root',
+      },
       dryRun: {
         type: 'boolean',
-        description: 'Preview optimization without making changes (default: true)',
+        description:
+          'Preview optimization or prune-snapshots without making changes (default: true)',
       },
       confirm: {
         type: 'boolean',
@@ -116,6 +146,16 @@ The agent uses advanced reasoning to analyze entity relationships, usage pattern
         type: 'string',
         description: 'Snapshot ID for rollback operation',
       },
+      maxChainLength: {
+        type: 'number',
+        description:
+          'Longest delta chain kept by compact-snapshots; deeper snapshots are stored in full (default: 10)',
+      },
+      snapshotPolicy: {
+        type: 'object',
+        description:
+          'Policy for set-snapshot-policy: { schedule?: none|hourly|daily|weekly, beforeBulkDelete?, beforeBulkImport?, retention?: { keepLast?, keepDaily?, keepWeekly? } }. Omitted settings keep their value; a given retention replaces the current rules',
+      },
       analysisId: {
         type: 'string',
         description: 'Analysis ID to use for optimization (from previous analyze operation)',
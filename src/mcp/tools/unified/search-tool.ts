@@ -2,15 +2,18 @@ import { McpTool } from '../../types';
 
 /**
  * Unified Search Tool
- * Provides both full-text and semantic search capabilities
+ * Provides full-text, semantic and hybrid search capabilities
  */
 export const searchTool: McpTool = {
   name: 'search',
-  description: `Search across memory entities using full-text or semantic search.
+  description: `Search across memory entities using full-text, semantic or hybrid search.
 Available search modes:
 - fulltext: Fast keyword-based search using KuzuDB FTS extension
-- semantic: AI-powered similarity search (future capability)
-- hybrid: Combined fulltext and semantic search (future capability)
+- semantic: Embedding similarity search ranked by cosine similarity (works offline by default)
+- hybrid: Runs fulltext and semantic retrieval and fuses both rankings (reciprocal rank fusion or weighted blending);
+  each result reports ftsScore, vectorScore and fusedScore in its metadata
+- reindex: Rebuilds the embedding index of the branch (re-embeds changed entities, prunes deleted ones);
+  no query needed
 
 Entity types that can be searched:
 - component: System modules, services, or code units
@@ -23,12 +26,12 @@ Entity types that can be searched:
     properties: {
       mode: {
         type: 'string',
-        enum: ['fulltext', 'semantic', 'hybrid'],
-        description: 'Search mode (semantic and hybrid are future capabilities)',
+        enum: ['fulltext', 'semantic', 'hybrid', 'reindex'],
+        description: 'Search mode (default: fulltext)',
       },
       query: {
         type: 'string',
-        description: 'Search query text',
+        description: 'Search query text (required for all modes except reindex)',
       },
       entityTypes: {
         type: 'array',
@@ -47,7 +50,23 @@ Entity types that can be searched:
       },
       threshold: {
         type: 'number',
-        description: 'Similarity threshold for semantic search (0.0-1.0) - future use',
+        description:
+          "Minimum cosine similarity for semantic results (0.0-1.0, defaults to the embedding provider's threshold, 0.2 for hashed-ngram) - for semantic and hybrid modes",
+      },
+      fusion: {
+        type: 'string',
+        enum: ['rrf', 'weighted'],
+        description:
+          'How hybrid mode merges rankings: reciprocal rank fusion (rrf, default) or weighted score blending - for hybrid mode only',
+      },
+      semanticWeight: {
+        type: 'number',
+        description:
+          'Weight of the vector score in weighted fusion (0.0-1.0, default 0.5); the full-text score gets the remainder - for hybrid mode only',
+      },
+      force: {
+        type: 'boolean',
+        description: 'Re-embed every entity, not only new or changed ones - for reindex mode only',
       },
       clientProjectRoot: {
         type: 'string',
@@ -62,7 +81,7 @@ Entity types that can be searched:
         description: 'Git branch name',
       },
     },
-    required: ['query', 'repository'],
+    required: ['repository'],
   },
   returns: {
     type: 'object',
@@ -87,6 +106,11 @@ Entity types that can be searched:
         type: 'string',
         description: 'Search mode used',
       },
+      reindex: {
+        type: 'object',
+        description:
+          'Embedding index statistics (embedded, unchanged, removed) - reindex mode only',
+      },
       message: {
         type: 'string',
         description: 'Additional information about the search operation',
@@ -29,3 +29,17 @@ export function createRepositoryBranchKey(repository: string, branch?: string |
 
   return `${repository}:${normalizedBranch}`;
 }
+
+/**
+ * Split a key created by createRepositoryBranchKey back into repository and branch.
+ *
+ * @param key - A repository:branch key
+ * @returns The repository and branch the key was created from
+ */
+export function parseRepositoryBranchKey(key: string): { repository: string; branch: string } {
+  const separator = key.indexOf(':');
+  if (separator === -1) {
+    throw new Error(`Invalid repository:branch key: "${key}"`);
+  }
+  return { repository: key.slice(0, separator), branch: key.slice(separator + 1) };
+}
@@ -47,7 +47,12 @@ function createZodTypeFromProperty(prop: any): z.ZodTypeAny {
       if (prop.properties) {
         const nestedShape: Record<string, z.ZodTypeAny> = {};
         for (const [nestedPropName, nestedPropDef] of Object.entries(prop.properties)) {
-          nestedShape[nestedPropName] = createZodTypeFromProperty(nestedPropDef as any);
+          const nestedType = createZodTypeFromProperty(nestedPropDef as any);
+          // When the object lists its required properties, the others are optional
+          nestedShape[nestedPropName] =
+            Array.isArray(prop.required) && !prop.required.includes(nestedPropName)
+              ? nestedType.optional()
+              : nestedType;
         }
         return z.object(nestedShape).passthrough();
       } else {
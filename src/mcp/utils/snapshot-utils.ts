@@ -0,0 +1,31 @@
+/**
+ * Snapshots that tool handlers take on behalf of snapshot policies
+ */
+
+import type { MemoryService } from '../../services/memory.service';
+import type { SnapshotTrigger } from '../../utils/snapshot-retention.utils';
+import type { ToolHandlerContext } from '../types/sdk-custom';
+
+/**
+ * Take the snapshots the policies of a repository ask for before a bulk operation
+ * changes it, for one branch or, when branch is omitted, every branch.
+ *
+ * @returns IDs of the snapshots taken
+ */
+export async function snapshotBeforeBulkOperation(
+  memoryService: MemoryService,
+  context: ToolHandlerContext,
+  clientProjectRoot: string,
+  repository: string,
+  branch: string | undefined,
+  trigger: SnapshotTrigger,
+): Promise<string[]> {
+  const snapshotService = await memoryService.getSnapshotService(context, clientProjectRoot);
+  const snapshots = await snapshotService.createTriggeredSnapshots(repository, branch, trigger);
+  if (snapshots.length > 0) {
+    context.logger.info(
+      `Took ${snapshots.length} snapshots before ${trigger} in ${repository}: ${snapshots.map((snapshot) => snapshot.snapshotId).join(', ')}`,
+    );
+  }
+  return snapshots.map((snapshot) => snapshot.snapshotId);
+}
@@ -43,6 +43,7 @@ export class FileRepository {
         f.name = $name,
         f.path = $path,
         f.mime_type = $mime_type,
+        f.language = $language,
         f.size = $size,
         f.repository = $repository,
         f.branch = $branch,
@@ -55,6 +56,7 @@ export class FileRepository {
         f.name = $name,
         f.path = $path,
         f.mime_type = $mime_type,
+        f.language = $language,
         f.size = $size,
         f.repository = $repository,
         f.branch = $branch,
@@ -73,6 +75,7 @@ export class FileRepository {
         name: fileData.name,
         path: fileData.path,
         mime_type: fileData.mime_type || 'unknown',
+        language: fileData.language ?? null,
         size: fileData.size ?? 0,
         repository: repositoryName,
         repositoryId: repoNodeId,
@@ -93,6 +96,7 @@ export class FileRepository {
         path: fileData.path,
         size: fileData.size ?? 0,
         mime_type: fileData.mime_type || 'unknown',
+        language: fileData.language ?? null,
         content: fileData.content || null,
         metrics: fileData.metrics || null,
         repository: repositoryName,
@@ -134,6 +138,7 @@ export class FileRepository {
           path: foundNode.path,
           size: foundNode.size,
           mime_type: parsedMetadata.mime_type,
+          language: foundNode.language ?? null,
           content: parsedMetadata.content,
           metrics: parsedMetadata.metrics,
           repository: repoNode.name, // Use the actual repository name from the graph
@@ -259,6 +264,7 @@ export class FileRepository {
             path: fileNode.path,
             size: fileNode.size,
             mime_type: parsedMetadata.mime_type,
+            language: fileNode.language ?? null,
             content: parsedMetadata.content,
             metrics: parsedMetadata.metrics,
             repository: repoNode.name, // Use the actual repository name from the graph
@@ -94,6 +94,9 @@ export const OptimizationActionSchema = z.object({
   type: z.enum(['delete', 'merge', 'update', 'move']),
   entityId: z.string(),
   targetEntityId: z.string().optional().describe('Target entity for merge/move operations'),
+  entityType: EntityTypeSchema.optional().describe(
+    'Type of the entity when its ID has no type prefix',
+  ),
   reason: z.string(),
   priority: z.enum(['low', 'medium', 'high']),
   safetyChecks: z.array(z.string()).describe('Safety checks to perform before execution'),
@@ -81,7 +81,7 @@ export abstract class BaseHttpStreamServer {
       {
         capabilities: {
           tools: { list: true, call: true, listChanged: true },
-          resources: {},
+          resources: { subscribe: true },
           prompts: {},
         },
       },
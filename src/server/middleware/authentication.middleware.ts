@@ -0,0 +1,236 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { type AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { type Logger } from 'pino';
+
+import { BaseHttpStreamServer } from '../base/base-httpstream-server';
+import { safeCompare, verifyAuthToken } from '../../utils/auth-token.utils';
+
+/**
+ * JSON-RPC error code used for authentication failures
+ */
+export const UNAUTHORIZED_ERROR_CODE = -32001;
+
+/**
+ * A static API key and the repositories it may access
+ */
+export interface ApiKeyConfig {
+  id: string;
+  key: string;
+  /** Allowed repositories; undefined means all repositories */
+  repositories?: string[];
+}
+
+export interface AuthenticationConfig {
+  apiKeys: ApiKeyConfig[];
+  hmacSecret?: string;
+}
+
+/**
+ * The authenticated caller of a request
+ */
+export interface AuthPrincipal {
+  id: string;
+  method: 'api-key' | 'hmac-token';
+  /** Allowed repositories; undefined means all repositories */
+  repositories?: string[];
+}
+
+export type AuthenticationResult =
+  | { authenticated: true; principal: AuthPrincipal; token: string }
+  | { authenticated: false; reason: string };
+
+/**
+ * Parse MCP_API_KEYS entries of the form `id:key` or `id:key:repo-a|repo-b`, separated by commas
+ */
+export function parseApiKeys(value: string | undefined): ApiKeyConfig[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .map((entry) => {
+      const [id, key, repositories] = entry.split(':');
+      if (!id || !key) {
+        throw new Error(`Invalid MCP_API_KEYS entry '${entry}', expected id:key[:repo|repo]`);
+      }
+      const repositoryList = repositories
+        ?.split('|')
+        .map((repository) => repository.trim())
+        .filter((repository) => repository !== '');
+      return {
+        id,
+        key,
+        repositories:
+          repositoryList && repositoryList.length > 0 && !repositoryList.includes('*')
+            ? repositoryList
+            : undefined,
+      };
+    });
+}
+
+/**
+ * Load authentication settings from the environment
+ */
+export function loadAuthenticationConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): AuthenticationConfig {
+  return {
+    apiKeys: parseApiKeys(env.MCP_API_KEYS),
+    hmacSecret: env.MCP_AUTH_HMAC_SECRET || undefined,
+  };
+}
+
+/**
+ * Check whether a principal may access a repository
+ */
+export function isRepositoryAllowed(
+  repositories: string[] | undefined,
+  repository: string | undefined,
+): boolean {
+  if (!repositories) {
+    return true;
+  }
+  return !!repository && repositories.includes(repository);
+}
+
+/**
+ * Middleware responsible for authenticating HTTP requests
+ * Accepts static API keys (X-API-Key or Authorization: Bearer) and HMAC-signed bearer tokens.
+ * Authentication is disabled when neither MCP_API_KEYS nor MCP_AUTH_HMAC_SECRET is configured.
+ */
+export class AuthenticationMiddleware extends BaseHttpStreamServer {
+  private authConfig: AuthenticationConfig;
+
+  constructor(config?: any, authConfig?: AuthenticationConfig) {
+    super(config);
+    this.authConfig = authConfig || loadAuthenticationConfig();
+  }
+
+  /**
+   * Whether any credentials are configured
+   */
+  isEnabled(): boolean {
+    return this.authConfig.apiKeys.length > 0 || !!this.authConfig.hmacSecret;
+  }
+
+  /**
+   * Authenticate a request from its Authorization or X-API-Key header
+   */
+  authenticate(req: IncomingMessage, requestLogger: Logger): AuthenticationResult {
+    const credential = this.extractCredential(req);
+    if (!credential) {
+      requestLogger.warn('Request rejected: missing credentials');
+      return { authenticated: false, reason: 'Missing credentials' };
+    }
+
+    const apiKey = this.authConfig.apiKeys.find((candidate) =>
+      safeCompare(credential, candidate.key),
+    );
+    if (apiKey) {
+      return {
+        authenticated: true,
+        token: credential,
+        principal: { id: apiKey.id, method: 'api-key', repositories: apiKey.repositories },
+      };
+    }
+
+    if (this.authConfig.hmacSecret && credential.includes('.')) {
+      try {
+        const payload = verifyAuthToken(credential, this.authConfig.hmacSecret);
+        return {
+          authenticated: true,
+          token: credential,
+          principal: { id: payload.sub, method: 'hmac-token', repositories: payload.repositories },
+        };
+      } catch (error) {
+        requestLogger.warn({ reason: (error as Error).message }, 'Request rejected: invalid token');
+        return { authenticated: false, reason: (error as Error).message };
+      }
+    }
+
+    requestLogger.warn('Request rejected: unknown credentials');
+    return { authenticated: false, reason: 'Invalid credentials' };
+  }
+
+  /**
+   * Convert a principal into the AuthInfo the MCP SDK forwards to tool handlers
+   */
+  toAuthInfo(principal: AuthPrincipal, token: string): AuthInfo {
+    return {
+      token,
+      clientId: principal.id,
+      scopes: [],
+      extra: {
+        method: principal.method,
+        repositories: principal.repositories,
+      },
+    };
+  }
+
+  /**
+   * Write a 401 response in JSON-RPC error shape
+   */
+  sendUnauthorized(res: ServerResponse, reason: string): void {
+    res.writeHead(401, {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': 'Bearer realm="kuzumem-mcp"',
+    });
+    res.end(JSON.stringify(this.createUnauthorizedResponse(reason)));
+  }
+
+  /**
+   * Create error response for authentication failures
+   */
+  createUnauthorizedResponse(reason: string): object {
+    return {
+      jsonrpc: '2.0',
+      error: {
+        code: UNAUTHORIZED_ERROR_CODE,
+        message: 'Unauthorized',
+        data: reason,
+      },
+      id: null,
+    };
+  }
+
+  private extractCredential(req: IncomingMessage): string | undefined {
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader.trim() !== '') {
+      return apiKeyHeader.trim();
+    }
+
+    const authorization = req.headers.authorization;
+    if (authorization) {
+      const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+      if (match) {
+        return match[1].trim();
+      }
+    }
+
+    return undefined;
+  }
+
+  // Implement abstract methods from base class
+  async start(): Promise<void> {
+    if (this.isEnabled()) {
+      this.logger.info(
+        {
+          apiKeyCount: this.authConfig.apiKeys.length,
+          hmacTokens: !!this.authConfig.hmacSecret,
+        },
+        'Authentication middleware initialized',
+      );
+    } else {
+      this.logger.warn(
+        'Authentication is disabled - set MCP_API_KEYS or MCP_AUTH_HMAC_SECRET to require credentials',
+      );
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.logger.info('Authentication middleware stopped');
+  }
+}
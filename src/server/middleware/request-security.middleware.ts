@@ -251,7 +251,10 @@ export class RequestSecurityMiddleware extends BaseHttpStreamServer {
     // Add CORS headers if needed for browser compatibility
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, mcp-session-id');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Content-Type, mcp-session-id, Authorization, X-API-Key',
+    );
   }
 
   /**
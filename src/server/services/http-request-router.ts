@@ -2,26 +2,44 @@ import { randomUUID } from 'node:crypto';
 import { type IncomingMessage, type ServerResponse } from 'node:http';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { type Logger } from 'pino';
 
 import { BaseHttpStreamServer } from '../base/base-httpstream-server';
+import { AuthenticationMiddleware } from '../middleware/authentication.middleware';
 import { RequestSecurityMiddleware } from '../middleware/request-security.middleware';
 import { logError } from '../../utils/logger';
 
+// Request with the authentication result attached; the SDK transport forwards `auth` to tools
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
 /**
  * Service responsible for routing HTTP requests to appropriate handlers
  * Handles POST, GET, DELETE requests and manages session-based routing
+ * Requests are authenticated before a session is created or reused; sessions stay bound
+ * to the principal that created them
  */
 export class HttpRequestRouter extends BaseHttpStreamServer {
   private securityMiddleware: RequestSecurityMiddleware;
+  private authMiddleware: AuthenticationMiddleware;
   private sharedMcpServer: McpServer;
+  private sessionPrincipals = new Map<string, string>();
+  private sessionCloseListeners: Array<(sessionId: string) => void> = [];
 
-  constructor(config?: any, mcpServer?: McpServer) {
+  constructor(config?: any, mcpServer?: McpServer, authMiddleware?: AuthenticationMiddleware) {
     super(config);
     this.securityMiddleware = new RequestSecurityMiddleware(config);
+    this.authMiddleware = authMiddleware || new AuthenticationMiddleware(config);
     this.sharedMcpServer = mcpServer || this.getMcpServer();
   }
 
+  /**
+   * Register a callback invoked with the id of every session whose transport closes
+   */
+  onSessionClosed(listener: (sessionId: string) => void): void {
+    this.sessionCloseListeners.push(listener);
+  }
+
   /**
    * Route incoming HTTP requests to appropriate handlers
    */
@@ -54,6 +72,19 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
       // Apply CORS headers
       this.securityMiddleware.applyCorsHeaders(res);
 
+      // Authenticate before any session is created or reused (CORS preflight is exempt)
+      if (req.method !== 'OPTIONS' && this.authMiddleware.isEnabled()) {
+        const authResult = this.authMiddleware.authenticate(req, requestLogger);
+        if (!authResult.authenticated) {
+          this.authMiddleware.sendUnauthorized(res, authResult.reason);
+          return;
+        }
+        (req as AuthenticatedRequest).auth = this.authMiddleware.toAuthInfo(
+          authResult.principal,
+          authResult.token,
+        );
+      }
+
       // Handle different HTTP methods
       switch (req.method) {
         case 'POST':
@@ -135,6 +166,12 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
       });
 
       if (sessionId && this.getTransport(sessionId)) {
+        if (!this.isSessionOwner(req, sessionId)) {
+          cleanup();
+          this.authMiddleware.sendUnauthorized(res, 'Session belongs to a different principal');
+          return;
+        }
+
         // Reuse existing transport
         const transport = this.getTransport(sessionId)!;
         requestLogger.debug({ sessionId }, 'Reusing existing transport');
@@ -159,6 +196,10 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
           enableJsonResponse: true,
           onsessioninitialized: (newSessionId: string) => {
             this.setTransport(newSessionId, transport);
+            const principalId = (req as AuthenticatedRequest).auth?.clientId;
+            if (principalId) {
+              this.sessionPrincipals.set(newSessionId, principalId);
+            }
             requestLogger.debug({ sessionId: newSessionId }, 'New session initialized');
           },
         });
@@ -167,6 +208,10 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
         transport.onclose = () => {
           if (transport.sessionId) {
             this.removeTransport(transport.sessionId);
+            this.sessionPrincipals.delete(transport.sessionId);
+            for (const listener of this.sessionCloseListeners) {
+              listener(transport.sessionId);
+            }
             requestLogger.debug({ sessionId: transport.sessionId }, 'Session transport cleaned up');
           }
         };
@@ -226,6 +271,11 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
       return;
     }
 
+    if (!this.isSessionOwner(req, sessionId)) {
+      this.authMiddleware.sendUnauthorized(res, 'Session belongs to a different principal');
+      return;
+    }
+
     const transport = this.getTransport(sessionId)!;
     await transport.handleRequest(req, res);
   }
@@ -252,11 +302,17 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
       return;
     }
 
+    if (!this.isSessionOwner(req, sessionId)) {
+      this.authMiddleware.sendUnauthorized(res, 'Session belongs to a different principal');
+      return;
+    }
+
     const transport = this.getTransport(sessionId)!;
 
     try {
       await transport.close();
       this.removeTransport(sessionId);
+      this.sessionPrincipals.delete(sessionId);
       requestLogger.debug({ sessionId }, 'Session terminated');
 
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -279,14 +335,27 @@ export class HttpRequestRouter extends BaseHttpStreamServer {
     }
   }
 
+  /**
+   * Check that an authenticated request uses a session created by the same principal
+   */
+  private isSessionOwner(req: IncomingMessage, sessionId: string): boolean {
+    const owner = this.sessionPrincipals.get(sessionId);
+    if (!owner) {
+      return true;
+    }
+    return (req as AuthenticatedRequest).auth?.clientId === owner;
+  }
+
   // Implement abstract methods from base class
   async start(): Promise<void> {
     await this.securityMiddleware.start();
+    await this.authMiddleware.start();
     this.logger.info('HTTP request router initialized');
   }
 
   async stop(): Promise<void> {
     await this.securityMiddleware.stop();
+    await this.authMiddleware.stop();
     this.logger.info('HTTP request router stopped');
   }
 }
@@ -0,0 +1,50 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type Logger } from 'pino';
+
+import { MemoryPromptProvider, registerMemoryPrompts } from '../../mcp/prompts/memory-prompts';
+import { type RepositoryScope } from '../../mcp/resources/memory-resources';
+
+/**
+ * Service responsible for exposing the agent development loop as MCP prompts
+ * Prompts are rendered for the repositories initialized through the memory-bank tool
+ */
+export class PromptRegistrationService {
+  private mcpServer: McpServer;
+  private logger: Logger;
+  private provider: MemoryPromptProvider;
+
+  constructor(mcpServer: McpServer, logger: Logger, listScopes: () => RepositoryScope[]) {
+    this.mcpServer = mcpServer;
+    this.logger = logger;
+    this.provider = new MemoryPromptProvider(listScopes, logger);
+  }
+
+  /**
+   * Register the prompt handlers with the server
+   */
+  registerPrompts(): void {
+    registerMemoryPrompts(this.mcpServer, this.provider);
+    this.logger.info('Registered MCP prompt handlers');
+  }
+
+  /**
+   * Get the provider serving prompt requests
+   */
+  getProvider(): MemoryPromptProvider {
+    return this.provider;
+  }
+
+  /**
+   * Start the prompt registration service
+   */
+  async start(): Promise<void> {
+    this.registerPrompts();
+  }
+
+  /**
+   * Stop the prompt registration service
+   */
+  async stop(): Promise<void> {
+    this.logger.info('Prompt registration service stopped');
+  }
+}
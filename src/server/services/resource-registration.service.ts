@@ -0,0 +1,82 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type Logger } from 'pino';
+
+import {
+  MemoryResourceProvider,
+  registerMemoryResources,
+  type RepositoryScope,
+} from '../../mcp/resources/memory-resources';
+import {
+  registerResourceSubscriptions,
+  ResourceSubscriptionManager,
+  type ResourceUpdateSender,
+} from '../../mcp/resources/resource-subscriptions';
+import { MemoryService } from '../../services/memory.service';
+
+/**
+ * Service responsible for exposing the memory graph as MCP resources
+ * Resources are served for the repositories initialized through the memory-bank tool
+ */
+export class ResourceRegistrationService {
+  private mcpServer: McpServer;
+  private logger: Logger;
+  private provider: MemoryResourceProvider;
+  private subscriptions: ResourceSubscriptionManager;
+  private detachSubscriptions?: () => void;
+
+  constructor(
+    mcpServer: McpServer,
+    logger: Logger,
+    listScopes: () => RepositoryScope[],
+    sendUpdate?: ResourceUpdateSender,
+  ) {
+    this.mcpServer = mcpServer;
+    this.logger = logger;
+    this.provider = new MemoryResourceProvider(listScopes, logger);
+    this.subscriptions = new ResourceSubscriptionManager(
+      sendUpdate ?? ((_sessionKey, uri) => mcpServer.server.sendResourceUpdated({ uri })),
+      logger,
+    );
+  }
+
+  /**
+   * Register the resource handlers with the server
+   */
+  registerResources(): void {
+    registerMemoryResources(this.mcpServer, this.provider);
+    registerResourceSubscriptions(this.mcpServer, this.subscriptions);
+    this.logger.info('Registered MCP resource handlers');
+  }
+
+  /**
+   * Get the provider serving resource requests
+   */
+  getProvider(): MemoryResourceProvider {
+    return this.provider;
+  }
+
+  /**
+   * Get the manager tracking resource subscriptions
+   */
+  getSubscriptionManager(): ResourceSubscriptionManager {
+    return this.subscriptions;
+  }
+
+  /**
+   * Start the resource registration service
+   */
+  async start(): Promise<void> {
+    this.registerResources();
+    const memoryService = await MemoryService.getInstance();
+    this.detachSubscriptions = this.subscriptions.attach(memoryService.changes);
+  }
+
+  /**
+   * Stop the resource registration service
+   */
+  async stop(): Promise<void> {
+    this.detachSubscriptions?.();
+    this.detachSubscriptions = undefined;
+    this.logger.info('Resource registration service stopped');
+  }
+}
@@ -2,8 +2,11 @@ import { createServer, type Server } from 'node:http';
 
 import { BaseHttpStreamServer } from '../base/base-httpstream-server';
 import { ToolRegistrationService } from './tool-registration.service';
+import { ResourceRegistrationService } from './resource-registration.service';
+import { PromptRegistrationService } from './prompt-registration.service';
 import { HttpRequestRouter } from './http-request-router';
 import { SessionTransportManager } from './session-transport-manager';
+import { SnapshotScheduler } from '../../services/snapshot-scheduler.service';
 import { logError } from '../../utils/logger';
 
 /**
@@ -12,15 +15,43 @@ import { logError } from '../../utils/logger';
  */
 export class ServerLifecycleManager extends BaseHttpStreamServer {
   private toolRegistration: ToolRegistrationService;
+  private resourceRegistration: ResourceRegistrationService;
+  private promptRegistration: PromptRegistrationService;
   private requestRouter: HttpRequestRouter;
   private sessionManager: SessionTransportManager;
+  private snapshotScheduler: SnapshotScheduler;
   private cleanupInterval?: NodeJS.Timeout;
 
   constructor(config?: any) {
     super(config);
     this.toolRegistration = new ToolRegistrationService(this.getMcpServer(), this.getLogger());
     this.requestRouter = new HttpRequestRouter(config, this.getMcpServer());
+    // The MCP server is shared by all sessions, so updates are sent on the subscriber's own transport
+    this.resourceRegistration = new ResourceRegistrationService(
+      this.getMcpServer(),
+      this.getLogger(),
+      () => this.toolRegistration.getRepositoryScopes(),
+      async (sessionId, uri) => {
+        await this.requestRouter.getTransport(sessionId)?.send({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri },
+        });
+      },
+    );
+    this.promptRegistration = new PromptRegistrationService(
+      this.getMcpServer(),
+      this.getLogger(),
+      () => this.toolRegistration.getRepositoryScopes(),
+    );
+    this.requestRouter.onSessionClosed((sessionId) =>
+      this.resourceRegistration.getSubscriptionManager().removeSession(sessionId),
+    );
     this.sessionManager = new SessionTransportManager(config);
+    this.snapshotScheduler = new SnapshotScheduler(
+      () => this.toolRegistration.getRepositoryScopes(),
+      this.getLogger(),
+    );
   }
 
   /**
@@ -35,6 +66,8 @@ export class ServerLifecycleManager extends BaseHttpStreamServer {
       this.logger.info('Registering MCP tools...');
       await this.toolRegistration.start();
       this.logger.info('MCP tools registered successfully');
+      await this.resourceRegistration.start();
+      await this.promptRegistration.start();
 
       // Initialize other services
       await this.requestRouter.start();
@@ -56,6 +89,9 @@ export class ServerLifecycleManager extends BaseHttpStreamServer {
       // Start periodic cleanup
       this.cleanupInterval = this.sessionManager.startPeriodicCleanup();
 
+      // Start enforcing snapshot schedules and retention
+      this.snapshotScheduler.start();
+
       this.logger.info('MCP HTTP Stream server started successfully');
     } catch (error) {
       this.logger.error({ error }, 'Failed to start server');
@@ -75,10 +111,13 @@ export class ServerLifecycleManager extends BaseHttpStreamServer {
         clearInterval(this.cleanupInterval);
         this.cleanupInterval = undefined;
       }
+      this.snapshotScheduler.stop();
 
       // Stop all services
       await this.sessionManager.stop();
       await this.requestRouter.stop();
+      await this.promptRegistration.stop();
+      await this.resourceRegistration.stop();
       await this.toolRegistration.stop();
 
       // Close HTTP server
@@ -1,15 +1,27 @@
 import { randomUUID } from 'node:crypto';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { type Logger } from 'pino';
 
 import { type ToolArguments, type EnhancedToolArguments } from '../base/base-httpstream-server';
+import { isRepositoryAllowed } from '../middleware/authentication.middleware';
+import {
+  ANONYMOUS_PRINCIPAL,
+  authorizeToolCall,
+  ForbiddenError,
+  getToolOperation,
+  loadAuthorizationPolicy,
+  type AuthorizationPolicy,
+} from '../../utils/authorization-policy.utils';
 import { toolHandlers } from '../../mcp/tool-handlers';
 import { MEMORY_BANK_MCP_TOOLS } from '../../mcp/tools';
 import { createPerformanceLogger, logError } from '../../utils/logger';
 import { createZodRawShape } from '../../mcp/utils/schema-utils';
+import { parseRepositoryBranchKey } from '../../mcp/utils/repository-utils';
 import { MemoryService } from '../../services/memory.service';
 import { type ToolHandlerContext } from '../../mcp/types/sdk-custom';
+import { type RepositoryScope } from '../../mcp/resources/memory-resources';
 
 // Type definitions for better type safety
 interface BaseToolArguments extends Record<string, any> {
@@ -19,7 +31,7 @@ interface BaseToolArguments extends Record<string, any> {
 }
 
 interface MemoryBankInitArgs extends BaseToolArguments {
-  operation: 'init';
+  operation: 'init' | 'fork';
   clientProjectRoot: string;
   repository: string;
   branch: string;
@@ -31,7 +43,7 @@ function isMemoryBankInitArgs(args: ToolArguments): args is MemoryBankInitArgs &
     typeof args === 'object' &&
     args !== null &&
     'operation' in args &&
-    args.operation === 'init' &&
+    (args.operation === 'init' || args.operation === 'fork') &&
     'clientProjectRoot' in args &&
     'repository' in args
   );
@@ -49,10 +61,16 @@ export class ToolRegistrationService {
   private mcpServer: McpServer;
   private logger: Logger;
   private repositoryRootMap = new Map<string, string>();
+  private authorizationPolicy?: AuthorizationPolicy;
 
-  constructor(mcpServer: McpServer, logger: Logger) {
+  constructor(
+    mcpServer: McpServer,
+    logger: Logger,
+    authorizationPolicy: AuthorizationPolicy | undefined = loadAuthorizationPolicy(),
+  ) {
     this.mcpServer = mcpServer;
     this.logger = logger;
+    this.authorizationPolicy = authorizationPolicy;
   }
   /**
    * Register all MCP tools with the server
@@ -75,8 +93,8 @@ export class ToolRegistrationService {
           description: tool.description,
           inputSchema: zodRawShape,
         },
-        async (args: ToolArguments): Promise<CallToolResult> => {
-          return this.executeToolHandler(tool.name, args);
+        async (args: ToolArguments, extra): Promise<CallToolResult> => {
+          return this.executeToolHandler(tool.name, args, extra?.authInfo);
         },
       );
     }
@@ -107,6 +125,16 @@ export class ToolRegistrationService {
     );
   }
 
+  /**
+   * List the repository/branch combinations initialized through the memory-bank tool
+   */
+  getRepositoryScopes(): RepositoryScope[] {
+    return Array.from(this.repositoryRootMap.entries()).map(([key, clientProjectRoot]) => ({
+      ...parseRepositoryBranchKey(key),
+      clientProjectRoot,
+    }));
+  }
+
   /**
    * Create repository branch key
    */
@@ -117,14 +145,20 @@ export class ToolRegistrationService {
   /**
    * Execute a tool handler with proper error handling and context
    */
-  private async executeToolHandler(toolName: string, args: ToolArguments): Promise<CallToolResult> {
+  private async executeToolHandler(
+    toolName: string,
+    args: ToolArguments,
+    authInfo?: AuthInfo,
+  ): Promise<CallToolResult> {
     const toolPerfLogger = createPerformanceLogger(this.logger, `tool-${toolName}`);
     const toolLogger = this.createToolLogger(toolName);
 
-    toolLogger.debug({ args }, `Executing tool: ${toolName}`);
+    toolLogger.debug({ args, principal: authInfo?.clientId }, `Executing tool: ${toolName}`);
 
     try {
-      // Handle clientProjectRoot storage for memory-bank init operations
+      this.enforceAuthorization(toolName, args, authInfo);
+
+      // Handle clientProjectRoot storage for memory-bank init and fork operations
       if (toolName === 'memory-bank' && isMemoryBankInitArgs(args)) {
         this.setRepositoryRoot(args.repository, args.branch, args.clientProjectRoot);
       }
@@ -179,6 +213,20 @@ export class ToolRegistrationService {
       };
     } catch (error) {
       toolPerfLogger.fail(error as Error);
+
+      if (error instanceof ForbiddenError) {
+        toolLogger.warn({ ...error.details }, error.message);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ ...error.toResponse(), errorId: randomUUID() }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
       logError(toolLogger, error as Error, { operation: 'tool-execution' });
 
       // Return error in proper MCP format
@@ -198,6 +246,42 @@ export class ToolRegistrationService {
     }
   }
 
+  /**
+   * Enforce the repository scope of the authenticated credential and the role policy
+   * @throws ForbiddenError when the call is not permitted
+   */
+  private enforceAuthorization(toolName: string, args: ToolArguments, authInfo?: AuthInfo): void {
+    const principal = authInfo?.clientId ?? ANONYMOUS_PRINCIPAL;
+    const operation = getToolOperation(toolName, args);
+    const repository = hasRepositoryInfo(args) ? args.repository : undefined;
+
+    if (authInfo) {
+      const allowedRepositories = authInfo.extra?.repositories as string[] | undefined;
+      if (!isRepositoryAllowed(allowedRepositories, repository)) {
+        throw new ForbiddenError(
+          `Credential '${principal}' is not allowed to access repository '${repository ?? 'unknown'}'`,
+          { principal, tool: toolName, operation, repository },
+        );
+      }
+    }
+
+    if (this.authorizationPolicy) {
+      const decision = authorizeToolCall(this.authorizationPolicy, {
+        principal,
+        tool: toolName,
+        operation,
+      });
+      if (!decision.allowed) {
+        throw new ForbiddenError(decision.reason, {
+          principal,
+          tool: toolName,
+          operation,
+          role: decision.role,
+        });
+      }
+    }
+  }
+
   /**
    * Create tool logger with context
    */
@@ -2,7 +2,8 @@ import { KuzuDBClient } from '../../db/kuzu';
 import { RepositoryProvider } from '../../db/repository-provider';
 import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
 import { SnapshotService } from '../snapshot.service';
-import { IServiceContainer } from './service-container.interface';
+import { type MemoryChangeEvent } from './memory-change-notifier';
+import { IEmbeddingService, IServiceContainer } from './service-container.interface';
 
 export abstract class CoreService {
   protected serviceContainer: IServiceContainer;
@@ -29,4 +30,107 @@ export abstract class CoreService {
   ): Promise<SnapshotService> {
     return this.serviceContainer.getSnapshotService(mcpContext, clientProjectRoot);
   }
+
+  /**
+   * Publish a memory mutation to resource subscribers
+   */
+  protected notifyChange(event: MemoryChangeEvent): void {
+    this.serviceContainer.getChangeNotifier().notify(event);
+  }
+
+  /**
+   * Bookkeeping after an entity was created or updated: re-embed it if its content
+   * changed and notify subscribers. Embedding failures never fail the mutation; the
+   * scope is left to the background reindex.
+   */
+  protected async afterEntityUpserted(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: string,
+    entityId: string,
+  ): Promise<void> {
+    const logger = mcpContext.logger || console;
+    this.notifyChange({
+      change: 'upserted',
+      repository: repositoryName,
+      branch,
+      entityType,
+      entityIds: [entityId],
+    });
+    try {
+      const embeddingService = await this.serviceContainer.getEmbeddingService();
+      await embeddingService.syncEntity(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        entityType,
+        entityId,
+      );
+    } catch (error: any) {
+      logger.warn(
+        `[${this.constructor.name}.afterEntityUpserted] Could not sync embedding for ${entityType} ${entityId} in ${repositoryName}:${branch}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Bookkeeping after entities were deleted: drop their embeddings and notify subscribers.
+   * See IEmbeddingService.removeEmbeddings for the scope.
+   */
+  protected async afterEntitiesRemoved(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    scope: { branch?: string; entityType?: string; entityIds?: string[] } = {},
+  ): Promise<void> {
+    const logger = mcpContext.logger || console;
+    this.notifyChange({ change: 'deleted', repository: repositoryName, ...scope });
+    let embeddingService: IEmbeddingService | undefined;
+    try {
+      embeddingService = await this.serviceContainer.getEmbeddingService();
+      await embeddingService.removeEmbeddings(mcpContext, clientProjectRoot, repositoryName, scope);
+    } catch (error: any) {
+      logger.warn(
+        `[${this.constructor.name}.afterEntitiesRemoved] Could not remove embeddings in ${repositoryName}: ${error.message}`,
+      );
+      // Orphaned embeddings are pruned by the next reindex of the branch, or of every
+      // branch of the repository when the removal was not limited to one
+      if (embeddingService) {
+        const branches = scope.branch
+          ? [scope.branch]
+          : await this.listRepositoryBranches(mcpContext, clientProjectRoot, repositoryName);
+        for (const branch of branches) {
+          embeddingService.markDirty({ clientProjectRoot, repositoryName, branch });
+        }
+      }
+    }
+  }
+
+  /**
+   * Branches that have a Repository node (id = name + ':' + branch) for the repository
+   */
+  private async listRepositoryBranches(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+  ): Promise<string[]> {
+    const logger = mcpContext.logger || console;
+    const prefix = `${repositoryName}:`;
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const rows = await kuzuClient.executeQuery(
+        'MATCH (r:Repository) WHERE r.id STARTS WITH $prefix RETURN r.id AS id',
+        { prefix },
+      );
+      return rows.map((row: any) => String(row.id).slice(prefix.length));
+    } catch (error: any) {
+      logger.warn(
+        `[${this.constructor.name}.listRepositoryBranches] Could not list branches of ${repositoryName}: ${error.message}`,
+      );
+      return [];
+    }
+  }
 }
@@ -0,0 +1,58 @@
+import { loggers } from '../../utils/logger';
+
+export type MemoryChangeKind = 'upserted' | 'deleted';
+
+/**
+ * A mutation of memory items. Omitted fields widen the scope of the change,
+ * e.g. a bulk branch deletion carries neither entityType nor entityIds.
+ */
+export interface MemoryChangeEvent {
+  change: MemoryChangeKind;
+  repository: string;
+  branch?: string;
+  /** Lower-case entity type (component, decision, rule, file, tag, context, metadata) */
+  entityType?: string;
+  entityIds?: string[];
+}
+
+export type MemoryChangeListener = (event: MemoryChangeEvent) => void | Promise<void>;
+
+/**
+ * In-process publisher of memory mutations, used to push resource update
+ * notifications to subscribed MCP sessions
+ */
+export class MemoryChangeNotifier {
+  private logger = loggers.memoryService();
+  private listeners = new Set<MemoryChangeListener>();
+
+  /**
+   * Register a listener
+   * @returns A function that removes the listener again
+   */
+  subscribe(listener: MemoryChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Publish a change to all listeners. Listener failures are logged and never
+   * propagate to the mutation that triggered the change.
+   */
+  notify(event: MemoryChangeEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        Promise.resolve(listener(event)).catch((error) => {
+          this.logger.warn({ error, event }, '[MemoryChangeNotifier.notify] Listener failed');
+        });
+      } catch (error) {
+        this.logger.warn({ error, event }, '[MemoryChangeNotifier.notify] Listener failed');
+      }
+    }
+  }
+
+  get listenerCount(): number {
+    return this.listeners.size;
+  }
+}
@@ -1,7 +1,17 @@
 import { KuzuDBClient } from '../../db/kuzu';
 import { RepositoryProvider } from '../../db/repository-provider';
 import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
+import type {
+  BranchEntity,
+  BranchEntityType,
+  BranchRelationship,
+  BranchState,
+} from '../../utils/branch-diff.utils';
+import type { BulkGraphImportInput } from '../../utils/bulk-import.utils';
+import type { EntityMergeResult } from '../../utils/entity-merge.utils';
+import type { ImportConflictPolicy, MemoryExport } from '../../utils/memory-export.utils';
 import { SnapshotService } from '../snapshot.service';
+import { MemoryChangeNotifier } from './memory-change-notifier';
 
 /**
  * Service container interface for dependency injection
@@ -15,6 +25,7 @@ export interface IServiceContainer {
     mcpContext: ToolHandlerContext,
     clientProjectRoot: string,
   ): Promise<SnapshotService>;
+  getChangeNotifier(): MemoryChangeNotifier;
 
   // Domain service access methods (lazy-loaded)
   getMemoryBankService(): Promise<IMemoryBankService>;
@@ -23,6 +34,10 @@ export interface IServiceContainer {
   getContextService(): Promise<IContextService>;
   getGraphQueryService(): Promise<IGraphQueryService>;
   getGraphAnalysisService(): Promise<IGraphAnalysisService>;
+  getEmbeddingService(): Promise<IEmbeddingService>;
+  getBranchService(): Promise<IBranchService>;
+  getMemoryTransferService(): Promise<IMemoryTransferService>;
+  getBulkImportService(): Promise<IBulkImportService>;
 
   // Specialized entity service access methods (optional - for clients that need specific functionality)
   getComponentService?(): Promise<IComponentService>;
@@ -276,6 +291,26 @@ export interface IBulkOperationsService {
   ): Promise<any>;
 }
 
+// Bulk import service interface - batch imports and COPY-based bulk loads
+export interface IBulkImportService {
+  bulkImportGraph(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    input: BulkGraphImportInput,
+    options?: { overwrite?: boolean; dryRun?: boolean },
+  ): Promise<any>;
+  bulkLoad(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    input: BulkGraphImportInput,
+    options?: { overwrite?: boolean; dryRun?: boolean; progressInterval?: number },
+  ): Promise<any>;
+}
+
 // Unified entity service interface - composes all entity services
 export interface IEntityService
   extends IComponentService,
@@ -293,6 +328,26 @@ export interface IEntityService
     branch: string,
     contextId: string,
   ): Promise<boolean>;
+
+  // Merge an entity into another of the same type; the source ID keeps resolving
+  mergeEntities(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    sourceId: string,
+    targetId: string,
+  ): Promise<EntityMergeResult>;
+
+  findMergedEntityId(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    id: string,
+  ): Promise<string | null>;
 }
 
 export interface IContextService {
@@ -336,6 +391,23 @@ export interface IGraphQueryService {
     limit?: number,
     offset?: number,
   ): Promise<any>;
+  getNodeById(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    nodeLabel: string,
+    id: string,
+  ): Promise<Record<string, any> | null>;
+  listNodesInScope(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    nodeLabel: string,
+    limit?: number,
+    offset?: number,
+  ): Promise<{ label: string; entities: Record<string, any>[]; total: number }>;
   getRelatedItems(
     mcpContext: ToolHandlerContext,
     clientProjectRoot: string,
@@ -394,6 +466,13 @@ export interface IGraphQueryService {
     branch: string,
     nodeLabel: string,
   ): Promise<any>;
+  detectSchemaDrift(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    label?: string,
+  ): Promise<any>;
   listAllIndexes(
     mcpContext: ToolHandlerContext,
     clientProjectRoot: string,
@@ -431,3 +510,137 @@ export interface IGraphAnalysisService {
     params: any,
   ): Promise<any>;
 }
+
+export interface IEmbeddingService {
+  semanticSearch(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    query: string,
+    options: { entityTypes: string[]; limit: number; threshold?: number },
+  ): Promise<Array<{ entityType: string; node: Record<string, any>; score: number }>>;
+
+  syncEntity(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: string,
+    entityId: string,
+  ): Promise<boolean>;
+
+  removeEmbeddings(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    scope?: { branch?: string; entityType?: string; entityIds?: string[] },
+  ): Promise<number>;
+
+  reindex(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    options?: { entityTypes?: string[]; force?: boolean },
+  ): Promise<{
+    repository: string;
+    branch: string;
+    entityTypes: string[];
+    embedded: number;
+    unchanged: number;
+    removed: number;
+  }>;
+
+  markDirty(scope: { clientProjectRoot: string; repositoryName: string; branch: string }): void;
+
+  stopBackgroundReindex(): void;
+}
+
+export interface IBranchService {
+  loadBranchState(
+    kuzuClient: KuzuDBClient,
+    repositoryName: string,
+    branch: string,
+  ): Promise<BranchState>;
+  writeEntity(
+    tx: { executeQuery: (query: string, params?: Record<string, any>) => Promise<any> },
+    repositoryName: string,
+    branch: string,
+    entity: BranchEntity,
+    now: Date,
+  ): Promise<void>;
+  writeRelationship(
+    tx: { executeQuery: (query: string, params?: Record<string, any>) => Promise<any> },
+    repositoryName: string,
+    branch: string,
+    relationship: BranchRelationship,
+  ): Promise<number>;
+  diffBranches(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    sourceBranch: string,
+    targetBranch: string,
+  ): Promise<any>;
+  mergeBranches(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    sourceBranch: string,
+    targetBranch: string,
+    options?: { strategy?: 'ours' | 'theirs' | 'fail'; baseSnapshotId?: string; dryRun?: boolean },
+  ): Promise<any>;
+  forkBranch(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    sourceBranch: string,
+    branch: string,
+    filter?: {
+      entityTypes?: Array<'component' | 'decision' | 'rule' | 'file' | 'tag' | 'context'>;
+      tags?: string[];
+    },
+  ): Promise<any>;
+}
+
+export interface IMemoryTransferService {
+  exportMemory(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+  ): Promise<MemoryExport>;
+  exportMarkdown(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    outputDir: string,
+  ): Promise<any>;
+  exportAdrs(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    outputDir: string,
+  ): Promise<any>;
+  importAdrs(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    files: Array<{ fileName: string; content: string }>,
+    options?: { conflictPolicy?: 'skip' | 'overwrite'; dryRun?: boolean },
+  ): Promise<any>;
+  importMemory(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    memoryExport: MemoryExport,
+    options?: {
+      repository?: string;
+      branch?: string;
+      conflictPolicy?: ImportConflictPolicy;
+    },
+  ): Promise<any>;
+}
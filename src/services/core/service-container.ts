@@ -4,12 +4,17 @@ import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
 import { Mutex } from '../../utils/mutex';
 import { ensureAbsolutePath } from '../../utils/path.utils';
 import { SnapshotService } from '../snapshot.service';
+import { MemoryChangeNotifier } from './memory-change-notifier';
 import {
+  IBranchService,
+  IBulkImportService,
   IContextService,
+  IEmbeddingService,
   IEntityService,
   IGraphAnalysisService,
   IGraphQueryService,
   IMemoryBankService,
+  IMemoryTransferService,
   IMetadataService,
   IServiceContainer,
 } from './service-container.interface';
@@ -26,6 +31,7 @@ export class ServiceContainer implements IServiceContainer {
   private repositoryProvider!: RepositoryProvider;
   private kuzuClients: Map<string, KuzuDBClient> = new Map();
   private snapshotServices: Map<string, SnapshotService> = new Map();
+  private changeNotifier = new MemoryChangeNotifier();
 
   // Lazy-loaded service instances
   private serviceInstances: Map<string, any> = new Map();
@@ -65,6 +71,13 @@ export class ServiceContainer implements IServiceContainer {
     return this.repositoryProvider;
   }
 
+  /**
+   * Get the publisher of memory mutations
+   */
+  getChangeNotifier(): MemoryChangeNotifier {
+    return this.changeNotifier;
+  }
+
   /**
    * Get or create KuzuDB client for a project root
    */
@@ -216,10 +229,55 @@ export class ServiceContainer implements IServiceContainer {
     });
   }
 
+  /**
+   * Get EmbeddingService instance (lazy-loaded)
+   */
+  async getEmbeddingService(): Promise<IEmbeddingService> {
+    return this.getServiceInstance('embedding', async () => {
+      const { EmbeddingService } = await import('../domain/embedding.service');
+      return new EmbeddingService(this);
+    });
+  }
+
+  /**
+   * Get BranchService instance (lazy-loaded)
+   */
+  async getBranchService(): Promise<IBranchService> {
+    return this.getServiceInstance('branch', async () => {
+      const { BranchService } = await import('../domain/branch.service');
+      return new BranchService(this);
+    });
+  }
+
+  /**
+   * Get MemoryTransferService instance (lazy-loaded)
+   */
+  async getMemoryTransferService(): Promise<IMemoryTransferService> {
+    return this.getServiceInstance('memoryTransfer', async () => {
+      const { MemoryTransferService } = await import('../domain/memory-transfer.service');
+      return new MemoryTransferService(this);
+    });
+  }
+
+  /**
+   * Get BulkOperationsService instance for bulk imports (lazy-loaded)
+   */
+  async getBulkImportService(): Promise<IBulkImportService> {
+    return this.getServiceInstance('bulkOperations', async () => {
+      const { BulkOperationsService } = await import('../domain/bulk-operations.service');
+      return new BulkOperationsService(this);
+    });
+  }
+
   /**
    * Shutdown all services and cleanup resources
    */
   async shutdown(): Promise<void> {
+    // Stop background jobs owned by services
+    const embeddingService = this.serviceInstances.get('embedding') as
+      IEmbeddingService | undefined;
+    embeddingService?.stopBackgroundReindex();
+
     // Close all KuzuDB clients
     for (const [path, client] of Array.from(this.kuzuClients.entries())) {
       try {
@@ -0,0 +1,550 @@
+import { KuzuDBClient } from '../../db/kuzu';
+import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
+import {
+  diffBranchStates,
+  entityKey,
+  isSharedEntityType,
+  planBranchMerge,
+  PROPERTY_NAME_PATTERN,
+  selectForkState,
+  type BranchDiff,
+  type BranchEntity,
+  type BranchEntityType,
+  type BranchRelationship,
+  type BranchState,
+  type MergeConflict,
+  type MergeStrategy,
+} from '../../utils/branch-diff.utils';
+import { CoreService } from '../core/core.service';
+import { IBranchService, IServiceContainer } from '../core/service-container.interface';
+
+/**
+ * Entity types that live on a branch, mapped to their node table labels
+ */
+export const BRANCH_ENTITY_LABELS: Record<BranchEntityType, string> = {
+  component: 'Component',
+  decision: 'Decision',
+  rule: 'Rule',
+  file: 'File',
+  tag: 'Tag',
+  context: 'Context',
+};
+
+/**
+ * Labels keyed by graph_unique_id. Not every repository sets repository/branch
+ * properties on these nodes, so they are scoped by their id prefix instead.
+ */
+export const GRAPH_UNIQUE_ID_LABELS = new Set(['Component', 'Decision', 'Rule', 'Context']);
+
+export const ENTITY_TYPES_BY_LABEL = new Map(
+  Object.entries(BRANCH_ENTITY_LABELS).map(([entityType, label]) => [
+    label,
+    entityType as BranchEntityType,
+  ]),
+);
+
+/**
+ * The properties an entity is stored with on a branch: its own properties plus the
+ * branch scope, bookkeeping timestamps and, for scoped labels, its graph_unique_id
+ */
+export function storedEntityProperties(
+  repositoryName: string,
+  branch: string,
+  entity: BranchEntity,
+  now: Date,
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    ...entity.properties,
+    repository: repositoryName,
+    branch,
+    created_at: entity.properties.created_at ?? now,
+    updated_at: now,
+  };
+  if (GRAPH_UNIQUE_ID_LABELS.has(BRANCH_ENTITY_LABELS[entity.entityType])) {
+    properties.graph_unique_id = `${repositoryName}:${branch}:${entity.id}`;
+  }
+  return properties;
+}
+
+export interface BranchDiffResult extends BranchDiff {
+  repository: string;
+  sourceBranch: string;
+  targetBranch: string;
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    relationshipsAdded: number;
+    relationshipsRemoved: number;
+  };
+}
+
+export interface BranchMergeResult {
+  success: boolean;
+  repository: string;
+  sourceBranch: string;
+  targetBranch: string;
+  strategy: MergeStrategy;
+  baseSnapshotId?: string;
+  dryRun: boolean;
+  summary: {
+    created: number;
+    updated: number;
+    unchanged: number;
+    keptTargetChanges: number;
+    conflicts: number;
+    relationshipsCreated: number;
+  };
+  conflicts: MergeConflict[];
+  message: string;
+}
+
+export interface BranchForkResult {
+  success: boolean;
+  repository: string;
+  sourceBranch: string;
+  branch: string;
+  summary: {
+    entities: number;
+    byType: Partial<Record<BranchEntityType, number>>;
+    relationships: number;
+    metadataCopied: boolean;
+  };
+  message: string;
+}
+
+/**
+ * Anything that runs queries: the Kuzu client itself or a transaction
+ */
+export type TransactionContext = {
+  executeQuery: (query: string, params?: Record<string, any>) => Promise<any>;
+};
+
+/**
+ * Service for comparing and merging the memory of branches within a repository
+ */
+export class BranchService extends CoreService implements IBranchService {
+  constructor(serviceContainer: IServiceContainer) {
+    super(serviceContainer);
+  }
+
+  /**
+   * List what sourceBranch added, removed and modified relative to targetBranch
+   */
+  async diffBranches(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    sourceBranch: string,
+    targetBranch: string,
+  ): Promise<BranchDiffResult> {
+    const logger = mcpContext.logger || console;
+    if (sourceBranch === targetBranch) {
+      throw new Error('sourceBranch and targetBranch must differ');
+    }
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const source = await this.loadBranchState(kuzuClient, repositoryName, sourceBranch);
+    const target = await this.loadBranchState(kuzuClient, repositoryName, targetBranch);
+    const diff = diffBranchStates(source, target);
+
+    const summary = {
+      added: diff.entities.added.length,
+      removed: diff.entities.removed.length,
+      modified: diff.entities.modified.length,
+      relationshipsAdded: diff.relationships.added.length,
+      relationshipsRemoved: diff.relationships.removed.length,
+    };
+    logger.info(
+      `[BranchService.diffBranches] ${repositoryName} ${sourceBranch} -> ${targetBranch}: ${summary.added} added, ${summary.removed} removed, ${summary.modified} modified`,
+    );
+
+    return {
+      repository: repositoryName,
+      sourceBranch,
+      targetBranch,
+      summary,
+      ...diff,
+    };
+  }
+
+  /**
+   * Copy the entities and relationships of sourceBranch into targetBranch in one transaction.
+   * Conflicts (entities changed on both branches since baseSnapshotId, or that simply differ
+   * without a base) are resolved by the strategy; with `fail` nothing is written.
+   */
+  async mergeBranches(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    sourceBranch: string,
+    targetBranch: string,
+    options: { strategy?: MergeStrategy; baseSnapshotId?: string; dryRun?: boolean } = {},
+  ): Promise<BranchMergeResult> {
+    const logger = mcpContext.logger || console;
+    const { strategy = 'fail', baseSnapshotId, dryRun = false } = options;
+    if (sourceBranch === targetBranch) {
+      throw new Error('sourceBranch and targetBranch must differ');
+    }
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const source = await this.loadBranchState(kuzuClient, repositoryName, sourceBranch);
+    const target = await this.loadBranchState(kuzuClient, repositoryName, targetBranch);
+    const base = baseSnapshotId
+      ? await this.loadSnapshotEntities(
+          mcpContext,
+          clientProjectRoot,
+          repositoryName,
+          baseSnapshotId,
+        )
+      : undefined;
+    const plan = planBranchMerge(source, target, { strategy, base });
+
+    const result: BranchMergeResult = {
+      success: true,
+      repository: repositoryName,
+      sourceBranch,
+      targetBranch,
+      strategy,
+      ...(baseSnapshotId ? { baseSnapshotId } : {}),
+      dryRun,
+      summary: {
+        created: plan.create.length,
+        updated: plan.update.length,
+        unchanged: plan.unchanged,
+        keptTargetChanges: plan.keptTargetChanges,
+        conflicts: plan.conflicts.length,
+        relationshipsCreated: plan.relationships.length,
+      },
+      conflicts: plan.conflicts,
+      message: '',
+    };
+
+    if (strategy === 'fail' && plan.conflicts.length > 0) {
+      logger.warn(
+        `[BranchService.mergeBranches] Merge of ${sourceBranch} into ${targetBranch} aborted: ${plan.conflicts.length} conflicts`,
+      );
+      return {
+        ...result,
+        success: false,
+        message: `Merge aborted: ${plan.conflicts.length} entities changed on both branches. Retry with strategy 'ours' or 'theirs' to resolve them.`,
+      };
+    }
+    if (dryRun) {
+      return { ...result, message: `Dry run: would merge ${sourceBranch} into ${targetBranch}` };
+    }
+
+    const now = new Date();
+    const relationshipsCreated = await kuzuClient.transaction(async (tx) => {
+      for (const entity of [...plan.create, ...plan.update]) {
+        await this.writeEntity(tx, repositoryName, targetBranch, entity, now);
+      }
+      let created = 0;
+      for (const relationship of plan.relationships) {
+        created += await this.writeRelationship(tx, repositoryName, targetBranch, relationship);
+      }
+      return created;
+    });
+    result.summary.relationshipsCreated = relationshipsCreated;
+
+    this.notifyChange({ change: 'upserted', repository: repositoryName, branch: targetBranch });
+    try {
+      const embeddingService = await this.serviceContainer.getEmbeddingService();
+      embeddingService.markDirty({ clientProjectRoot, repositoryName, branch: targetBranch });
+    } catch (error: any) {
+      logger.warn(
+        `[BranchService.mergeBranches] Could not schedule embedding reindex: ${error.message}`,
+      );
+    }
+
+    const { created, updated } = result.summary;
+    logger.info(
+      `[BranchService.mergeBranches] Merged ${repositoryName} ${sourceBranch} into ${targetBranch}: ${created} created, ${updated} updated, ${relationshipsCreated} relationships`,
+    );
+    return {
+      ...result,
+      message: `Merged ${sourceBranch} into ${targetBranch}: ${created} created, ${updated} updated, ${relationshipsCreated} relationships created`,
+    };
+  }
+
+  /**
+   * Start a new branch with the memory of sourceBranch: entities, repository metadata and
+   * relationships are copied in one transaction with graph_unique_id and branch rewritten.
+   * Files and tags are shared with sourceBranch and only linked from the copied entities.
+   */
+  async forkBranch(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    sourceBranch: string,
+    branch: string,
+    filter: { entityTypes?: BranchEntityType[]; tags?: string[] } = {},
+  ): Promise<BranchForkResult> {
+    const logger = mcpContext.logger || console;
+    if (sourceBranch === branch) {
+      throw new Error('sourceBranch and branch must differ');
+    }
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const sourceRepository = await kuzuClient.executeQuery(
+      'MATCH (r:Repository {id: $repositoryId}) RETURN r.id AS id',
+      { repositoryId: `${repositoryName}:${sourceBranch}` },
+    );
+    if (!sourceRepository?.length) {
+      throw new Error(`Repository ${repositoryName}:${sourceBranch} not found`);
+    }
+    const existing = await this.loadBranchState(kuzuClient, repositoryName, branch);
+    if (existing.entities.some((entity) => !isSharedEntityType(entity.entityType))) {
+      throw new Error(
+        `Branch ${branch} of ${repositoryName} already has memory; use the branch merge operation instead`,
+      );
+    }
+
+    const state = selectForkState(
+      await this.loadBranchState(kuzuClient, repositoryName, sourceBranch),
+      filter,
+    );
+    const now = new Date();
+    const { relationships, metadataCopied } = await kuzuClient.transaction(async (tx) => {
+      await tx.executeQuery(
+        `MERGE (r:Repository {id: $repositoryId})
+         ON CREATE SET r.name = $repositoryName, r.branch = $branch, r.created_at = $now, r.updated_at = $now`,
+        { repositoryId: `${repositoryName}:${branch}`, repositoryName, branch, now },
+      );
+      const copiedMetadata = await this.copyMetadata(tx, repositoryName, sourceBranch, branch, now);
+      for (const entity of state.entities) {
+        await this.writeEntity(tx, repositoryName, branch, entity, now);
+      }
+      let created = 0;
+      for (const relationship of state.relationships) {
+        created += await this.writeRelationship(tx, repositoryName, branch, relationship);
+      }
+      return { relationships: created, metadataCopied: copiedMetadata };
+    });
+
+    const byType: Partial<Record<BranchEntityType, number>> = {};
+    for (const entity of state.entities) {
+      byType[entity.entityType] = (byType[entity.entityType] ?? 0) + 1;
+    }
+
+    this.notifyChange({ change: 'upserted', repository: repositoryName, branch });
+    try {
+      const embeddingService = await this.serviceContainer.getEmbeddingService();
+      embeddingService.markDirty({ clientProjectRoot, repositoryName, branch });
+    } catch (error: any) {
+      logger.warn(
+        `[BranchService.forkBranch] Could not schedule embedding reindex: ${error.message}`,
+      );
+    }
+
+    logger.info(
+      `[BranchService.forkBranch] Forked ${repositoryName} ${sourceBranch} into ${branch}: ${state.entities.length} entities, ${relationships} relationships`,
+    );
+    return {
+      success: true,
+      repository: repositoryName,
+      sourceBranch,
+      branch,
+      summary: { entities: state.entities.length, byType, relationships, metadataCopied },
+      message: `Forked ${sourceBranch} into ${branch}: ${state.entities.length} entities, ${relationships} relationships copied`,
+    };
+  }
+
+  /**
+   * Read every entity of a branch together with the relationships starting at them
+   */
+  async loadBranchState(
+    kuzuClient: KuzuDBClient,
+    repositoryName: string,
+    branch: string,
+  ): Promise<BranchState> {
+    const state: BranchState = { entities: [], relationships: [] };
+
+    for (const [entityType, label] of Object.entries(BRANCH_ENTITY_LABELS)) {
+      const scoped = GRAPH_UNIQUE_ID_LABELS.has(label);
+      const scope = scoped
+        ? 'n.graph_unique_id STARTS WITH $prefix'
+        : 'n.repository = $repository AND n.branch = $branch';
+      const scopeParams = scoped
+        ? { prefix: `${repositoryName}:${branch}:` }
+        : { repository: repositoryName, branch };
+
+      const nodes = await kuzuClient.executeQuery(
+        `MATCH (n:${label}) WHERE ${scope} RETURN n`,
+        scopeParams,
+      );
+      for (const row of nodes || []) {
+        // Drop Kuzu's internal _id/_label fields
+        const properties = Object.fromEntries(
+          Object.entries(row.n ?? {}).filter(([key]) => !key.startsWith('_')),
+        ) as Record<string, any>;
+        const name = properties.name ?? properties.title;
+        state.entities.push({
+          entityType: entityType as BranchEntityType,
+          id: String(properties.id),
+          ...(name ? { name: String(name) } : {}),
+          properties,
+        } as BranchEntity);
+      }
+
+      const edges = await kuzuClient.executeQuery(
+        `MATCH (n:${label})-[r]->(m) WHERE ${scope} AND label(r) <> 'PART_OF'
+         RETURN label(r) AS type, n.id AS fromId, label(m) AS toLabel, m.id AS toId`,
+        scopeParams,
+      );
+      for (const row of edges || []) {
+        const toType = ENTITY_TYPES_BY_LABEL.get(row.toLabel);
+        if (!toType) {
+          continue;
+        }
+        state.relationships.push({
+          type: row.type,
+          fromType: entityType as BranchEntityType,
+          fromId: String(row.fromId),
+          toType,
+          toId: String(row.toId),
+        } as BranchRelationship);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Entities recorded in a snapshot of the repository, used as the merge base
+   */
+  private async loadSnapshotEntities(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    snapshotId: string,
+  ): Promise<BranchEntity[]> {
+    const snapshotService = await this.getSnapshotService(mcpContext, clientProjectRoot);
+    const snapshot = await snapshotService.getSnapshot(snapshotId);
+    if (!snapshot || snapshot.repository !== repositoryName) {
+      throw new Error(`Snapshot ${snapshotId} not found for repository ${repositoryName}`);
+    }
+
+    return snapshot.entities.flatMap((entity: any) => {
+      const label = Array.isArray(entity.nodeLabels) ? entity.nodeLabels[0] : entity.nodeLabels;
+      const entityType = ENTITY_TYPES_BY_LABEL.get(label);
+      const properties = entity.properties || {};
+      return entityType && properties.id
+        ? [{ entityType, id: String(properties.id), properties }]
+        : [];
+    });
+  }
+
+  /**
+   * Copy the repository metadata of sourceBranch to branch
+   * @returns whether sourceBranch had metadata
+   */
+  private async copyMetadata(
+    tx: TransactionContext,
+    repositoryName: string,
+    sourceBranch: string,
+    branch: string,
+    now: Date,
+  ): Promise<boolean> {
+    const result = await tx.executeQuery(
+      `MATCH (:Repository {id: $sourceRepositoryId})-[:HAS_METADATA]->(m:Metadata)
+       RETURN m.name AS name, m.content AS content`,
+      { sourceRepositoryId: `${repositoryName}:${sourceBranch}` },
+    );
+    const rows = typeof result?.getAll === 'function' ? await result.getAll() : result;
+    if (!rows?.length) {
+      return false;
+    }
+
+    // Same ids as MetadataService.updateMetadata
+    const metadataId = `${repositoryName}-${branch}-metadata`;
+    await tx.executeQuery(
+      `MATCH (r:Repository {id: $repositoryId})
+       MERGE (r)-[:HAS_METADATA]->(m:Metadata {graph_unique_id: $graphUniqueId})
+       SET m.id = $metadataId, m.branch = $branch, m.name = $name, m.content = $content,
+           m.created_at = $now, m.updated_at = $now`,
+      {
+        repositoryId: `${repositoryName}:${branch}`,
+        graphUniqueId: `${repositoryName}:${branch}:metadata:${metadataId}`,
+        metadataId,
+        branch,
+        name: rows[0].name,
+        content: rows[0].content,
+        now,
+      },
+    );
+    return true;
+  }
+
+  /**
+   * Create or overwrite an entity on the target branch with the properties of its source version
+   */
+  async writeEntity(
+    tx: TransactionContext,
+    repositoryName: string,
+    branch: string,
+    entity: BranchEntity,
+    now: Date,
+  ): Promise<void> {
+    const label = BRANCH_ENTITY_LABELS[entity.entityType];
+    const primaryKey = GRAPH_UNIQUE_ID_LABELS.has(label) ? 'graph_unique_id' : 'id';
+    const properties = storedEntityProperties(repositoryName, branch, entity, now);
+    const invalid = Object.keys(properties).filter((name) => !PROPERTY_NAME_PATTERN.test(name));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid property names on ${entityKey(entity)}: ${invalid.join(', ')}`);
+    }
+
+    const params: Record<string, unknown> = {
+      key: properties[primaryKey],
+      repositoryId: `${repositoryName}:${branch}`,
+      repositoryName,
+      now,
+    };
+    const assignments = Object.keys(properties)
+      .filter((name) => name !== primaryKey)
+      .map((name, index) => {
+        params[`p${index}`] = properties[name];
+        return `n.${name} = $p${index}`;
+      });
+
+    await tx.executeQuery(
+      `MERGE (n:${label} {${primaryKey}: $key})
+       SET ${assignments.join(', ')}
+       WITH n
+       MERGE (repo:Repository {id: $repositoryId})
+       ON CREATE SET repo.name = $repositoryName, repo.created_at = $now
+       MERGE (n)-[:PART_OF]->(repo)`,
+      params,
+    );
+  }
+
+  /**
+   * Create a relationship between the target-branch versions of its endpoints
+   * @returns 1 when both endpoints exist on the target branch, otherwise 0
+   */
+  async writeRelationship(
+    tx: TransactionContext,
+    repositoryName: string,
+    branch: string,
+    relationship: BranchRelationship,
+  ): Promise<number> {
+    const endpoint = (entityType: BranchEntityType, id: string) => {
+      const label = BRANCH_ENTITY_LABELS[entityType];
+      return GRAPH_UNIQUE_ID_LABELS.has(label)
+        ? { pattern: `${label} {graph_unique_id: `, key: `${repositoryName}:${branch}:${id}` }
+        : { pattern: `${label} {id: `, key: id };
+    };
+    const from = endpoint(relationship.fromType, relationship.fromId);
+    const to = endpoint(relationship.toType, relationship.toId);
+
+    const result = await tx.executeQuery(
+      `MATCH (a:${from.pattern}$fromKey}), (b:${to.pattern}$toKey})
+       MERGE (a)-[:${relationship.type}]->(b)
+       RETURN count(*) AS merged`,
+      { fromKey: from.key, toKey: to.key },
+    );
+    // Transaction queries return the raw QueryResult rather than rows
+    const rows = typeof result?.getAll === 'function' ? await result.getAll() : result;
+    return Number(rows?.[0]?.merged ?? 0) > 0 ? 1 : 0;
+  }
+}
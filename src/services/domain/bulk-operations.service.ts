@@ -1,13 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { KuzuDBClient } from '../../db/kuzu';
 import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
-import { IServiceContainer } from '../core/service-container.interface';
+import {
+  entityKey,
+  type BranchEntity,
+  type BranchEntityType,
+  type BranchRelationship,
+} from '../../utils/branch-diff.utils';
+import {
+  bulkImportLookupKeys,
+  planBulkGraphImport,
+  type BulkGraphImportInput,
+  type BulkGraphImportPlan,
+  type BulkImportOutcome,
+} from '../../utils/bulk-import.utils';
+import { writeCsvFile } from '../../utils/csv.utils';
+import { IBulkImportService, IServiceContainer } from '../core/service-container.interface';
 import { BaseEntityService } from './base-entity.service';
+import {
+  BRANCH_ENTITY_LABELS,
+  GRAPH_UNIQUE_ID_LABELS,
+  storedEntityProperties,
+} from './branch.service';
+
+type OutcomeCounts = { created: number; updated: number; skipped: number; linked: number };
+
+export interface BulkGraphImportResult {
+  success: boolean;
+  dryRun: boolean;
+  counts: Record<
+    'components' | 'decisions' | 'rules' | 'files' | 'tags' | 'contexts',
+    OutcomeCounts
+  > & { relationships: number };
+  /** Per-node outcomes and resolved relationships, for dry runs */
+  preview?: { entities: BulkImportOutcome[]; relationships: BranchRelationship[] };
+  errors: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Rows staged between progress notifications of a bulk load, by default
+ */
+const DEFAULT_PROGRESS_INTERVAL = 1000;
 
 /**
  * Service for bulk operations across multiple entity types
  * Handles complex operations that span multiple entities
  */
-export class BulkOperationsService extends BaseEntityService {
+export class BulkOperationsService extends BaseEntityService implements IBulkImportService {
   constructor(serviceContainer: IServiceContainer) {
     super(serviceContainer);
   }
@@ -70,6 +111,13 @@ export class BulkOperationsService extends BaseEntityService {
         warnings.push(...result.warnings);
       }
 
+      if (!options.dryRun) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch,
+          entityType: entityType === 'all' ? undefined : entityType,
+        });
+      }
+
       return { count: totalCount, entities: deletedEntities, warnings };
     } catch (error: any) {
       this.handleEntityError(error, 'bulkDeleteByType', entityType, 'bulk', logger);
@@ -178,6 +226,12 @@ export class BulkOperationsService extends BaseEntityService {
       deletedEntities.push(...scopedResult.entities);
       warnings.push(...scopedResult.warnings);
 
+      if (!options.dryRun) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch: targetBranch,
+        });
+      }
+
       return { count: totalCount, entities: deletedEntities, warnings };
     } catch (error: any) {
       this.handleEntityError(error, 'bulkDeleteByBranch', 'branch', targetBranch, logger);
@@ -218,4 +272,444 @@ export class BulkOperationsService extends BaseEntityService {
 
     return { count: totalCount, entities, warnings };
   }
+
+  /**
+   * Bulk import files, tags, contexts and relationships into a branch.
+   * Nodes are written before relationships, all in one transaction; relationships may
+   * point at nodes of the batch or at entities already on the branch. Files and tags of
+   * other branches are linked, never rewritten. The batch is rejected as a whole when
+   * any item is invalid. A dry run only reports the plan.
+   */
+  async bulkImportGraph(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    input: BulkGraphImportInput,
+    options: { overwrite?: boolean; dryRun?: boolean } = {},
+  ): Promise<BulkGraphImportResult> {
+    const logger = mcpContext.logger || console;
+    this.validationService.validateRepositoryProvider('bulkImportGraph');
+    const dryRun = options.dryRun ?? false;
+
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const { existingKeys, sharedKeys } = await this.findExistingKeys(
+        kuzuClient,
+        repositoryName,
+        branch,
+        input,
+      );
+      const plan = planBulkGraphImport(input, existingKeys, {
+        overwrite: options.overwrite ?? false,
+        sharedKeys,
+      });
+
+      const result = this.summarizePlan(plan, dryRun);
+      result.success = plan.errors.length === 0;
+      if (dryRun) {
+        return result;
+      }
+      if (!result.success) {
+        logger.warn(
+          `[BulkOperationsService.bulkImportGraph] Rejected import into ${repositoryName}:${branch}: ${plan.errors.length} invalid items`,
+        );
+        return result;
+      }
+
+      const memoryBankService = await this.serviceContainer.getMemoryBankService();
+      await memoryBankService.getOrCreateRepository(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+      );
+      const branchService = await this.serviceContainer.getBranchService();
+      const now = new Date();
+      await kuzuClient.transaction(async (tx) => {
+        for (const entity of plan.entities) {
+          await branchService.writeEntity(tx, repositoryName, branch, entity, now);
+        }
+        for (const relationship of plan.relationships) {
+          const written = await branchService.writeRelationship(
+            tx,
+            repositoryName,
+            branch,
+            relationship,
+          );
+          if (!written) {
+            throw new Error(
+              `Could not resolve ${relationship.type} ${relationship.fromType} ${relationship.fromId} -> ${relationship.toType} ${relationship.toId}`,
+            );
+          }
+        }
+      });
+
+      await this.afterBulkWrite(mcpContext, clientProjectRoot, repositoryName, branch);
+      logger.info(
+        `[BulkOperationsService.bulkImportGraph] Imported ${plan.entities.length} nodes and ${plan.relationships.length} relationships into ${repositoryName}:${branch}`,
+      );
+      return result;
+    } catch (error: any) {
+      this.handleEntityError(error, 'bulkImportGraph', 'graph', 'bulk', logger);
+      throw error;
+    }
+  }
+
+  /**
+   * High-throughput bulk load. New nodes and the relationships between them are staged
+   * into temporary CSV files and loaded with KuzuDB `COPY FROM`; existing entities (with
+   * `overwrite`) and relationships to entities already on the branch are then merged in
+   * one transaction. When a COPY or the merge fails, the copied nodes are deleted again
+   * and the load throws. Files and tags of other branches are linked, never rewritten.
+   * Invalid items are reported in `errors` and left out, like the per-entity import.
+   * Progress is reported every `progressInterval` staged rows.
+   */
+  async bulkLoad(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    input: BulkGraphImportInput,
+    options: { overwrite?: boolean; dryRun?: boolean; progressInterval?: number } = {},
+  ): Promise<BulkGraphImportResult> {
+    const logger = mcpContext.logger || console;
+    this.validationService.validateRepositoryProvider('bulkLoad');
+    const dryRun = options.dryRun ?? false;
+    const progressInterval = Math.max(1, options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL);
+
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const { existingKeys, sharedKeys } = await this.findExistingKeys(
+        kuzuClient,
+        repositoryName,
+        branch,
+        input,
+      );
+      const plan = planBulkGraphImport(input, existingKeys, {
+        overwrite: options.overwrite ?? false,
+        sharedKeys,
+      });
+      const result = this.summarizePlan(plan, dryRun);
+      if (dryRun) {
+        return result;
+      }
+
+      const memoryBankService = await this.serviceContainer.getMemoryBankService();
+      await memoryBankService.getOrCreateRepository(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+      );
+      const branchService = await this.serviceContainer.getBranchService();
+      const now = new Date();
+
+      // COPY only appends, so it is used for nodes and edges that cannot exist yet
+      const createdKeys = new Set(
+        plan.outcomes
+          .filter((outcome) => outcome.outcome === 'created')
+          .map((outcome) => entityKey(outcome)),
+      );
+      const created = plan.entities.filter((entity) => createdKeys.has(entityKey(entity)));
+      const updated = plan.entities.filter((entity) => !createdKeys.has(entityKey(entity)));
+      const isCreated = (entityType: BranchEntityType, id: string) =>
+        createdKeys.has(entityKey({ entityType, id }));
+      const copied = plan.relationships.filter(
+        (relationship) =>
+          isCreated(relationship.fromType, relationship.fromId) &&
+          isCreated(relationship.toType, relationship.toId),
+      );
+      const merged = plan.relationships.filter((relationship) => !copied.includes(relationship));
+
+      try {
+        const stagingDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'kuzu-bulk-load-'));
+        try {
+          const copies = await this.stageBulkLoad(
+            mcpContext,
+            stagingDir,
+            repositoryName,
+            branch,
+            created,
+            copied,
+            now,
+            progressInterval,
+          );
+          for (const [index, copy] of copies.entries()) {
+            await kuzuClient.executeQuery(copy.query);
+            await mcpContext.sendProgress({
+              status: 'in_progress',
+              message: `Loaded ${copy.rows} rows into ${copy.table}`,
+              percent: 50 + Math.round(((index + 1) / copies.length) * 30),
+            });
+          }
+        } finally {
+          await fs.promises.rm(stagingDir, { recursive: true, force: true });
+        }
+
+        await kuzuClient.transaction(async (tx) => {
+          for (const entity of updated) {
+            await branchService.writeEntity(tx, repositoryName, branch, entity, now);
+          }
+          for (const relationship of merged) {
+            const written = await branchService.writeRelationship(
+              tx,
+              repositoryName,
+              branch,
+              relationship,
+            );
+            if (!written) {
+              result.counts.relationships--;
+              result.errors.push({
+                id: `${relationship.type}:${relationship.fromId}->${relationship.toId}`,
+                error: 'Could not resolve the relationship endpoints',
+              });
+            }
+          }
+        });
+      } catch (error: any) {
+        // COPY commits on its own, so the copied nodes and their edges are removed by hand
+        try {
+          await this.removeCopiedNodes(kuzuClient, repositoryName, branch, created);
+        } catch (cleanupError: any) {
+          throw new Error(
+            `Bulk load into ${repositoryName}:${branch} failed and ${created.length} copied nodes could not be removed (${cleanupError.message}): ${error.message}`,
+          );
+        }
+        throw new Error(`Bulk load into ${repositoryName}:${branch} rolled back: ${error.message}`);
+      }
+
+      await this.afterBulkWrite(mcpContext, clientProjectRoot, repositoryName, branch);
+      logger.info(
+        `[BulkOperationsService.bulkLoad] Copied ${created.length} nodes and ${copied.length} relationships, merged ${updated.length} nodes and ${merged.length} relationships into ${repositoryName}:${branch}`,
+      );
+      return result;
+    } catch (error: any) {
+      this.handleEntityError(error, 'bulkLoad', 'graph', 'bulk', logger);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the CSV files of a bulk load: one per node table, one per PART_OF source table
+   * and one per relationship table and endpoint pair
+   * @returns The COPY statements loading the files, nodes before relationships
+   */
+  private async stageBulkLoad(
+    mcpContext: ToolHandlerContext,
+    stagingDir: string,
+    repositoryName: string,
+    branch: string,
+    entities: BranchEntity[],
+    relationships: BranchRelationship[],
+    now: Date,
+    progressInterval: number,
+  ): Promise<Array<{ table: string; rows: number; query: string }>> {
+    const totalRows = entities.length * 2 + relationships.length;
+    let staged = 0;
+    const onRow = async () => {
+      staged++;
+      if (staged % progressInterval === 0) {
+        await mcpContext.sendProgress({
+          status: 'in_progress',
+          message: `Staged ${staged} of ${totalRows} rows`,
+          percent: 10 + Math.round((staged / totalRows) * 40),
+        });
+      }
+    };
+
+    const nodeCopies: Array<{ table: string; rows: number; query: string }> = [];
+    const relationshipCopies: Array<{ table: string; rows: number; query: string }> = [];
+    const stage = async (name: string, columns: string[], rows: unknown[][]) => {
+      const filePath = path.join(stagingDir, `${name}.csv`);
+      const count = await writeCsvFile(filePath, columns, rows, onRow);
+      return { filePath: filePath.replace(/\\/g, '/'), count };
+    };
+    const options = (from?: string, to?: string) =>
+      `HEADER=true, PARALLEL=false${from ? `, from='${from}', to='${to}'` : ''}`;
+
+    const byLabel = new Map<string, Record<string, unknown>[]>();
+    for (const entity of entities) {
+      const label = BRANCH_ENTITY_LABELS[entity.entityType];
+      const rows = byLabel.get(label) ?? [];
+      rows.push(storedEntityProperties(repositoryName, branch, entity, now));
+      byLabel.set(label, rows);
+    }
+    for (const [label, rows] of byLabel) {
+      const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+      const nodes = await stage(
+        label,
+        columns,
+        rows.map((row) => columns.map((column) => row[column])),
+      );
+      nodeCopies.push({
+        table: label,
+        rows: nodes.count,
+        query: `COPY ${label}(${columns.join(', ')}) FROM '${nodes.filePath}' (${options()})`,
+      });
+
+      const primaryKey = GRAPH_UNIQUE_ID_LABELS.has(label) ? 'graph_unique_id' : 'id';
+      const partOf = await stage(
+        `PART_OF-${label}`,
+        ['from', 'to'],
+        rows.map((row) => [row[primaryKey], `${repositoryName}:${branch}`]),
+      );
+      relationshipCopies.push({
+        table: `PART_OF (${label})`,
+        rows: partOf.count,
+        query: `COPY PART_OF FROM '${partOf.filePath}' (${options(label, 'Repository')})`,
+      });
+    }
+
+    const byTable = new Map<string, BranchRelationship[]>();
+    for (const relationship of relationships) {
+      const key = `${relationship.type}-${relationship.fromType}-${relationship.toType}`;
+      byTable.set(key, [...(byTable.get(key) ?? []), relationship]);
+    }
+    for (const [key, group] of byTable) {
+      const { type, fromType, toType } = group[0];
+      const fromLabel = BRANCH_ENTITY_LABELS[fromType];
+      const toLabel = BRANCH_ENTITY_LABELS[toType];
+      const edges = await stage(
+        key,
+        ['from', 'to'],
+        group.map((relationship) => [
+          this.nodeKey(repositoryName, branch, fromType, relationship.fromId),
+          this.nodeKey(repositoryName, branch, toType, relationship.toId),
+        ]),
+      );
+      relationshipCopies.push({
+        table: `${type} (${fromLabel} to ${toLabel})`,
+        rows: edges.count,
+        query: `COPY ${type} FROM '${edges.filePath}' (${options(fromLabel, toLabel)})`,
+      });
+    }
+
+    return [...nodeCopies, ...relationshipCopies];
+  }
+
+  /**
+   * Delete the nodes a failed bulk load copied, with their relationships
+   */
+  private async removeCopiedNodes(
+    kuzuClient: KuzuDBClient,
+    repositoryName: string,
+    branch: string,
+    entities: BranchEntity[],
+  ): Promise<void> {
+    const keysByLabel = new Map<string, string[]>();
+    for (const entity of entities) {
+      const label = BRANCH_ENTITY_LABELS[entity.entityType];
+      keysByLabel.set(label, [
+        ...(keysByLabel.get(label) ?? []),
+        this.nodeKey(repositoryName, branch, entity.entityType, entity.id),
+      ]);
+    }
+    for (const [label, keys] of keysByLabel) {
+      const primaryKey = GRAPH_UNIQUE_ID_LABELS.has(label) ? 'graph_unique_id' : 'id';
+      await kuzuClient.executeQuery(
+        `MATCH (n:${label}) WHERE n.${primaryKey} IN $keys DETACH DELETE n`,
+        { keys },
+      );
+    }
+  }
+
+  /**
+   * Primary key value of an entity on a branch
+   */
+  private nodeKey(
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    id: string,
+  ): string {
+    return GRAPH_UNIQUE_ID_LABELS.has(BRANCH_ENTITY_LABELS[entityType])
+      ? `${repositoryName}:${branch}:${id}`
+      : id;
+  }
+
+  /**
+   * Counts of a bulk import plan, with the plan itself for dry runs
+   */
+  private summarizePlan(plan: BulkGraphImportPlan, dryRun: boolean): BulkGraphImportResult {
+    const emptyCounts = () => ({ created: 0, updated: 0, skipped: 0, linked: 0 });
+    const result: BulkGraphImportResult = {
+      success: true,
+      dryRun,
+      counts: {
+        components: emptyCounts(),
+        decisions: emptyCounts(),
+        rules: emptyCounts(),
+        files: emptyCounts(),
+        tags: emptyCounts(),
+        contexts: emptyCounts(),
+        relationships: plan.relationships.length,
+      },
+      errors: plan.errors,
+    };
+    for (const { entityType, outcome } of plan.outcomes) {
+      result.counts[
+        `${entityType}s` as Exclude<keyof BulkGraphImportResult['counts'], 'relationships'>
+      ][outcome]++;
+    }
+    if (dryRun) {
+      result.preview = { entities: plan.outcomes, relationships: plan.relationships };
+    }
+    return result;
+  }
+
+  /**
+   * Bookkeeping after a bulk write: notify subscribers of the branch and leave the
+   * embeddings to the background reindex
+   */
+  private async afterBulkWrite(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+  ): Promise<void> {
+    this.notifyChange({ change: 'upserted', repository: repositoryName, branch });
+    try {
+      const embeddingService = await this.serviceContainer.getEmbeddingService();
+      embeddingService.markDirty({ clientProjectRoot, repositoryName, branch });
+    } catch (error: any) {
+      (mcpContext.logger || console).warn(
+        `[BulkOperationsService] Could not schedule embedding reindex: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Keys (see entityKey) of the nodes and relationship endpoints of an import that
+   * already exist. Files and tags are keyed by a global id, other entities by branch;
+   * the files and tags that exist on another branch are also returned as `sharedKeys`.
+   */
+  private async findExistingKeys(
+    kuzuClient: KuzuDBClient,
+    repositoryName: string,
+    branch: string,
+    input: BulkGraphImportInput,
+  ): Promise<{ existingKeys: Set<string>; sharedKeys: Set<string> }> {
+    const existingKeys = new Set<string>();
+    const sharedKeys = new Set<string>();
+    for (const [entityType, ids] of bulkImportLookupKeys(input)) {
+      const label = BRANCH_ENTITY_LABELS[entityType];
+      const scoped = GRAPH_UNIQUE_ID_LABELS.has(label);
+      const rows = await kuzuClient.executeQuery(
+        scoped
+          ? `MATCH (n:${label}) WHERE n.graph_unique_id IN $keys RETURN n.id AS id`
+          : `MATCH (n:${label}) WHERE n.id IN $keys
+             RETURN n.id AS id, n.repository AS repository, n.branch AS branch`,
+        { keys: scoped ? ids.map((id) => `${repositoryName}:${branch}:${id}`) : ids },
+      );
+      for (const row of rows || []) {
+        const key = entityKey({ entityType, id: String(row.id) });
+        existingKeys.add(key);
+        if (!scoped && (row.repository !== repositoryName || row.branch !== branch)) {
+          sharedKeys.add(key);
+        }
+      }
+    }
+    return { existingKeys, sharedKeys };
+  }
 }
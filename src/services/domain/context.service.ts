@@ -256,6 +256,14 @@ export class ContextService extends CoreService implements IContextService {
       logger.info(
         `[ContextService.updateContext] Context updated successfully for ${params.repository}:${params.branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        params.repository,
+        params.branch,
+        'context',
+        updatedCtxNode.id,
+      );
       return {
         success: true,
         message: 'Context updated successfully',
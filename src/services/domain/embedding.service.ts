@@ -0,0 +1,606 @@
+import { createHash } from 'crypto';
+import { KuzuDBClient } from '../../db/kuzu';
+import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
+import { loggers } from '../../utils/logger';
+import { cosineSimilarity } from '../../utils/vector.utils';
+import { CoreService } from '../core/core.service';
+import { IEmbeddingService, IServiceContainer } from '../core/service-container.interface';
+import { EmbeddingProvider } from '../embedding/embedding-provider.interface';
+import { createEmbeddingProvider } from '../embedding/embedding-provider.registry';
+
+/**
+ * Entity types that can be embedded, mapped to their node table labels
+ */
+export const EMBEDDABLE_ENTITY_LABELS: Record<string, string> = {
+  component: 'Component',
+  decision: 'Decision',
+  rule: 'Rule',
+  file: 'File',
+  context: 'Context',
+};
+
+/**
+ * Node properties that make up the embedded text for each label
+ */
+const EMBEDDING_TEXT_FIELDS: Record<string, string[]> = {
+  Component: ['name', 'kind', 'status', 'description'],
+  Decision: ['title', 'rationale', 'status'],
+  Rule: ['title', 'description', 'category', 'scope'],
+  File: ['name', 'path', 'mime_type'],
+  Context: ['summary', 'observation', 'agent'],
+};
+
+/**
+ * Labels keyed by graph_unique_id. Not every repository sets repository/branch
+ * properties on these nodes, so they are scoped by their id prefix instead.
+ */
+const GRAPH_UNIQUE_ID_LABELS = new Set(['Component', 'Decision', 'Rule', 'Context']);
+
+/**
+ * Interval between background index maintenance runs (10 minutes), 0 disables the job
+ */
+const DEFAULT_REINDEX_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Similarity threshold for providers that do not define their own
+ */
+const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+
+export interface SemanticSearchMatch {
+  entityType: string;
+  node: Record<string, any>;
+  score: number;
+}
+
+export interface EmbeddingReindexResult {
+  repository: string;
+  branch: string;
+  entityTypes: string[];
+  embedded: number;
+  unchanged: number;
+  removed: number;
+}
+
+interface EmbeddingScope {
+  clientProjectRoot: string;
+  repositoryName: string;
+  branch: string;
+}
+
+/**
+ * Resolve an entity type ('component') or node label ('Component') to an embeddable label
+ */
+export function resolveEmbeddableLabel(entityType: string): string | undefined {
+  return EMBEDDABLE_ENTITY_LABELS[entityType.toLowerCase()];
+}
+
+/**
+ * Build the text that represents a node for embedding purposes
+ */
+export function buildEmbeddingText(label: string, node: Record<string, any>): string {
+  const fields = EMBEDDING_TEXT_FIELDS[label] || ['name'];
+  return fields
+    .map((field) => node[field])
+    .filter((value) => typeof value === 'string' && value.trim() !== '')
+    .join('\n');
+}
+
+/**
+ * Hash of the embedded text, used to detect entities whose stored vector is stale
+ */
+export function computeContentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Service for entity embeddings and vector similarity search
+ * Embeddings are stored in the Embedding node table, keyed by repository, branch,
+ * label and logical entity id, together with the provider name and a content hash.
+ *
+ * Entity mutations keep the table in sync through syncEntity/removeEmbeddings; scopes
+ * whose maintenance failed, or that a search found stale, are marked dirty and rebuilt by
+ * the background reindex job (EMBEDDING_REINDEX_INTERVAL_MS, every 10 minutes by default)
+ * or on demand through reindex().
+ */
+export class EmbeddingService extends CoreService implements IEmbeddingService {
+  private provider: EmbeddingProvider;
+  private dirtyScopes = new Map<string, EmbeddingScope>();
+  private reindexTimer?: NodeJS.Timeout;
+  private reindexInProgress = false;
+
+  constructor(serviceContainer: IServiceContainer, provider?: EmbeddingProvider) {
+    super(serviceContainer);
+    this.provider = provider || createEmbeddingProvider();
+
+    const intervalMs = process.env.EMBEDDING_REINDEX_INTERVAL_MS
+      ? parseInt(process.env.EMBEDDING_REINDEX_INTERVAL_MS, 10)
+      : DEFAULT_REINDEX_INTERVAL_MS;
+    if (intervalMs > 0) {
+      this.startBackgroundReindex(intervalMs);
+    }
+  }
+
+  getProvider(): EmbeddingProvider {
+    return this.provider;
+  }
+
+  /**
+   * Rank entities of a repository/branch by cosine similarity to the query.
+   * Entities without an up-to-date embedding are embedded on the fly for scoring but not
+   * stored, so a search never writes; the branch is marked dirty for the reindex instead.
+   * Without a threshold, the provider's default threshold applies.
+   */
+  async semanticSearch(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    query: string,
+    options: { entityTypes: string[]; limit: number; threshold?: number },
+  ): Promise<SemanticSearchMatch[]> {
+    const logger = mcpContext.logger || console;
+    const threshold =
+      options.threshold ?? this.provider.defaultThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const [queryVector] = await this.provider.embed([query]);
+    const matches: SemanticSearchMatch[] = [];
+
+    for (const entityType of options.entityTypes) {
+      const label = EMBEDDABLE_ENTITY_LABELS[entityType];
+      if (!label) {
+        logger.warn(
+          `[EmbeddingService.semanticSearch] Skipping unsupported entity type ${entityType}`,
+        );
+        continue;
+      }
+
+      try {
+        const nodes = await this.listNodes(kuzuClient, label, repositoryName, branch);
+        if (nodes.length === 0) {
+          continue;
+        }
+        const { vectors, embedded } = await this.ensureEmbeddings(
+          kuzuClient,
+          label,
+          repositoryName,
+          branch,
+          nodes,
+          { store: false },
+        );
+        if (embedded > 0) {
+          this.markDirty({ clientProjectRoot, repositoryName, branch });
+        }
+
+        for (const node of nodes) {
+          const vector = vectors.get(node.id);
+          if (!vector) {
+            continue;
+          }
+          const score = cosineSimilarity(queryVector, vector);
+          if (score >= threshold) {
+            matches.push({ entityType, node, score });
+          }
+        }
+      } catch (error: any) {
+        logger.warn(
+          `[EmbeddingService.semanticSearch] Error searching ${label} in ${repositoryName}:${branch}: ${error.message}`,
+        );
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+
+  /**
+   * Bring the embedding of a single entity in line with its current content.
+   * Re-embeds only when the content hash changed and drops the embedding when
+   * the entity no longer exists.
+   * @returns true when a new vector was computed
+   */
+  async syncEntity(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: string,
+    entityId: string,
+  ): Promise<boolean> {
+    const label = resolveEmbeddableLabel(entityType);
+    if (!label) {
+      return false;
+    }
+
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const nodes = await this.listNodes(kuzuClient, label, repositoryName, branch, entityId);
+      if (nodes.length === 0) {
+        await this.deleteEmbeddingRows(kuzuClient, repositoryName, branch, label, [entityId]);
+        return false;
+      }
+      const { embedded } = await this.ensureEmbeddings(
+        kuzuClient,
+        label,
+        repositoryName,
+        branch,
+        nodes,
+        { singleEntity: true },
+      );
+      return embedded > 0;
+    } catch (error: any) {
+      this.markDirty({ clientProjectRoot, repositoryName, branch });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete stored embeddings after entities were removed.
+   * Without a branch every branch of the repository is affected; without an entity
+   * type every embeddable label is affected; without ids the whole label is cleared.
+   * @returns the number of embeddings deleted
+   */
+  async removeEmbeddings(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    scope: { branch?: string; entityType?: string; entityIds?: string[] } = {},
+  ): Promise<number> {
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const label = scope.entityType ? resolveEmbeddableLabel(scope.entityType) : undefined;
+    if (scope.entityType && !label) {
+      return 0;
+    }
+    return this.deleteEmbeddingRows(
+      kuzuClient,
+      repositoryName,
+      scope.branch,
+      label,
+      scope.entityIds,
+    );
+  }
+
+  /**
+   * Rebuild the embedding index of a repository/branch: embed new and changed
+   * entities (or every entity when forced) and prune embeddings of deleted entities.
+   */
+  async reindex(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    options: { entityTypes?: string[]; force?: boolean } = {},
+  ): Promise<EmbeddingReindexResult> {
+    const logger = mcpContext.logger || console;
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const entityTypes = (options.entityTypes || Object.keys(EMBEDDABLE_ENTITY_LABELS)).filter(
+      (entityType) => {
+        if (!resolveEmbeddableLabel(entityType)) {
+          logger.warn(`[EmbeddingService.reindex] Skipping unsupported entity type ${entityType}`);
+          return false;
+        }
+        return true;
+      },
+    );
+    const result: EmbeddingReindexResult = {
+      repository: repositoryName,
+      branch,
+      entityTypes,
+      embedded: 0,
+      unchanged: 0,
+      removed: 0,
+    };
+
+    for (const entityType of entityTypes) {
+      const label = resolveEmbeddableLabel(entityType)!;
+      const nodes = await this.listNodes(kuzuClient, label, repositoryName, branch);
+      const { vectors, embedded, storedIds } = await this.ensureEmbeddings(
+        kuzuClient,
+        label,
+        repositoryName,
+        branch,
+        nodes,
+        { force: options.force },
+      );
+      result.embedded += embedded;
+      result.unchanged += vectors.size - embedded;
+
+      const orphanIds = storedIds.filter((id) => !vectors.has(id));
+      if (orphanIds.length > 0) {
+        result.removed += await this.deleteEmbeddingRows(
+          kuzuClient,
+          repositoryName,
+          branch,
+          label,
+          orphanIds,
+        );
+      }
+    }
+
+    this.dirtyScopes.delete(this.scopeKey({ clientProjectRoot, repositoryName, branch }));
+    logger.info(
+      `[EmbeddingService.reindex] Reindexed ${repositoryName}:${branch}: ${result.embedded} embedded, ${result.unchanged} unchanged, ${result.removed} removed`,
+    );
+    return result;
+  }
+
+  /**
+   * Record that a repository/branch needs to be reindexed by the background job
+   */
+  markDirty(scope: EmbeddingScope): void {
+    this.dirtyScopes.set(this.scopeKey(scope), scope);
+  }
+
+  /**
+   * Periodically reindex dirty repository/branch scopes. The timer does not keep
+   * the process alive.
+   */
+  startBackgroundReindex(intervalMs: number): void {
+    this.stopBackgroundReindex();
+    this.reindexTimer = setInterval(() => {
+      void this.reindexDirtyScopes();
+    }, intervalMs);
+    this.reindexTimer.unref();
+  }
+
+  stopBackgroundReindex(): void {
+    if (this.reindexTimer) {
+      clearInterval(this.reindexTimer);
+      this.reindexTimer = undefined;
+    }
+  }
+
+  /**
+   * Reindex every scope marked dirty since the last run
+   */
+  async reindexDirtyScopes(): Promise<EmbeddingReindexResult[]> {
+    if (this.reindexInProgress || this.dirtyScopes.size === 0) {
+      return [];
+    }
+
+    this.reindexInProgress = true;
+    const logger = loggers.search();
+    const results: EmbeddingReindexResult[] = [];
+    try {
+      for (const scope of Array.from(this.dirtyScopes.values())) {
+        const mcpContext = {
+          logger,
+          session: {
+            clientProjectRoot: scope.clientProjectRoot,
+            repository: scope.repositoryName,
+            branch: scope.branch,
+          },
+          sendProgress: async () => {},
+        } as ToolHandlerContext;
+        try {
+          results.push(
+            await this.reindex(
+              mcpContext,
+              scope.clientProjectRoot,
+              scope.repositoryName,
+              scope.branch,
+            ),
+          );
+        } catch (error: any) {
+          logger.warn(
+            `[EmbeddingService.reindexDirtyScopes] Failed to reindex ${scope.repositoryName}:${scope.branch}: ${error.message}`,
+          );
+        }
+      }
+    } finally {
+      this.reindexInProgress = false;
+    }
+    return results;
+  }
+
+  private scopeKey(scope: EmbeddingScope): string {
+    return `${scope.clientProjectRoot}|${scope.repositoryName}|${scope.branch}`;
+  }
+
+  /**
+   * Fetch all nodes of a label for a repository/branch, or a single node by id
+   */
+  private async listNodes(
+    kuzuClient: KuzuDBClient,
+    label: string,
+    repositoryName: string,
+    branch: string,
+    entityId?: string,
+  ): Promise<Record<string, any>[]> {
+    // Kuzu rejects parameters that the statement does not reference
+    let result: any[];
+    if (GRAPH_UNIQUE_ID_LABELS.has(label)) {
+      result = entityId
+        ? await kuzuClient.executeQuery(
+            `MATCH (n:${label} {graph_unique_id: $graphUniqueId}) RETURN n`,
+            { graphUniqueId: `${repositoryName}:${branch}:${entityId}` },
+          )
+        : await kuzuClient.executeQuery(
+            `MATCH (n:${label}) WHERE n.graph_unique_id STARTS WITH $scopePrefix RETURN n`,
+            { scopePrefix: `${repositoryName}:${branch}:` },
+          );
+    } else {
+      result = entityId
+        ? await kuzuClient.executeQuery(
+            `MATCH (n:${label} {id: $entityId}) WHERE n.repository = $repositoryName AND n.branch = $branch RETURN n`,
+            { entityId, repositoryName, branch },
+          )
+        : await kuzuClient.executeQuery(
+            `MATCH (n:${label}) WHERE n.repository = $repositoryName AND n.branch = $branch RETURN n`,
+            { repositoryName, branch },
+          );
+    }
+    return (result || [])
+      .map((row: any) => {
+        const { _id, _label, ...properties } = row.n || {};
+        return properties;
+      })
+      .filter((node: Record<string, any>) => !!node.id);
+  }
+
+  /**
+   * Return a vector for every node, embedding those whose stored vector is missing, was
+   * produced by another provider, or has a different content hash. New vectors are
+   * persisted unless `store` is false. Also reports how many vectors were computed and
+   * which entity ids had stored rows.
+   */
+  private async ensureEmbeddings(
+    kuzuClient: KuzuDBClient,
+    label: string,
+    repositoryName: string,
+    branch: string,
+    nodes: Record<string, any>[],
+    options: { force?: boolean; singleEntity?: boolean; store?: boolean } = {},
+  ): Promise<{ vectors: Map<string, number[]>; embedded: number; storedIds: string[] }> {
+    // A single entity only needs its own row; otherwise load the whole label
+    const stored =
+      options.singleEntity && nodes.length === 1
+        ? await kuzuClient.executeQuery(
+            `MATCH (e:Embedding {id: $id})
+             RETURN e.entity_id AS entityId, e.provider AS provider, e.content_hash AS contentHash, e.vector AS vector`,
+            { id: this.embeddingId(repositoryName, branch, label, nodes[0].id) },
+          )
+        : await kuzuClient.executeQuery(
+            `MATCH (e:Embedding)
+             WHERE e.repository = $repositoryName AND e.branch = $branch AND e.entity_label = $label
+             RETURN e.entity_id AS entityId, e.provider AS provider, e.content_hash AS contentHash, e.vector AS vector`,
+            { repositoryName, branch, label },
+          );
+
+    const vectors = new Map<string, number[]>();
+    const storedById = new Map<string, any>();
+    for (const row of stored || []) {
+      storedById.set(row.entityId, row);
+    }
+
+    const pending: Array<{ id: string; text: string; contentHash: string }> = [];
+    for (const node of nodes) {
+      const text = buildEmbeddingText(label, node);
+      const contentHash = computeContentHash(text);
+      const existing = storedById.get(node.id);
+      if (
+        !options.force &&
+        existing &&
+        existing.provider === this.provider.name &&
+        existing.contentHash === contentHash &&
+        Array.isArray(existing.vector)
+      ) {
+        vectors.set(node.id, existing.vector);
+      } else {
+        pending.push({ id: node.id, text, contentHash });
+      }
+    }
+
+    if (pending.length > 0) {
+      const embedded = await this.provider.embed(pending.map((item) => item.text));
+      for (let i = 0; i < pending.length; i++) {
+        if (options.store !== false) {
+          await this.storeEmbedding(
+            kuzuClient,
+            label,
+            repositoryName,
+            branch,
+            pending[i].id,
+            pending[i].contentHash,
+            embedded[i],
+          );
+        }
+        vectors.set(pending[i].id, embedded[i]);
+      }
+    }
+
+    return { vectors, embedded: pending.length, storedIds: Array.from(storedById.keys()) };
+  }
+
+  /**
+   * Delete embedding rows matching the given scope
+   */
+  private async deleteEmbeddingRows(
+    kuzuClient: KuzuDBClient,
+    repositoryName: string,
+    branch?: string,
+    label?: string,
+    entityIds?: string[],
+  ): Promise<number> {
+    const conditions = ['e.repository = $repositoryName'];
+    const params: Record<string, any> = { repositoryName };
+    if (branch) {
+      conditions.push('e.branch = $branch');
+      params.branch = branch;
+    }
+    if (label) {
+      conditions.push('e.entity_label = $label');
+      params.label = label;
+    }
+    if (entityIds) {
+      if (entityIds.length === 0) {
+        return 0;
+      }
+      conditions.push('e.entity_id IN $entityIds');
+      params.entityIds = entityIds;
+    }
+
+    const result = await kuzuClient.executeQuery(
+      `MATCH (e:Embedding)
+       WHERE ${conditions.join(' AND ')}
+       DELETE e
+       RETURN count(*) AS deletedCount`,
+      params,
+    );
+    return Number(result?.[0]?.deletedCount || 0);
+  }
+
+  private embeddingId(
+    repositoryName: string,
+    branch: string,
+    label: string,
+    entityId: string,
+  ): string {
+    return `${repositoryName}:${branch}:${label}:${entityId}`;
+  }
+
+  /**
+   * Upsert the embedding row for a single entity
+   */
+  private async storeEmbedding(
+    kuzuClient: KuzuDBClient,
+    label: string,
+    repositoryName: string,
+    branch: string,
+    entityId: string,
+    contentHash: string,
+    vector: number[],
+  ): Promise<void> {
+    const now = new Date();
+    await kuzuClient.executeQuery(
+      `MERGE (e:Embedding {id: $id})
+       ON CREATE SET
+         e.entity_id = $entityId,
+         e.entity_label = $label,
+         e.repository = $repositoryName,
+         e.branch = $branch,
+         e.provider = $provider,
+         e.dimensions = $dimensions,
+         e.content_hash = $contentHash,
+         e.vector = $vector,
+         e.created_at = $now,
+         e.updated_at = $now
+       ON MATCH SET
+         e.provider = $provider,
+         e.dimensions = $dimensions,
+         e.content_hash = $contentHash,
+         e.vector = $vector,
+         e.updated_at = $now`,
+      {
+        id: this.embeddingId(repositoryName, branch, label, entityId),
+        entityId,
+        label,
+        repositoryName,
+        branch,
+        provider: this.provider.name,
+        dimensions: this.provider.dimensions,
+        contentHash,
+        vector,
+        now,
+      },
+    );
+  }
+}
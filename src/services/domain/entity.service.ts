@@ -10,6 +10,16 @@ import {
   Tag,
   TagInput,
 } from '../../types';
+import type {
+  BranchEntity,
+  BranchEntityType,
+  BranchRelationship,
+} from '../../utils/branch-diff.utils';
+import {
+  MERGED_FROM_PROPERTY,
+  planEntityMerge,
+  type EntityMergeResult,
+} from '../../utils/entity-merge.utils';
 import { CoreService } from '../core/core.service';
 import { IEntityService, IServiceContainer } from '../core/service-container.interface';
 import * as componentOps from '../memory-operations/component.ops';
@@ -17,6 +27,12 @@ import * as decisionOps from '../memory-operations/decision.ops';
 import * as fileOps from '../memory-operations/file.ops';
 import * as ruleOps from '../memory-operations/rule.ops';
 import * as tagOps from '../memory-operations/tag.ops';
+import {
+  BRANCH_ENTITY_LABELS,
+  ENTITY_TYPES_BY_LABEL,
+  GRAPH_UNIQUE_ID_LABELS,
+  type TransactionContext,
+} from './branch.service';
 
 /**
  * Entity Service with full database functionality restored
@@ -62,6 +78,14 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.upsertComponent] Component ${componentData.id} upserted successfully in ${repositoryName}:${branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        'component',
+        componentData.id,
+      );
       return component;
     } catch (error: any) {
       logger.error(
@@ -150,6 +174,14 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.updateComponent] Component ${componentId} updated successfully in ${repositoryName}:${branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        'component',
+        componentId,
+      );
       return component;
     } catch (error: any) {
       logger.error(
@@ -189,6 +221,13 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.deleteComponent] Component ${componentId} deletion result: ${result} in ${repositoryName}:${branch}`,
       );
+      if (result) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch,
+          entityType: 'component',
+          entityIds: [componentId],
+        });
+      }
       return result;
     } catch (error: any) {
       logger.error(
@@ -240,6 +279,14 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.upsertDecision] Decision ${decisionData.id} upserted successfully in ${repositoryName}:${branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        'decision',
+        decisionData.id,
+      );
       return decision;
     } catch (error: any) {
       logger.error(
@@ -334,6 +381,14 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.updateDecision] Decision ${decisionId} updated successfully in ${repositoryName}:${branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        'decision',
+        decisionId,
+      );
       return decision;
     } catch (error: any) {
       logger.error(
@@ -373,6 +428,13 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.deleteDecision] Decision ${decisionId} deletion result: ${result} in ${repositoryName}:${branch}`,
       );
+      if (result) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch,
+          entityType: 'decision',
+          entityIds: [decisionId],
+        });
+      }
       return result;
     } catch (error: any) {
       logger.error(
@@ -413,6 +475,14 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.upsertRule] Rule ${rule.id} upserted successfully in ${repositoryName}:${branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        'rule',
+        rule.id,
+      );
       return ruleResult;
     } catch (error: any) {
       logger.error(
@@ -513,6 +583,14 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.updateRule] Rule ${ruleId} updated successfully in ${repositoryName}:${branch}`,
       );
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        'rule',
+        ruleId,
+      );
       return rule;
     } catch (error: any) {
       logger.error(
@@ -552,6 +630,13 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.deleteRule] Rule ${ruleId} deletion result: ${result} in ${repositoryName}:${branch}`,
       );
+      if (result) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch,
+          entityType: 'rule',
+          entityIds: [ruleId],
+        });
+      }
       return result;
     } catch (error: any) {
       logger.error(
@@ -592,6 +677,16 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.addFile] File ${fileData.id} added successfully in ${repositoryName}:${branch}`,
       );
+      if (fileResult.success) {
+        await this.afterEntityUpserted(
+          mcpContext,
+          clientProjectRoot,
+          repositoryName,
+          branch,
+          'file',
+          fileData.id,
+        );
+      }
       return {
         success: fileResult.success,
         message: fileResult.message,
@@ -669,6 +764,13 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.deleteFile] File ${fileId} deletion result: ${result} in ${repositoryName}:${branch}`,
       );
+      if (result) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch,
+          entityType: 'file',
+          entityIds: [fileId],
+        });
+      }
       return result;
     } catch (error: any) {
       logger.error(
@@ -709,6 +811,13 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.addTag] Tag ${tagData.id} added successfully in ${repositoryName}:${branch}`,
       );
+      this.notifyChange({
+        change: 'upserted',
+        repository: repositoryName,
+        branch,
+        entityType: 'tag',
+        entityIds: [tagData.id],
+      });
       return {
         success: tagResult.success,
         message: tagResult.message,
@@ -771,6 +880,15 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.deleteTag] Tag ${tagId} deletion result: ${result} in ${repositoryName}:${branch}`,
       );
+      if (result) {
+        this.notifyChange({
+          change: 'deleted',
+          repository: repositoryName,
+          branch,
+          entityType: 'tag',
+          entityIds: [tagId],
+        });
+      }
       return result;
     } catch (error: any) {
       logger.error(
@@ -820,6 +938,13 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.deleteContext] Context ${contextId} deletion result: ${success} in ${repositoryName}:${branch}`,
       );
+      if (success) {
+        await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+          branch,
+          entityType: 'context',
+          entityIds: [contextId],
+        });
+      }
       return success;
     } catch (error: any) {
       logger.error(
@@ -830,6 +955,266 @@ export class EntityService extends CoreService implements IEntityService {
     }
   }
 
+  // Merge operations
+  /**
+   * Merge sourceId into targetId, both of entityType. Every relationship of the source
+   * moves onto the target with its original type and direction, the properties are merged
+   * (see mergeEntityProperties) and the source is deleted. The target lists the source ID
+   * in merged_from so the old ID still resolves, see findMergedEntityId. Both entities
+   * must belong to the branch, including files and tags despite their global ids.
+   */
+  async mergeEntities(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    sourceId: string,
+    targetId: string,
+  ): Promise<EntityMergeResult> {
+    const logger = mcpContext.logger || console;
+    const label = BRANCH_ENTITY_LABELS[entityType];
+    if (!label) {
+      throw new Error(`Unsupported entity type for merge: ${entityType}`);
+    }
+
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const [source, target] = await Promise.all(
+        [sourceId, targetId].map((id) =>
+          this.loadMergeEntity(kuzuClient, repositoryName, branch, entityType, id),
+        ),
+      );
+      if (!source) {
+        throw new Error(`${entityType} ${sourceId} not found in ${repositoryName}:${branch}`);
+      }
+      if (!target) {
+        throw new Error(`${entityType} ${targetId} not found in ${repositoryName}:${branch}`);
+      }
+
+      const plan = planEntityMerge(
+        source,
+        target,
+        await this.loadMergeRelationships(kuzuClient, repositoryName, branch, source),
+      );
+      const dependents =
+        entityType === 'component'
+          ? await kuzuClient.executeQuery(
+              `MATCH (c:Component) WHERE c.graph_unique_id STARTS WITH $prefix
+                 AND list_contains(c.dependsOn, $sourceId) AND c.id <> $targetId
+               RETURN c.graph_unique_id AS key, c.dependsOn AS dependsOn`,
+              { prefix: `${repositoryName}:${branch}:`, sourceId, targetId },
+            )
+          : [];
+
+      const branchService = await this.serviceContainer.getBranchService();
+      const now = new Date();
+      const relationshipsMoved = await kuzuClient.transaction(async (tx) => {
+        await this.deleteMergeEntity(tx, repositoryName, branch, entityType, sourceId);
+        await branchService.writeEntity(tx, repositoryName, branch, plan.entity, now);
+        let moved = 0;
+        for (const relationship of plan.relationships) {
+          moved += await branchService.writeRelationship(tx, repositoryName, branch, relationship);
+        }
+        for (const dependent of dependents || []) {
+          const dependsOn = (dependent.dependsOn as string[]).map((id) =>
+            id === sourceId ? targetId : id,
+          );
+          await tx.executeQuery(
+            'MATCH (c:Component {graph_unique_id: $key}) SET c.dependsOn = $dependsOn',
+            { key: dependent.key, dependsOn: [...new Set(dependsOn)] },
+          );
+        }
+        return moved;
+      });
+
+      await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+        branch,
+        entityType,
+        entityIds: [sourceId],
+      });
+      await this.afterEntityUpserted(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        entityType,
+        targetId,
+      );
+
+      const mergedFrom = plan.entity.properties[MERGED_FROM_PROPERTY] as string[];
+      logger.info(
+        `[EntityService.mergeEntities] Merged ${entityType} ${sourceId} into ${targetId} in ${repositoryName}:${branch}: ${relationshipsMoved} relationships moved, ${plan.conflicts.length} conflicting properties`,
+      );
+      return {
+        success: true,
+        entityType,
+        sourceId,
+        targetId,
+        relationshipsMoved,
+        dependentsUpdated: dependents?.length ?? 0,
+        mergedFrom,
+        conflicts: plan.conflicts,
+        message: `Merged ${entityType} ${sourceId} into ${targetId}: ${relationshipsMoved} relationships moved`,
+      };
+    } catch (error: any) {
+      logger.error(
+        `[EntityService.mergeEntities] Error merging ${entityType} ${sourceId} into ${targetId} in ${repositoryName}:${branch}: ${error.message}`,
+        { error: error.toString() },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * ID of the entity that id was merged into, or null when no entity lists it in merged_from
+   */
+  async findMergedEntityId(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    id: string,
+  ): Promise<string | null> {
+    const label = BRANCH_ENTITY_LABELS[entityType];
+    if (!label) {
+      return null;
+    }
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const scoped = GRAPH_UNIQUE_ID_LABELS.has(label);
+    const rows = await kuzuClient.executeQuery(
+      `MATCH (n:${label})
+       WHERE ${scoped ? 'n.graph_unique_id STARTS WITH $prefix' : 'n.repository = $repository AND n.branch = $branch'}
+         AND list_contains(n.${MERGED_FROM_PROPERTY}, $id)
+       RETURN n.id AS id LIMIT 1`,
+      scoped
+        ? { prefix: `${repositoryName}:${branch}:`, id }
+        : { repository: repositoryName, branch, id },
+    );
+    return rows?.length ? String(rows[0].id) : null;
+  }
+
+  /**
+   * Match pattern and parameters of an entity on a branch. Files and tags have a global
+   * id, so they only match when they carry the branch's repository and branch.
+   */
+  private mergeEntityMatch(
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    id: string,
+  ): { match: string; params: Record<string, string> } {
+    const label = BRANCH_ENTITY_LABELS[entityType];
+    return GRAPH_UNIQUE_ID_LABELS.has(label)
+      ? {
+          match: `(n:${label} {graph_unique_id: $key})`,
+          params: { key: `${repositoryName}:${branch}:${id}` },
+        }
+      : {
+          match: `(n:${label} {id: $key, repository: $repository, branch: $branch})`,
+          params: { key: id, repository: repositoryName, branch },
+        };
+  }
+
+  private async loadMergeEntity(
+    kuzuClient: TransactionContext,
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    id: string,
+  ): Promise<BranchEntity | null> {
+    const { match, params } = this.mergeEntityMatch(repositoryName, branch, entityType, id);
+    const rows = await kuzuClient.executeQuery(`MATCH ${match} RETURN n`, params);
+    if (!rows?.length) {
+      return null;
+    }
+    // Drop Kuzu's internal _id/_label fields
+    const properties = Object.fromEntries(
+      Object.entries(rows[0].n ?? {}).filter(([name]) => !name.startsWith('_')),
+    ) as Record<string, any>;
+    const name = properties.name ?? properties.title;
+    return { entityType, id, ...(name ? { name: String(name) } : {}), properties };
+  }
+
+  /**
+   * Relationships with the entity at either end, except its PART_OF link to the repository.
+   * Files and tags are linked by their global id, so links to those of other branches
+   * (shared by a fork) move as they are; an entity linked to components, decisions, rules
+   * or contexts of another branch is not merged, as those links cannot be re-created here.
+   */
+  private async loadMergeRelationships(
+    kuzuClient: TransactionContext,
+    repositoryName: string,
+    branch: string,
+    entity: BranchEntity,
+  ): Promise<BranchRelationship[]> {
+    const { match, params } = this.mergeEntityMatch(
+      repositoryName,
+      branch,
+      entity.entityType,
+      entity.id,
+    );
+    const otherColumns = `label(r) AS type, label(m) AS otherLabel, m.id AS otherId,
+       m.graph_unique_id AS otherKey, m.repository AS otherRepository`;
+    const outgoing = await kuzuClient.executeQuery(
+      `MATCH ${match}-[r]->(m) WHERE label(r) <> 'PART_OF' RETURN ${otherColumns}`,
+      params,
+    );
+    const incoming = await kuzuClient.executeQuery(
+      `MATCH (m)-[r]->${match} WHERE label(r) <> 'PART_OF' RETURN ${otherColumns}`,
+      params,
+    );
+
+    const onBranch = (row: any) =>
+      GRAPH_UNIQUE_ID_LABELS.has(row.otherLabel)
+        ? String(row.otherKey).startsWith(`${repositoryName}:${branch}:`)
+        : row.otherRepository === repositoryName;
+    const offBranch = [...(outgoing || []), ...(incoming || [])].filter(
+      (row: any) => ENTITY_TYPES_BY_LABEL.has(row.otherLabel) && !onBranch(row),
+    );
+    if (offBranch.length > 0) {
+      throw new Error(
+        `${entity.entityType} ${entity.id} is linked to entities of other branches (${offBranch
+          .map((row: any) => `${row.otherLabel} ${row.otherId}`)
+          .join(', ')}); unlink them before merging`,
+      );
+    }
+
+    const relationships: BranchRelationship[] = [];
+    for (const [rows, outgoingEdge] of [
+      [outgoing, true],
+      [incoming, false],
+    ] as const) {
+      for (const row of rows || []) {
+        const otherType = ENTITY_TYPES_BY_LABEL.get(row.otherLabel);
+        if (!otherType) {
+          continue;
+        }
+        const other = { type: otherType, id: String(row.otherId) };
+        relationships.push({
+          type: row.type,
+          fromType: outgoingEdge ? entity.entityType : other.type,
+          fromId: outgoingEdge ? entity.id : other.id,
+          toType: outgoingEdge ? other.type : entity.entityType,
+          toId: outgoingEdge ? other.id : entity.id,
+        });
+      }
+    }
+    return relationships;
+  }
+
+  private async deleteMergeEntity(
+    tx: TransactionContext,
+    repositoryName: string,
+    branch: string,
+    entityType: BranchEntityType,
+    id: string,
+  ): Promise<void> {
+    const { match, params } = this.mergeEntityMatch(repositoryName, branch, entityType, id);
+    await tx.executeQuery(`MATCH ${match} DETACH DELETE n`, params);
+  }
+
   // Association operations
   async associateFileWithComponent(
     mcpContext: ToolHandlerContext,
@@ -871,6 +1256,15 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.associateFileWithComponent] File ${fileId} associated with component ${componentId}: ${success} in ${repositoryName}:${branch}`,
       );
+      if (success) {
+        this.notifyChange({
+          change: 'upserted',
+          repository: repositoryName,
+          branch,
+          entityType: 'component',
+          entityIds: [componentId],
+        });
+      }
 
       return {
         type: 'file-component',
@@ -933,6 +1327,15 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.tagItem] ${itemType} ${itemId} tagged with ${tagId}: ${success} in ${repositoryName}:${branch}`,
       );
+      if (success) {
+        this.notifyChange({
+          change: 'upserted',
+          repository: repositoryName,
+          branch,
+          entityType: itemType.toLowerCase(),
+          entityIds: [itemId],
+        });
+      }
 
       return {
         type: 'item-tag',
@@ -1022,6 +1425,10 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.bulkDeleteByType] Deleted ${deletedCount} ${entityType} entities in ${repositoryName}:${branch}`,
       );
+      await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+        branch,
+        entityType,
+      });
 
       return {
         count: deletedCount,
@@ -1108,6 +1515,11 @@ export class EntityService extends CoreService implements IEntityService {
 
           if (result.length > 0) {
             deletedCount++;
+            await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+              branch,
+              entityType: entity.type,
+              entityIds: [entity.id],
+            });
           }
         } catch (error: any) {
           logger.warn(`Failed to delete ${entity.type} ${entity.id}: ${error.message}`);
@@ -1195,6 +1607,9 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.bulkDeleteByBranch] Deleted ${totalDeleted} entities from branch ${targetBranch} in ${repositoryName}`,
       );
+      await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName, {
+        branch: targetBranch,
+      });
 
       return {
         count: totalDeleted,
@@ -1272,6 +1687,7 @@ export class EntityService extends CoreService implements IEntityService {
       logger.info(
         `[EntityService.bulkDeleteByRepository] Deleted ${totalDeleted} entities from repository ${repositoryName}`,
       );
+      await this.afterEntitiesRemoved(mcpContext, clientProjectRoot, repositoryName);
 
       return {
         count: totalDeleted,
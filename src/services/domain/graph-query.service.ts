@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import {
+  detectSchemaDrift,
+  EXPECTED_NODE_PROPERTIES,
+  summarizeSchemaDrift,
+  type PropertyDefinition,
+} from '../../db/schema-drift';
 import * as toolSchemas from '../../mcp/schemas/unified-tool-schemas';
 import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
 import { Component } from '../../types';
@@ -18,8 +24,13 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
     'File',
     'Context',
     'Repository',
+    'Metadata',
+    'Embedding',
   ]);
 
+  // Labels whose primary key is the repository:branch:id graph_unique_id
+  private static readonly SCOPED_LABELS = new Set(['Component', 'Decision', 'Rule', 'Context']);
+
   constructor(serviceContainer: IServiceContainer) {
     super(serviceContainer);
   }
@@ -58,6 +69,16 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
 
     return label;
   }
+  /**
+   * Validates a label whose nodes are keyed by repository:branch:id graph_unique_id values
+   */
+  private validateScopedLabel(label: string): string {
+    if (!GraphQueryService.SCOPED_LABELS.has(label)) {
+      throw new Error(`Label ${label} is not keyed by graph_unique_id`);
+    }
+    return this.validateAndSanitizeLabel(label);
+  }
+
   async getComponentDependencies(
     mcpContext: ToolHandlerContext,
     clientProjectRoot: string,
@@ -250,19 +271,22 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
       // KuzuDB doesn't support OFFSET/SKIP, so we'll implement basic pagination
       // by fetching more records and slicing in memory for now
       const totalLimit = limit + offset;
+      // Scoped labels are matched by graph_unique_id prefix, as in listNodesInScope
+      const scoped = GraphQueryService.SCOPED_LABELS.has(safeLabel);
       const query = `
         MATCH (n:${safeLabel})
-        WHERE n.repository = $repositoryName AND n.branch = $branch
+        WHERE ${scoped ? 'n.graph_unique_id STARTS WITH $scopePrefix' : 'n.repository = $repositoryName AND n.branch = $branch'}
         RETURN n
-        ORDER BY n.created_at DESC
+        ORDER BY n.created_at DESC, n.id
         LIMIT $totalLimit
       `;
 
-      const allResults = await kuzuClient.executeQuery(query, {
-        repositoryName,
-        branch,
-        totalLimit,
-      });
+      const allResults = await kuzuClient.executeQuery(
+        query,
+        scoped
+          ? { scopePrefix: `${repositoryName}:${branch}:`, totalLimit }
+          : { repositoryName, branch, totalLimit },
+      );
 
       // Apply offset and limit in memory since KuzuDB doesn't support OFFSET/SKIP
       const result = allResults.slice(offset, offset + limit);
@@ -287,6 +311,86 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
     }
   }
 
+  /**
+   * Fetch a single Component, Decision, Rule or Context by its logical id within a repository branch
+   * @returns The node properties, or null when no such node exists
+   */
+  async getNodeById(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    label: string,
+    id: string,
+  ): Promise<Record<string, any> | null> {
+    const logger = mcpContext.logger || console;
+    const safeLabel = this.validateScopedLabel(label);
+
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const result = await kuzuClient.executeQuery(
+        `MATCH (n:${safeLabel} {graph_unique_id: $graphUniqueId}) RETURN n`,
+        { graphUniqueId: `${repositoryName}:${branch}:${id}` },
+      );
+      return result.length > 0 ? result[0].n : null;
+    } catch (error: any) {
+      logger.error(
+        `[GraphQueryService.getNodeById] Error for ${label} ${id} in ${repositoryName}:${branch}: ${error.message}`,
+        { error: error.toString() },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * List Components, Decisions, Rules or Contexts of a repository branch ordered by id.
+   * Nodes are matched by their graph_unique_id prefix because not every write path sets
+   * the repository and branch properties.
+   */
+  async listNodesInScope(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    label: string,
+    limit: number = 100,
+    offset: number = 0,
+  ): Promise<{ label: string; entities: Record<string, any>[]; total: number }> {
+    const logger = mcpContext.logger || console;
+    const safeLabel = this.validateScopedLabel(label);
+    const scopePrefix = `${repositoryName}:${branch}:`;
+
+    try {
+      const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+      const countResult = await kuzuClient.executeQuery(
+        `MATCH (n:${safeLabel}) WHERE n.graph_unique_id STARTS WITH $scopePrefix RETURN count(n) AS total`,
+        { scopePrefix },
+      );
+      const total = Number(countResult[0]?.total ?? 0);
+      if (total <= offset || limit <= 0) {
+        return { label, entities: [], total };
+      }
+
+      // Fetch up to offset + limit rows and slice, as the other list queries do
+      const result = await kuzuClient.executeQuery(
+        `MATCH (n:${safeLabel}) WHERE n.graph_unique_id STARTS WITH $scopePrefix
+         RETURN n ORDER BY n.id LIMIT $totalLimit`,
+        { scopePrefix, totalLimit: offset + limit },
+      );
+      return {
+        label,
+        entities: result.slice(offset, offset + limit).map((row: any) => row.n),
+        total,
+      };
+    } catch (error: any) {
+      logger.error(
+        `[GraphQueryService.listNodesInScope] Error for ${label} in ${repositoryName}:${branch}: ${error.message}`,
+        { error: error.toString() },
+      );
+      throw error;
+    }
+  }
+
   async getRelatedItems(
     mcpContext: ToolHandlerContext,
     clientProjectRoot: string,
@@ -308,18 +412,21 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
         clientProjectRoot,
         repository: repositoryName,
         branch,
-        itemId,
+        startItemId: itemId,
         ...opParams,
       };
 
       const result = await graphOps.getRelatedItemsOp(mcpContext, kuzuClient, graphOpsParams);
+      if (result?.status === 'error') {
+        throw new Error(result.message);
+      }
 
       logger.info(
         `[GraphQueryService.getRelatedItems] Retrieved related items for ${itemId} in ${repositoryName}:${branch}`,
       );
       return {
         startItemId: itemId,
-        relatedItems: result || [],
+        relatedItems: result?.relatedItems || [],
       };
     } catch (error: any) {
       logger.error(
@@ -498,8 +605,8 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
 
       const result = await kuzuClient.executeQuery(query, {});
       const properties = result.map((row: any) => ({
-        name: row.property_name,
-        type: row.property_type,
+        name: row.name,
+        type: row.type,
       }));
 
       logger.info(
@@ -522,6 +629,50 @@ export class GraphQueryService extends CoreService implements IGraphQueryService
     }
   }
 
+  /**
+   * Compare the live properties of every node table, or of a single label, with the
+   * expected model and report missing, extra and type-mismatched properties
+   */
+  async detectSchemaDrift(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    label?: string,
+  ): Promise<z.infer<typeof toolSchemas.SchemaDriftOutputSchema>> {
+    const logger = mcpContext.logger || console;
+    const labels = label ? [label] : Object.keys(EXPECTED_NODE_PROPERTIES);
+    const unknown = labels.filter((l) => !(l in EXPECTED_NODE_PROPERTIES));
+    if (unknown.length > 0) {
+      throw new Error(
+        `No expected model for label: ${unknown.join(', ')}. Known labels: ${Object.keys(EXPECTED_NODE_PROPERTIES).join(', ')}`,
+      );
+    }
+
+    const actualByLabel: Record<string, PropertyDefinition[]> = {};
+    for (const nodeLabel of labels) {
+      const result = await this.getNodeProperties(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        nodeLabel,
+      );
+      actualByLabel[nodeLabel] = result.properties;
+    }
+
+    const report = detectSchemaDrift(actualByLabel);
+    const summary = summarizeSchemaDrift(report);
+    logger.info(
+      `[GraphQueryService.detectSchemaDrift] ${summary.length} of ${report.labels.length} labels drift from the expected model`,
+    );
+
+    return {
+      ...report,
+      message: report.inSync ? 'Node tables match the expected model' : summary.join('\n'),
+    };
+  }
+
   async listAllIndexes(
     mcpContext: ToolHandlerContext,
     clientProjectRoot: string,
@@ -0,0 +1,602 @@
+import { EXPECTED_NODE_PROPERTIES } from '../../db/schema-drift';
+import { ToolHandlerContext } from '../../mcp/types/sdk-custom';
+import {
+  parseAdr,
+  planAdrImport,
+  renderAdrFiles,
+  type AdrImportOutcome,
+  type AdrRecord,
+} from '../../utils/adr.utils';
+import {
+  entityKey,
+  isSharedEntityType,
+  type BranchEntity,
+  type BranchEntityType,
+} from '../../utils/branch-diff.utils';
+import {
+  createMemoryExport,
+  planMemoryImport,
+  type ImportConflictPolicy,
+  type ImportOutcome,
+  type MemoryExport,
+} from '../../utils/memory-export.utils';
+import {
+  renderMemoryMarkdown,
+  writeMarkdownFiles,
+  type MarkdownEntity,
+  type MarkdownRelatedItem,
+} from '../../utils/memory-markdown.utils';
+import { CoreService } from '../core/core.service';
+import { IMemoryTransferService, IServiceContainer } from '../core/service-container.interface';
+import { BRANCH_ENTITY_LABELS } from './branch.service';
+
+export interface MemoryImportResult {
+  success: boolean;
+  status: 'completed';
+  repository: string;
+  branch: string;
+  source: { repository: string; branch: string; version: number; exportedAt: string };
+  conflictPolicy: ImportConflictPolicy;
+  total: number;
+  imported: number;
+  created: number;
+  overwritten: number;
+  renamed: number;
+  /** Files and tags of other branches that the import links instead of rewriting */
+  linked: number;
+  skipped: number;
+  relationships: { imported: number; skipped: number };
+  metadataImported: boolean;
+  outcomes: ImportOutcome[];
+  message: string;
+}
+
+export interface MarkdownExportResult {
+  success: boolean;
+  repository: string;
+  branch: string;
+  outputDir: string;
+  /** Written files, relative to outputDir */
+  files: string[];
+  counts: {
+    components: number;
+    decisions: number;
+    rules: number;
+    contexts: number;
+    dependencies: number;
+  };
+  message: string;
+}
+
+export interface AdrImportResult {
+  success: boolean;
+  dryRun: boolean;
+  repository: string;
+  branch: string;
+  /** Number of files given */
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  relationships: number;
+  outcomes: AdrImportOutcome[];
+  errors?: Array<{ id: string; error: string }>;
+  message: string;
+}
+
+export interface AdrExportResult {
+  success: boolean;
+  repository: string;
+  branch: string;
+  outputDir: string;
+  /** Written files, relative to outputDir */
+  files: string[];
+  message: string;
+}
+
+/**
+ * Page size used when listing the nodes of a branch for a markdown export
+ */
+const MARKDOWN_PAGE_SIZE = 500;
+
+/**
+ * Service for moving the memory of a repository branch in and out of the database
+ */
+export class MemoryTransferService extends CoreService implements IMemoryTransferService {
+  constructor(serviceContainer: IServiceContainer) {
+    super(serviceContainer);
+  }
+
+  /**
+   * Gather the entities, relationships and metadata of a branch into a portable export
+   */
+  async exportMemory(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+  ): Promise<MemoryExport> {
+    const logger = mcpContext.logger || console;
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const metadata = await this.requireMetadata(
+      mcpContext,
+      clientProjectRoot,
+      repositoryName,
+      branch,
+    );
+
+    const branchService = await this.serviceContainer.getBranchService();
+    const state = await branchService.loadBranchState(kuzuClient, repositoryName, branch);
+    const memoryExport = createMemoryExport(
+      repositoryName,
+      branch,
+      metadata,
+      state.entities,
+      state.relationships,
+    );
+
+    logger.info(
+      `[MemoryTransferService.exportMemory] Exported ${repositoryName}:${branch}: ${memoryExport.counts.entities} entities, ${memoryExport.counts.relationships} relationships`,
+    );
+    return memoryExport;
+  }
+
+  /**
+   * Render the components, decisions, rules and contexts of a branch as a directory of
+   * markdown files for human review (see renderMemoryMarkdown)
+   */
+  async exportMarkdown(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    outputDir: string,
+  ): Promise<MarkdownExportResult> {
+    const logger = mcpContext.logger || console;
+
+    await this.requireMetadata(mcpContext, clientProjectRoot, repositoryName, branch);
+
+    const graphQueryService = await this.serviceContainer.getGraphQueryService();
+    const relatedItems = async (
+      id: string,
+      opParams: Record<string, unknown> = {},
+    ): Promise<MarkdownRelatedItem[]> => {
+      const result = await graphQueryService.getRelatedItems(
+        mcpContext,
+        clientProjectRoot,
+        repositoryName,
+        branch,
+        id,
+        { depth: 1, ...opParams },
+      );
+      return result.relatedItems.map((item: any) => ({
+        id: item.id,
+        name: item.name,
+        type: item.type,
+      }));
+    };
+    const listEntities = async (label: string): Promise<MarkdownEntity[]> => {
+      const nodes: Record<string, any>[] = [];
+      for (let offset = 0; ; offset += MARKDOWN_PAGE_SIZE) {
+        const page = await graphQueryService.listNodesByLabel(
+          mcpContext,
+          clientProjectRoot,
+          repositoryName,
+          branch,
+          label,
+          MARKDOWN_PAGE_SIZE,
+          offset,
+        );
+        nodes.push(...page.entities.map((row: any) => row.n ?? row));
+        if (page.entities.length < MARKDOWN_PAGE_SIZE) {
+          break;
+        }
+      }
+      nodes.sort((a, b) => String(a.id).localeCompare(String(b.id)));
+      const entities: MarkdownEntity[] = [];
+      for (const node of nodes) {
+        const id = String(node.id);
+        entities.push({ id, properties: node, related: await relatedItems(id) });
+      }
+      return entities;
+    };
+
+    const components = await listEntities('Component');
+    const dependencies: Array<{ fromId: string; toId: string }> = [];
+    for (const component of components) {
+      const targets = await relatedItems(component.id, {
+        relationshipFilter: 'DEPENDS_ON',
+        targetNodeTypeFilter: 'Component',
+        direction: 'OUTGOING',
+      });
+      dependencies.push(...targets.map((target) => ({ fromId: component.id, toId: target.id })));
+    }
+    const source = {
+      repository: repositoryName,
+      branch,
+      components,
+      decisions: await listEntities('Decision'),
+      rules: await listEntities('Rule'),
+      contexts: await listEntities('Context'),
+      dependencies,
+    };
+
+    const files = renderMemoryMarkdown(source);
+    await writeMarkdownFiles(outputDir, files);
+
+    const counts = {
+      components: source.components.length,
+      decisions: source.decisions.length,
+      rules: source.rules.length,
+      contexts: source.contexts.length,
+      dependencies: source.dependencies.length,
+    };
+    logger.info(
+      `[MemoryTransferService.exportMarkdown] Wrote ${files.length} markdown files for ${repositoryName}:${branch} to ${outputDir}`,
+    );
+    return {
+      success: true,
+      repository: repositoryName,
+      branch,
+      outputDir,
+      files: files.map((file) => file.path),
+      counts,
+      message: `Wrote ${files.length} markdown files (${counts.components} components, ${counts.decisions} decisions, ${counts.rules} rules, ${counts.contexts} contexts) to ${outputDir}`,
+    };
+  }
+
+  /**
+   * Load an export into a repository branch, by default the one it was exported from.
+   * Entities whose id already exists are handled by the conflict policy. Entities and
+   * relationships are written in one transaction, so a failure imports nothing.
+   */
+  async importMemory(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    memoryExport: MemoryExport,
+    options: { repository?: string; branch?: string; conflictPolicy?: ImportConflictPolicy } = {},
+  ): Promise<MemoryImportResult> {
+    const logger = mcpContext.logger || console;
+    const {
+      repository = memoryExport.repository,
+      branch = memoryExport.branch,
+      conflictPolicy = 'skip',
+    } = options;
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const memoryBankService = await this.serviceContainer.getMemoryBankService();
+    await memoryBankService.getOrCreateRepository(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      branch,
+    );
+
+    const branchService = await this.serviceContainer.getBranchService();
+    const target = await branchService.loadBranchState(kuzuClient, repository, branch);
+    const existingKeys = new Set(target.entities.map(entityKey));
+    // Files and tags are keyed by a global id, so ids used on any branch are taken
+    const sharedKeys = new Set<string>();
+    const sharedTypes = (Object.keys(BRANCH_ENTITY_LABELS) as BranchEntityType[]).filter(
+      isSharedEntityType,
+    );
+    for (const entityType of sharedTypes) {
+      const rows = await kuzuClient.executeQuery(
+        `MATCH (n:${BRANCH_ENTITY_LABELS[entityType]}) RETURN n.id AS id`,
+      );
+      for (const row of rows || []) {
+        const key = entityKey({ entityType, id: String(row.id) });
+        if (!existingKeys.has(key)) {
+          sharedKeys.add(key);
+          existingKeys.add(key);
+        }
+      }
+    }
+
+    const plan = planMemoryImport(memoryExport, existingKeys, conflictPolicy, sharedKeys);
+    const now = new Date();
+    const relationships = { imported: 0, skipped: 0 };
+    try {
+      await kuzuClient.transaction(async (tx) => {
+        for (const entity of plan.entities) {
+          await branchService.writeEntity(tx, repository, branch, this.reviveDates(entity), now);
+        }
+        for (const relationship of plan.relationships) {
+          const written = await branchService.writeRelationship(
+            tx,
+            repository,
+            branch,
+            relationship,
+          );
+          // Not written when an endpoint is missing from the target
+          relationships[written ? 'imported' : 'skipped']++;
+        }
+      });
+    } catch (error: any) {
+      logger.error(
+        `[MemoryTransferService.importMemory] Import into ${repository}:${branch} rolled back: ${error.message}`,
+      );
+      throw new Error(`Import into ${repository}:${branch} rolled back: ${error.message}`);
+    }
+
+    const metadataImported = await this.importMetadata(
+      mcpContext,
+      clientProjectRoot,
+      memoryExport,
+      repository,
+      branch,
+      conflictPolicy,
+    );
+
+    await this.afterImport(mcpContext, clientProjectRoot, repository, branch);
+
+    const count = (kind: ImportOutcome['outcome']) =>
+      plan.outcomes.filter((outcome) => outcome.outcome === kind).length;
+    const created = count('created');
+    const overwritten = count('overwritten');
+    const renamed = count('renamed');
+    const linked = count('linked');
+    const skipped = count('skipped');
+    const imported = created + overwritten + renamed;
+
+    logger.info(
+      `[MemoryTransferService.importMemory] Imported into ${repository}:${branch}: ${imported} imported, ${linked} linked, ${skipped} skipped, ${relationships.imported} relationships`,
+    );
+    return {
+      success: true,
+      status: 'completed',
+      repository,
+      branch,
+      source: {
+        repository: memoryExport.repository,
+        branch: memoryExport.branch,
+        version: memoryExport.version,
+        exportedAt: memoryExport.exportedAt,
+      },
+      conflictPolicy,
+      total: plan.outcomes.length,
+      imported,
+      created,
+      overwritten,
+      renamed,
+      linked,
+      skipped,
+      relationships,
+      metadataImported,
+      outcomes: plan.outcomes,
+      message: `Imported ${imported} entities (${created} created, ${overwritten} overwritten, ${renamed} renamed), linked ${linked}, skipped ${skipped}; ${relationships.imported} relationships imported`,
+    };
+  }
+
+  /**
+   * Write the decisions of a branch as ADR files (see renderAdrFiles)
+   */
+  async exportAdrs(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    outputDir: string,
+  ): Promise<AdrExportResult> {
+    const logger = mcpContext.logger || console;
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    await this.requireMetadata(mcpContext, clientProjectRoot, repositoryName, branch);
+    const branchService = await this.serviceContainer.getBranchService();
+    const state = await branchService.loadBranchState(kuzuClient, repositoryName, branch);
+    const files = renderAdrFiles(state);
+    await writeMarkdownFiles(outputDir, files);
+
+    logger.info(
+      `[MemoryTransferService.exportAdrs] Wrote ${files.length} ADRs for ${repositoryName}:${branch} to ${outputDir}`,
+    );
+    return {
+      success: true,
+      repository: repositoryName,
+      branch,
+      outputDir,
+      files: files.map((file) => file.path),
+      message: `Wrote ${files.length} ADRs to ${outputDir}`,
+    };
+  }
+
+  /**
+   * Import ADR files as decisions with their AFFECTS and SUPERSEDES edges (see
+   * planAdrImport). The import is one transaction and is rejected when any file is
+   * invalid or links to an unknown decision or component. Written decisions lose their
+   * previous outgoing AFFECTS and SUPERSEDES edges, so the files are the source of truth.
+   */
+  async importAdrs(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+    files: Array<{ fileName: string; content: string }>,
+    options: { conflictPolicy?: 'skip' | 'overwrite'; dryRun?: boolean } = {},
+  ): Promise<AdrImportResult> {
+    const logger = mcpContext.logger || console;
+    const { conflictPolicy = 'skip', dryRun = false } = options;
+
+    const errors: Array<{ id: string; error: string }> = [];
+    const records: AdrRecord[] = [];
+    for (const file of files) {
+      try {
+        records.push(parseAdr(file.fileName, file.content));
+      } catch (error: any) {
+        errors.push({ id: file.fileName, error: error.message });
+      }
+    }
+
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const branchService = await this.serviceContainer.getBranchService();
+    const state = await branchService.loadBranchState(kuzuClient, repositoryName, branch);
+    const idsOf = (entityType: BranchEntityType) =>
+      new Set(state.entities.filter((entity) => entity.entityType === entityType).map((e) => e.id));
+    const plan = planAdrImport(
+      records,
+      { decisionIds: idsOf('decision'), componentIds: idsOf('component') },
+      { overwrite: conflictPolicy === 'overwrite' },
+    );
+    errors.push(...plan.errors);
+
+    const count = (kind: AdrImportOutcome['outcome']) =>
+      plan.outcomes.filter((outcome) => outcome.outcome === kind).length;
+    const created = count('created');
+    const updated = count('updated');
+    const skipped = count('skipped');
+    const result: AdrImportResult = {
+      success: errors.length === 0,
+      dryRun,
+      repository: repositoryName,
+      branch,
+      total: files.length,
+      created,
+      updated,
+      skipped,
+      relationships: plan.relationships.length,
+      outcomes: plan.outcomes,
+      ...(errors.length > 0 ? { errors } : {}),
+      message:
+        errors.length > 0
+          ? `Rejected ADR import: ${errors.length} errors`
+          : `${dryRun ? 'Would import' : 'Imported'} ${created + updated} ADRs (${created} created, ${updated} updated), skipped ${skipped}; ${plan.relationships.length} relationships`,
+    };
+    if (dryRun || errors.length > 0) {
+      return result;
+    }
+
+    const memoryBankService = await this.serviceContainer.getMemoryBankService();
+    await memoryBankService.getOrCreateRepository(
+      mcpContext,
+      clientProjectRoot,
+      repositoryName,
+      branch,
+    );
+    const now = new Date();
+    await kuzuClient.transaction(async (tx) => {
+      for (const entity of plan.entities) {
+        await tx.executeQuery(
+          `MATCH (d:Decision {graph_unique_id: $key})-[r:AFFECTS|SUPERSEDES]->() DELETE r`,
+          { key: `${repositoryName}:${branch}:${entity.id}` },
+        );
+      }
+      for (const entity of plan.entities) {
+        await branchService.writeEntity(tx, repositoryName, branch, entity, now);
+      }
+      for (const relationship of plan.relationships) {
+        const written = await branchService.writeRelationship(
+          tx,
+          repositoryName,
+          branch,
+          relationship,
+        );
+        if (!written) {
+          throw new Error(
+            `Could not resolve ${relationship.type} ${relationship.fromId} -> ${relationship.toId}`,
+          );
+        }
+      }
+    });
+
+    await this.afterImport(mcpContext, clientProjectRoot, repositoryName, branch);
+    logger.info(
+      `[MemoryTransferService.importAdrs] ${result.message} into ${repositoryName}:${branch}`,
+    );
+    return result;
+  }
+
+  /**
+   * Metadata of a repository branch, which every exported branch has
+   */
+  private async requireMetadata(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repositoryName: string,
+    branch: string,
+  ): Promise<any> {
+    // Opening the client also initializes the repositories the metadata lookup needs
+    await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const metadataService = await this.serviceContainer.getMetadataService();
+    const metadata = await metadataService.getMetadata(
+      mcpContext,
+      clientProjectRoot,
+      repositoryName,
+      branch,
+    );
+    if (!metadata) {
+      throw new Error(`Repository ${repositoryName}:${branch} not found`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Notify subscribers of imported entities and schedule their embedding reindex
+   */
+  private async afterImport(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    repository: string,
+    branch: string,
+  ): Promise<void> {
+    this.notifyChange({ change: 'upserted', repository, branch });
+    try {
+      const embeddingService = await this.serviceContainer.getEmbeddingService();
+      embeddingService.markDirty({ clientProjectRoot, repositoryName: repository, branch });
+    } catch (error: any) {
+      (mcpContext.logger || console).warn(
+        `[MemoryTransferService] Could not schedule embedding reindex: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Import the exported metadata unless the target already has metadata and the
+   * policy is not `overwrite`
+   */
+  private async importMetadata(
+    mcpContext: ToolHandlerContext,
+    clientProjectRoot: string,
+    memoryExport: MemoryExport,
+    repository: string,
+    branch: string,
+    conflictPolicy: ImportConflictPolicy,
+  ): Promise<boolean> {
+    if (!memoryExport.metadata) {
+      return false;
+    }
+    const kuzuClient = await this.getKuzuClient(mcpContext, clientProjectRoot);
+    const existing = await kuzuClient.executeQuery(
+      'MATCH (:Repository {id: $repositoryId})-[:HAS_METADATA]->(m:Metadata) RETURN m.id AS id',
+      { repositoryId: `${repository}:${branch}` },
+    );
+    if (existing?.length && conflictPolicy !== 'overwrite') {
+      return false;
+    }
+
+    const metadataService = await this.serviceContainer.getMetadataService();
+    const result = await metadataService.updateMetadata(
+      mcpContext,
+      clientProjectRoot,
+      repository,
+      memoryExport.metadata,
+      branch,
+    );
+    return Boolean(result?.success);
+  }
+
+  /**
+   * Exports store dates as ISO strings; Kuzu does not cast strings to TIMESTAMP or DATE
+   */
+  private reviveDates(entity: BranchEntity): BranchEntity {
+    const types = EXPECTED_NODE_PROPERTIES[BRANCH_ENTITY_LABELS[entity.entityType]] ?? {};
+    const properties = Object.fromEntries(
+      Object.entries(entity.properties).map(([name, value]) =>
+        typeof value === 'string' && (types[name] === 'TIMESTAMP' || types[name] === 'DATE')
+          ? [name, new Date(value)]
+          : [name, value],
+      ),
+    );
+    return { ...entity, properties };
+  }
+}
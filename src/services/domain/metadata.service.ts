@@ -185,6 +185,12 @@ export class MetadataService extends CoreService implements IMetadataService {
         logger.info(
           `[MetadataService.updateMetadata] Successfully updated metadata for ${repositoryName}:${branch}`,
         );
+        this.notifyChange({
+          change: 'upserted',
+          repository: repositoryName,
+          branch,
+          entityType: 'metadata',
+        });
         return {
           success: true,
           message: `Metadata updated successfully for ${repositoryName}:${branch}`,
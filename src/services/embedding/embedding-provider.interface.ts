@@ -0,0 +1,22 @@
+/**
+ * Embedding provider contract
+ * Implementations turn text into fixed-length numeric vectors used for semantic search.
+ */
+export interface EmbeddingProvider {
+  /** Stable provider identifier, stored with every embedding so stale vectors can be detected */
+  readonly name: string;
+  /** Length of every vector returned by embed() */
+  readonly dimensions: number;
+  /** Minimum cosine similarity semantic search uses when the caller sets no threshold */
+  readonly defaultThreshold?: number;
+
+  /**
+   * Embed a batch of texts. The returned array has the same length and order as the input.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Factory used by the provider registry to construct providers lazily
+ */
+export type EmbeddingProviderFactory = (options: { dimensions?: number }) => EmbeddingProvider;
@@ -0,0 +1,45 @@
+import { EmbeddingProvider, EmbeddingProviderFactory } from './embedding-provider.interface';
+import { HashedNgramEmbeddingProvider } from './hashed-ngram-embedding.provider';
+
+export const DEFAULT_EMBEDDING_PROVIDER = 'hashed-ngram';
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  [DEFAULT_EMBEDDING_PROVIDER, ({ dimensions }) => new HashedNgramEmbeddingProvider(dimensions)],
+]);
+
+/**
+ * Register an additional embedding provider (e.g. a remote model) under a name
+ * that can then be selected through the EMBEDDING_PROVIDER environment variable.
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  if (!name) {
+    throw new Error('Embedding provider name is required');
+  }
+  providerFactories.set(name, factory);
+}
+
+/**
+ * List the names of all registered embedding providers
+ */
+export function listEmbeddingProviders(): string[] {
+  return Array.from(providerFactories.keys());
+}
+
+/**
+ * Create the configured embedding provider.
+ * Falls back to the offline hashed n-gram provider when nothing is configured.
+ */
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || DEFAULT_EMBEDDING_PROVIDER,
+  dimensions: number | undefined = process.env.EMBEDDING_DIMENSIONS
+    ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10)
+    : undefined,
+): EmbeddingProvider {
+  const factory = providerFactories.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unknown embedding provider: ${name}. Registered providers: ${listEmbeddingProviders().join(', ')}`,
+    );
+  }
+  return factory({ dimensions });
+}
@@ -0,0 +1,89 @@
+import { fnv1aHash, l2Normalize } from '../../utils/vector.utils';
+import { EmbeddingProvider } from './embedding-provider.interface';
+
+const DEFAULT_DIMENSIONS = 384;
+// A single shared keyword scores around 0.45 against a short entity text, unrelated texts stay below 0.1
+const DEFAULT_THRESHOLD = 0.2;
+const WORD_FEATURE_WEIGHT = 1.0;
+const NGRAM_FEATURE_WEIGHT = 0.5;
+
+/**
+ * Offline embedding provider based on feature hashing
+ *
+ * Each text is split into lowercase word tokens; every token contributes its own
+ * feature plus its character trigrams (with word-boundary markers), so that
+ * morphological variants such as "authenticate" / "authentication" share most
+ * of their features. Features are hashed into a fixed number of buckets with a
+ * signed hash to reduce collision bias, weighted by sublinear term frequency and
+ * L2-normalized. No network access or model download is required and the output
+ * is fully deterministic.
+ */
+export class HashedNgramEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram';
+  readonly dimensions: number;
+  readonly defaultThreshold = DEFAULT_THRESHOLD;
+
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    if (!Number.isInteger(dimensions) || dimensions < 16) {
+      throw new Error('HashedNgramEmbeddingProvider requires at least 16 integer dimensions');
+    }
+    this.dimensions = dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  /**
+   * Embed a single text synchronously
+   */
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const features = new Map<string, number>();
+
+    for (const token of tokenize(text)) {
+      addFeature(features, `w:${token}`);
+      for (const gram of characterTrigrams(token)) {
+        addFeature(features, `c:${gram}`);
+      }
+    }
+
+    for (const [feature, count] of Array.from(features.entries())) {
+      const hash = fnv1aHash(feature);
+      const bucket = hash % this.dimensions;
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      const weight = feature.startsWith('w:') ? WORD_FEATURE_WEIGHT : NGRAM_FEATURE_WEIGHT;
+      // Sublinear term frequency dampens repeated terms
+      vector[bucket] += sign * weight * (1 + Math.log(count));
+    }
+
+    return l2Normalize(vector);
+  }
+}
+
+/**
+ * Split text into lowercase alphanumeric tokens, breaking camelCase and snake/kebab case
+ */
+export function tokenize(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1);
+}
+
+function characterTrigrams(token: string): string[] {
+  const padded = `<${token}>`;
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.push(padded.substring(i, i + 3));
+  }
+  return grams;
+}
+
+function addFeature(features: Map<string, number>, feature: string): void {
+  features.set(feature, (features.get(feature) || 0) + 1);
+}
@@ -49,6 +49,8 @@ export interface GetRelatedItemsParams extends GraphOperationParams {
   depth?: number;
   relationshipFilter?: string;
   targetNodeTypeFilter?: string;
+  /** Direction of the relationships followed from the start item; defaults to BOTH */
+  direction?: 'OUTGOING' | 'INCOMING' | 'BOTH';
 }
 
 export interface RelatedItem {
@@ -44,6 +44,7 @@ export async function addFileOp(
       branch: branch,
       name: fileData.name,
       path: fileData.path,
+      language: fileData.language || null,
       content: fileData.content || null,
       metrics: fileData.metrics || null,
     };
@@ -19,8 +19,15 @@ export class GraphRelationshipService extends BaseGraphOperations {
     params: GetRelatedItemsParams,
   ): Promise<RelatedItemsResult> {
     const logger = this.createOperationLogger(mcpContext, 'getRelatedItems', params);
-    const { repository, branch, startItemId, depth, relationshipFilter, targetNodeTypeFilter } =
-      params;
+    const {
+      repository,
+      branch,
+      startItemId,
+      depth,
+      relationshipFilter,
+      targetNodeTypeFilter,
+      direction,
+    } = params;
     const repoId = this.createRepoId(repository, branch);
 
     logger.info(`Getting related items for ${startItemId} in ${repoId}`);
@@ -28,55 +35,49 @@ export class GraphRelationshipService extends BaseGraphOperations {
     try {
       const maxDepth = depth || 1;
 
-      // Build a basic query for related items using variable path length
+      // Items are scoped by graph_unique_id, since not every write path sets the
+      // repository and branch properties the same way
+      const relType = (relationshipFilter || '').replace(/[^a-zA-Z0-9_]/g, '');
+      const rels = `[rels${relType ? `:${relType}` : ''}*1..${maxDepth}]`;
+      const path =
+        direction === 'OUTGOING'
+          ? `-${rels}->`
+          : direction === 'INCOMING'
+            ? `<-${rels}-`
+            : `-${rels}-`;
       let query = `
-        MATCH (start {id: $startItemId})-[rels*1..${maxDepth}]-(relatedItem)
-        WHERE start.repository = $repoId AND start.branch = $branch 
-          AND relatedItem.repository = $repoId AND relatedItem.branch = $branch
+        MATCH (start {graph_unique_id: $startGraphUniqueId})${path}(relatedItem)
+        WHERE relatedItem.graph_unique_id STARTS WITH $scopePrefix
           AND start <> relatedItem
       `;
 
-      // Add relationship filter if specified
-      if (relationshipFilter) {
-        query += ` AND ALL(rel IN rels WHERE TYPE(rel) = '${relationshipFilter.replace(/'/g, "''")}')`;
-      }
-
       // Add target node type filter if specified
       if (targetNodeTypeFilter) {
-        query += ` AND '${targetNodeTypeFilter.replace(/'/g, "''")}' IN LABELS(relatedItem)`;
+        query += ` AND LABEL(relatedItem) = '${targetNodeTypeFilter.replace(/'/g, "''")}'`;
       }
 
       query += `
-        RETURN DISTINCT relatedItem, LABELS(relatedItem) AS nodeLabels, LENGTH(rels) AS pathLength
-        ORDER BY pathLength, relatedItem.name
+        RETURN relatedItem, LABEL(relatedItem) AS nodeLabel, MIN(LENGTH(rels)) AS pathLength
+        ORDER BY pathLength, relatedItem.id
       `;
 
-      const queryParams = { startItemId, repoId, branch };
+      const queryParams = {
+        startGraphUniqueId: `${repository}:${branch}:${startItemId}`,
+        scopePrefix: `${repository}:${branch}:`,
+      };
       logger.debug(`Related items query: ${query.trim()}`, queryParams);
 
       const results = await this.kuzuClient.executeQuery(query, queryParams);
 
       const relatedItems = results.map((row: any) => {
         const itemData = row.relatedItem.properties || row.relatedItem;
-        const nodeLabels = row.nodeLabels || [];
-        const pathLength = row.pathLength || 1;
-
-        // Determine item type from node labels
-        let itemType = 'Unknown';
-        if (nodeLabels.includes('Component')) {
-          itemType = 'Component';
-        } else if (nodeLabels.includes('Decision')) {
-          itemType = 'Decision';
-        } else if (nodeLabels.includes('Rule')) {
-          itemType = 'Rule';
-        } else if (nodeLabels.includes('Context')) {
-          itemType = 'Context';
-        }
+        const pathLength = Number(row.pathLength) || 1;
 
         return {
           id: itemData.id?.toString() || `generated-item-${Math.random()}`,
-          name: itemData.name || '',
-          type: itemType,
+          // Decisions and rules carry a title instead of a name
+          name: itemData.name || itemData.title || '',
+          type: row.nodeLabel || 'Unknown',
           distance: pathLength,
           repository: repoId,
           branch: branch,
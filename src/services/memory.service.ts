@@ -1,10 +1,15 @@
 import { ToolHandlerContext } from '../mcp/types/sdk-custom';
+import { MemoryChangeNotifier } from './core/memory-change-notifier';
 import { ServiceContainer } from './core/service-container';
 import {
+  IBranchService,
+  IBulkImportService,
   IContextService,
+  IEmbeddingService,
   IEntityService,
   IGraphAnalysisService,
   IGraphQueryService,
+  IMemoryTransferService,
   IMetadataService,
   IServiceContainer,
 } from './core/service-container.interface';
@@ -51,6 +56,7 @@ export class MemoryService {
       context: await this.context,
       graphQuery: await this.graphQuery,
       graphAnalysis: await this.graphAnalysis,
+      embedding: await this.embedding,
     };
   }
 
@@ -102,6 +108,44 @@ export class MemoryService {
     return this.serviceContainer.getGraphAnalysisService();
   }
 
+  public get embedding(): Promise<IEmbeddingService> {
+    if (!this.serviceContainer) {
+      throw new Error('MemoryService not initialized - call getInstance() first');
+    }
+    return this.serviceContainer.getEmbeddingService();
+  }
+
+  public get branch(): Promise<IBranchService> {
+    if (!this.serviceContainer) {
+      throw new Error('MemoryService not initialized - call getInstance() first');
+    }
+    return this.serviceContainer.getBranchService();
+  }
+
+  public get transfer(): Promise<IMemoryTransferService> {
+    if (!this.serviceContainer) {
+      throw new Error('MemoryService not initialized - call getInstance() first');
+    }
+    return this.serviceContainer.getMemoryTransferService();
+  }
+
+  public get bulkImport(): Promise<IBulkImportService> {
+    if (!this.serviceContainer) {
+      throw new Error('MemoryService not initialized - call getInstance() first');
+    }
+    return this.serviceContainer.getBulkImportService();
+  }
+
+  /**
+   * Publisher of memory mutations, used for resource change notifications
+   */
+  public get changes(): MemoryChangeNotifier {
+    if (!this.serviceContainer) {
+      throw new Error('MemoryService not initialized - call getInstance() first');
+    }
+    return this.serviceContainer.getChangeNotifier();
+  }
+
   private constructor() {
     // No initialization here - will be done in initialize()
   }
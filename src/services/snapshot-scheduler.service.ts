@@ -0,0 +1,109 @@
+import { randomUUID } from 'node:crypto';
+import { type Logger } from 'pino';
+
+import { type ToolHandlerContext } from '../mcp/types/sdk-custom';
+import { MemoryService } from './memory.service';
+import { type SnapshotPolicyRunResult } from './snapshot.service';
+
+/** How often snapshot policies are enforced, by default */
+export const DEFAULT_SNAPSHOT_POLICY_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Interval of the snapshot policy job: SNAPSHOT_POLICY_INTERVAL_MS, 0 disables it
+ */
+export function snapshotPolicyIntervalFromEnv(): number {
+  const interval = parseInt(process.env.SNAPSHOT_POLICY_INTERVAL_MS ?? '', 10);
+  return isNaN(interval) ? DEFAULT_SNAPSHOT_POLICY_INTERVAL_MS : interval;
+}
+
+/**
+ * Background job of the servers that enforces snapshot policies: scheduled snapshots
+ * and retention. Only the databases of project roots the server has seen are visited,
+ * because a database location is only known once a client supplied its project root.
+ */
+export class SnapshotScheduler {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly listProjectRoots: () => Array<{ clientProjectRoot: string }>,
+    private readonly logger: Logger,
+    private readonly getMemoryService: () => Promise<MemoryService> = () =>
+      MemoryService.getInstance(),
+  ) {}
+
+  /**
+   * Enforce policies every intervalMs; 0 or less disables the job. The timer does not
+   * keep the process alive.
+   */
+  start(intervalMs: number = snapshotPolicyIntervalFromEnv()): void {
+    this.stop();
+    if (intervalMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    this.timer.unref();
+    this.logger.info({ intervalMs }, 'Snapshot policy job started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Enforce the policies of every known project database once. Runs do not overlap;
+   * a run started while another is in progress returns nothing.
+   */
+  async runOnce(now: Date = new Date()): Promise<SnapshotPolicyRunResult[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    const results: SnapshotPolicyRunResult[] = [];
+    try {
+      const memoryService = await this.getMemoryService();
+      const roots = new Set(this.listProjectRoots().map((scope) => scope.clientProjectRoot));
+      for (const clientProjectRoot of roots) {
+        try {
+          const snapshotService = await memoryService.getSnapshotService(
+            this.createContext(clientProjectRoot),
+            clientProjectRoot,
+          );
+          results.push(...(await snapshotService.runSnapshotPolicies(now)));
+        } catch (error) {
+          this.logger.warn(
+            { clientProjectRoot, error: error instanceof Error ? error.message : String(error) },
+            'Could not enforce snapshot policies',
+          );
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    const snapshots = results.filter((result) => result.snapshot).length;
+    const pruned = results.reduce((total, result) => total + result.pruned.length, 0);
+    if (snapshots > 0 || pruned > 0) {
+      this.logger.info({ snapshots, pruned }, 'Snapshot policies enforced');
+    }
+    return results;
+  }
+
+  private createContext(clientProjectRoot: string): ToolHandlerContext {
+    return {
+      logger: this.logger,
+      session: { clientProjectRoot },
+      sendProgress: async () => {
+        // Background runs do not report progress
+      },
+      signal: new AbortController().signal,
+      requestId: randomUUID(),
+    };
+  }
+}
@@ -1,5 +1,37 @@
 import { KuzuDBClient } from '../db/kuzu.js';
+import { EXPECTED_NODE_PROPERTIES } from '../db/schema-drift';
 import { logger } from '../utils/logger';
+import {
+  applySnapshotDelta,
+  diffSnapshotStates,
+  replaySnapshotChain,
+  snapshotEntityKey,
+  snapshotLabel,
+  type SnapshotDelta,
+  type SnapshotKind,
+  type SnapshotState,
+} from '../utils/snapshot-delta.utils';
+import {
+  isScheduledSnapshotDue,
+  planSnapshotRetention,
+  policyHasTrigger,
+  type SnapshotPolicy,
+  type SnapshotPolicySettings,
+  type SnapshotTrigger,
+} from '../utils/snapshot-retention.utils';
+
+/** Deltas a chain may hold before the next snapshot starts a new base */
+export const DEFAULT_MAX_SNAPSHOT_CHAIN_LENGTH = 10;
+
+/**
+ * Kuzu types a list parameter by its first element, so [0, 0.5] binds as INT64[]; these
+ * are restored from their JSON text instead
+ */
+const NUMERIC_LIST_TYPES = new Set(['DOUBLE[]', 'FLOAT[]']);
+
+type QueryExecutor = {
+  executeQuery: (query: string, params?: Record<string, any>) => Promise<any>;
+};
 
 export interface SnapshotResult {
   snapshotId: string;
@@ -7,6 +39,10 @@ export interface SnapshotResult {
   relationshipsCount: number;
   created: string;
   description: string;
+  kind: SnapshotKind;
+  /** Snapshot the delta applies to */
+  parentId?: string;
+  size: number; // Stored size in bytes
 }
 
 export interface RollbackResult {
@@ -15,6 +51,8 @@ export interface RollbackResult {
   restoredRelationships: number;
   rollbackTime: string;
   snapshotId: string;
+  /** Snapshots replayed to rebuild the state: the base and its deltas */
+  replayedSnapshots: number;
 }
 
 export interface SnapshotInfo {
@@ -25,7 +63,9 @@ export interface SnapshotInfo {
   created: string;
   entitiesCount: number;
   relationshipsCount: number;
-  size: number; // Size in bytes
+  size: number; // Stored size in bytes
+  kind: SnapshotKind;
+  parentId?: string;
 }
 
 export interface ValidationResult {
@@ -46,6 +86,52 @@ export interface SnapshotData {
   entities: any[];
   relationships: any[];
   metadata: any;
+  kind?: SnapshotKind;
+  parentId?: string;
+  /** IDs of the snapshots replayed to build the state, base first */
+  chain?: string[];
+}
+
+export interface SnapshotCompactionResult {
+  repository: string;
+  branch: string;
+  maxChainLength: number;
+  /** Deltas rewritten as bases */
+  compactedSnapshots: string[];
+  sizeBefore: number;
+  sizeAfter: number;
+}
+
+export interface SnapshotRetentionResult {
+  repository: string;
+  branch: string;
+  dryRun: boolean;
+  kept: string[];
+  /** Snapshots deleted, or that would be deleted in a dry run, newest first */
+  pruned: string[];
+}
+
+export interface SnapshotPolicyRunResult {
+  repository: string;
+  branch: string;
+  /** Scheduled snapshot taken by this run */
+  snapshot?: SnapshotResult;
+  pruned: string[];
+  error?: string;
+}
+
+/** A Snapshot row; data holds a SnapshotState for bases and a SnapshotDelta for deltas */
+interface StoredSnapshot {
+  id: string;
+  repository: string;
+  branch: string;
+  description: string;
+  created: string;
+  /** null for snapshots stored before deltas, which hold the full state */
+  kind: SnapshotKind | null;
+  parentId: string | null;
+  size: number;
+  data: string;
 }
 
 /**
@@ -53,11 +139,24 @@ export interface SnapshotData {
  *
  * Provides safe backup and restore capabilities for memory graphs,
  * enabling confident optimization with rollback guarantees.
+ *
+ * The first snapshot of a branch stores its full state; later ones store only the
+ * entities and relationships changed since the previous snapshot, until a chain holds
+ * maxChainLength deltas and the next snapshot starts a new base.
+ *
+ * Snapshot policies, stored per repository/branch, add scheduled snapshots, snapshots
+ * before bulk deletes and imports, and retention rules; see runSnapshotPolicies.
  */
 export class SnapshotService {
   private snapshotLogger = logger.child({ service: 'SnapshotService' });
-
-  constructor(private kuzuClient: KuzuDBClient) {
+  private schemaEnsured = false;
+  private readonly maxChainLength: number;
+
+  constructor(
+    private kuzuClient: KuzuDBClient,
+    options: { maxChainLength?: number } = {},
+  ) {
+    this.maxChainLength = options.maxChainLength ?? DEFAULT_MAX_SNAPSHOT_CHAIN_LENGTH;
     this.snapshotLogger.info('SnapshotService initialized');
   }
 
@@ -96,19 +195,40 @@ export class SnapshotService {
       // Get repository metadata
       const metadata = await this.getRepositoryMetadata(repository, branch);
 
-      // Store snapshot data
-      const snapshotData: SnapshotData = {
-        snapshotId,
+      // Compare and store what a stored snapshot reads back: dates become ISO strings
+      const state: SnapshotState = JSON.parse(
+        JSON.stringify({ entities, relationships, metadata }),
+      );
+      const fullData = JSON.stringify(state);
+
+      // Store only the changes when a delta is smaller than the full state
+      let kind: SnapshotKind = 'base';
+      let parentId: string | undefined;
+      let data = fullData;
+      const parentChain = await this.findDeltaParentChain(repository, branch);
+      if (parentChain) {
+        const delta = diffSnapshotStates(this.replayChain(parentChain), state);
+        const deltaData = JSON.stringify(delta);
+        if (deltaData.length < fullData.length) {
+          kind = 'delta';
+          parentId = parentChain[parentChain.length - 1].id;
+          data = deltaData;
+        }
+      }
+
+      await this.storeSnapshot({
+        id: snapshotId,
         repository,
         branch,
         description,
         created,
-        entities,
-        relationships,
-        metadata,
-      };
-
-      await this.storeSnapshot(snapshotData);
+        kind,
+        parentId: parentId ?? null,
+        size: data.length,
+        data,
+        entitiesCount: entities.length,
+        relationshipsCount: relationships.length,
+      });
 
       const result: SnapshotResult = {
         snapshotId,
@@ -116,12 +236,20 @@ export class SnapshotService {
         relationshipsCount: relationships.length,
         created,
         description,
+        kind,
+        ...(parentId ? { parentId } : {}),
+        size: data.length,
       };
 
-      snapshotLogger.info('Snapshot created successfully', {
-        entitiesCount: entities.length,
-        relationshipsCount: relationships.length,
-      });
+      snapshotLogger.info(
+        {
+          entitiesCount: entities.length,
+          relationshipsCount: relationships.length,
+          kind,
+          size: data.length,
+        },
+        'Snapshot created successfully',
+      );
 
       return result;
     } catch (error) {
@@ -142,24 +270,29 @@ export class SnapshotService {
     try {
       rollbackLogger.info('Starting rollback to snapshot');
 
-      // Get snapshot data
-      const snapshot = await this.getSnapshot(snapshotId);
+      // Replay the snapshot chain into the state to restore
+      await this.ensureSnapshotSchema();
+      const snapshot = await this.loadSnapshotData(snapshotId);
       if (!snapshot) {
         throw new Error(`Snapshot ${snapshotId} not found`);
       }
 
       // Validate snapshot before rollback
-      const validation = await this.validateSnapshot(snapshotId);
-      if (!validation.valid) {
-        throw new Error(`Snapshot validation failed: ${validation.issues.join(', ')}`);
+      const issues = this.validateSnapshotData(snapshot);
+      if (issues.length > 0) {
+        throw new Error(`Snapshot validation failed: ${issues.join(', ')}`);
       }
 
-      rollbackLogger.info('Snapshot validation passed, beginning rollback', {
-        repository: snapshot.repository,
-        branch: snapshot.branch,
-        entitiesCount: snapshot.entities.length,
-        relationshipsCount: snapshot.relationships.length,
-      });
+      rollbackLogger.info(
+        {
+          repository: snapshot.repository,
+          branch: snapshot.branch,
+          entitiesCount: snapshot.entities.length,
+          relationshipsCount: snapshot.relationships.length,
+          replayedSnapshots: snapshot.chain?.length,
+        },
+        'Snapshot validation passed, beginning rollback',
+      );
 
       // Execute rollback within a transaction
       const result = await this.kuzuClient.transaction(async (tx) => {
@@ -178,7 +311,7 @@ export class SnapshotService {
         // Restore relationships
         let restoredRelationships = 0;
         for (const relationship of snapshot.relationships) {
-          await this.restoreRelationship(relationship, tx);
+          await this.restoreRelationship(relationship, snapshot.branch, tx);
           restoredRelationships++;
         }
         rollbackLogger.debug(`Restored ${restoredRelationships} relationships`);
@@ -189,6 +322,7 @@ export class SnapshotService {
           restoredRelationships,
           rollbackTime: new Date().toISOString(),
           snapshotId,
+          replayedSnapshots: snapshot.chain?.length ?? 1,
         };
 
         rollbackLogger.info('Rollback completed successfully', {
@@ -221,7 +355,7 @@ export class SnapshotService {
         RETURN s.id AS id, s.repository AS repository, s.branch AS branch,
                s.description AS description, s.created AS created,
                s.entitiesCount AS entitiesCount, s.relationshipsCount AS relationshipsCount,
-               s.size AS size
+               s.size AS size, s.kind AS kind, s.parentId AS parentId
         ORDER BY s.created DESC
       `;
 
@@ -235,6 +369,8 @@ export class SnapshotService {
         entitiesCount: row.entitiesCount || 0,
         relationshipsCount: row.relationshipsCount || 0,
         size: row.size || 0,
+        kind: row.kind || 'base',
+        ...(row.parentId ? { parentId: row.parentId } : {}),
       }));
     } catch (error) {
       this.snapshotLogger.error('Failed to list snapshots:', error);
@@ -262,21 +398,7 @@ export class SnapshotService {
         };
       }
 
-      const issues: string[] = [];
-
-      // Validate entity integrity
-      const entityValidation = await this.validateEntityIntegrity(snapshot.entities);
-      if (!entityValidation.valid) {
-        issues.push(...entityValidation.issues);
-      }
-
-      // Validate relationship integrity
-      const relationshipValidation = await this.validateRelationshipIntegrity(
-        snapshot.relationships,
-      );
-      if (!relationshipValidation.valid) {
-        issues.push(...relationshipValidation.issues);
-      }
+      const issues = this.validateSnapshotData(snapshot);
 
       return {
         valid: issues.length === 0,
@@ -298,23 +420,58 @@ export class SnapshotService {
   }
 
   /**
-   * Delete a snapshot
+   * Delete a snapshot. Deltas based on it are rewritten against its parent, or as
+   * bases when it was a base, so they can still be restored.
    */
   async deleteSnapshot(snapshotId: string): Promise<boolean> {
     try {
       // Ensure snapshot schema exists before querying
       await this.ensureSnapshotSchema();
 
+      const chain = await this.loadSnapshotChain(snapshotId);
+      if (!chain) {
+        return false;
+      }
+      const deleted = chain[chain.length - 1];
+      const children = await this.loadChildSnapshots(snapshotId);
+
+      const state = this.replayChain(chain);
+      const parentChain = chain.slice(0, -1);
+      const parentState = parentChain.length > 0 ? this.replayChain(parentChain) : null;
+      const rebased = children.map((child) => {
+        const childState = applySnapshotDelta(state, this.parseDelta(child));
+        return {
+          ...child,
+          ...this.encodeAgainst(parentState, childState),
+          parentId: parentState ? deleted.parentId : null,
+        };
+      });
+
       const query = `
         MATCH (s:Snapshot {id: $snapshotId})
         DELETE s
         RETURN COUNT(s) AS deletedCount
       `;
 
-      const result = await this.kuzuClient.executeQuery(query, { snapshotId });
+      const result = await this.kuzuClient.transaction(async (tx) => {
+        for (const child of rebased) {
+          await this.updateSnapshotData(child, tx);
+        }
+        const deleteResult = await tx.executeQuery(query, { snapshotId });
+        return typeof deleteResult?.getAll === 'function'
+          ? await deleteResult.getAll()
+          : deleteResult;
+      });
       const deletedCount = result[0]?.deletedCount || 0;
 
-      this.snapshotLogger.info('Snapshot deleted', { snapshotId, deletedCount });
+      this.snapshotLogger.info(
+        {
+          snapshotId,
+          deletedCount,
+          rebasedSnapshots: rebased.map((child) => child.id),
+        },
+        'Snapshot deleted',
+      );
       return deletedCount > 0;
     } catch (error) {
       this.snapshotLogger.error('Failed to delete snapshot:', error);
@@ -322,6 +479,76 @@ export class SnapshotService {
     }
   }
 
+  /**
+   * Rewrite the deltas of a branch that sit more than maxChainLength deltas from their
+   * base as bases, so restoring any snapshot replays at most maxChainLength deltas
+   */
+  async compactSnapshots(
+    repository: string,
+    branch: string,
+    maxChainLength: number = this.maxChainLength,
+  ): Promise<SnapshotCompactionResult> {
+    try {
+      await this.ensureSnapshotSchema();
+
+      const rows = await this.kuzuClient.executeQuery(
+        `
+        MATCH (s:Snapshot)
+        WHERE s.repository = $repository AND s.branch = $branch
+        RETURN s.id AS id, s.kind AS kind, s.parentId AS parentId, s.size AS size
+        ORDER BY s.created ASC
+      `,
+        { repository, branch },
+      );
+
+      // Deltas since the base, following parents; parents are always older
+      const depths = new Map<string, number>();
+      const compactedSnapshots: string[] = [];
+      let sizeBefore = 0;
+      let sizeAfter = 0;
+      for (const row of rows) {
+        sizeBefore += row.size || 0;
+        const parentDepth = row.parentId ? depths.get(row.parentId) : undefined;
+        let depth = row.kind === 'delta' && parentDepth !== undefined ? parentDepth + 1 : 0;
+        let size = row.size || 0;
+
+        if (depth > maxChainLength) {
+          const chain = await this.loadSnapshotChain(row.id);
+          if (chain) {
+            const data = JSON.stringify(this.replayChain(chain));
+            await this.updateSnapshotData({
+              ...chain[chain.length - 1],
+              kind: 'base',
+              parentId: null,
+              size: data.length,
+              data,
+            });
+            compactedSnapshots.push(row.id);
+            depth = 0;
+            size = data.length;
+          }
+        }
+        depths.set(row.id, depth);
+        sizeAfter += size;
+      }
+
+      this.snapshotLogger.info(
+        {
+          repository,
+          branch,
+          maxChainLength,
+          compactedSnapshots,
+        },
+        'Snapshots compacted',
+      );
+
+      return { repository, branch, maxChainLength, compactedSnapshots, sizeBefore, sizeAfter };
+    } catch (error) {
+      this.snapshotLogger.error({ error }, 'Failed to compact snapshots');
+      throw new Error(`Failed to compact snapshots: ${error}`);
+    }
+  }
+
   /**
    * Get snapshot size and statistics
    */
@@ -332,21 +559,31 @@ export class SnapshotService {
     entityTypes: Record<string, number>;
     relationshipTypes: Record<string, number>;
     created: string;
+    kind: SnapshotKind;
+    /** Bytes stored for this snapshot */
     size: number;
+    /** Bytes of the full state it restores */
+    fullSize: number;
+    /** Bytes read to restore it: its base and deltas */
+    chainSize: number;
+    /** Deltas replayed on top of the base */
+    chainLength: number;
   } | null> {
     try {
       // Ensure snapshot schema exists before querying
       await this.ensureSnapshotSchema();
 
-      const snapshot = await this.getSnapshot(snapshotId);
-      if (!snapshot) {
+      const chain = await this.loadSnapshotChain(snapshotId);
+      if (!chain) {
         return null;
       }
+      const stored = chain[chain.length - 1];
+      const snapshot = this.replayChain(chain);
 
       // Count entity types
       const entityTypes: Record<string, number> = {};
       for (const entity of snapshot.entities) {
-        const type = entity.nodeLabels?.[0] || 'Unknown';
+        const type = snapshotLabel(entity) || 'Unknown';
         entityTypes[type] = (entityTypes[type] || 0) + 1;
       }
 
@@ -357,17 +594,18 @@ export class SnapshotService {
         relationshipTypes[type] = (relationshipTypes[type] || 0) + 1;
       }
 
-      // Calculate approximate size
-      const size = JSON.stringify(snapshot).length;
-
       return {
         snapshotId,
         entityCount: snapshot.entities.length,
         relationshipCount: snapshot.relationships.length,
         entityTypes,
         relationshipTypes,
-        created: snapshot.created,
-        size,
+        created: stored.created,
+        kind: stored.kind || 'base',
+        size: stored.data.length,
+        fullSize: JSON.stringify(snapshot).length,
+        chainSize: chain.reduce((total, link) => total + link.data.length, 0),
+        chainLength: chain.length - 1,
       };
     } catch (error) {
       this.snapshotLogger.error('Failed to get snapshot stats:', error);
@@ -375,10 +613,190 @@ export class SnapshotService {
     }
   }
 
+  /**
+   * List the snapshot policies of a repository, or of every repository
+   */
+  async listSnapshotPolicies(repository?: string): Promise<SnapshotPolicy[]> {
+    try {
+      await this.ensureSnapshotSchema();
+
+      const rows = await this.kuzuClient.executeQuery(
+        `
+        MATCH (p:SnapshotPolicy)
+        ${repository ? 'WHERE p.repository = $repository' : ''}
+        RETURN p
+        ORDER BY p.repository, p.branch
+      `,
+        repository ? { repository } : {},
+      );
+      return rows.map((row: any) => this.toSnapshotPolicy(row.p));
+    } catch (error) {
+      this.snapshotLogger.error({ error }, 'Failed to list snapshot policies');
+      throw new Error(`Failed to list snapshot policies: ${error}`);
+    }
+  }
+
+  async getSnapshotPolicy(repository: string, branch: string): Promise<SnapshotPolicy | null> {
+    await this.ensureSnapshotSchema();
+
+    const rows = await this.kuzuClient.executeQuery('MATCH (p:SnapshotPolicy {id: $id}) RETURN p', {
+      id: `${repository}:${branch}`,
+    });
+    return rows.length > 0 ? this.toSnapshotPolicy(rows[0].p) : null;
+  }
+
+  /**
+   * Create or update the snapshot policy of a repository/branch. Omitted settings keep
+   * their current value; a given retention replaces the current rules.
+   */
+  async setSnapshotPolicy(
+    repository: string,
+    branch: string,
+    settings: SnapshotPolicySettings,
+  ): Promise<SnapshotPolicy> {
+    try {
+      const current = await this.getSnapshotPolicy(repository, branch);
+      const policy: SnapshotPolicy = {
+        repository,
+        branch,
+        schedule: settings.schedule ?? current?.schedule ?? 'none',
+        beforeBulkDelete: settings.beforeBulkDelete ?? current?.beforeBulkDelete ?? false,
+        beforeBulkImport: settings.beforeBulkImport ?? current?.beforeBulkImport ?? false,
+        retention: settings.retention ?? current?.retention ?? {},
+        ...(current?.lastScheduledAt ? { lastScheduledAt: current.lastScheduledAt } : {}),
+        updated: new Date().toISOString(),
+      };
+      await this.storeSnapshotPolicy(policy);
+
+      this.snapshotLogger.info({ policy }, 'Snapshot policy saved');
+      return policy;
+    } catch (error) {
+      this.snapshotLogger.error({ error }, 'Failed to save snapshot policy');
+      throw new Error(`Failed to save snapshot policy: ${error}`);
+    }
+  }
+
+  async deleteSnapshotPolicy(repository: string, branch: string): Promise<boolean> {
+    try {
+      await this.ensureSnapshotSchema();
+
+      const result = await this.kuzuClient.executeQuery(
+        `
+        MATCH (p:SnapshotPolicy {id: $id})
+        DELETE p
+        RETURN COUNT(p) AS deletedCount
+      `,
+        { id: `${repository}:${branch}` },
+      );
+      return (result[0]?.deletedCount || 0) > 0;
+    } catch (error) {
+      this.snapshotLogger.error({ error }, 'Failed to delete snapshot policy');
+      throw new Error(`Failed to delete snapshot policy: ${error}`);
+    }
+  }
+
+  /**
+   * Snapshot the branches of a repository whose policy asks for a snapshot before the
+   * operation; all branches of the repository when branch is omitted
+   */
+  async createTriggeredSnapshots(
+    repository: string,
+    branch: string | undefined,
+    trigger: SnapshotTrigger,
+  ): Promise<SnapshotResult[]> {
+    const policies = (await this.listSnapshotPolicies(repository)).filter(
+      (policy) => (!branch || policy.branch === branch) && policyHasTrigger(policy, trigger),
+    );
+
+    const snapshots: SnapshotResult[] = [];
+    for (const policy of policies) {
+      snapshots.push(await this.createSnapshot(repository, policy.branch, `Before ${trigger}`));
+    }
+    return snapshots;
+  }
+
+  /**
+   * Delete the snapshots of a branch that no retention rule of its policy keeps. A
+   * branch without a policy or rules keeps every snapshot.
+   */
+  async applyRetention(
+    repository: string,
+    branch: string,
+    options: { now?: Date; dryRun?: boolean } = {},
+  ): Promise<SnapshotRetentionResult> {
+    const dryRun = options.dryRun ?? false;
+    try {
+      const policy = await this.getSnapshotPolicy(repository, branch);
+      const snapshots = await this.listSnapshots(repository, branch);
+      const plan = planSnapshotRetention(
+        snapshots,
+        policy?.retention ?? {},
+        options.now ?? new Date(),
+      );
+
+      if (!dryRun) {
+        // Oldest first, so each deletion rebases the fewest deltas
+        for (const snapshotId of [...plan.prune].reverse()) {
+          await this.deleteSnapshot(snapshotId);
+        }
+      }
+
+      if (plan.prune.length > 0) {
+        this.snapshotLogger.info(
+          { repository, branch, dryRun, pruned: plan.prune },
+          'Snapshot retention applied',
+        );
+      }
+      return { repository, branch, dryRun, kept: plan.keep, pruned: plan.prune };
+    } catch (error) {
+      this.snapshotLogger.error({ error }, 'Failed to apply snapshot retention');
+      throw new Error(`Failed to apply snapshot retention: ${error}`);
+    }
+  }
+
+  /**
+   * Enforce every snapshot policy of the database: take the scheduled snapshots that
+   * are due, then prune by retention. A failing policy does not stop the others.
+   */
+  async runSnapshotPolicies(now: Date = new Date()): Promise<SnapshotPolicyRunResult[]> {
+    const results: SnapshotPolicyRunResult[] = [];
+    for (const policy of await this.listSnapshotPolicies()) {
+      const result: SnapshotPolicyRunResult = {
+        repository: policy.repository,
+        branch: policy.branch,
+        pruned: [],
+      };
+      try {
+        if (isScheduledSnapshotDue(policy, now)) {
+          result.snapshot = await this.createSnapshot(
+            policy.repository,
+            policy.branch,
+            `Scheduled ${policy.schedule} snapshot`,
+          );
+          await this.storeSnapshotPolicy({ ...policy, lastScheduledAt: now.toISOString() });
+        }
+        result.pruned = (
+          await this.applyRetention(policy.repository, policy.branch, { now })
+        ).pruned;
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        this.snapshotLogger.warn(
+          { repository: policy.repository, branch: policy.branch, error: result.error },
+          'Snapshot policy run failed',
+        );
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
   /**
    * Ensure snapshot schema exists in the database
    */
   private async ensureSnapshotSchema(): Promise<void> {
+    if (this.schemaEnsured) {
+      return;
+    }
     try {
       // Create Snapshot node table if it doesn't exist
       await this.kuzuClient.executeQuery(`
@@ -392,9 +810,31 @@ export class SnapshotService {
           relationshipsCount INT64,
           size INT64,
           data STRING,
+          kind STRING,
+          parentId STRING,
+          PRIMARY KEY (id)
+        )
+      `);
+      // Tables created before delta snapshots
+      await this.kuzuClient.executeQuery('ALTER TABLE Snapshot ADD IF NOT EXISTS kind STRING');
+      await this.kuzuClient.executeQuery('ALTER TABLE Snapshot ADD IF NOT EXISTS parentId STRING');
+      await this.kuzuClient.executeQuery(`
+        CREATE NODE TABLE IF NOT EXISTS SnapshotPolicy (
+          id STRING,
+          repository STRING,
+          branch STRING,
+          schedule STRING,
+          beforeBulkDelete BOOLEAN,
+          beforeBulkImport BOOLEAN,
+          keepLast INT64,
+          keepDaily INT64,
+          keepWeekly INT64,
+          lastScheduledAt STRING,
+          updated STRING,
           PRIMARY KEY (id)
         )
       `);
+      this.schemaEnsured = true;
       this.snapshotLogger.debug('Snapshot schema ensured successfully');
     } catch (error) {
       // Table might already exist, which is fine
@@ -409,40 +849,53 @@ export class SnapshotService {
     const query = `
       MATCH (n)
       WHERE n.repository = $repository AND n.branch = $branch
-      RETURN n, labels(n) AS nodeLabels
+        AND label(n) <> 'Snapshot' AND label(n) <> 'SnapshotPolicy' AND label(n) <> 'Metadata'
+      RETURN n, label(n) AS nodeLabel
     `;
 
     const results = await this.kuzuClient.executeQuery(query, { repository, branch });
-    return results.map((row: any) => {
-      const { _id, _label, ...properties } = row.n;
-      return {
-        properties,
-        nodeLabels: row.nodeLabels,
-      };
-    });
+    return results.map((row: any) => ({
+      // An unlabelled MATCH returns the properties of every label, null where absent
+      properties: Object.fromEntries(
+        Object.entries(row.n).filter(
+          ([key, value]) => !key.startsWith('_') && value !== null && value !== undefined,
+        ),
+      ),
+      nodeLabels: [row.nodeLabel],
+    }));
   }
 
   /**
-   * Export all relationships for a repository/branch
+   * Export all relationships for a repository/branch, including the links of its
+   * entities to the repository node
    */
   private async exportAllRelationships(repository: string, branch: string): Promise<any[]> {
     const query = `
       MATCH (a)-[r]->(b)
       WHERE a.repository = $repository AND a.branch = $branch
-        AND b.repository = $repository AND b.branch = $branch
-      RETURN a.id AS fromId, b.id AS toId, label(r) AS relationshipType, r AS properties
+        AND ((b.repository = $repository AND b.branch = $branch) OR b.id = $repositoryId)
+      RETURN a.id AS fromId, label(a) AS fromLabel, a.graph_unique_id AS fromUniqueId,
+             b.id AS toId, label(b) AS toLabel, b.graph_unique_id AS toUniqueId,
+             label(r) AS relationshipType, r AS properties
     `;
 
-    const results = await this.kuzuClient.executeQuery(query, { repository, branch });
-    return results.map((row: any) => {
-      const { from, to, label, ...properties } = row.properties;
-      return {
-        fromId: row.fromId,
-        toId: row.toId,
-        relationshipType: row.relationshipType,
-        properties,
-      };
+    const results = await this.kuzuClient.executeQuery(query, {
+      repository,
+      branch,
+      repositoryId: `${repository}:${branch}`,
     });
+    return results.map((row: any) => ({
+      fromId: row.fromId,
+      toId: row.toId,
+      relationshipType: row.relationshipType,
+      fromLabel: row.fromLabel,
+      toLabel: row.toLabel,
+      ...(row.fromUniqueId ? { fromUniqueId: row.fromUniqueId } : {}),
+      ...(row.toUniqueId ? { toUniqueId: row.toUniqueId } : {}),
+      properties: Object.fromEntries(
+        Object.entries(row.properties || {}).filter(([key]) => !key.startsWith('_')),
+      ),
+    }));
   }
 
   /**
@@ -472,15 +925,9 @@ export class SnapshotService {
   /**
    * Store snapshot data in the database
    */
-  private async storeSnapshot(snapshotData: SnapshotData): Promise<void> {
-    const dataString = JSON.stringify({
-      entities: snapshotData.entities,
-      relationships: snapshotData.relationships,
-      metadata: snapshotData.metadata,
-    });
-
-    const size = dataString.length;
-
+  private async storeSnapshot(
+    snapshot: StoredSnapshot & { entitiesCount: number; relationshipsCount: number },
+  ): Promise<void> {
     const query = `
       CREATE (s:Snapshot {
         id: $id,
@@ -491,86 +938,259 @@ export class SnapshotService {
         entitiesCount: $entitiesCount,
         relationshipsCount: $relationshipsCount,
         size: $size,
-        data: $data
+        data: $data,
+        kind: $kind,
+        parentId: $parentId
       })
     `;
 
     await this.kuzuClient.executeQuery(query, {
-      id: snapshotData.snapshotId,
-      repository: snapshotData.repository,
-      branch: snapshotData.branch,
-      description: snapshotData.description,
-      created: snapshotData.created,
-      entitiesCount: snapshotData.entities.length,
-      relationshipsCount: snapshotData.relationships.length,
-      size,
-      data: dataString,
+      id: snapshot.id,
+      repository: snapshot.repository,
+      branch: snapshot.branch,
+      description: snapshot.description,
+      created: snapshot.created,
+      entitiesCount: snapshot.entitiesCount,
+      relationshipsCount: snapshot.relationshipsCount,
+      size: snapshot.size,
+      data: snapshot.data,
+      kind: snapshot.kind,
+      parentId: snapshot.parentId,
     });
   }
 
-  /**
-   * Get snapshot data from the database
-   */
-  private async getSnapshot(snapshotId: string): Promise<SnapshotData | null> {
-    try {
-      const query = `
-        MATCH (s:Snapshot {id: $snapshotId})
-        RETURN s.id AS id, s.repository AS repository, s.branch AS branch,
-               s.description AS description, s.created AS created, s.data AS data
-      `;
+  private async storeSnapshotPolicy(policy: SnapshotPolicy): Promise<void> {
+    await this.kuzuClient.executeQuery(
+      `
+      MERGE (p:SnapshotPolicy {id: $id})
+      SET p.repository = $repository,
+          p.branch = $branch,
+          p.schedule = $schedule,
+          p.beforeBulkDelete = $beforeBulkDelete,
+          p.beforeBulkImport = $beforeBulkImport,
+          p.keepLast = $keepLast,
+          p.keepDaily = $keepDaily,
+          p.keepWeekly = $keepWeekly,
+          p.lastScheduledAt = $lastScheduledAt,
+          p.updated = $updated
+    `,
+      {
+        id: `${policy.repository}:${policy.branch}`,
+        repository: policy.repository,
+        branch: policy.branch,
+        schedule: policy.schedule,
+        beforeBulkDelete: policy.beforeBulkDelete,
+        beforeBulkImport: policy.beforeBulkImport,
+        keepLast: policy.retention.keepLast ?? null,
+        keepDaily: policy.retention.keepDaily ?? null,
+        keepWeekly: policy.retention.keepWeekly ?? null,
+        lastScheduledAt: policy.lastScheduledAt ?? null,
+        updated: policy.updated,
+      },
+    );
+  }
 
-      const result = await this.kuzuClient.executeQuery(query, { snapshotId });
-      if (result.length === 0) {
-        return null;
+  private toSnapshotPolicy(row: any): SnapshotPolicy {
+    const retention: SnapshotPolicy['retention'] = {};
+    for (const rule of ['keepLast', 'keepDaily', 'keepWeekly'] as const) {
+      if (row[rule] !== null && row[rule] !== undefined) {
+        retention[rule] = Number(row[rule]);
       }
+    }
+    return {
+      repository: row.repository,
+      branch: row.branch,
+      schedule: row.schedule || 'none',
+      beforeBulkDelete: Boolean(row.beforeBulkDelete),
+      beforeBulkImport: Boolean(row.beforeBulkImport),
+      retention,
+      ...(row.lastScheduledAt ? { lastScheduledAt: row.lastScheduledAt } : {}),
+      updated: row.updated,
+    };
+  }
 
-      const row = result[0];
-      const parsedData = JSON.parse(row.data);
+  /**
+   * Replace the stored data of a snapshot, keeping the state it restores
+   */
+  private async updateSnapshotData(snapshot: StoredSnapshot, tx?: QueryExecutor): Promise<void> {
+    const executor = tx || this.kuzuClient;
+    await executor.executeQuery(
+      `
+      MATCH (s:Snapshot {id: $id})
+      SET s.kind = $kind, s.parentId = $parentId, s.size = $size, s.data = $data
+    `,
+      {
+        id: snapshot.id,
+        kind: snapshot.kind,
+        parentId: snapshot.parentId,
+        size: snapshot.data.length,
+        data: snapshot.data,
+      },
+    );
+  }
 
-      return {
-        snapshotId: row.id,
-        repository: row.repository,
-        branch: row.branch,
-        description: row.description,
-        created: row.created,
-        entities: parsedData.entities || [],
-        relationships: parsedData.relationships || [],
-        metadata: parsedData.metadata || {},
-      };
+  /**
+   * Get snapshot data from the database, replaying deltas onto their base
+   */
+  async getSnapshot(snapshotId: string): Promise<SnapshotData | null> {
+    try {
+      await this.ensureSnapshotSchema();
+      return await this.loadSnapshotData(snapshotId);
     } catch (error) {
       this.snapshotLogger.error('Failed to get snapshot:', error);
       return null;
     }
   }
 
+  private async loadSnapshotData(snapshotId: string): Promise<SnapshotData | null> {
+    const chain = await this.loadSnapshotChain(snapshotId);
+    if (!chain) {
+      return null;
+    }
+
+    const stored = chain[chain.length - 1];
+    const state = this.replayChain(chain);
+    return {
+      snapshotId: stored.id,
+      repository: stored.repository,
+      branch: stored.branch,
+      description: stored.description,
+      created: stored.created,
+      entities: state.entities,
+      relationships: state.relationships,
+      metadata: state.metadata || {},
+      kind: stored.kind || 'base',
+      ...(stored.parentId ? { parentId: stored.parentId } : {}),
+      chain: chain.map((link) => link.id),
+    };
+  }
+
+  private async loadStoredSnapshot(snapshotId: string): Promise<StoredSnapshot | null> {
+    const result = await this.kuzuClient.executeQuery(
+      `
+      MATCH (s:Snapshot {id: $snapshotId})
+      RETURN s.id AS id, s.repository AS repository, s.branch AS branch,
+             s.description AS description, s.created AS created, s.kind AS kind,
+             s.parentId AS parentId, s.size AS size, s.data AS data
+    `,
+      { snapshotId },
+    );
+    return result.length > 0 ? (result[0] as StoredSnapshot) : null;
+  }
+
+  private async loadChildSnapshots(snapshotId: string): Promise<StoredSnapshot[]> {
+    return this.kuzuClient.executeQuery(
+      `
+      MATCH (s:Snapshot)
+      WHERE s.parentId = $snapshotId
+      RETURN s.id AS id, s.repository AS repository, s.branch AS branch,
+             s.description AS description, s.created AS created, s.kind AS kind,
+             s.parentId AS parentId, s.size AS size, s.data AS data
+    `,
+      { snapshotId },
+    );
+  }
+
   /**
-   * Clear all entities and relationships for a repository/branch
+   * The snapshots needed to restore snapshotId: its base first, snapshotId last
    */
-  private async clearRepositoryState(
+  private async loadSnapshotChain(snapshotId: string): Promise<StoredSnapshot[] | null> {
+    const chain: StoredSnapshot[] = [];
+    let next: string | null = snapshotId;
+    while (next) {
+      if (chain.some((link) => link.id === next)) {
+        throw new Error(`Snapshot chain of ${snapshotId} has a cycle at ${next}`);
+      }
+      const stored = await this.loadStoredSnapshot(next);
+      if (!stored) {
+        if (chain.length === 0) {
+          return null;
+        }
+        throw new Error(`Snapshot chain of ${snapshotId} is broken: ${next} not found`);
+      }
+      chain.unshift(stored);
+      next = stored.kind === 'delta' ? stored.parentId : null;
+    }
+    return chain;
+  }
+
+  /**
+   * Chain of the latest snapshot of a branch when a new delta may build on it
+   */
+  private async findDeltaParentChain(
     repository: string,
     branch: string,
-    tx?: { executeQuery: (query: string, params?: Record<string, any>) => Promise<any> },
-  ): Promise<void> {
-    const executor = tx || this.kuzuClient;
-
-    // Delete all relationships first (to avoid constraint violations)
-    await executor.executeQuery(
+  ): Promise<StoredSnapshot[] | null> {
+    const result = await this.kuzuClient.executeQuery(
       `
-      MATCH (a)-[r]->(b)
-      WHERE a.repository = $repository AND a.branch = $branch
-        AND b.repository = $repository AND b.branch = $branch
-      DELETE r
+      MATCH (s:Snapshot)
+      WHERE s.repository = $repository AND s.branch = $branch
+      RETURN s.id AS id, s.kind AS kind
+      ORDER BY s.created DESC
+      LIMIT 1
     `,
       { repository, branch },
     );
+    // Snapshots stored before deltas use a different entity format
+    if (result.length === 0 || !result[0].kind) {
+      return null;
+    }
+    const chain = await this.loadSnapshotChain(result[0].id);
+    return chain && chain.length <= this.maxChainLength ? chain : null;
+  }
+
+  private parseDelta(stored: StoredSnapshot): SnapshotDelta {
+    const parsed = JSON.parse(stored.data);
+    return {
+      entities: parsed.entities || [],
+      removedEntities: parsed.removedEntities || [],
+      relationships: parsed.relationships || [],
+      removedRelationships: parsed.removedRelationships || [],
+      ...('metadata' in parsed ? { metadata: parsed.metadata } : {}),
+    };
+  }
+
+  private replayChain(chain: StoredSnapshot[]): SnapshotState {
+    const [base, ...deltas] = chain;
+    const parsed = JSON.parse(base.data);
+    return replaySnapshotChain(
+      {
+        entities: parsed.entities || [],
+        relationships: parsed.relationships || [],
+        metadata: parsed.metadata || {},
+      },
+      deltas.map((delta) => this.parseDelta(delta)),
+    );
+  }
+
+  /**
+   * Data storing state as a delta of parentState, or as a base without one
+   */
+  private encodeAgainst(
+    parentState: SnapshotState | null,
+    state: SnapshotState,
+  ): Pick<StoredSnapshot, 'kind' | 'size' | 'data'> {
+    const data = JSON.stringify(parentState ? diffSnapshotStates(parentState, state) : state);
+    return { kind: parentState ? 'delta' : 'base', size: data.length, data };
+  }
+
+  /**
+   * Clear all entities and relationships for a repository/branch
+   */
+  private async clearRepositoryState(
+    repository: string,
+    branch: string,
+    tx?: QueryExecutor,
+  ): Promise<void> {
+    const executor = tx || this.kuzuClient;
 
-    // Delete all entities
+    // Deleting the entities also deletes their relationships
     await executor.executeQuery(
       `
       MATCH (n)
       WHERE n.repository = $repository AND n.branch = $branch
-        AND label(n) <> 'Snapshot' AND label(n) <> 'Metadata'
-      DELETE n
+        AND label(n) <> 'Snapshot' AND label(n) <> 'SnapshotPolicy' AND label(n) <> 'Metadata'
+      DETACH DELETE n
     `,
       { repository, branch },
     );
@@ -579,17 +1199,29 @@ export class SnapshotService {
   /**
    * Restore a single entity
    */
-  private async restoreEntity(
-    entity: any,
-    tx?: { executeQuery: (query: string, params?: Record<string, any>) => Promise<any> },
-  ): Promise<void> {
+  private async restoreEntity(entity: any, tx?: QueryExecutor): Promise<void> {
     const executor = tx || this.kuzuClient;
-    const nodeLabel = entity.nodeLabels?.[0] || 'Entity';
-
-    // Build property assignments
-    const properties = entity.properties || {};
+    const nodeLabel = snapshotLabel(entity) || 'Entity';
+
+    // Snapshots store dates as ISO strings; Kuzu does not cast strings to TIMESTAMP or DATE
+    const types = EXPECTED_NODE_PROPERTIES[nodeLabel] ?? {};
+    const properties = Object.fromEntries(
+      Object.entries(entity.properties || {})
+        .filter(([key, value]) => !key.startsWith('_') && value !== null && value !== undefined)
+        .map(([key, value]) =>
+          typeof value === 'string' && (types[key] === 'TIMESTAMP' || types[key] === 'DATE')
+            ? [key, new Date(value)]
+            : NUMERIC_LIST_TYPES.has(types[key])
+              ? [key, JSON.stringify(value)]
+              : [key, value],
+        ),
+    );
     const propertyAssignments = Object.keys(properties)
-      .map((key) => `${key}: $${key}`)
+      .map((key) =>
+        NUMERIC_LIST_TYPES.has(types[key])
+          ? `${key}: CAST($${key} AS ${types[key]})`
+          : `${key}: $${key}`,
+      )
       .join(', ');
 
     const query = `
@@ -604,7 +1236,8 @@ export class SnapshotService {
    */
   private async restoreRelationship(
     relationship: any,
-    tx?: { executeQuery: (query: string, params?: Record<string, any>) => Promise<any> },
+    branch: string,
+    tx?: QueryExecutor,
   ): Promise<void> {
     const executor = tx || this.kuzuClient;
     const relType = relationship.relationshipType || 'RELATED_TO';
@@ -618,38 +1251,63 @@ export class SnapshotService {
             .join(', ')}}`
         : '';
 
+    // Snapshots stored before deltas have no endpoint labels
+    const endpoint = (name: string, label?: string, uniqueId?: string) =>
+      !label
+        ? `(${name} {id: $${name}Id})`
+        : uniqueId
+          ? `(${name}:${label} {graph_unique_id: $${name}UniqueId})`
+          : `(${name}:${label} {id: $${name}Id})`;
+    const scope = relationship.fromLabel ? '' : 'WHERE a.branch = $branch AND b.branch = $branch';
+
     const query = `
-      MATCH (a {id: $fromId}), (b {id: $toId})
+      MATCH ${endpoint('a', relationship.fromLabel, relationship.fromUniqueId)},
+            ${endpoint('b', relationship.toLabel, relationship.toUniqueId)}
+      ${scope}
       CREATE (a)-[r:${relType} ${propertyAssignments}]->(b)
     `;
 
     await executor.executeQuery(query, {
-      fromId: relationship.fromId,
-      toId: relationship.toId,
+      ...(relationship.fromUniqueId
+        ? { aUniqueId: relationship.fromUniqueId }
+        : { aId: relationship.fromId }),
+      ...(relationship.toUniqueId
+        ? { bUniqueId: relationship.toUniqueId }
+        : { bId: relationship.toId }),
+      ...(scope ? { branch } : {}),
       ...properties,
     });
   }
 
+  /**
+   * Integrity issues of snapshot data, empty when it can be restored
+   */
+  private validateSnapshotData(snapshot: SnapshotData): string[] {
+    return [
+      ...this.validateEntityIntegrity(snapshot.entities).issues,
+      ...this.validateRelationshipIntegrity(snapshot.relationships).issues,
+    ];
+  }
+
   /**
    * Validate entity integrity
    */
-  private async validateEntityIntegrity(
-    entities: any[],
-  ): Promise<{ valid: boolean; issues: string[] }> {
+  private validateEntityIntegrity(entities: any[]): { valid: boolean; issues: string[] } {
     const issues: string[] = [];
 
     // Check for required fields
     for (const entity of entities) {
-      if (!entity.id) {
+      const id = entity.properties?.id;
+      if (!id) {
         issues.push(`Entity missing required 'id' field`);
       }
       if (!entity.nodeLabels || entity.nodeLabels.length === 0) {
-        issues.push(`Entity ${entity.id} missing node labels`);
+        issues.push(`Entity ${id} missing node labels`);
       }
     }
 
-    // Check for duplicate IDs
-    const ids = entities.map((e) => e.id).filter(Boolean);
+    // Check for duplicate IDs within a label and scope
+    const ids = entities.filter((e) => e.properties?.id).map(snapshotEntityKey);
     const duplicateIds = ids.filter((id, index) => ids.indexOf(id) !== index);
     if (duplicateIds.length > 0) {
       issues.push(`Duplicate entity IDs found: ${duplicateIds.join(', ')}`);
@@ -661,9 +1319,10 @@ export class SnapshotService {
   /**
    * Validate relationship integrity
    */
-  private async validateRelationshipIntegrity(
-    relationships: any[],
-  ): Promise<{ valid: boolean; issues: string[] }> {
+  private validateRelationshipIntegrity(relationships: any[]): {
+    valid: boolean;
+    issues: string[];
+  } {
     const issues: string[] = [];
 
     // Check for required fields
@@ -181,6 +181,7 @@ export interface File extends BaseEntity {
   path: string;
   size?: number; // in bytes
   mime_type?: string;
+  language?: string | null;
   content?: string | null;
   metrics?: Record<string, any> | null;
 }
@@ -223,6 +224,7 @@ export interface FileInput {
   branch: string;
   name: string;
   path: string;
+  language?: string;
   content?: string;
   metrics?: Record<string, any>;
 }
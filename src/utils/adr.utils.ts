@@ -0,0 +1,452 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  relationshipKey,
+  type BranchEntity,
+  type BranchRelationship,
+  type BranchState,
+} from './branch-diff.utils';
+import { type MarkdownFile } from './memory-markdown.utils';
+
+/**
+ * Architecture decision records (ADRs) in the Nygard (adr-tools) and MADR styles, and
+ * their mapping onto Decision nodes.
+ *
+ * An ADR file maps to the decision whose id follows from its file name: `NNNN-title.md`
+ * becomes `adr-NNNN`, any other file name its stem. Stems starting with `_` hold the id
+ * verbatim, so ids such as `0002-use-redis` that would read as numbered ADRs keep their
+ * id; `%`, `/` and `\` are percent-encoded. The Context section is stored as the
+ * rationale, the Decision section as the outcome. Supersedes links become SUPERSEDES
+ * edges and affected components AFFECTS edges. Files written by renderAdrFiles import
+ * back to the same decisions and edges.
+ */
+
+export interface AdrRecord {
+  /** Decision id derived from the file name */
+  id: string;
+  fileName: string;
+  title: string;
+  /** Lower-case first word of the status, e.g. accepted */
+  status: string;
+  /** YYYY-MM-DD */
+  date: string | null;
+  context: string | null;
+  outcome: string | null;
+  consequences: string | null;
+  /** Ids of the decisions this record supersedes */
+  supersedes: string[];
+  /** Ids of the decisions superseding this record */
+  supersededBy: string[];
+  /**
+   * Component ids listed in an Affected Components section; null when the record has no
+   * such section and affected components are found from mentions in its text
+   */
+  components: string[] | null;
+}
+
+type AdrSection = 'status' | 'context' | 'outcome' | 'consequences' | 'components';
+
+const SECTION_HEADINGS: Record<string, AdrSection> = {
+  status: 'status',
+  context: 'context',
+  'context and problem statement': 'context',
+  'problem statement': 'context',
+  decision: 'outcome',
+  'decision outcome': 'outcome',
+  consequences: 'consequences',
+  'affected components': 'components',
+};
+
+const SUPERSEDE_LINK = /(supersedes|superseded by)\s+\[[^\]]*\]\(([^)\s]+)\)/gi;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Prefix of file name stems that hold the decision id verbatim
+ */
+const VERBATIM_PREFIX = '_';
+
+function decodeStem(stem: string): string {
+  return stem.replace(/%(25|2F|5C)/gi, (escape) => decodeURIComponent(escape));
+}
+
+export function adrIdFromFileName(fileName: string): string {
+  const stem = path.posix.basename(fileName.replace(/\\/g, '/')).replace(/\.md$/i, '');
+  if (stem.startsWith(VERBATIM_PREFIX)) {
+    return decodeStem(stem.slice(VERBATIM_PREFIX.length));
+  }
+  const numbered = /^(\d+)-/.exec(stem);
+  return numbered ? `adr-${numbered[1]}` : decodeStem(stem);
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'decision'
+  );
+}
+
+/**
+ * File name of the ADR of a decision; the inverse of adrIdFromFileName
+ */
+export function adrFileName(id: string, title: string): string {
+  const numbered = /^adr-(\d+)$/.exec(id);
+  if (numbered) {
+    return `${numbered[1]}-${slugify(title)}.md`;
+  }
+  const stem = id.replace(/[%\\/]/g, (character) => encodeURIComponent(character));
+  const verbatim = /^\d+-/.test(id) || id.startsWith(VERBATIM_PREFIX);
+  return `${verbatim ? VERBATIM_PREFIX : ''}${stem}.md`;
+}
+
+function adrHeading(id: string, title: string): string {
+  const numbered = /^adr-(\d+)$/.exec(id);
+  return numbered ? `${Number(numbered[1])}. ${title}` : title;
+}
+
+function joinText(lines: string[]): string | null {
+  const text = lines.join('\n').trim();
+  return text === '' ? null : text;
+}
+
+function parseStatus(value: string): string {
+  return (
+    value
+      .trim()
+      .split(/\s+/)[0]
+      .toLowerCase()
+      .replace(/[^a-z-]/g, '') || 'proposed'
+  );
+}
+
+function parseDay(value: string, fileName: string): string {
+  const day = value.trim().slice(0, 10);
+  if (!DATE_PATTERN.test(day) || Number.isNaN(new Date(day).getTime())) {
+    throw new Error(`Invalid date '${value.trim()}' in ${fileName}`);
+  }
+  return day;
+}
+
+/**
+ * Parse an ADR. Sections other than status, context, decision, consequences and affected
+ * components are kept, heading included, in the text of the section before them; after
+ * the status they go to the context and after affected components to the consequences.
+ * @throws when the file has no `# ` title
+ */
+export function parseAdr(fileName: string, text: string): AdrRecord {
+  let lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const fields: Record<string, string> = {};
+
+  // MADR 3 front matter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end > 0) {
+      for (const line of lines.slice(1, end)) {
+        const match = /^([A-Za-z-]+):\s*(.*)$/.exec(line);
+        if (match) {
+          fields[match[1].toLowerCase()] = match[2].replace(/^["']|["']$/g, '');
+        }
+      }
+      lines = lines.slice(end + 1);
+    }
+  }
+
+  const titleIndex = lines.findIndex((line) => /^#\s+\S/.test(line));
+  if (titleIndex < 0) {
+    throw new Error(`${fileName} has no title heading`);
+  }
+  const title = lines[titleIndex]
+    .replace(/^#\s+/, '')
+    .replace(/^(?:ADR[-\s]?)?\d+[.:]?\s+/i, '')
+    .trim();
+
+  const bodies: Record<AdrSection | 'preamble', string[]> = {
+    preamble: [],
+    status: [],
+    context: [],
+    outcome: [],
+    consequences: [],
+    components: [],
+  };
+  let current: AdrSection | 'preamble' = 'preamble';
+  let listsComponents = false;
+  let inFence = false;
+  for (const line of lines.slice(titleIndex + 1)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : /^#{2,3}\s+(.+?)\s*#*\s*$/.exec(line);
+    const section = heading ? SECTION_HEADINGS[heading[1].toLowerCase()] : undefined;
+    if (section) {
+      current = section;
+      listsComponents ||= section === 'components';
+      continue;
+    }
+    if (current === 'preamble') {
+      // Nygard `Date: ...` and MADR `* Status: ...` lines
+      const field = /^\s*(?:[-*]\s+)?(status|date)\s*:\s*(.+)$/i.exec(line);
+      if (field) {
+        fields[field[1].toLowerCase()] = field[2];
+        continue;
+      }
+    }
+    if (heading && (current === 'preamble' || current === 'status')) {
+      current = 'context';
+    } else if (heading && current === 'components') {
+      current = 'consequences';
+    }
+    bodies[current].push(line);
+  }
+
+  const statusText = [fields.status ?? '', ...bodies.status].join('\n');
+  const supersedes: string[] = [];
+  const supersededBy: string[] = [];
+  for (const [, kind, target] of statusText.matchAll(SUPERSEDE_LINK)) {
+    (kind.toLowerCase() === 'supersedes' ? supersedes : supersededBy).push(
+      adrIdFromFileName(target),
+    );
+  }
+  const statusLine = [fields.status ?? '', ...bodies.status]
+    .map((line) => line.trim())
+    .find((line) => line !== '' && !/^supersedes\s/i.test(line));
+
+  const components = listsComponents
+    ? bodies.components
+        .map((line) => /^\s*[-*]\s+`?([^`\s]+)`?/.exec(line)?.[1])
+        .filter((id): id is string => Boolean(id))
+    : null;
+
+  return {
+    id: adrIdFromFileName(fileName),
+    fileName: path.posix.basename(fileName.replace(/\\/g, '/')),
+    title,
+    status: statusLine ? parseStatus(statusLine) : 'proposed',
+    date: fields.date ? parseDay(fields.date, fileName) : null,
+    context: joinText([...bodies.preamble, ...bodies.context]),
+    outcome: joinText(bodies.outcome),
+    consequences: joinText(bodies.consequences),
+    supersedes,
+    supersededBy,
+    components,
+  };
+}
+
+/**
+ * Ids from a list that are mentioned as whole words in a text
+ */
+function mentionedIds(text: string, ids: Iterable<string>): string[] {
+  return Array.from(ids).filter((id) => {
+    const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^A-Za-z0-9_-])${escaped}($|[^A-Za-z0-9_-])`).test(text);
+  });
+}
+
+export interface AdrImportOutcome {
+  fileName: string;
+  id: string;
+  outcome: 'created' | 'updated' | 'skipped';
+}
+
+export interface AdrImportPlan {
+  /** Decisions to write, in the stored property layout */
+  entities: BranchEntity[];
+  /** AFFECTS and SUPERSEDES edges of the written decisions */
+  relationships: BranchRelationship[];
+  outcomes: AdrImportOutcome[];
+  errors: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Decide what an ADR import writes. Decisions that already exist are skipped unless
+ * `overwrite` is set. Affected components are the listed ones, or else the existing
+ * components whose ids the ADR mentions; links to unknown decisions or components are
+ * reported as errors.
+ */
+export function planAdrImport(
+  records: AdrRecord[],
+  existing: { decisionIds: Set<string>; componentIds: Set<string> },
+  options: { overwrite: boolean; now?: Date },
+): AdrImportPlan {
+  const now = options.now ?? new Date();
+  const plan: AdrImportPlan = { entities: [], relationships: [], outcomes: [], errors: [] };
+  const imported = new Set<string>();
+  const seen = new Set<string>();
+  const relationships = new Map<string, BranchRelationship>();
+  const decisionIds = new Set([...existing.decisionIds, ...records.map((record) => record.id)]);
+
+  for (const record of records) {
+    if (seen.has(record.id)) {
+      plan.errors.push({ id: record.id, error: `Duplicate ADR id in ${record.fileName}` });
+      continue;
+    }
+    seen.add(record.id);
+    const ref = { fileName: record.fileName, id: record.id };
+    if (existing.decisionIds.has(record.id) && !options.overwrite) {
+      plan.outcomes.push({ ...ref, outcome: 'skipped' });
+      continue;
+    }
+    imported.add(record.id);
+    plan.outcomes.push({
+      ...ref,
+      outcome: existing.decisionIds.has(record.id) ? 'updated' : 'created',
+    });
+    plan.entities.push({
+      entityType: 'decision',
+      id: record.id,
+      name: record.title,
+      properties: {
+        id: record.id,
+        title: record.title,
+        status: record.status,
+        dateCreated: record.date ? new Date(record.date) : now,
+        rationale: record.context,
+        outcome: record.outcome,
+        consequences: record.consequences,
+      },
+    });
+
+    const components =
+      record.components ??
+      mentionedIds(
+        [record.title, record.context, record.outcome, record.consequences].join('\n'),
+        existing.componentIds,
+      );
+    const edges: BranchRelationship[] = [
+      ...components.map((toId) => ({
+        type: 'AFFECTS',
+        fromType: 'decision' as const,
+        fromId: record.id,
+        toType: 'component' as const,
+        toId,
+      })),
+      ...record.supersedes.map((toId) => ({
+        type: 'SUPERSEDES',
+        fromType: 'decision' as const,
+        fromId: record.id,
+        toType: 'decision' as const,
+        toId,
+      })),
+      ...record.supersededBy.map((fromId) => ({
+        type: 'SUPERSEDES',
+        fromType: 'decision' as const,
+        fromId,
+        toType: 'decision' as const,
+        toId: record.id,
+      })),
+    ];
+    for (const edge of edges) {
+      const missing =
+        edge.toType === 'component'
+          ? !existing.componentIds.has(edge.toId) && `component ${edge.toId}`
+          : [edge.fromId, edge.toId]
+              .filter((id) => !decisionIds.has(id))
+              .map((id) => `decision ${id}`)
+              .join(' and ');
+      if (missing) {
+        plan.errors.push({ id: record.id, error: `Unknown ${missing} in ${record.fileName}` });
+        continue;
+      }
+      relationships.set(relationshipKey(edge), edge);
+    }
+  }
+
+  // A superseded-by link may point at a decision the import skips
+  plan.relationships = Array.from(relationships.values()).filter(
+    (edge) => imported.has(edge.fromId) || imported.has(edge.toId),
+  );
+  return plan;
+}
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
+
+function formatDay(value: unknown): string | null {
+  const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Render the decisions of a branch as ADR files, with their SUPERSEDES links and
+ * AFFECTS edges
+ */
+export function renderAdrFiles(state: BranchState): MarkdownFile[] {
+  const decisions = state.entities
+    .filter((entity) => entity.entityType === 'decision')
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const titles = new Map(
+    decisions.map((decision) => [
+      decision.id,
+      text(decision.properties.title) ?? text(decision.name) ?? decision.id,
+    ]),
+  );
+  const edges = (type: string) =>
+    state.relationships.filter(
+      (relationship) => relationship.type === type && relationship.fromType === 'decision',
+    );
+  const supersedes = edges('SUPERSEDES').filter((edge) => titles.has(edge.toId));
+  const affects = edges('AFFECTS');
+  const link = (id: string) =>
+    `[${adrHeading(id, titles.get(id) as string)}](${adrFileName(id, titles.get(id) as string)})`;
+
+  return decisions.map((decision) => {
+    const { properties } = decision;
+    const title = titles.get(decision.id) as string;
+    const status = text(properties.status) ?? 'proposed';
+    const components = affects
+      .filter((edge) => edge.fromId === decision.id && edge.toType === 'component')
+      .map((edge) => edge.toId)
+      .sort();
+    const section = (heading: string, body: string | null) =>
+      body === null ? [] : [`## ${heading}`, '', body, ''];
+    const date = formatDay(properties.dateCreated ?? properties.date);
+    const lines = [
+      `# ${adrHeading(decision.id, title)}`,
+      '',
+      ...(date ? [`Date: ${date}`, ''] : []),
+      '## Status',
+      '',
+      `${status.charAt(0).toUpperCase()}${status.slice(1)}`,
+      '',
+      ...supersedes
+        .filter((edge) => edge.fromId === decision.id)
+        .flatMap((edge) => [`Supersedes ${link(edge.toId)}`, '']),
+      ...supersedes
+        .filter((edge) => edge.toId === decision.id && titles.has(edge.fromId))
+        .flatMap((edge) => [`Superseded by ${link(edge.fromId)}`, '']),
+      ...section('Context', text(properties.rationale ?? properties.context)),
+      ...section('Decision', text(properties.outcome)),
+      ...section('Consequences', text(properties.consequences)),
+      ...section(
+        'Affected Components',
+        components.length > 0 ? components.map((id) => `- \`${id}\``).join('\n') : 'None',
+      ),
+    ];
+    return { path: adrFileName(decision.id, title), content: lines.join('\n') };
+  });
+}
+
+/**
+ * Index, readme and template files that live next to ADRs but are not ADRs
+ */
+const NON_ADR_FILES = new Set(['readme.md', 'index.md', 'template.md']);
+
+/**
+ * The markdown files of an ADR directory, in file name order
+ */
+export async function readAdrDirectory(
+  directory: string,
+): Promise<Array<{ fileName: string; content: string }>> {
+  const fileNames = (await fs.promises.readdir(directory))
+    .filter((name) => name.toLowerCase().endsWith('.md'))
+    .filter((name) => !NON_ADR_FILES.has(name.toLowerCase()))
+    .sort();
+  return Promise.all(
+    fileNames.map(async (fileName) => ({
+      fileName,
+      content: await fs.promises.readFile(path.join(directory, fileName), 'utf-8'),
+    })),
+  );
+}
@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Claims carried by an HMAC-signed bearer token
+ */
+export interface AuthTokenPayload {
+  /** Subject, e.g. a user or agent name */
+  sub: string;
+  /** Repositories the token may access; omitted means all repositories */
+  repositories?: string[];
+  /** Issued-at time (seconds since epoch) */
+  iat?: number;
+  /** Expiry time (seconds since epoch) */
+  exp?: number;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Constant-time string comparison that does not leak the length of the expected value
+ * through an early return on mismatched lengths.
+ */
+export function safeCompare(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  if (actualBuffer.length !== expectedBuffer.length) {
+    timingSafeEqual(expectedBuffer, expectedBuffer);
+    return false;
+  }
+  return timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+/**
+ * Create a bearer token of the form `<base64url(payload)>.<base64url(hmac-sha256)>`.
+ * @param payload The token claims. `iat` defaults to now.
+ * @param secret The shared HMAC secret configured on the server.
+ * @param expiresInSeconds Optional lifetime; sets `exp` relative to `iat`.
+ */
+export function createAuthToken(
+  payload: AuthTokenPayload,
+  secret: string,
+  expiresInSeconds?: number,
+): string {
+  if (!secret) {
+    throw new Error('HMAC secret is required to sign tokens');
+  }
+  const iat = payload.iat ?? Math.floor(Date.now() / 1000);
+  const claims: AuthTokenPayload = {
+    ...payload,
+    iat,
+    ...(expiresInSeconds ? { exp: iat + expiresInSeconds } : {}),
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+}
+
+/**
+ * Verify the signature and expiry of a bearer token created by createAuthToken.
+ * @returns The token claims.
+ * @throws Error describing why the token was rejected.
+ */
+export function verifyAuthToken(
+  token: string,
+  secret: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): AuthTokenPayload {
+  const parts = token.split('.');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    throw new Error('Malformed token');
+  }
+
+  const [encodedPayload, signature] = parts;
+  if (!safeCompare(signature, sign(encodedPayload, secret))) {
+    throw new Error('Invalid token signature');
+  }
+
+  let payload: AuthTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed token payload');
+  }
+
+  if (!payload || typeof payload.sub !== 'string' || payload.sub === '') {
+    throw new Error('Token subject is missing');
+  }
+  if (payload.repositories !== undefined && !Array.isArray(payload.repositories)) {
+    throw new Error('Token repositories must be an array');
+  }
+  if (typeof payload.exp === 'number' && payload.exp <= nowSeconds) {
+    throw new Error('Token has expired');
+  }
+
+  return payload;
+}
@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+
+/**
+ * Tool and operation permissions granted to a role.
+ * Patterns have the form `tool` (every operation of the tool), `tool.operation` or
+ * `tool.prefix-*`; a bare `*` matches every tool. Deny patterns take precedence over allow patterns.
+ */
+export interface RolePolicy {
+  /** Roles whose permissions are included in this role */
+  inherits?: string[];
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Declarative authorization policy, usually loaded from the file named by MCP_AUTH_POLICY_FILE
+ */
+export interface AuthorizationPolicy {
+  /** Role for principals that are not listed in `principals`; unlisted principals are denied when omitted */
+  defaultRole?: string;
+  /** Principal id (API key id, token subject or stdio identity) to role name */
+  principals?: Record<string, string>;
+  /** Role definitions; merged over BUILT_IN_ROLES */
+  roles?: Record<string, RolePolicy>;
+}
+
+export interface AuthorizationRequest {
+  principal: string;
+  tool: string;
+  operation?: string;
+}
+
+export type AuthorizationDecision =
+  { allowed: true; role: string } | { allowed: false; role?: string; reason: string };
+
+/**
+ * Roles available to every policy file
+ */
+export const BUILT_IN_ROLES: Record<string, RolePolicy> = {
+  'read-only': {
+    allow: [
+      'memory-bank.init',
+      'memory-bank.get-metadata',
+      'entity.get',
+      'query',
+      'search.fulltext',
+      'search.semantic',
+      'search.hybrid',
+      'analyze',
+      'detect',
+      'introspect',
+      'branch.diff',
+      'memory-optimizer.analyze',
+      'memory-optimizer.list-snapshots',
+      'memory-optimizer.list-snapshot-policies',
+    ],
+  },
+  writer: {
+    inherits: ['read-only'],
+    // Branch-wide imports, forks and entity merges are left to admin, like bulk deletes
+    allow: [
+      'memory-bank.update-metadata',
+      'memory-bank.export',
+      'memory-bank.export-markdown',
+      'memory-bank.export-adr',
+      'memory-bank.import-adr',
+      'entity.create',
+      'entity.update',
+      'entity.delete',
+      'associate',
+      'context',
+      'bulk-import',
+      'search.reindex',
+      'delete.single',
+      'branch.merge',
+    ],
+  },
+  admin: {
+    allow: ['*'],
+  },
+};
+
+/**
+ * Principal used for stdio sessions when MCP_STDIO_PRINCIPAL is not set
+ */
+export const DEFAULT_STDIO_PRINCIPAL = 'stdio';
+
+/**
+ * Principal used for HTTP requests when authentication is disabled
+ */
+export const ANONYMOUS_PRINCIPAL = 'anonymous';
+
+/**
+ * Argument that selects the operation of each tool; tools not listed use `operation`
+ */
+const OPERATION_ARGUMENTS: Record<string, string> = {
+  search: 'mode',
+  query: 'type',
+  analyze: 'type',
+  detect: 'type',
+  associate: 'type',
+  'bulk-import': 'type',
+  introspect: 'query',
+};
+
+/**
+ * Error raised when a principal is not permitted to perform a tool call
+ */
+export class ForbiddenError extends Error {
+  constructor(
+    message: string,
+    public readonly details: {
+      principal: string;
+      tool: string;
+      operation?: string;
+      role?: string;
+      repository?: string;
+    },
+  ) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+
+  /**
+   * Structured payload returned to MCP clients
+   */
+  toResponse(): Record<string, unknown> {
+    return {
+      success: false,
+      error: this.message,
+      code: 'FORBIDDEN',
+      ...this.details,
+    };
+  }
+}
+
+/**
+ * Resolve the operation name of a tool call from its arguments
+ */
+export function getToolOperation(toolName: string, args: Record<string, any>): string | undefined {
+  const value = args?.[OPERATION_ARGUMENTS[toolName] ?? 'operation'];
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function matchesPattern(pattern: string, tool: string, operation?: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  const separator = pattern.indexOf('.');
+  const toolPattern = separator === -1 ? pattern : pattern.slice(0, separator);
+  if (toolPattern !== tool) {
+    return false;
+  }
+  if (separator === -1) {
+    return true;
+  }
+  if (!operation) {
+    return false;
+  }
+  const operationPattern = pattern.slice(separator + 1);
+  const regex = new RegExp(`^${operationPattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return regex.test(operation);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validate a parsed policy document
+ * @throws Error describing the first problem found
+ */
+export function validateAuthorizationPolicy(policy: unknown): AuthorizationPolicy {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new Error('Authorization policy must be a JSON object');
+  }
+  const candidate = policy as AuthorizationPolicy;
+  const roles = { ...BUILT_IN_ROLES, ...(candidate.roles ?? {}) };
+
+  for (const [name, role] of Object.entries(candidate.roles ?? {})) {
+    for (const key of ['inherits', 'allow', 'deny'] as const) {
+      const value = role?.[key];
+      if (
+        value !== undefined &&
+        (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))
+      ) {
+        throw new Error(`Role '${name}' has an invalid '${key}' list`);
+      }
+    }
+    for (const parent of role.inherits ?? []) {
+      if (!roles[parent]) {
+        throw new Error(`Role '${name}' inherits unknown role '${parent}'`);
+      }
+    }
+  }
+  if (candidate.defaultRole !== undefined && !roles[candidate.defaultRole]) {
+    throw new Error(`Default role '${candidate.defaultRole}' is not defined`);
+  }
+  for (const [principal, role] of Object.entries(candidate.principals ?? {})) {
+    if (!roles[role]) {
+      throw new Error(`Principal '${principal}' is mapped to unknown role '${role}'`);
+    }
+  }
+
+  return candidate;
+}
+
+/**
+ * Load the authorization policy named by MCP_AUTH_POLICY_FILE.
+ * @returns The policy, or undefined when no policy file is configured (authorization disabled).
+ */
+export function loadAuthorizationPolicy(
+  env: NodeJS.ProcessEnv = process.env,
+): AuthorizationPolicy | undefined {
+  const policyFile = env.MCP_AUTH_POLICY_FILE;
+  if (!policyFile) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(policyFile, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read authorization policy '${policyFile}': ${(error as Error).message}`,
+    );
+  }
+  return validateAuthorizationPolicy(parsed);
+}
+
+/**
+ * Decide whether a principal may call a tool operation under a policy
+ */
+export function authorizeToolCall(
+  policy: AuthorizationPolicy,
+  request: AuthorizationRequest,
+): AuthorizationDecision {
+  const roles = { ...BUILT_IN_ROLES, ...(policy.roles ?? {}) };
+  const role = policy.principals?.[request.principal] ?? policy.defaultRole;
+  if (!role) {
+    return { allowed: false, reason: `Principal '${request.principal}' has no role` };
+  }
+
+  const allow: string[] = [];
+  const deny: string[] = [];
+  const visited = new Set<string>();
+  const collect = (name: string) => {
+    if (visited.has(name) || !roles[name]) {
+      return;
+    }
+    visited.add(name);
+    allow.push(...(roles[name].allow ?? []));
+    deny.push(...(roles[name].deny ?? []));
+    (roles[name].inherits ?? []).forEach(collect);
+  };
+  collect(role);
+
+  const target = request.operation ? `${request.tool}.${request.operation}` : request.tool;
+  if (deny.some((pattern) => matchesPattern(pattern, request.tool, request.operation))) {
+    return { allowed: false, role, reason: `Role '${role}' is denied '${target}'` };
+  }
+  if (!allow.some((pattern) => matchesPattern(pattern, request.tool, request.operation))) {
+    return { allowed: false, role, reason: `Role '${role}' is not allowed to call '${target}'` };
+  }
+  return { allowed: true, role };
+}
@@ -0,0 +1,323 @@
+/**
+ * Helpers for comparing, merging and forking the memory of branches of a repository.
+ * Entities are matched by type and logical id; relationships by type and endpoints.
+ */
+
+export type BranchEntityType = 'component' | 'decision' | 'rule' | 'file' | 'tag' | 'context';
+
+export interface BranchEntity {
+  entityType: BranchEntityType;
+  id: string;
+  name?: string;
+  properties: Record<string, unknown>;
+}
+
+export interface BranchRelationship {
+  type: string;
+  fromType: BranchEntityType;
+  fromId: string;
+  toType: BranchEntityType;
+  toId: string;
+}
+
+export interface BranchState {
+  entities: BranchEntity[];
+  relationships: BranchRelationship[];
+}
+
+export interface EntityRef {
+  entityType: BranchEntityType;
+  id: string;
+  name?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  /** Value on the target branch */
+  from: unknown;
+  /** Value on the source branch */
+  to: unknown;
+}
+
+export interface ModifiedEntity extends EntityRef {
+  changes: FieldChange[];
+}
+
+export interface BranchDiff {
+  entities: {
+    added: EntityRef[];
+    removed: EntityRef[];
+    modified: ModifiedEntity[];
+  };
+  relationships: {
+    added: BranchRelationship[];
+    removed: BranchRelationship[];
+  };
+}
+
+/**
+ * Properties that differ between branches by construction (scope, keys and
+ * bookkeeping timestamps) and are ignored when comparing entities
+ */
+export const BRANCH_SCOPED_PROPERTIES = new Set([
+  'graph_unique_id',
+  'repository',
+  'branch',
+  'created_at',
+  'updated_at',
+  'lastModified',
+]);
+
+/**
+ * Property names that can be written as node columns. Names are part of the Cypher
+ * text of a write, so anything else is rejected.
+ */
+export const PROPERTY_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Files and tags are keyed by a global id, so branches share them: merges and forks
+ * link to the existing nodes instead of copying them
+ */
+export function isSharedEntityType(entityType: BranchEntityType): boolean {
+  return entityType === 'file' || entityType === 'tag';
+}
+
+export function entityKey(entity: { entityType: string; id: string }): string {
+  return `${entity.entityType}:${entity.id}`;
+}
+
+export function relationshipKey(relationship: BranchRelationship): string {
+  return `${relationship.type}:${relationship.fromType}:${relationship.fromId}->${relationship.toType}:${relationship.toId}`;
+}
+
+function normalizeValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  return JSON.stringify(value, (_key, nested) =>
+    typeof nested === 'bigint' ? nested.toString() : nested,
+  );
+}
+
+/**
+ * Field-level differences between two versions of an entity, skipping branch-scoped
+ * and internal (`_`-prefixed) properties
+ */
+export function diffEntityProperties(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+): FieldChange[] {
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return Array.from(fields)
+    .filter((field) => !field.startsWith('_') && !BRANCH_SCOPED_PROPERTIES.has(field))
+    .sort()
+    .filter((field) => normalizeValue(from[field]) !== normalizeValue(to[field]))
+    .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+function toRef({ entityType, id, name }: BranchEntity): EntityRef {
+  return name === undefined ? { entityType, id } : { entityType, id, name };
+}
+
+/**
+ * Changes on the source branch relative to the target branch: entities and
+ * relationships only on the source are added, those only on the target are removed
+ */
+export function diffBranchStates(source: BranchState, target: BranchState): BranchDiff {
+  const targetEntities = new Map(target.entities.map((entity) => [entityKey(entity), entity]));
+  const sourceKeys = new Set(source.entities.map(entityKey));
+  const diff: BranchDiff = {
+    entities: { added: [], removed: [], modified: [] },
+    relationships: { added: [], removed: [] },
+  };
+
+  for (const entity of source.entities) {
+    const counterpart = targetEntities.get(entityKey(entity));
+    if (!counterpart) {
+      diff.entities.added.push(toRef(entity));
+      continue;
+    }
+    const changes = diffEntityProperties(counterpart.properties, entity.properties);
+    if (changes.length > 0) {
+      diff.entities.modified.push({ ...toRef(entity), changes });
+    }
+  }
+  diff.entities.removed = target.entities
+    .filter((entity) => !sourceKeys.has(entityKey(entity)))
+    .map(toRef);
+
+  const sourceRelationships = new Set(source.relationships.map(relationshipKey));
+  const targetRelationships = new Set(target.relationships.map(relationshipKey));
+  diff.relationships.added = source.relationships.filter(
+    (relationship) => !targetRelationships.has(relationshipKey(relationship)),
+  );
+  diff.relationships.removed = target.relationships.filter(
+    (relationship) => !sourceRelationships.has(relationshipKey(relationship)),
+  );
+
+  return diff;
+}
+
+/**
+ * How a merge resolves entities changed on both branches: `ours` keeps the target
+ * version, `theirs` takes the source version and `fail` aborts the merge
+ */
+export type MergeStrategy = 'ours' | 'theirs' | 'fail';
+
+/**
+ * Relationship types copied by a merge
+ */
+export const MERGEABLE_RELATIONSHIP_TYPES = new Set([
+  'DEPENDS_ON',
+  'GOVERNS',
+  'AFFECTS',
+  'IMPLEMENTS',
+  'TAGGED_WITH',
+  'SUPERSEDES',
+]);
+
+export interface MergeConflict extends EntityRef {
+  /** Differences between the target (from) and source (to) versions */
+  changes: FieldChange[];
+}
+
+export interface MergePlan {
+  create: BranchEntity[];
+  update: BranchEntity[];
+  unchanged: number;
+  /** Target-side changes kept because the source did not touch the entity */
+  keptTargetChanges: number;
+  conflicts: MergeConflict[];
+  relationships: BranchRelationship[];
+}
+
+/**
+ * Work out how to merge the source branch into the target branch.
+ * An entity conflicts when both sides changed it since the base (the common snapshot).
+ * Without a base every entity that differs between the branches is a conflict, since
+ * it is unknown which side changed it. Entities only on the target are never removed.
+ * Shared files and tags are never written; relationships to them are linked.
+ */
+export function planBranchMerge(
+  source: BranchState,
+  target: BranchState,
+  options: { strategy: MergeStrategy; base?: BranchEntity[] },
+): MergePlan {
+  const targetEntities = new Map(target.entities.map((entity) => [entityKey(entity), entity]));
+  const baseEntities = options.base
+    ? new Map(options.base.map((entity) => [entityKey(entity), entity]))
+    : undefined;
+  const plan: MergePlan = {
+    create: [],
+    update: [],
+    unchanged: 0,
+    keptTargetChanges: 0,
+    conflicts: [],
+    relationships: [],
+  };
+
+  for (const entity of source.entities) {
+    if (isSharedEntityType(entity.entityType)) {
+      continue;
+    }
+    const counterpart = targetEntities.get(entityKey(entity));
+    if (!counterpart) {
+      plan.create.push(entity);
+      continue;
+    }
+    const changes = diffEntityProperties(counterpart.properties, entity.properties);
+    if (changes.length === 0) {
+      plan.unchanged++;
+      continue;
+    }
+
+    const baseEntity = baseEntities?.get(entityKey(entity));
+    if (baseEntity) {
+      const sourceChanged =
+        diffEntityProperties(baseEntity.properties, entity.properties).length > 0;
+      const targetChanged =
+        diffEntityProperties(baseEntity.properties, counterpart.properties).length > 0;
+      if (!targetChanged) {
+        plan.update.push(entity);
+        continue;
+      }
+      if (!sourceChanged) {
+        plan.keptTargetChanges++;
+        continue;
+      }
+    }
+
+    plan.conflicts.push({ ...toRef(entity), changes });
+    if (options.strategy === 'theirs') {
+      plan.update.push(entity);
+    }
+  }
+
+  const targetRelationships = new Set(target.relationships.map(relationshipKey));
+  plan.relationships = source.relationships.filter(
+    (relationship) =>
+      MERGEABLE_RELATIONSHIP_TYPES.has(relationship.type) &&
+      !targetRelationships.has(relationshipKey(relationship)),
+  );
+
+  return plan;
+}
+
+/**
+ * Entity types a fork copies. Files and tags are keyed by a global id, so a fork
+ * links to the existing nodes instead of copying them.
+ */
+export const FORKABLE_ENTITY_TYPES: BranchEntityType[] = [
+  'component',
+  'decision',
+  'rule',
+  'context',
+];
+
+/**
+ * The part of a branch a fork copies: forkable entities, optionally limited to some
+ * entity types and to entities tagged with at least one of the given tag ids, and the
+ * relationships whose endpoints are copied entities or shared files and tags
+ */
+export function selectForkState(
+  state: BranchState,
+  filter: { entityTypes?: BranchEntityType[]; tags?: string[] } = {},
+): BranchState {
+  const entityTypes = new Set(
+    FORKABLE_ENTITY_TYPES.filter(
+      (entityType) => !filter.entityTypes?.length || filter.entityTypes.includes(entityType),
+    ),
+  );
+  let entities = state.entities.filter((entity) => entityTypes.has(entity.entityType));
+
+  if (filter.tags?.length) {
+    const tags = new Set(filter.tags);
+    const tagged = new Set(
+      state.relationships
+        .filter(
+          (relationship) =>
+            relationship.type === 'TAGGED_WITH' &&
+            relationship.toType === 'tag' &&
+            tags.has(relationship.toId),
+        )
+        .map((relationship) =>
+          entityKey({ entityType: relationship.fromType, id: relationship.fromId }),
+        ),
+    );
+    entities = entities.filter((entity) => tagged.has(entityKey(entity)));
+  }
+
+  const copied = new Set(entities.map(entityKey));
+  const isEndpoint = (entityType: BranchEntityType, id: string) =>
+    isSharedEntityType(entityType) || copied.has(entityKey({ entityType, id }));
+  const relationships = state.relationships.filter(
+    (relationship) =>
+      copied.has(entityKey({ entityType: relationship.fromType, id: relationship.fromId })) &&
+      isEndpoint(relationship.toType, relationship.toId),
+  );
+
+  return { entities, relationships };
+}
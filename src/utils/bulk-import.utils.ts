@@ -0,0 +1,389 @@
+import {
+  entityKey,
+  type BranchEntity,
+  type BranchEntityType,
+  type BranchRelationship,
+} from './branch-diff.utils';
+
+/**
+ * Planning of bulk imports of entities and relationships.
+ * Nodes are planned first; relationships, including component dependencies, may then
+ * point at nodes of the same batch or at entities that already exist on the branch.
+ */
+
+export interface BulkComponentInput {
+  id: string;
+  name: string;
+  kind?: string;
+  status?: 'active' | 'deprecated' | 'planned';
+  depends_on?: string[];
+}
+
+export interface BulkDecisionInput {
+  id: string;
+  name: string;
+  /** YYYY-MM-DD */
+  date: string;
+  context?: string;
+  status?: string;
+}
+
+export interface BulkRuleInput {
+  id: string;
+  name: string;
+  /** YYYY-MM-DD */
+  created: string;
+  content?: string;
+  status?: 'active' | 'deprecated';
+}
+
+export interface BulkFileInput {
+  id: string;
+  name: string;
+  path: string;
+  size?: number;
+  mime_type?: string;
+  language?: string;
+  content?: string;
+  metrics?: Record<string, unknown>;
+  checksum?: string;
+}
+
+export interface BulkTagInput {
+  id: string;
+  name: string;
+  color?: string;
+  description?: string;
+  category?: string;
+}
+
+export interface BulkContextInput {
+  id: string;
+  agent?: string;
+  summary?: string;
+  observation?: string;
+  /** ISO 8601 date or date-time; defaults to the import time */
+  timestamp?: string;
+}
+
+export interface BulkRelationshipInput {
+  type: string;
+  fromId: string;
+  toId: string;
+  /** Needed only when the relationship type allows several endpoint types */
+  fromType?: BranchEntityType;
+  toType?: BranchEntityType;
+}
+
+export interface BulkGraphImportInput {
+  components?: BulkComponentInput[];
+  decisions?: BulkDecisionInput[];
+  rules?: BulkRuleInput[];
+  files?: BulkFileInput[];
+  tags?: BulkTagInput[];
+  contexts?: BulkContextInput[];
+  relationships?: BulkRelationshipInput[];
+}
+
+/**
+ * Endpoint types allowed for each relationship type, following the relationship tables
+ * of the schema
+ */
+export const BULK_RELATIONSHIP_ENDPOINTS: Record<
+  string,
+  { from: BranchEntityType[]; to: BranchEntityType[] }
+> = {
+  DEPENDS_ON: { from: ['component'], to: ['component'] },
+  IMPLEMENTS: { from: ['component'], to: ['file'] },
+  TAGGED_WITH: { from: ['component', 'decision', 'rule', 'file'], to: ['tag'] },
+  GOVERNS: { from: ['rule'], to: ['component'] },
+  AFFECTS: { from: ['decision'], to: ['component'] },
+  CONTEXT_OF: { from: ['context'], to: ['component', 'decision', 'rule'] },
+};
+
+function resolveEndpointType(
+  side: 'from' | 'to',
+  allowed: BranchEntityType[],
+  given: BranchEntityType | undefined,
+  relationshipType: string,
+): BranchEntityType {
+  if (given) {
+    if (!allowed.includes(given)) {
+      throw new Error(
+        `${relationshipType} cannot ${side === 'from' ? 'start at' : 'end at'} a ${given}; expected ${allowed.join(' or ')}`,
+      );
+    }
+    return given;
+  }
+  if (allowed.length > 1) {
+    throw new Error(`${relationshipType} needs ${side}Type (one of ${allowed.join(', ')})`);
+  }
+  return allowed[0];
+}
+
+/**
+ * Validate a relationship against BULK_RELATIONSHIP_ENDPOINTS and fill in endpoint
+ * types that follow from its type
+ */
+export function resolveBulkRelationship(input: BulkRelationshipInput): BranchRelationship {
+  const endpoints = BULK_RELATIONSHIP_ENDPOINTS[input.type];
+  if (!endpoints) {
+    throw new Error(
+      `Unsupported relationship type ${input.type}; expected one of ${Object.keys(BULK_RELATIONSHIP_ENDPOINTS).join(', ')}`,
+    );
+  }
+  return {
+    type: input.type,
+    fromType: resolveEndpointType('from', endpoints.from, input.fromType, input.type),
+    fromId: input.fromId,
+    toType: resolveEndpointType('to', endpoints.to, input.toType, input.type),
+    toId: input.toId,
+  };
+}
+
+function parseDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field} '${value}'`);
+  }
+  return date;
+}
+
+// Component, decision and rule layouts follow their repositories' upsert queries
+
+function componentEntity(component: BulkComponentInput): BranchEntity {
+  return {
+    entityType: 'component',
+    id: component.id,
+    name: component.name,
+    properties: {
+      id: component.id,
+      name: component.name,
+      kind: component.kind || 'Unknown',
+      status: component.status || 'active',
+      // Kept in step with the DEPENDS_ON relationships planned from it
+      ...(component.depends_on ? { dependsOn: component.depends_on } : {}),
+    },
+  };
+}
+
+function decisionEntity(decision: BulkDecisionInput): BranchEntity {
+  return {
+    entityType: 'decision',
+    id: decision.id,
+    name: decision.name,
+    properties: {
+      id: decision.id,
+      title: decision.name,
+      dateCreated: parseDate(decision.date, 'date'),
+      rationale: decision.context ?? null,
+      status: decision.status || 'proposed',
+    },
+  };
+}
+
+function ruleEntity(rule: BulkRuleInput): BranchEntity {
+  return {
+    entityType: 'rule',
+    id: rule.id,
+    name: rule.name,
+    properties: {
+      id: rule.id,
+      title: rule.name,
+      // Rules are read back with their content taken from description
+      description: rule.content ?? '',
+      scope: 'component',
+      severity: 'medium',
+      category: 'general',
+      status: rule.status || 'active',
+      created_at: parseDate(rule.created, 'created date'),
+    },
+  };
+}
+
+function fileEntity(file: BulkFileInput, now: Date): BranchEntity {
+  return {
+    entityType: 'file',
+    id: file.id,
+    name: file.name,
+    properties: {
+      id: file.id,
+      name: file.name,
+      path: file.path,
+      size: file.size ?? 0,
+      mime_type: file.mime_type || 'unknown',
+      language: file.language ?? null,
+      checksum: file.checksum || '',
+      // Same layout as FileRepository.createFileNode
+      metadata: JSON.stringify({ content: file.content || null, metrics: file.metrics || null }),
+      lastModified: now,
+    },
+  };
+}
+
+function tagEntity(tag: BulkTagInput): BranchEntity {
+  return {
+    entityType: 'tag',
+    id: tag.id,
+    name: tag.name,
+    properties: {
+      id: tag.id,
+      name: tag.name,
+      color: tag.color || null,
+      description: tag.description || null,
+      category: tag.category || 'general',
+    },
+  };
+}
+
+function contextEntity(context: BulkContextInput, now: Date): BranchEntity {
+  const timestamp = context.timestamp ? parseDate(context.timestamp, 'timestamp') : now;
+  return {
+    entityType: 'context',
+    id: context.id,
+    properties: {
+      id: context.id,
+      agent: context.agent ?? null,
+      summary: context.summary ?? '',
+      observation: context.observation ?? null,
+      timestamp,
+    },
+  };
+}
+
+export interface BulkImportOutcome {
+  entityType: BranchEntityType;
+  id: string;
+  outcome: 'created' | 'updated' | 'skipped' | 'linked';
+}
+
+export interface BulkGraphImportPlan {
+  /** Nodes to write, in the stored property layout */
+  entities: BranchEntity[];
+  /** Relationships to write, with both endpoint types resolved */
+  relationships: BranchRelationship[];
+  /** One outcome per valid node of the input */
+  outcomes: BulkImportOutcome[];
+  errors: Array<{ id: string; error: string }>;
+}
+
+/**
+ * The relationships of an input: component dependencies, then the explicit relationships
+ */
+function relationshipInputs(input: BulkGraphImportInput): BulkRelationshipInput[] {
+  const dependencies = (input.components ?? []).flatMap((component) =>
+    (component.depends_on ?? []).map((dependency) => ({
+      type: 'DEPENDS_ON',
+      fromId: component.id,
+      toId: dependency,
+    })),
+  );
+  return [...dependencies, ...(input.relationships ?? [])];
+}
+
+/**
+ * The keys (see entityKey) a plan needs to look up in the target: the nodes of the
+ * input and the endpoints of its valid relationships
+ */
+export function bulkImportLookupKeys(input: BulkGraphImportInput): Map<BranchEntityType, string[]> {
+  const ids = new Map<BranchEntityType, Set<string>>();
+  const add = (entityType: BranchEntityType, id: string) => {
+    ids.set(entityType, (ids.get(entityType) ?? new Set()).add(id));
+  };
+  input.components?.forEach((component) => add('component', component.id));
+  input.decisions?.forEach((decision) => add('decision', decision.id));
+  input.rules?.forEach((rule) => add('rule', rule.id));
+  input.files?.forEach((file) => add('file', file.id));
+  input.tags?.forEach((tag) => add('tag', tag.id));
+  input.contexts?.forEach((context) => add('context', context.id));
+  for (const relationship of relationshipInputs(input)) {
+    try {
+      const resolved = resolveBulkRelationship(relationship);
+      add(resolved.fromType, resolved.fromId);
+      add(resolved.toType, resolved.toId);
+    } catch {
+      // Reported by planBulkGraphImport
+    }
+  }
+  return new Map(Array.from(ids, ([entityType, set]) => [entityType, Array.from(set)]));
+}
+
+/**
+ * Decide what a bulk import writes, given the keys (see entityKey) of the entities
+ * that already exist in the target. Existing nodes are skipped unless `overwrite` is set.
+ * Files and tags in `sharedKeys` belong to another branch; they are linked to, never
+ * written, so that overwriting them does not move them onto the target branch.
+ */
+export function planBulkGraphImport(
+  input: BulkGraphImportInput,
+  existingKeys: Set<string>,
+  options: { overwrite: boolean; now?: Date; sharedKeys?: Set<string> },
+): BulkGraphImportPlan {
+  const now = options.now ?? new Date();
+  const plan: BulkGraphImportPlan = { entities: [], relationships: [], outcomes: [], errors: [] };
+  const planned = new Set<string>();
+
+  const addNode = (id: string, build: () => BranchEntity) => {
+    let entity: BranchEntity;
+    try {
+      entity = build();
+    } catch (error) {
+      plan.errors.push({ id, error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    const key = entityKey(entity);
+    if (planned.has(key)) {
+      plan.errors.push({ id, error: `Duplicate ${entity.entityType} id in the import` });
+      return;
+    }
+    planned.add(key);
+    const ref = { entityType: entity.entityType, id };
+    if (options.sharedKeys?.has(key)) {
+      plan.outcomes.push({ ...ref, outcome: 'linked' });
+    } else if (!existingKeys.has(key)) {
+      plan.entities.push(entity);
+      plan.outcomes.push({ ...ref, outcome: 'created' });
+    } else if (options.overwrite) {
+      plan.entities.push(entity);
+      plan.outcomes.push({ ...ref, outcome: 'updated' });
+    } else {
+      plan.outcomes.push({ ...ref, outcome: 'skipped' });
+    }
+  };
+
+  input.components?.forEach((component) => addNode(component.id, () => componentEntity(component)));
+  input.decisions?.forEach((decision) => addNode(decision.id, () => decisionEntity(decision)));
+  input.rules?.forEach((rule) => addNode(rule.id, () => ruleEntity(rule)));
+  input.files?.forEach((file) => addNode(file.id, () => fileEntity(file, now)));
+  input.tags?.forEach((tag) => addNode(tag.id, () => tagEntity(tag)));
+  input.contexts?.forEach((context) => addNode(context.id, () => contextEntity(context, now)));
+
+  const resolves = (entityType: BranchEntityType, id: string) => {
+    const key = entityKey({ entityType, id });
+    return planned.has(key) || existingKeys.has(key);
+  };
+  for (const entry of relationshipInputs(input)) {
+    const id = `${entry.type}:${entry.fromId}->${entry.toId}`;
+    let relationship: BranchRelationship;
+    try {
+      relationship = resolveBulkRelationship(entry);
+    } catch (error) {
+      plan.errors.push({ id, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    const missing = [
+      [relationship.fromType, relationship.fromId],
+      [relationship.toType, relationship.toId],
+    ].filter(([entityType, entityId]) => !resolves(entityType as BranchEntityType, entityId));
+    if (missing.length > 0) {
+      plan.errors.push({
+        id,
+        error: `Unknown ${missing.map(([entityType, entityId]) => `${entityType} ${entityId}`).join(' and ')}`,
+      });
+      continue;
+    }
+    plan.relationships.push(relationship);
+  }
+
+  return plan;
+}
@@ -0,0 +1,61 @@
+import { once } from 'events';
+import fs from 'fs';
+
+/**
+ * CSV encoding for files staged for KuzuDB `COPY FROM`. Strings are always quoted, with
+ * embedded quotes doubled; null and undefined become empty fields. KuzuDB reads empty
+ * fields, quoted or not, as NULL. Arrays become KuzuDB list literals such as `[a,b]`;
+ * their items cannot contain commas or brackets. Staged files may contain quoted
+ * newlines, so they must be copied with `PARALLEL=false`.
+ */
+
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return csvField(`[${value.map(String).join(',')}]`);
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function csvRow(values: unknown[]): string {
+  return `${values.map(csvField).join(',')}\n`;
+}
+
+/**
+ * Stream rows to a CSV file with a header line
+ * @param onRow - Called after each row is written, e.g. to report progress
+ * @returns The number of rows written
+ */
+export async function writeCsvFile(
+  filePath: string,
+  columns: string[],
+  rows: Iterable<unknown[]>,
+  onRow?: () => Promise<void> | void,
+): Promise<number> {
+  const stream = fs.createWriteStream(filePath, { encoding: 'utf-8' });
+  const finished = new Promise<void>((resolve, reject) => {
+    stream.on('finish', resolve);
+    stream.on('error', reject);
+  });
+  let count = 0;
+  stream.write(`${columns.join(',')}\n`);
+  for (const row of rows) {
+    if (!stream.write(csvRow(row))) {
+      await once(stream, 'drain');
+    }
+    count++;
+    await onRow?.();
+  }
+  stream.end();
+  await finished;
+  return count;
+}
@@ -0,0 +1,191 @@
+/**
+ * Helpers for merging one entity into another of the same type: the property merge
+ * policy and the rewiring of the source's relationships onto the target.
+ */
+
+import {
+  BRANCH_SCOPED_PROPERTIES,
+  relationshipKey,
+  type BranchEntity,
+  type BranchEntityType,
+  type BranchRelationship,
+} from './branch-diff.utils';
+
+/** Property listing the IDs of entities merged into an entity, so they still resolve */
+export const MERGED_FROM_PROPERTY = 'merged_from';
+
+/** Free-text properties whose values are combined instead of picked */
+const COMBINED_TEXT_PROPERTIES = new Set(['observation']);
+
+/** Array properties listing other entities, which must not reference the merged pair */
+const REFERENCE_LIST_PROPERTIES = new Set(['dependsOn']);
+
+export interface MergedPropertyConflict {
+  field: string;
+  /** Value of the target, which the merged entity keeps */
+  kept: unknown;
+  /** Value of the source */
+  dropped: unknown;
+}
+
+export interface EntityMergePlan {
+  /** The target with the merged properties */
+  entity: BranchEntity;
+  /** Relationships of the source moved onto the target, keeping type and direction */
+  relationships: BranchRelationship[];
+  /** Scalar properties set on both entities with different values */
+  conflicts: MergedPropertyConflict[];
+}
+
+export interface EntityMergeResult {
+  success: boolean;
+  entityType: BranchEntityType;
+  sourceId: string;
+  targetId: string;
+  /** Relationships of the source now attached to the target */
+  relationshipsMoved: number;
+  /** Components whose dependsOn listed the source and now list the target */
+  dependentsUpdated: number;
+  /** IDs that resolve to the target, including the source */
+  mergedFrom: string[];
+  /** Properties set on both entities with different values; the target's were kept */
+  conflicts: MergedPropertyConflict[];
+  message: string;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function union(...lists: unknown[][]): unknown[] {
+  const merged: unknown[] = [];
+  for (const item of lists.flat()) {
+    if (!merged.some((existing) => sameValue(existing, item))) {
+      merged.push(item);
+    }
+  }
+  return merged;
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : isEmpty(value) ? [] : [value];
+}
+
+/**
+ * Merge the properties of source into target:
+ * - arrays become the union of both, target items first (dependsOn, tags, impact, ...)
+ * - observations are combined, target first
+ * - other values keep the target's unless it has none; differing values are reported
+ * - created_at becomes the earlier of both and merged_from collects the source ID
+ */
+export function mergeEntityProperties(
+  source: BranchEntity,
+  target: BranchEntity,
+): { properties: Record<string, unknown>; conflicts: MergedPropertyConflict[] } {
+  const properties: Record<string, unknown> = { ...target.properties };
+  const conflicts: MergedPropertyConflict[] = [];
+
+  for (const [field, value] of Object.entries(source.properties)) {
+    const current = target.properties[field];
+    if (
+      field === 'id' ||
+      field === MERGED_FROM_PROPERTY ||
+      BRANCH_SCOPED_PROPERTIES.has(field) ||
+      isEmpty(value)
+    ) {
+      continue;
+    }
+    if (isEmpty(current)) {
+      properties[field] = value;
+    } else if (Array.isArray(current) || Array.isArray(value)) {
+      properties[field] = union(asList(current), asList(value));
+    } else if (sameValue(current, value)) {
+      continue;
+    } else if (COMBINED_TEXT_PROPERTIES.has(field)) {
+      properties[field] = `${current}\n\n${value}`;
+    } else {
+      conflicts.push({ field, kept: current, dropped: value });
+    }
+  }
+
+  for (const field of REFERENCE_LIST_PROPERTIES) {
+    if (Array.isArray(properties[field])) {
+      properties[field] = (properties[field] as unknown[]).filter(
+        (id) => id !== source.id && id !== target.id,
+      );
+    }
+  }
+
+  const created = [source.properties.created_at, target.properties.created_at]
+    .filter((value) => !isEmpty(value))
+    .map((value) => new Date(value as string | Date))
+    .filter((date) => !isNaN(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+  if (created.length > 0) {
+    properties.created_at = created[0];
+  }
+
+  properties[MERGED_FROM_PROPERTY] = union(
+    asList(target.properties[MERGED_FROM_PROPERTY]),
+    [source.id],
+    asList(source.properties[MERGED_FROM_PROPERTY]),
+  ).filter((id) => id !== target.id);
+
+  return { properties, conflicts };
+}
+
+/**
+ * Plan the merge of source into target. `relationships` are all relationships with
+ * source at either end; each is moved onto target with its type and direction.
+ * Relationships between source and target would become self-references and are dropped.
+ */
+export function planEntityMerge(
+  source: BranchEntity,
+  target: BranchEntity,
+  relationships: BranchRelationship[],
+): EntityMergePlan {
+  if (source.entityType !== target.entityType) {
+    throw new Error(
+      `Cannot merge ${source.entityType} ${source.id} into ${target.entityType} ${target.id}`,
+    );
+  }
+  if (source.id === target.id) {
+    throw new Error(`Cannot merge ${source.entityType} ${source.id} into itself`);
+  }
+
+  const isSource = (entityType: string, id: string) =>
+    entityType === source.entityType && id === source.id;
+  const isTarget = (entityType: string, id: string) =>
+    entityType === target.entityType && id === target.id;
+
+  const moved = new Map<string, BranchRelationship>();
+  for (const relationship of relationships) {
+    const rewired: BranchRelationship = {
+      ...relationship,
+      fromId: isSource(relationship.fromType, relationship.fromId)
+        ? target.id
+        : relationship.fromId,
+      toId: isSource(relationship.toType, relationship.toId) ? target.id : relationship.toId,
+    };
+    if (isTarget(rewired.fromType, rewired.fromId) && isTarget(rewired.toType, rewired.toId)) {
+      continue;
+    }
+    moved.set(relationshipKey(rewired), rewired);
+  }
+
+  const { properties, conflicts } = mergeEntityProperties(source, target);
+  return {
+    entity: { ...target, properties },
+    relationships: [...moved.values()],
+    conflicts,
+  };
+}
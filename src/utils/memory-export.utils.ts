@@ -0,0 +1,317 @@
+import { once } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import {
+  entityKey,
+  PROPERTY_NAME_PATTERN,
+  type BranchEntity,
+  type BranchEntityType,
+  type BranchRelationship,
+} from './branch-diff.utils';
+
+/**
+ * Portable export of the memory graph of one repository branch, and its import.
+ *
+ * JSON exports hold a single MemoryExport document. JSONL exports hold one record per
+ * line: a `header` record (every MemoryExport field except the lists), a `metadata`
+ * record, then one `entity` record per entity and one `relationship` record per
+ * relationship. Entity properties never contain branch-scoped fields, so an export can
+ * be imported into any repository or branch; dates are ISO 8601 strings.
+ */
+
+export const MEMORY_EXPORT_FORMAT = 'kuzu-memory-bank-export';
+
+/**
+ * Version of the export layout, increased on incompatible changes
+ */
+export const MEMORY_EXPORT_VERSION = 1;
+
+export type MemoryExportFormat = 'json' | 'jsonl';
+
+/**
+ * Properties left out of exported entities because they depend on where the entity is stored
+ */
+const NON_PORTABLE_PROPERTIES = new Set(['graph_unique_id', 'repository', 'branch']);
+
+export interface MemoryExport {
+  format: typeof MEMORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  repository: string;
+  branch: string;
+  counts: { entities: number; relationships: number };
+  metadata: Record<string, unknown> | null;
+  entities: BranchEntity[];
+  relationships: BranchRelationship[];
+}
+
+export type MemoryExportRecord =
+  | ({ record: 'header' } & Omit<MemoryExport, 'metadata' | 'entities' | 'relationships'>)
+  | { record: 'metadata'; metadata: Record<string, unknown> | null }
+  | ({ record: 'entity' } & BranchEntity)
+  | ({ record: 'relationship' } & BranchRelationship);
+
+export function createMemoryExport(
+  repository: string,
+  branch: string,
+  metadata: Record<string, unknown> | null,
+  entities: BranchEntity[],
+  relationships: BranchRelationship[],
+  exportedAt: Date = new Date(),
+): MemoryExport {
+  return {
+    format: MEMORY_EXPORT_FORMAT,
+    version: MEMORY_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    repository,
+    branch,
+    counts: { entities: entities.length, relationships: relationships.length },
+    metadata,
+    entities: entities.map((entity) => ({
+      ...entity,
+      properties: Object.fromEntries(
+        Object.entries(entity.properties).filter(([key]) => !NON_PORTABLE_PROPERTIES.has(key)),
+      ),
+    })),
+    relationships,
+  };
+}
+
+function stringify(value: unknown, indent?: number): string {
+  // INT64 columns may come back as bigint, which JSON cannot represent
+  return JSON.stringify(
+    value,
+    (_key, nested) => (typeof nested === 'bigint' ? Number(nested) : nested),
+    indent,
+  );
+}
+
+/**
+ * The records of a JSONL export, in file order
+ */
+export function* memoryExportRecords(doc: MemoryExport): Generator<MemoryExportRecord> {
+  const { metadata, entities, relationships, ...header } = doc;
+  yield { record: 'header', ...header };
+  yield { record: 'metadata', metadata };
+  for (const entity of entities) {
+    yield { record: 'entity', ...entity };
+  }
+  for (const relationship of relationships) {
+    yield { record: 'relationship', ...relationship };
+  }
+}
+
+export function serializeMemoryExport(doc: MemoryExport, format: MemoryExportFormat): string {
+  if (format === 'jsonl') {
+    return Array.from(memoryExportRecords(doc), (record) => `${stringify(record)}\n`).join('');
+  }
+  return `${stringify(doc, 2)}\n`;
+}
+
+/**
+ * Write an export to a file; JSONL is streamed one record at a time
+ */
+export async function writeMemoryExport(
+  doc: MemoryExport,
+  format: MemoryExportFormat,
+  filePath: string,
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  if (format === 'json') {
+    await fs.promises.writeFile(filePath, serializeMemoryExport(doc, 'json'), 'utf-8');
+    return;
+  }
+
+  const stream = fs.createWriteStream(filePath, { encoding: 'utf-8' });
+  const finished = new Promise<void>((resolve, reject) => {
+    stream.on('finish', resolve);
+    stream.on('error', reject);
+  });
+  for (const record of memoryExportRecords(doc)) {
+    if (!stream.write(`${stringify(record)}\n`)) {
+      await once(stream, 'drain');
+    }
+  }
+  stream.end();
+  await finished;
+}
+
+const ENTITY_TYPE_SCHEMA = z.enum(['component', 'decision', 'rule', 'file', 'tag', 'context']);
+
+const ENTITY_SCHEMA = z.object({
+  entityType: ENTITY_TYPE_SCHEMA,
+  id: z.string().min(1),
+  name: z.string().optional(),
+  properties: z.record(
+    z.string().regex(PROPERTY_NAME_PATTERN, 'Property names must be identifiers'),
+    z.unknown(),
+  ),
+});
+
+const RELATIONSHIP_SCHEMA = z.object({
+  type: z.string().regex(/^[A-Z_]+$/, 'Relationship type must be an upper-case identifier'),
+  fromType: ENTITY_TYPE_SCHEMA,
+  fromId: z.string().min(1),
+  toType: ENTITY_TYPE_SCHEMA,
+  toId: z.string().min(1),
+});
+
+const HEADER_SCHEMA = z.object({
+  format: z.literal(MEMORY_EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  repository: z.string(),
+  branch: z.string(),
+});
+
+const MEMORY_EXPORT_SCHEMA = HEADER_SCHEMA.extend({
+  metadata: z.record(z.unknown()).nullable().optional(),
+  entities: z.array(ENTITY_SCHEMA),
+  relationships: z.array(RELATIONSHIP_SCHEMA),
+});
+
+function collectRecords(text: string): unknown {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const doc: Record<string, unknown> = { entities: [], relationships: [] };
+  lines.forEach((line, index) => {
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSONL export: line ${index + 1} is not valid JSON`);
+    }
+    const { record: kind, ...fields } = record ?? {};
+    if (kind === 'header') {
+      Object.assign(doc, fields);
+    } else if (kind === 'metadata') {
+      doc.metadata = fields.metadata;
+    } else if (kind === 'entity') {
+      (doc.entities as unknown[]).push(fields);
+    } else if (kind === 'relationship') {
+      (doc.relationships as unknown[]).push(fields);
+    } else {
+      throw new Error(`Invalid JSONL export: unknown record kind on line ${index + 1}`);
+    }
+  });
+  return doc;
+}
+
+/**
+ * Read a JSON or JSONL export and validate it against the export layout.
+ * Exports written by a newer version of the layout are rejected.
+ */
+export function parseMemoryExport(text: string): MemoryExport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    raw = undefined;
+  }
+  // A JSONL export with a single record is also valid JSON
+  if (raw === undefined || (typeof raw === 'object' && raw !== null && 'record' in raw)) {
+    raw = collectRecords(text);
+  }
+
+  const header = HEADER_SCHEMA.pick({ format: true, version: true }).safeParse(raw);
+  if (!header.success) {
+    throw new Error(`Not a memory bank export: expected format '${MEMORY_EXPORT_FORMAT}'`);
+  }
+  if (header.data.version > MEMORY_EXPORT_VERSION) {
+    throw new Error(
+      `Export version ${header.data.version} is newer than the supported version ${MEMORY_EXPORT_VERSION}`,
+    );
+  }
+
+  const parsed = MEMORY_EXPORT_SCHEMA.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid memory bank export at ${issue.path.join('.')}: ${issue.message}`);
+  }
+  const { metadata = null, entities, relationships, ...rest } = parsed.data;
+  return {
+    ...rest,
+    format: MEMORY_EXPORT_FORMAT,
+    counts: { entities: entities.length, relationships: relationships.length },
+    metadata,
+    entities: entities as BranchEntity[],
+    relationships: relationships as BranchRelationship[],
+  };
+}
+
+/**
+ * How an import treats entities whose id already exists in the target: `skip` keeps the
+ * existing entity, `overwrite` replaces it and `rename` imports it under a new id
+ */
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+export interface ImportOutcome {
+  entityType: BranchEntityType;
+  id: string;
+  outcome: 'created' | 'overwritten' | 'renamed' | 'linked' | 'skipped';
+  /** Id the entity was imported under, for renamed entities */
+  newId?: string;
+  error?: string;
+}
+
+export interface MemoryImportPlan {
+  /** Entities to write, already carrying their new ids */
+  entities: BranchEntity[];
+  /** Relationships to write, with endpoints pointing at renamed entities */
+  relationships: BranchRelationship[];
+  /** One outcome per entity of the export, in export order */
+  outcomes: ImportOutcome[];
+}
+
+/**
+ * Decide what an import writes, given the keys (see entityKey) of the entities that
+ * already exist in the target. sharedKeys are the files and tags that exist on other
+ * branches: like planBranchMerge, the import links them rather than moving them to the
+ * target, unless they are renamed.
+ */
+export function planMemoryImport(
+  doc: MemoryExport,
+  existingKeys: Set<string>,
+  policy: ImportConflictPolicy,
+  sharedKeys: Set<string> = new Set(),
+): MemoryImportPlan {
+  const taken = new Set([...existingKeys, ...doc.entities.map(entityKey)]);
+  const renamed = new Map<string, string>();
+  const plan: MemoryImportPlan = { entities: [], relationships: [], outcomes: [] };
+
+  for (const entity of doc.entities) {
+    const ref = { entityType: entity.entityType, id: entity.id };
+    if (!existingKeys.has(entityKey(entity))) {
+      plan.entities.push(entity);
+      plan.outcomes.push({ ...ref, outcome: 'created' });
+    } else if (sharedKeys.has(entityKey(entity)) && policy !== 'rename') {
+      plan.outcomes.push({ ...ref, outcome: 'linked' });
+    } else if (policy === 'overwrite') {
+      plan.entities.push(entity);
+      plan.outcomes.push({ ...ref, outcome: 'overwritten' });
+    } else if (policy === 'rename') {
+      let newId = `${entity.id}-imported`;
+      for (let suffix = 2; taken.has(entityKey({ ...ref, id: newId })); suffix++) {
+        newId = `${entity.id}-imported-${suffix}`;
+      }
+      taken.add(entityKey({ ...ref, id: newId }));
+      renamed.set(entityKey(entity), newId);
+      plan.entities.push({ ...entity, id: newId, properties: { ...entity.properties, id: newId } });
+      plan.outcomes.push({ ...ref, outcome: 'renamed', newId });
+    } else {
+      plan.outcomes.push({ ...ref, outcome: 'skipped' });
+    }
+  }
+
+  plan.relationships = doc.relationships.map((relationship) => ({
+    ...relationship,
+    fromId:
+      renamed.get(entityKey({ entityType: relationship.fromType, id: relationship.fromId })) ??
+      relationship.fromId,
+    toId:
+      renamed.get(entityKey({ entityType: relationship.toType, id: relationship.toId })) ??
+      relationship.toId,
+  }));
+
+  return plan;
+}
@@ -0,0 +1,442 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Rendering of the memory of one repository branch as a directory of markdown files for
+ * human review: an index, one page per component, decision and rule, a journal of the
+ * contexts grouped by day and mermaid diagrams of the DEPENDS_ON edges between components.
+ */
+
+export interface MarkdownRelatedItem {
+  id: string;
+  name?: string;
+  /** Node label, e.g. Component or Context */
+  type: string;
+}
+
+export interface MarkdownEntity {
+  id: string;
+  properties: Record<string, unknown>;
+  /** Items one relationship away, in any direction */
+  related: MarkdownRelatedItem[];
+}
+
+export interface MemoryMarkdownSource {
+  repository: string;
+  branch: string;
+  components: MarkdownEntity[];
+  decisions: MarkdownEntity[];
+  rules: MarkdownEntity[];
+  contexts: MarkdownEntity[];
+  /** DEPENDS_ON edges, from the dependent component to its dependency */
+  dependencies: Array<{ fromId: string; toId: string }>;
+}
+
+export interface MarkdownFile {
+  /** Path relative to the output directory, with forward slashes */
+  path: string;
+  content: string;
+}
+
+type PageType = 'Component' | 'Decision' | 'Rule';
+
+const PAGE_DIRECTORIES: Record<PageType, string> = {
+  Component: 'components',
+  Decision: 'decisions',
+  Rule: 'rules',
+};
+
+const JOURNAL_FILE = 'journal.md';
+const DEPENDENCIES_FILE = 'dependencies.md';
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string' && value !== '') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function formatDay(value: unknown): string | null {
+  return toDate(value)?.toISOString().slice(0, 10) ?? null;
+}
+
+function text(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(String).join(', ') : null;
+  }
+  return String(value);
+}
+
+function oneLine(value: string): string {
+  return value.replace(/\s*\r?\n\s*/g, ' ');
+}
+
+/**
+ * Single-line text that is safe inside link labels
+ */
+function inline(value: string): string {
+  return oneLine(value).replace(/([[\]])/g, '\\$1');
+}
+
+function slugify(id: string): string {
+  return id.replace(/[^A-Za-z0-9._-]/g, '_') || '_';
+}
+
+function displayName(type: string, entity: { id: string; properties: Record<string, unknown> }) {
+  const { properties } = entity;
+  const name =
+    type === 'Context'
+      ? text(properties.summary)
+      : (text(properties.name) ?? text(properties.title));
+  return name ?? entity.id;
+}
+
+/**
+ * Page paths of the components, decisions and rules, keyed by label and id.
+ * Ids are made file-name safe; ids that map to the same file name get a numeric suffix.
+ */
+function assignPagePaths(source: MemoryMarkdownSource): Map<string, string> {
+  const paths = new Map<string, string>();
+  const lists: Array<[PageType, MarkdownEntity[]]> = [
+    ['Component', source.components],
+    ['Decision', source.decisions],
+    ['Rule', source.rules],
+  ];
+  for (const [type, entities] of lists) {
+    const taken = new Set<string>();
+    for (const entity of entities) {
+      const slug = slugify(entity.id);
+      let fileName = `${slug}.md`;
+      for (let suffix = 2; taken.has(fileName.toLowerCase()); suffix++) {
+        fileName = `${slug}-${suffix}.md`;
+      }
+      taken.add(fileName.toLowerCase());
+      paths.set(`${type}:${entity.id}`, `${PAGE_DIRECTORIES[type]}/${fileName}`);
+    }
+  }
+  return paths;
+}
+
+function relativeLink(fromFile: string, toFile: string): string {
+  return path.posix.relative(path.posix.dirname(fromFile), toFile);
+}
+
+function bulletFields(fields: Array<[string, unknown]>): string[] {
+  return fields
+    .map(([label, value]) => [label, text(value)] as const)
+    .filter(([, value]) => value !== null)
+    .map(([label, value]) => `- **${label}:** ${oneLine(value as string)}`);
+}
+
+function section(title: string, body: string[], empty?: string): string[] {
+  if (body.length === 0 && empty === undefined) {
+    return [];
+  }
+  return [`## ${title}`, '', ...(body.length > 0 ? body : [empty as string]), ''];
+}
+
+function paragraph(title: string, value: unknown): string[] {
+  const body = text(value);
+  return body === null ? [] : [`## ${title}`, '', body.trim(), ''];
+}
+
+function mermaidLabel(value: string): string {
+  return `"${oneLine(value).replace(/"/g, '#quot;')}"`;
+}
+
+/**
+ * A mermaid flowchart of DEPENDS_ON edges; each arrow points from a component to the
+ * component it depends on
+ */
+export function renderDependencyDiagram(
+  edges: Array<{ fromId: string; toId: string }>,
+  names: Map<string, string> = new Map(),
+): string {
+  const nodeIds = new Map<string, string>();
+  const nodeId = (id: string) => {
+    if (!nodeIds.has(id)) {
+      nodeIds.set(id, `n${nodeIds.size}`);
+    }
+    return nodeIds.get(id) as string;
+  };
+  const lines = edges.map((edge) => `  ${nodeId(edge.fromId)} --> ${nodeId(edge.toId)}`);
+  const nodes = Array.from(
+    nodeIds,
+    ([id, node]) => `  ${node}[${mermaidLabel(names.get(id) ?? id)}]`,
+  );
+  return ['```mermaid', 'graph LR', ...nodes, ...lines, '```'].join('\n');
+}
+
+/**
+ * Render the memory of a branch as markdown files, in a stable order
+ */
+export function renderMemoryMarkdown(
+  source: MemoryMarkdownSource,
+  generatedAt: Date = new Date(),
+): MarkdownFile[] {
+  const pagePaths = assignPagePaths(source);
+  const componentNames = new Map(
+    source.components.map((component) => [component.id, displayName('Component', component)]),
+  );
+  const pages: Array<[PageType, MarkdownEntity]> = [
+    ...source.components.map((entity) => ['Component', entity] as [PageType, MarkdownEntity]),
+    ...source.decisions.map((entity) => ['Decision', entity] as [PageType, MarkdownEntity]),
+    ...source.rules.map((entity) => ['Rule', entity] as [PageType, MarkdownEntity]),
+  ];
+  const names = new Map<string, string>([
+    ...pages.map(([type, entity]): [string, string] => [
+      `${type}:${entity.id}`,
+      displayName(type, entity),
+    ]),
+    ...source.contexts.map((context): [string, string] => [
+      `Context:${context.id}`,
+      displayName('Context', context),
+    ]),
+  ]);
+
+  // Link to the page of an item, or to the journal for contexts; plain text otherwise
+  const link = (fromFile: string, item: MarkdownRelatedItem) => {
+    const key = `${item.type}:${item.id}`;
+    const label = inline(names.get(key) || item.name || item.id);
+    const target = item.type === 'Context' ? JOURNAL_FILE : pagePaths.get(key);
+    return target ? `[${label}](${relativeLink(fromFile, target)})` : label;
+  };
+  const relatedList = (fromFile: string, related: MarkdownRelatedItem[], skip?: string) =>
+    related
+      .filter((item) => item.type !== skip)
+      .map((item) => `- ${item.type}: ${link(fromFile, item)}`);
+
+  const files: MarkdownFile[] = [];
+  const dependenciesOf = (id: string) =>
+    source.dependencies.filter((edge) => edge.fromId === id).map((edge) => edge.toId);
+  const dependentsOf = (id: string) =>
+    source.dependencies.filter((edge) => edge.toId === id).map((edge) => edge.fromId);
+
+  for (const component of source.components) {
+    const file = pagePaths.get(`Component:${component.id}`) as string;
+    const { properties } = component;
+    const componentLink = (id: string) => `- ${link(file, { id, type: 'Component' })}`;
+    const dependencies = dependenciesOf(component.id);
+    const dependents = dependentsOf(component.id);
+    const edges = [
+      ...dependencies.map((toId) => ({ fromId: component.id, toId })),
+      ...dependents.map((fromId) => ({ fromId, toId: component.id })),
+    ];
+    files.push({
+      path: file,
+      content: [
+        `# ${inline(names.get(`Component:${component.id}`) as string)}`,
+        '',
+        ...bulletFields([
+          ['Id', `\`${component.id}\``],
+          ['Kind', properties.kind],
+          ['Status', properties.status],
+          ['Created', formatDay(properties.created_at)],
+          ['Updated', formatDay(properties.updated_at)],
+        ]),
+        '',
+        ...paragraph('Description', properties.description),
+        ...section('Depends on', dependencies.map(componentLink), 'None'),
+        ...section('Depended on by', dependents.map(componentLink), 'None'),
+        ...section(
+          'Dependency diagram',
+          edges.length > 0 ? [renderDependencyDiagram(edges, componentNames)] : [],
+        ),
+        ...section('Related', relatedList(file, component.related, 'Component')),
+      ].join('\n'),
+    });
+  }
+
+  for (const decision of source.decisions) {
+    const file = pagePaths.get(`Decision:${decision.id}`) as string;
+    const { properties } = decision;
+    files.push({
+      path: file,
+      content: [
+        `# ${inline(names.get(`Decision:${decision.id}`) as string)}`,
+        '',
+        ...bulletFields([
+          ['Id', `\`${decision.id}\``],
+          ['Status', properties.status],
+          ['Date', formatDay(properties.dateCreated ?? properties.date)],
+          ['Impact', properties.impact],
+          ['Tags', properties.tags],
+        ]),
+        '',
+        ...paragraph('Rationale', properties.rationale ?? properties.context),
+        ...section('Related', relatedList(file, decision.related)),
+      ].join('\n'),
+    });
+  }
+
+  for (const rule of source.rules) {
+    const file = pagePaths.get(`Rule:${rule.id}`) as string;
+    const { properties } = rule;
+    files.push({
+      path: file,
+      content: [
+        `# ${inline(names.get(`Rule:${rule.id}`) as string)}`,
+        '',
+        ...bulletFields([
+          ['Id', `\`${rule.id}\``],
+          ['Status', properties.status],
+          ['Scope', properties.scope],
+          ['Severity', properties.severity],
+          ['Category', properties.category],
+          ['Created', formatDay(properties.created_at ?? properties.created)],
+        ]),
+        '',
+        ...paragraph('Description', properties.description ?? properties.content),
+        ...paragraph('Examples', properties.examples),
+        ...section('Related', relatedList(file, rule.related)),
+      ].join('\n'),
+    });
+  }
+
+  files.push({ path: JOURNAL_FILE, content: renderJournal(source.contexts, link) });
+  files.push({
+    path: DEPENDENCIES_FILE,
+    content: [
+      '# Component dependencies',
+      '',
+      'Each arrow points from a component to a component it depends on.',
+      '',
+      source.dependencies.length > 0
+        ? renderDependencyDiagram(source.dependencies, componentNames)
+        : 'No DEPENDS_ON relationships.',
+      '',
+    ].join('\n'),
+  });
+
+  const indexList = (type: PageType, entities: MarkdownEntity[], details: string[][]) =>
+    entities.map((entity, index) => {
+      const summary = details[index].filter(Boolean).join(', ');
+      return `- ${link('index.md', { id: entity.id, type })}${summary ? ` — ${inline(summary)}` : ''}`;
+    });
+  files.unshift({
+    path: 'index.md',
+    content: [
+      `# Memory bank: ${inline(source.repository)} (${inline(source.branch)})`,
+      '',
+      `Generated ${generatedAt.toISOString()} from repository \`${source.repository}\`, branch \`${source.branch}\`.`,
+      '',
+      `- **Components:** ${source.components.length}`,
+      `- **Decisions:** ${source.decisions.length}`,
+      `- **Rules:** ${source.rules.length}`,
+      `- **Contexts:** ${source.contexts.length} ([journal](${JOURNAL_FILE}))`,
+      `- **Dependencies:** ${source.dependencies.length} ([diagram](${DEPENDENCIES_FILE}))`,
+      '',
+      ...section(
+        'Components',
+        indexList(
+          'Component',
+          source.components,
+          source.components.map(({ properties }) => [
+            text(properties.kind) ?? '',
+            text(properties.status) ?? '',
+          ]),
+        ),
+        'None',
+      ),
+      ...section(
+        'Decisions',
+        indexList(
+          'Decision',
+          source.decisions,
+          source.decisions.map(({ properties }) => [
+            text(properties.status) ?? '',
+            formatDay(properties.dateCreated ?? properties.date) ?? '',
+          ]),
+        ),
+        'None',
+      ),
+      ...section(
+        'Rules',
+        indexList(
+          'Rule',
+          source.rules,
+          source.rules.map(({ properties }) => [
+            text(properties.status) ?? '',
+            text(properties.severity) ?? '',
+          ]),
+        ),
+        'None',
+      ),
+    ].join('\n'),
+  });
+
+  return files;
+}
+
+/**
+ * Contexts grouped by day, newest day first and oldest first within a day. A context is
+ * dated by its timestamp, falling back to when it was created.
+ */
+function renderJournal(
+  contexts: MarkdownEntity[],
+  link: (fromFile: string, item: MarkdownRelatedItem) => string,
+): string {
+  const dated = contexts
+    .map((context) => ({
+      context,
+      date: toDate(context.properties.timestamp) ?? toDate(context.properties.created_at),
+    }))
+    .sort(
+      (a, b) =>
+        (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0) ||
+        a.context.id.localeCompare(b.context.id),
+    );
+  const days = new Map<string, typeof dated>();
+  for (const entry of dated) {
+    const day = entry.date ? entry.date.toISOString().slice(0, 10) : 'Undated';
+    days.set(day, [...(days.get(day) ?? []), entry]);
+  }
+
+  const lines = ['# Journal', ''];
+  if (days.size === 0) {
+    lines.push('No contexts recorded.', '');
+  }
+  const order = Array.from(days.keys()).sort((a, b) =>
+    a === 'Undated' ? 1 : b === 'Undated' ? -1 : b.localeCompare(a),
+  );
+  for (const day of order) {
+    lines.push(`## ${day}`, '');
+    for (const { context } of days.get(day) as typeof dated) {
+      const { properties } = context;
+      lines.push(
+        `### ${inline(displayName('Context', context))}`,
+        '',
+        ...bulletFields([
+          ['Id', `\`${context.id}\``],
+          ['Agent', properties.agent],
+          ['Related', context.related.map((item) => link(JOURNAL_FILE, item)).join(', ')],
+        ]),
+        '',
+      );
+      const observation = text(properties.observation);
+      if (observation) {
+        lines.push(observation.trim(), '');
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Write rendered files below a directory, creating it as needed. Existing files with the
+ * same paths are replaced; other files in the directory are left alone.
+ */
+export async function writeMarkdownFiles(outputDir: string, files: MarkdownFile[]): Promise<void> {
+  for (const file of files) {
+    const filePath = path.join(outputDir, ...file.path.split('/'));
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, file.content, 'utf-8');
+  }
+}
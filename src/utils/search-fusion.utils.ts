@@ -0,0 +1,100 @@
+/**
+ * Rank fusion helpers used by the hybrid search mode to merge full-text and
+ * vector similarity result lists.
+ */
+
+export type FusionStrategy = 'rrf' | 'weighted';
+
+/**
+ * Constant from the original reciprocal rank fusion paper; dampens the
+ * influence of the top ranks so that agreement between lists dominates.
+ */
+export const DEFAULT_RRF_K = 60;
+
+export interface RankedItem {
+  key: string;
+  score: number;
+}
+
+export interface FusedItem {
+  key: string;
+  ftsScore?: number;
+  vectorScore?: number;
+  fusedScore: number;
+}
+
+export interface FusionOptions {
+  strategy: FusionStrategy;
+  /** Weight of the vector score for weighted blending (0.0-1.0) */
+  semanticWeight?: number;
+  /** Rank constant for reciprocal rank fusion */
+  rrfK?: number;
+}
+
+/**
+ * Merges a full-text and a vector result list into a single ranking.
+ * - rrf: sum of 1 / (k + rank) over the lists an item appears in (rank is 1-based)
+ * - weighted: (1 - w) * normalized full-text score + w * vector score, where
+ *   full-text scores are divided by the best full-text score and negative
+ *   cosine similarities count as 0
+ * Input lists are expected to be ordered best first. Items missing from a list
+ * contribute nothing for that list.
+ * @returns Fused items ordered by descending fused score.
+ */
+export function fuseRankings(
+  ftsResults: RankedItem[],
+  vectorResults: RankedItem[],
+  options: FusionOptions,
+): FusedItem[] {
+  const fused = new Map<string, FusedItem>();
+  const getItem = (key: string): FusedItem => {
+    let item = fused.get(key);
+    if (!item) {
+      item = { key, fusedScore: 0 };
+      fused.set(key, item);
+    }
+    return item;
+  };
+
+  for (const result of ftsResults) {
+    const item = getItem(result.key);
+    if (item.ftsScore === undefined) {
+      item.ftsScore = result.score;
+    }
+  }
+  for (const result of vectorResults) {
+    const item = getItem(result.key);
+    if (item.vectorScore === undefined) {
+      item.vectorScore = result.score;
+    }
+  }
+
+  if (options.strategy === 'rrf') {
+    const k = options.rrfK ?? DEFAULT_RRF_K;
+    const addRanks = (results: RankedItem[]) => {
+      const seen = new Set<string>();
+      let rank = 0;
+      for (const result of results) {
+        if (seen.has(result.key)) {
+          continue;
+        }
+        seen.add(result.key);
+        rank++;
+        getItem(result.key).fusedScore += 1 / (k + rank);
+      }
+    };
+    addRanks(ftsResults);
+    addRanks(vectorResults);
+  } else {
+    const weight = options.semanticWeight ?? 0.5;
+    const maxFtsScore = Math.max(0, ...ftsResults.map((result) => result.score));
+    for (const item of Array.from(fused.values())) {
+      const ftsComponent =
+        item.ftsScore !== undefined && maxFtsScore > 0 ? item.ftsScore / maxFtsScore : 0;
+      const vectorComponent = Math.max(0, item.vectorScore ?? 0);
+      item.fusedScore = (1 - weight) * ftsComponent + weight * vectorComponent;
+    }
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+}
@@ -0,0 +1,148 @@
+/**
+ * Snapshot chains: a snapshot stores either the full state of a branch (a base) or the
+ * changes since its parent snapshot (a delta). Replaying the deltas of a chain onto its
+ * base gives the state of the branch when the last snapshot of the chain was taken.
+ */
+
+export type SnapshotKind = 'base' | 'delta';
+
+export interface SnapshotEntity {
+  properties: Record<string, any>;
+  nodeLabels: string[] | string;
+}
+
+export interface SnapshotRelationship {
+  fromId: string;
+  toId: string;
+  relationshipType: string;
+  fromLabel?: string;
+  toLabel?: string;
+  /** graph_unique_id of endpoints keyed by it rather than by id */
+  fromUniqueId?: string;
+  toUniqueId?: string;
+  properties: Record<string, any>;
+}
+
+export interface SnapshotState {
+  entities: SnapshotEntity[];
+  relationships: SnapshotRelationship[];
+  metadata: any;
+}
+
+export interface SnapshotDelta {
+  /** Entities added or changed since the parent snapshot */
+  entities: SnapshotEntity[];
+  /** Keys of entities removed since the parent snapshot, see snapshotEntityKey */
+  removedEntities: string[];
+  /** Relationships added or changed since the parent snapshot */
+  relationships: SnapshotRelationship[];
+  /** Keys of relationships removed since the parent snapshot, see snapshotRelationshipKey */
+  removedRelationships: string[];
+  /** Repository metadata, when it changed since the parent snapshot */
+  metadata?: any;
+}
+
+export function snapshotLabel(entity: Pick<SnapshotEntity, 'nodeLabels'>): string {
+  return (Array.isArray(entity.nodeLabels) ? entity.nodeLabels[0] : entity.nodeLabels) ?? '';
+}
+
+export function snapshotEntityKey(entity: SnapshotEntity): string {
+  const { properties } = entity;
+  return `${snapshotLabel(entity)}:${properties.graph_unique_id ?? properties.id}`;
+}
+
+export function snapshotRelationshipKey(relationship: SnapshotRelationship): string {
+  const from = relationship.fromUniqueId ?? relationship.fromId;
+  const to = relationship.toUniqueId ?? relationship.toId;
+  return `${relationship.relationshipType}:${relationship.fromLabel}:${from}->${relationship.toLabel}:${to}`;
+}
+
+/** JSON with sorted keys, so equal records compare equal whatever their key order */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested,
+  );
+}
+
+function changedRecords<T>(
+  previous: T[],
+  current: T[],
+  key: (record: T) => string,
+): { changed: T[]; removed: string[] } {
+  const previousByKey = new Map(previous.map((record) => [key(record), canonicalJson(record)]));
+  const currentKeys = new Set<string>();
+  const changed: T[] = [];
+  for (const record of current) {
+    const recordKey = key(record);
+    currentKeys.add(recordKey);
+    if (previousByKey.get(recordKey) !== canonicalJson(record)) {
+      changed.push(record);
+    }
+  }
+  const removed = [...previousByKey.keys()].filter((recordKey) => !currentKeys.has(recordKey));
+  return { changed, removed };
+}
+
+/**
+ * The changes that turn the previous state into the current one
+ */
+export function diffSnapshotStates(previous: SnapshotState, current: SnapshotState): SnapshotDelta {
+  const entities = changedRecords(previous.entities, current.entities, snapshotEntityKey);
+  const relationships = changedRecords(
+    previous.relationships,
+    current.relationships,
+    snapshotRelationshipKey,
+  );
+  return {
+    entities: entities.changed,
+    removedEntities: entities.removed,
+    relationships: relationships.changed,
+    removedRelationships: relationships.removed,
+    ...(canonicalJson(previous.metadata) !== canonicalJson(current.metadata)
+      ? { metadata: current.metadata }
+      : {}),
+  };
+}
+
+function applyChanges<T>(
+  records: T[],
+  changed: T[],
+  removed: string[],
+  key: (record: T) => string,
+): T[] {
+  const byKey = new Map(records.map((record) => [key(record), record]));
+  for (const recordKey of removed) {
+    byKey.delete(recordKey);
+  }
+  for (const record of changed) {
+    byKey.set(key(record), record);
+  }
+  return [...byKey.values()];
+}
+
+export function applySnapshotDelta(state: SnapshotState, delta: SnapshotDelta): SnapshotState {
+  return {
+    entities: applyChanges(
+      state.entities,
+      delta.entities,
+      delta.removedEntities,
+      snapshotEntityKey,
+    ),
+    relationships: applyChanges(
+      state.relationships,
+      delta.relationships,
+      delta.removedRelationships,
+      snapshotRelationshipKey,
+    ),
+    metadata: 'metadata' in delta ? delta.metadata : state.metadata,
+  };
+}
+
+/**
+ * State at the end of a chain: the base with every delta applied in order
+ */
+export function replaySnapshotChain(base: SnapshotState, deltas: SnapshotDelta[]): SnapshotState {
+  return deltas.reduce(applySnapshotDelta, base);
+}
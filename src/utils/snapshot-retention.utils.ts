@@ -0,0 +1,158 @@
+/**
+ * Snapshot policies: when a branch is snapshotted on a schedule and which of its
+ * snapshots the retention rules keep. Days and weeks are UTC; weeks start on Monday.
+ */
+
+export const SNAPSHOT_SCHEDULES = ['none', 'hourly', 'daily', 'weekly'] as const;
+
+export type SnapshotSchedule = (typeof SNAPSHOT_SCHEDULES)[number];
+
+/** Operations that take a snapshot of the branches they change when a policy asks for it */
+export type SnapshotTrigger = 'bulk-delete' | 'bulk-import';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const SCHEDULE_INTERVALS_MS: Record<Exclude<SnapshotSchedule, 'none'>, number> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface SnapshotRetention {
+  /** Keep the newest N snapshots */
+  keepLast?: number;
+  /** Keep the newest snapshot of each of the last N days */
+  keepDaily?: number;
+  /** Keep the newest snapshot of each of the last N weeks */
+  keepWeekly?: number;
+}
+
+export interface SnapshotPolicy {
+  repository: string;
+  branch: string;
+  schedule: SnapshotSchedule;
+  beforeBulkDelete: boolean;
+  beforeBulkImport: boolean;
+  /** Snapshots outside every rule are pruned; without rules nothing is pruned */
+  retention: SnapshotRetention;
+  /** When the last scheduled snapshot was taken */
+  lastScheduledAt?: string;
+  updated: string;
+}
+
+/** The settable part of a policy; omitted settings keep their current value */
+export interface SnapshotPolicySettings {
+  schedule?: SnapshotSchedule;
+  beforeBulkDelete?: boolean;
+  beforeBulkImport?: boolean;
+  retention?: SnapshotRetention;
+}
+
+export interface SnapshotRetentionPlan {
+  keep: string[];
+  prune: string[];
+}
+
+export function hasRetentionRules(retention: SnapshotRetention): boolean {
+  return (
+    retention.keepLast !== undefined ||
+    retention.keepDaily !== undefined ||
+    retention.keepWeekly !== undefined
+  );
+}
+
+export function policyHasTrigger(policy: SnapshotPolicy, trigger: SnapshotTrigger): boolean {
+  return trigger === 'bulk-delete' ? policy.beforeBulkDelete : policy.beforeBulkImport;
+}
+
+/**
+ * Whether the scheduled snapshot of a policy is due: it never ran, or its interval
+ * has passed since the last scheduled snapshot
+ */
+export function isScheduledSnapshotDue(policy: SnapshotPolicy, now: Date): boolean {
+  if (policy.schedule === 'none') {
+    return false;
+  }
+  if (!policy.lastScheduledAt) {
+    return true;
+  }
+  const last = new Date(policy.lastScheduledAt).getTime();
+  return isNaN(last) || now.getTime() - last >= SCHEDULE_INTERVALS_MS[policy.schedule];
+}
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function startOfUtcWeek(date: Date): number {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return startOfUtcDay(date) - daysSinceMonday * DAY_MS;
+}
+
+/**
+ * Keep the newest snapshot of each period from the current one back `count` periods
+ */
+function newestPerPeriod(
+  snapshots: Array<{ id: string; time: number }>,
+  count: number,
+  now: Date,
+  periodStart: (date: Date) => number,
+  periodMs: number,
+): string[] {
+  const oldest = periodStart(now) - (count - 1) * periodMs;
+  const kept = new Map<number, string>();
+  for (const snapshot of snapshots) {
+    const period = periodStart(new Date(snapshot.time));
+    if (period >= oldest && !kept.has(period)) {
+      kept.set(period, snapshot.id);
+    }
+  }
+  return [...kept.values()];
+}
+
+/**
+ * Split the snapshots of a branch into those kept by any retention rule and those to
+ * prune. Snapshots with an unreadable creation time are always kept.
+ */
+export function planSnapshotRetention(
+  snapshots: Array<{ id: string; created: string }>,
+  retention: SnapshotRetention,
+  now: Date,
+): SnapshotRetentionPlan {
+  if (!hasRetentionRules(retention)) {
+    return { keep: snapshots.map((snapshot) => snapshot.id), prune: [] };
+  }
+
+  const timed = snapshots.map((snapshot) => ({
+    id: snapshot.id,
+    time: new Date(snapshot.created).getTime(),
+  }));
+  const valid = timed.filter((snapshot) => !isNaN(snapshot.time)).sort((a, b) => b.time - a.time);
+
+  const keep = new Set(timed.filter((snapshot) => isNaN(snapshot.time)).map(({ id }) => id));
+  for (const snapshot of valid.slice(0, retention.keepLast ?? 0)) {
+    keep.add(snapshot.id);
+  }
+  if (retention.keepDaily) {
+    for (const id of newestPerPeriod(valid, retention.keepDaily, now, startOfUtcDay, DAY_MS)) {
+      keep.add(id);
+    }
+  }
+  if (retention.keepWeekly) {
+    for (const id of newestPerPeriod(
+      valid,
+      retention.keepWeekly,
+      now,
+      startOfUtcWeek,
+      7 * DAY_MS,
+    )) {
+      keep.add(id);
+    }
+  }
+
+  return {
+    keep: [...keep],
+    prune: valid.filter(({ id }) => !keep.has(id)).map(({ id }) => id),
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Vector math helpers used by the embedding and semantic search services.
+ */
+
+/**
+ * Computes the cosine similarity between two vectors.
+ * Returns 0 when either vector has zero magnitude or the dimensions differ.
+ * @param a The first vector.
+ * @param b The second vector.
+ * @returns Cosine similarity in the range [-1, 1].
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (!a || !b || a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Scales a vector in place to unit length. Zero vectors are returned unchanged.
+ * @param vector The vector to normalize.
+ * @returns The same vector instance, normalized.
+ */
+export function l2Normalize(vector: number[]): number[] {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  if (norm === 0) {
+    return vector;
+  }
+  const scale = 1 / Math.sqrt(norm);
+  for (let i = 0; i < vector.length; i++) {
+    vector[i] *= scale;
+  }
+  return vector;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string. Deterministic across processes and platforms,
+ * which makes it suitable for feature hashing.
+ * @param input The string to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+export function fnv1aHash(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}